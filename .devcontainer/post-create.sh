@@ -86,7 +86,6 @@ fi
 # Frontend environment file
 if [ -d "movie-price-frontend" ] && [ ! -f "movie-price-frontend/.env.development" ]; then
     cat > movie-price-frontend/.env.development << 'EOF'
-REACT_APP_API_URL=http://localhost:5091
 REACT_APP_ENVIRONMENT=development
 GENERATE_SOURCEMAP=true
 EOF
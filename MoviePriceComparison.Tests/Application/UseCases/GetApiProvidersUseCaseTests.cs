@@ -0,0 +1,83 @@
+using FluentAssertions;
+using Moq;
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Domain.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Application.UseCases
+{
+    [TestFixture]
+    public class GetApiProvidersUseCaseTests
+    {
+        private Mock<IApiProviderService> _mockApiProviderService;
+        private GetApiProvidersUseCase _useCase;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _mockApiProviderService = new Mock<IApiProviderService>();
+            _useCase = new GetApiProvidersUseCase(_mockApiProviderService.Object);
+        }
+
+        [Test]
+        public async Task ExecuteAsync_ShouldReturnProvidersByPriorityWithoutTokens()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProvidersAsync())
+                .ReturnsAsync(new List<ApiProvider>
+                {
+                    new ApiProvider { Id = "filmworld", DisplayName = "Filmworld", ApiToken = "secret", Priority = 2 },
+                    new ApiProvider { Id = "cinemaworld", DisplayName = "Cinemaworld", ApiToken = "", Priority = 1, IsEnabled = false }
+                });
+
+            // Act
+            var result = (await _useCase.ExecuteAsync()).ToList();
+
+            // Assert
+            result.Select(x => x.Id).Should().Equal("cinemaworld", "filmworld");
+            result[0].HasApiToken.Should().BeFalse();
+            result[0].IsEnabled.Should().BeFalse();
+            result[1].HasApiToken.Should().BeTrue();
+            typeof(ApiProviderDto).GetProperty("ApiToken").Should().BeNull();
+        }
+
+        [Test]
+        public async Task ExecuteAsync_WithProviderId_ShouldReturnProvider()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("filmworld"))
+                .ReturnsAsync(new ApiProvider { Id = "filmworld", DisplayName = "Filmworld", BaseUrl = "https://example.com/api/filmworld" });
+
+            // Act
+            var result = await _useCase.ExecuteAsync("filmworld");
+
+            // Assert
+            result.Should().NotBeNull();
+            result!.DisplayName.Should().Be("Filmworld");
+            result.BaseUrl.Should().Be("https://example.com/api/filmworld");
+        }
+
+        [Test]
+        public async Task ExecuteAsync_WithNonExistentProviderId_ShouldReturnNull()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("unknown"))
+                .ReturnsAsync((ApiProvider?)null);
+
+            // Act
+            var result = await _useCase.ExecuteAsync("unknown");
+
+            // Assert
+            result.Should().BeNull();
+        }
+
+        [Test]
+        public void Constructor_WithNullApiProviderService_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var act = () => new GetApiProvidersUseCase(null!);
+            act.Should().Throw<ArgumentNullException>().WithParameterName("apiProviderService");
+        }
+    }
+}
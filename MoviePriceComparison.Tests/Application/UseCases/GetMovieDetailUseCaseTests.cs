@@ -12,15 +12,13 @@ namespace MoviePriceComparison.Tests.Application.UseCases
     public class GetMovieDetailUseCaseTests
     {
         private Mock<IMovieRepository> _mockMovieRepository;
-        private Mock<HttpClient> _mockHttpClient;
         private GetMovieDetailUseCase _useCase;
 
         [SetUp]
         public void SetUp()
         {
             _mockMovieRepository = new Mock<IMovieRepository>();
-            _mockHttpClient = new Mock<HttpClient>();
-            _useCase = new GetMovieDetailUseCase(_mockMovieRepository.Object, _mockHttpClient.Object);
+            _useCase = new GetMovieDetailUseCase(_mockMovieRepository.Object);
         }
 
         [Test]
@@ -61,7 +59,8 @@ namespace MoviePriceComparison.Tests.Application.UseCases
 
             // Assert
             result.Should().NotBeNull();
-            result!.Title.Should().Be("Star Wars");
+            result!.Id.Should().Be("star-wars-1977");
+            result.Title.Should().Be("Star Wars");
             result.Year.Should().Be("1977");
             result.Genre.Should().Be("Sci-Fi");
             result.Director.Should().Be("George Lucas");
@@ -73,6 +72,37 @@ namespace MoviePriceComparison.Tests.Application.UseCases
             result.CheapestPrice!.Price.Should().Be(25.99m);
         }
 
+        [Test]
+        public async Task ExecuteAsync_WithCanonicalId_ShouldReturnMovieDetail()
+        {
+            // Arrange
+            var movies = new List<MovieSummary>
+            {
+                new MovieSummary { Title = "Star Wars", Year = "1977" },
+                new MovieSummary
+                {
+                    Title = "The Empire Strikes Back",
+                    Year = "1980",
+                    ProviderSpecificDetails = new List<MovieProviderDetail>
+                    {
+                        new MovieProviderDetail { ProviderId = "cinemaworld", Provider = "Cinemaworld", MovieId = "cw002", Price = 12.5m }
+                    }
+                }
+            };
+
+            _mockMovieRepository.Setup(x => x.GetAllAsync())
+                .ReturnsAsync(movies);
+
+            // Act
+            var result = await _useCase.ExecuteAsync("the-empire-strikes-back-1980");
+
+            // Assert
+            result.Should().NotBeNull();
+            result!.Id.Should().Be("the-empire-strikes-back-1980");
+            result.Title.Should().Be("The Empire Strikes Back");
+            result.Prices.Should().ContainSingle(x => x.MovieId == "cw002");
+        }
+
         [Test]
         public async Task ExecuteAsync_WithNonExistentMovieId_ShouldReturnNull()
         {
@@ -214,17 +244,10 @@ namespace MoviePriceComparison.Tests.Application.UseCases
         public void Constructor_WithNullRepository_ShouldThrowArgumentNullException()
         {
             // Act & Assert
-            var action = () => new GetMovieDetailUseCase(null!, _mockHttpClient.Object);
+            var action = () => new GetMovieDetailUseCase(null!);
             action.Should().Throw<ArgumentNullException>();
         }
 
-        [Test]
-        public void Constructor_WithNullHttpClient_ShouldThrowArgumentNullException()
-        {
-            // Act & Assert
-            var action = () => new GetMovieDetailUseCase(_mockMovieRepository.Object, null!);
-            action.Should().Throw<ArgumentNullException>();
-        }
 
         [Test]
         public async Task ExecuteAsync_ShouldMapAllMovieProperties()
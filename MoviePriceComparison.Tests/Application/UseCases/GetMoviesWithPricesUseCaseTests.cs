@@ -12,15 +12,13 @@ namespace MoviePriceComparison.Tests.Application.UseCases
     public class GetMoviesWithPricesUseCaseTests
     {
         private Mock<IMovieRepository> _mockMovieRepository;
-        private Mock<HttpClient> _mockHttpClient;
         private GetMoviesWithPricesUseCase _useCase;
 
         [SetUp]
         public void SetUp()
         {
             _mockMovieRepository = new Mock<IMovieRepository>();
-            _mockHttpClient = new Mock<HttpClient>();
-            _useCase = new GetMoviesWithPricesUseCase(_mockMovieRepository.Object, _mockHttpClient.Object);
+            _useCase = new GetMoviesWithPricesUseCase(_mockMovieRepository.Object);
         }
 
         [Test]
@@ -104,6 +102,40 @@ namespace MoviePriceComparison.Tests.Application.UseCases
             avatar.CheapestPrice!.Price.Should().Be(29.99m);
         }
 
+        [Test]
+        public async Task ExecuteAsync_ShouldListOnePosterCandidatePerProviderInOrder()
+        {
+            // Arrange
+            var movies = new List<MovieSummary>
+            {
+                new MovieSummary
+                {
+                    Title = "Star Wars",
+                    Year = "1977",
+                    ProviderSpecificDetails = new List<MovieProviderDetail>
+                    {
+                        new MovieProviderDetail { ProviderId = "cinemaworld", Provider = "Cinemaworld", MovieId = "cw001", PosterUrl = "https://cinemaworld.com/poster1.jpg" },
+                        new MovieProviderDetail { ProviderId = "filmworld", Provider = "Filmworld", MovieId = "fw001", PosterUrl = "" },
+                        new MovieProviderDetail { ProviderId = "moviemax", Provider = "MovieMax", MovieId = "mm001", PosterUrl = "https://cinemaworld.com/poster1.jpg" },
+                        new MovieProviderDetail { ProviderId = "filmhouse", Provider = "Filmhouse", MovieId = "fh001", PosterUrl = "https://filmhouse.com/poster1.jpg" }
+                    }
+                }
+            };
+
+            _mockMovieRepository.Setup(x => x.GetAllAsync())
+                .ReturnsAsync(movies);
+
+            // Act
+            var result = await _useCase.ExecuteAsync();
+
+            // Assert
+            var movie = result.Single();
+            movie.Posters.Select(p => (p.ProviderId, p.Url)).Should().Equal(
+                ("cinemaworld", "https://cinemaworld.com/poster1.jpg"),
+                ("filmhouse", "https://filmhouse.com/poster1.jpg"));
+            movie.Poster.Should().Be("https://cinemaworld.com/poster1.jpg");
+        }
+
         [Test]
         public async Task ExecuteAsync_WithNoMovies_ShouldReturnEmptyList()
         {
@@ -229,6 +261,7 @@ namespace MoviePriceComparison.Tests.Application.UseCases
             // Assert
             result.Should().HaveCount(1);
             var movie = result.First();
+            movie.Id.Should().Be("complete-movie-2023");
             movie.Title.Should().Be("Complete Movie");
             movie.Year.Should().Be("2023");
             movie.Genre.Should().Be("Drama");
@@ -255,17 +288,10 @@ namespace MoviePriceComparison.Tests.Application.UseCases
         public void Constructor_WithNullRepository_ShouldThrowArgumentNullException()
         {
             // Act & Assert
-            var action = () => new GetMoviesWithPricesUseCase(null!, _mockHttpClient.Object);
+            var action = () => new GetMoviesWithPricesUseCase(null!);
             action.Should().Throw<ArgumentNullException>();
         }
 
-        [Test]
-        public void Constructor_WithNullHttpClient_ShouldThrowArgumentNullException()
-        {
-            // Act & Assert
-            var action = () => new GetMoviesWithPricesUseCase(_mockMovieRepository.Object, null!);
-            action.Should().Throw<ArgumentNullException>();
-        }
 
         [Test]
         public async Task ExecuteAsync_WithEmptyProviderSpecificDetails_ShouldHandleGracefully()
@@ -316,6 +342,53 @@ namespace MoviePriceComparison.Tests.Application.UseCases
             result.Select(m => m.Title).Should().Contain(new[] { "Movie 1", "Movie 2", "Movie 3" });
         }
 
+        [Test]
+        public async Task ExecutePageAsync_ShouldReturnRequestedSliceWithTotals()
+        {
+            // Arrange
+            var movies = Enumerable.Range(1, 5)
+                .Select(i => new MovieSummary { Title = $"Movie {i}", Year = "2020" })
+                .ToList();
+
+            _mockMovieRepository.Setup(x => x.GetAllAsync())
+                .ReturnsAsync(movies);
+
+            // Act
+            var result = await _useCase.ExecutePageAsync(2, 2);
+
+            // Assert
+            result.Items.Select(m => m.Title).Should().Equal("Movie 3", "Movie 4");
+            result.Page.Should().Be(2);
+            result.PageSize.Should().Be(2);
+            result.TotalCount.Should().Be(5);
+            result.TotalPages.Should().Be(3);
+        }
+
+        [Test]
+        public async Task ExecutePageAsync_PastTheLastPage_ShouldReturnNoItems()
+        {
+            // Arrange
+            _mockMovieRepository.Setup(x => x.GetAllAsync())
+                .ReturnsAsync(new List<MovieSummary> { new MovieSummary { Title = "Movie 1" } });
+
+            // Act
+            var result = await _useCase.ExecutePageAsync(3, 10);
+
+            // Assert
+            result.Items.Should().BeEmpty();
+            result.TotalCount.Should().Be(1);
+            result.TotalPages.Should().Be(1);
+        }
+
+        [TestCase(0, 10)]
+        [TestCase(1, 0)]
+        public async Task ExecutePageAsync_WithInvalidPaging_ShouldThrowArgumentOutOfRangeException(int page, int pageSize)
+        {
+            // Act & Assert
+            var action = async () => await _useCase.ExecutePageAsync(page, pageSize);
+            await action.Should().ThrowAsync<ArgumentOutOfRangeException>();
+        }
+
         [Test]
         public async Task ExecuteAsync_WithValidPrices_ShouldCalculateCheapestCorrectly()
         {
@@ -0,0 +1,91 @@
+using FluentAssertions;
+using Moq;
+using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Domain.Repositories;
+using MoviePriceComparison.Domain.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Application.UseCases
+{
+    [TestFixture]
+    public class GetPosterUseCaseTests
+    {
+        private Mock<IMovieRepository> _mockMovieRepository;
+        private Mock<IPosterImageService> _mockPosterImageService;
+        private GetPosterUseCase _useCase;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _mockMovieRepository = new Mock<IMovieRepository>();
+            _mockPosterImageService = new Mock<IPosterImageService>();
+            _useCase = new GetPosterUseCase(_mockMovieRepository.Object, _mockPosterImageService.Object);
+
+            _mockMovieRepository.Setup(x => x.GetAllAsync())
+                .ReturnsAsync(new List<MovieSummary>
+                {
+                    new MovieSummary
+                    {
+                        Title = "Star Wars",
+                        Year = "1977",
+                        ProviderSpecificDetails = new List<MovieProviderDetail>
+                        {
+                            new MovieProviderDetail { ProviderId = "cinemaworld", Provider = "Cinemaworld", MovieId = "cw001", PosterUrl = "https://cinemaworld.com/poster.jpg" },
+                            new MovieProviderDetail { ProviderId = "filmworld", Provider = "Filmworld", MovieId = "fw001" }
+                        }
+                    }
+                });
+        }
+
+        [Test]
+        public async Task ExecuteAsync_ShouldLoadTheProvidersPosterAtTheRequestedWidth()
+        {
+            // Arrange
+            var poster = new PosterImage { Content = new byte[] { 1, 2, 3 }, ContentType = "image/jpeg", Width = 400 };
+            _mockPosterImageService.Setup(x => x.GetAsync("https://cinemaworld.com/poster.jpg", 300, It.IsAny<CancellationToken>()))
+                .ReturnsAsync(poster);
+
+            // Act
+            var result = await _useCase.ExecuteAsync("star-wars-1977", "CinemaWorld", 300);
+
+            // Assert
+            result.Should().BeSameAs(poster);
+        }
+
+        [Test]
+        public async Task ExecuteAsync_WithProviderSpecificMovieId_ShouldFindTheMovie()
+        {
+            // Arrange
+            _mockPosterImageService.Setup(x => x.GetAsync(It.IsAny<string>(), It.IsAny<int?>(), It.IsAny<CancellationToken>()))
+                .ReturnsAsync(new PosterImage { Content = new byte[] { 1 }, ContentType = "image/jpeg" });
+
+            // Act
+            var result = await _useCase.ExecuteAsync("fw001", "cinemaworld", null);
+
+            // Assert
+            result.Should().NotBeNull();
+        }
+
+        [TestCase("star-wars-1977", "filmworld")]
+        [TestCase("star-wars-1977", "moviemax")]
+        [TestCase("avatar-2009", "cinemaworld")]
+        public async Task ExecuteAsync_WithoutAPosterUrl_ShouldReturnNullWithoutFetching(string movieId, string providerId)
+        {
+            // Act
+            var result = await _useCase.ExecuteAsync(movieId, providerId, 400);
+
+            // Assert
+            result.Should().BeNull();
+            _mockPosterImageService.Verify(x => x.GetAsync(It.IsAny<string>(), It.IsAny<int?>(), It.IsAny<CancellationToken>()), Times.Never);
+        }
+
+        [Test]
+        public void Constructor_WithNullPosterImageService_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var action = () => new GetPosterUseCase(_mockMovieRepository.Object, null!);
+            action.Should().Throw<ArgumentNullException>();
+        }
+    }
+}
@@ -0,0 +1,97 @@
+using FluentAssertions;
+using Microsoft.Extensions.Options;
+using Moq;
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Domain.Services;
+using MoviePriceComparison.Infrastructure.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Application.UseCases
+{
+    [TestFixture]
+    public class GetProviderStatusUseCaseTests
+    {
+        private Mock<IApiProviderService> _mockApiProviderService;
+        private ProviderStatusService _providerStatusService;
+        private GetProviderStatusUseCase _useCase;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _mockApiProviderService = new Mock<IApiProviderService>();
+            _providerStatusService = new ProviderStatusService();
+            _useCase = new GetProviderStatusUseCase(
+                _mockApiProviderService.Object,
+                _providerStatusService,
+                Options.Create(new ProviderStatusSettings { StaleAfterMinutes = 10 }));
+
+            _mockApiProviderService.Setup(x => x.GetApiProvidersAsync())
+                .ReturnsAsync(new List<ApiProvider>
+                {
+                    new ApiProvider { Id = "filmworld", DisplayName = "Filmworld", Priority = 2 },
+                    new ApiProvider { Id = "cinemaworld", DisplayName = "Cinemaworld", Priority = 1 },
+                    new ApiProvider { Id = "moviemax", DisplayName = "MovieMax", Priority = 3, IsEnabled = false },
+                    new ApiProvider { Id = "newcomer", DisplayName = "Newcomer", Priority = 4 }
+                });
+        }
+
+        [Test]
+        public async Task ExecuteAsync_ShouldReportEveryProviderByPriority()
+        {
+            // Arrange
+            _providerStatusService.RecordSuccess("cinemaworld", TimeSpan.FromMilliseconds(120));
+            _providerStatusService.RecordFailure("filmworld", TimeSpan.FromMilliseconds(30000), "The operation was canceled.");
+            _providerStatusService.RecordServedFromCache("filmworld", true);
+
+            // Act
+            var result = await _useCase.ExecuteAsync();
+
+            // Assert
+            result.StaleAfterMinutes.Should().Be(10);
+            result.Providers.Select(x => x.ProviderId).Should().Equal("cinemaworld", "filmworld", "moviemax", "newcomer");
+            result.Providers.Select(x => x.State).Should().Equal("healthy", "failing", "disabled", "unknown");
+
+            var cinemaworld = result.Providers[0];
+            cinemaworld.Provider.Should().Be("Cinemaworld");
+            cinemaworld.LatencyMs.Should().Be(120);
+            cinemaworld.LastSuccessAt.Should().NotBeNull();
+            cinemaworld.ServedFromCache.Should().BeFalse();
+
+            var filmworld = result.Providers[1];
+            filmworld.LastError.Should().Be("The operation was canceled.");
+            filmworld.ServedFromCache.Should().BeTrue();
+            filmworld.RecentLatencies.Should().ContainSingle()
+                .Which.Succeeded.Should().BeFalse();
+        }
+
+        [Test]
+        public async Task ExecuteAsync_WithSuccessAfterFailure_ShouldReportHealthy()
+        {
+            // Arrange
+            _providerStatusService.RecordFailure("cinemaworld", TimeSpan.FromMilliseconds(50), "HTTP 500 Internal Server Error");
+            await Task.Delay(5);
+            _providerStatusService.RecordSuccess("cinemaworld", TimeSpan.FromMilliseconds(80));
+
+            // Act
+            var result = await _useCase.ExecuteAsync();
+
+            // Assert
+            var cinemaworld = result.Providers.Single(x => x.ProviderId == "cinemaworld");
+            cinemaworld.State.Should().Be("healthy");
+            cinemaworld.LastError.Should().Be("HTTP 500 Internal Server Error");
+            cinemaworld.RecentLatencies.Select(x => x.LatencyMs).Should().Equal(50, 80);
+        }
+
+        [Test]
+        public void Constructor_WithNullProviderStatusService_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var act = () => new GetProviderStatusUseCase(
+                _mockApiProviderService.Object,
+                null!,
+                Options.Create(new ProviderStatusSettings()));
+            act.Should().Throw<ArgumentNullException>().WithParameterName("providerStatusService");
+        }
+    }
+}
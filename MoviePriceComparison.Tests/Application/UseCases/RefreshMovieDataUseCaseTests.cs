@@ -0,0 +1,242 @@
+using FluentAssertions;
+using Moq;
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Domain.Repositories;
+using MoviePriceComparison.Domain.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Application.UseCases
+{
+    [TestFixture]
+    public class RefreshMovieDataUseCaseTests
+    {
+        private Mock<IMovieRepository> _mockMovieRepository;
+        private Mock<IApiProviderService> _mockApiProviderService;
+        private Mock<IPriceChangeNotifier> _mockPriceChangeNotifier;
+        private Mock<IProviderStatusService> _mockProviderStatusService;
+        private List<PriceChange> _publishedChanges;
+        private RefreshMovieDataUseCase _useCase;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _mockMovieRepository = new Mock<IMovieRepository>();
+            _mockApiProviderService = new Mock<IApiProviderService>();
+            _mockPriceChangeNotifier = new Mock<IPriceChangeNotifier>();
+            _mockProviderStatusService = new Mock<IProviderStatusService>();
+            // Every provider answers unless a test says otherwise
+            _mockProviderStatusService.Setup(x => x.GetStatus(It.IsAny<string>()))
+                .Returns((string providerId) => new ProviderStatus { ProviderId = providerId, LastSuccessAt = DateTime.UtcNow });
+            _publishedChanges = new List<PriceChange>();
+            _mockPriceChangeNotifier.Setup(x => x.Publish(It.IsAny<IEnumerable<PriceChange>>()))
+                .Callback<IEnumerable<PriceChange>>(changes => _publishedChanges.AddRange(changes));
+            _useCase = new RefreshMovieDataUseCase(
+                _mockMovieRepository.Object,
+                _mockApiProviderService.Object,
+                _mockPriceChangeNotifier.Object,
+                _mockProviderStatusService.Object);
+
+            _mockApiProviderService.Setup(x => x.GetApiProvidersAsync())
+                .ReturnsAsync(new List<ApiProvider>
+                {
+                    new ApiProvider { Id = "cinemaworld", DisplayName = "Cinemaworld", IsEnabled = true },
+                    new ApiProvider { Id = "filmworld", DisplayName = "Filmworld", IsEnabled = true },
+                    new ApiProvider { Id = "retired", DisplayName = "Retired", IsEnabled = false }
+                });
+        }
+
+        private static MovieSummary CreateMovie(string title, params (string ProviderId, string MovieId, decimal? Price)[] prices)
+        {
+            return new MovieSummary
+            {
+                Title = title,
+                ProviderSpecificDetails = prices.Select(p => new MovieProviderDetail
+                {
+                    ProviderId = p.ProviderId,
+                    Provider = p.ProviderId,
+                    MovieId = p.MovieId,
+                    Price = p.Price
+                }).ToList()
+            };
+        }
+
+        [Test]
+        public async Task ExecuteAsync_ShouldRefreshRepositoryAndReportEnabledProviders()
+        {
+            // Arrange
+            var movies = new List<MovieSummary>
+            {
+                CreateMovie("Star Wars", ("cinemaworld", "cw001", 25.99m), ("filmworld", "fw001", 22.99m)),
+                CreateMovie("Avatar", ("cinemaworld", "cw002", 29.99m))
+            };
+
+            _mockMovieRepository.Setup(x => x.GetAllAsync())
+                .ReturnsAsync(movies);
+
+            // Act
+            var result = await _useCase.ExecuteAsync();
+
+            // Assert
+            _mockMovieRepository.Verify(x => x.RefreshData(), Times.Once);
+            result.MovieCount.Should().Be(2);
+            result.Providers.Select(p => p.ProviderId).Should().Equal("cinemaworld", "filmworld");
+            result.Providers.Single(p => p.ProviderId == "cinemaworld").MovieCount.Should().Be(2);
+            result.Providers.Single(p => p.ProviderId == "filmworld").MovieCount.Should().Be(1);
+            result.Providers.Should().OnlyContain(p => p.Succeeded && p.Error == null);
+            result.PricesChanged.Should().Be(0);
+            result.RefreshedAt.Should().BeCloseTo(DateTime.UtcNow, TimeSpan.FromMinutes(1));
+        }
+
+        [Test]
+        public async Task ExecuteAsync_WhenProviderFailsDuringRefresh_ShouldReportItAsFailed()
+        {
+            // Arrange
+            var lastSuccessAt = DateTime.UtcNow.AddMinutes(-5);
+            _mockMovieRepository.Setup(x => x.GetAllAsync())
+                .ReturnsAsync(new List<MovieSummary>
+                {
+                    CreateMovie("Star Wars", ("cinemaworld", "cw001", 25.99m), ("filmworld", "fw001", 22.99m))
+                });
+            _mockProviderStatusService.Setup(x => x.GetStatus("filmworld"))
+                .Returns(() => new ProviderStatus
+                {
+                    ProviderId = "filmworld",
+                    LastSuccessAt = lastSuccessAt,
+                    LastErrorAt = DateTime.UtcNow,
+                    LastError = "HTTP 503 Service Unavailable"
+                });
+
+            // Act
+            var result = await _useCase.ExecuteAsync();
+
+            // Assert
+            var cinemaworld = result.Providers.Single(p => p.ProviderId == "cinemaworld");
+            cinemaworld.Succeeded.Should().BeTrue();
+            cinemaworld.Error.Should().BeNull();
+
+            // Its last known price is still listed, so the movie count alone cannot tell
+            var filmworld = result.Providers.Single(p => p.ProviderId == "filmworld");
+            filmworld.Succeeded.Should().BeFalse();
+            filmworld.Error.Should().Be("HTTP 503 Service Unavailable");
+            filmworld.MovieCount.Should().Be(1);
+        }
+
+        [Test]
+        public async Task ExecuteAsync_ShouldCountChangedAddedAndRemovedPrices()
+        {
+            // Arrange
+            var before = new List<MovieSummary>
+            {
+                CreateMovie("Star Wars", ("cinemaworld", "cw001", 25.99m), ("filmworld", "fw001", 22.99m)),
+                CreateMovie("Avatar", ("cinemaworld", "cw002", 29.99m))
+            };
+            var after = new List<MovieSummary>
+            {
+                CreateMovie("Star Wars", ("cinemaworld", "cw001", 19.99m), ("filmworld", "fw001", 22.99m)),
+                CreateMovie("Avatar", ("filmworld", "fw002", 27.99m))
+            };
+
+            _mockMovieRepository.SetupSequence(x => x.GetAllAsync())
+                .ReturnsAsync(before)
+                .ReturnsAsync(after);
+
+            // Act
+            var result = await _useCase.ExecuteAsync();
+
+            // Assert
+            // cw001 changed, cw002 removed and fw002 added
+            result.PricesChanged.Should().Be(3);
+        }
+
+        [Test]
+        public async Task ExecuteAsync_ShouldPublishEachPriceChange()
+        {
+            // Arrange
+            var before = new List<MovieSummary>
+            {
+                CreateMovie("Star Wars", ("cinemaworld", "cw001", 25.99m), ("filmworld", "fw001", 22.99m)),
+                CreateMovie("Avatar", ("cinemaworld", "cw002", 29.99m))
+            };
+            var after = new List<MovieSummary>
+            {
+                CreateMovie("Star Wars", ("cinemaworld", "cw001", 19.99m), ("filmworld", "fw001", 22.99m)),
+                CreateMovie("Avatar", ("filmworld", "fw002", 27.99m))
+            };
+
+            _mockMovieRepository.SetupSequence(x => x.GetAllAsync())
+                .ReturnsAsync(before)
+                .ReturnsAsync(after);
+
+            // Act
+            await _useCase.ExecuteAsync();
+
+            // Assert
+            _mockPriceChangeNotifier.Verify(x => x.Publish(It.IsAny<IEnumerable<PriceChange>>()), Times.Once);
+            _publishedChanges.Should().HaveCount(3);
+
+            var changed = _publishedChanges.Single(c => c.ProviderMovieId == "cw001");
+            changed.MovieId.Should().Be(MovieSummary.CreateId("Star Wars", null));
+            changed.PreviousPrice.Should().Be(25.99m);
+            changed.Price.Should().Be(19.99m);
+            changed.Removed.Should().BeFalse();
+
+            var removed = _publishedChanges.Single(c => c.ProviderMovieId == "cw002");
+            removed.Removed.Should().BeTrue();
+            removed.PreviousPrice.Should().Be(29.99m);
+            removed.Price.Should().BeNull();
+
+            var added = _publishedChanges.Single(c => c.ProviderMovieId == "fw002");
+            added.ProviderId.Should().Be("filmworld");
+            added.PreviousPrice.Should().BeNull();
+            added.Price.Should().Be(27.99m);
+        }
+
+        [Test]
+        public async Task ExecuteAsync_WhenRefreshFails_ShouldPropagateException()
+        {
+            // Arrange
+            _mockMovieRepository.Setup(x => x.GetAllAsync())
+                .ReturnsAsync(new List<MovieSummary>());
+            _mockMovieRepository.Setup(x => x.RefreshData())
+                .ThrowsAsync(new HttpRequestException("Provider unavailable"));
+
+            // Act
+            var action = async () => await _useCase.ExecuteAsync();
+
+            // Assert
+            await action.Should().ThrowAsync<HttpRequestException>();
+        }
+
+        [Test]
+        public void Constructor_WithNullMovieRepository_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var action = () => new RefreshMovieDataUseCase(null!, _mockApiProviderService.Object, _mockPriceChangeNotifier.Object, _mockProviderStatusService.Object);
+
+            action.Should().Throw<ArgumentNullException>()
+                .WithParameterName("movieRepository");
+        }
+
+        [Test]
+        public void Constructor_WithNullPriceChangeNotifier_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var action = () => new RefreshMovieDataUseCase(_mockMovieRepository.Object, _mockApiProviderService.Object, null!, _mockProviderStatusService.Object);
+
+            action.Should().Throw<ArgumentNullException>()
+                .WithParameterName("priceChangeNotifier");
+        }
+
+        [Test]
+        public void Constructor_WithNullProviderStatusService_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var action = () => new RefreshMovieDataUseCase(_mockMovieRepository.Object, _mockApiProviderService.Object, _mockPriceChangeNotifier.Object, null!);
+
+            action.Should().Throw<ArgumentNullException>()
+                .WithParameterName("providerStatusService");
+        }
+    }
+}
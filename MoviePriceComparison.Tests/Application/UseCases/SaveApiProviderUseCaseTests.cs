@@ -0,0 +1,195 @@
+using FluentAssertions;
+using Moq;
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Domain.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Application.UseCases
+{
+    [TestFixture]
+    public class SaveApiProviderUseCaseTests
+    {
+        private Mock<IApiProviderService> _mockApiProviderService;
+        private SaveApiProviderUseCase _useCase;
+        private ApiProvider? _savedProvider;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _savedProvider = null;
+            _mockApiProviderService = new Mock<IApiProviderService>();
+            _mockApiProviderService.Setup(x => x.SaveApiProviderAsync(It.IsAny<ApiProvider>()))
+                .Callback<ApiProvider>(provider => _savedProvider = provider)
+                .ReturnsAsync((ApiProvider provider) => provider);
+            _useCase = new SaveApiProviderUseCase(_mockApiProviderService.Object);
+        }
+
+        private static ApiProvider CreateExistingProvider() => new ApiProvider
+        {
+            Id = "cinemaworld",
+            Name = "cinemaworld",
+            DisplayName = "Cinemaworld",
+            BaseUrl = "https://example.com/api/cinemaworld",
+            ApiToken = "current-token",
+            IsEnabled = true,
+            Priority = 1
+        };
+
+        [Test]
+        public async Task CreateAsync_WithNewId_ShouldSaveProvider()
+        {
+            // Arrange
+            var request = new CreateApiProviderRequest
+            {
+                Id = "moviemax",
+                DisplayName = " MovieMax ",
+                BaseUrl = "https://example.com/api/moviemax/",
+                ApiToken = "new-token",
+                Priority = 3,
+                TimeoutSeconds = 15
+            };
+
+            // Act
+            var result = await _useCase.CreateAsync(request);
+
+            // Assert
+            _savedProvider.Should().NotBeNull();
+            _savedProvider!.Id.Should().Be("moviemax");
+            _savedProvider.DisplayName.Should().Be("MovieMax");
+            _savedProvider.BaseUrl.Should().Be("https://example.com/api/moviemax");
+            _savedProvider.ApiToken.Should().Be("new-token");
+            result.HasApiToken.Should().BeTrue();
+            result.Priority.Should().Be(3);
+            result.TimeoutSeconds.Should().Be(15);
+        }
+
+        [Test]
+        public async Task CreateAsync_WithExistingId_ShouldThrowInvalidOperationException()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(CreateExistingProvider());
+
+            // Act & Assert
+            var act = () => _useCase.CreateAsync(new CreateApiProviderRequest { Id = "cinemaworld", DisplayName = "Cinemaworld", BaseUrl = "https://example.com" });
+            await act.Should().ThrowAsync<InvalidOperationException>();
+            _mockApiProviderService.Verify(x => x.SaveApiProviderAsync(It.IsAny<ApiProvider>()), Times.Never);
+        }
+
+        [Test]
+        public async Task UpdateAsync_WithoutToken_ShouldKeepCurrentToken()
+        {
+            // Arrange
+            var existing = CreateExistingProvider();
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(existing);
+
+            // Act
+            var result = await _useCase.UpdateAsync("cinemaworld", new UpdateApiProviderRequest
+            {
+                DisplayName = "Cinemaworld",
+                BaseUrl = "https://example.com/api/cinemaworld",
+                ApiToken = "",
+                IsEnabled = false
+            });
+
+            // Assert
+            result.Should().NotBeNull();
+            result!.IsEnabled.Should().BeFalse();
+            result.HasApiToken.Should().BeTrue();
+            _savedProvider!.ApiToken.Should().Be("current-token");
+            existing.IsEnabled.Should().BeTrue(); // the cached provider is not modified in place
+        }
+
+        [Test]
+        public async Task UpdateAsync_WithToken_ShouldReplaceToken()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(CreateExistingProvider());
+
+            // Act
+            await _useCase.UpdateAsync("cinemaworld", new UpdateApiProviderRequest
+            {
+                DisplayName = "Cinemaworld",
+                BaseUrl = "https://example.com/api/cinemaworld",
+                ApiToken = "rotated-token"
+            });
+
+            // Assert
+            _savedProvider!.ApiToken.Should().Be("rotated-token");
+        }
+
+        [Test]
+        public async Task UpdateAsync_WithNewBaseUrlAndNoToken_ShouldThrowWithoutSaving()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(CreateExistingProvider());
+
+            // Act & Assert
+            var act = () => _useCase.UpdateAsync("cinemaworld", new UpdateApiProviderRequest
+            {
+                DisplayName = "Cinemaworld",
+                BaseUrl = "https://attacker.example.com",
+                ApiToken = ""
+            });
+            await act.Should().ThrowAsync<ArgumentException>();
+            _mockApiProviderService.Verify(x => x.SaveApiProviderAsync(It.IsAny<ApiProvider>()), Times.Never);
+        }
+
+        [Test]
+        public async Task UpdateAsync_WithNewBaseUrlAndNewToken_ShouldSaveBoth()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(CreateExistingProvider());
+
+            // Act
+            await _useCase.UpdateAsync("cinemaworld", new UpdateApiProviderRequest
+            {
+                DisplayName = "Cinemaworld",
+                BaseUrl = "https://example.org/api/cinemaworld",
+                ApiToken = "new-host-token"
+            });
+
+            // Assert
+            _savedProvider!.BaseUrl.Should().Be("https://example.org/api/cinemaworld");
+            _savedProvider.ApiToken.Should().Be("new-host-token");
+        }
+
+        [Test]
+        public async Task UpdateAsync_WithSameBaseUrlAndTrailingSlash_ShouldKeepCurrentToken()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(CreateExistingProvider());
+
+            // Act
+            await _useCase.UpdateAsync("cinemaworld", new UpdateApiProviderRequest
+            {
+                DisplayName = "Cinemaworld",
+                BaseUrl = " https://example.com/api/cinemaworld/ "
+            });
+
+            // Assert
+            _savedProvider!.ApiToken.Should().Be("current-token");
+        }
+
+        [Test]
+        public async Task UpdateAsync_WithNonExistentId_ShouldReturnNull()
+        {
+            // Arrange
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("unknown"))
+                .ReturnsAsync((ApiProvider?)null);
+
+            // Act
+            var result = await _useCase.UpdateAsync("unknown", new UpdateApiProviderRequest { DisplayName = "Unknown", BaseUrl = "https://example.com" });
+
+            // Assert
+            result.Should().BeNull();
+            _mockApiProviderService.Verify(x => x.SaveApiProviderAsync(It.IsAny<ApiProvider>()), Times.Never);
+        }
+    }
+}
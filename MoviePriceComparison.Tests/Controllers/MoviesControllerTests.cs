@@ -1,5 +1,7 @@
 using FluentAssertions;
+using System.Reflection;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
 using Microsoft.Extensions.Logging;
 using Moq;
 using MoviePriceComparison.Application.DTOs;
@@ -16,6 +18,7 @@ namespace MoviePriceComparison.Tests.Controllers
     {
         private Mock<IGetMoviesWithPricesUseCase> _mockGetMoviesUseCase;
         private Mock<IGetMovieDetailUseCase> _mockGetMovieDetailUseCase;
+        private Mock<IRefreshMovieDataUseCase> _mockRefreshMovieDataUseCase;
         private Mock<IMovieRepository> _mockMovieRepository;
         private Mock<IApiProviderService> _mockApiProviderService;
         private Mock<ILogger<MoviesController>> _mockLogger;
@@ -26,6 +29,7 @@ namespace MoviePriceComparison.Tests.Controllers
         {
             _mockGetMoviesUseCase = new Mock<IGetMoviesWithPricesUseCase>();
             _mockGetMovieDetailUseCase = new Mock<IGetMovieDetailUseCase>();
+            _mockRefreshMovieDataUseCase = new Mock<IRefreshMovieDataUseCase>();
             _mockMovieRepository = new Mock<IMovieRepository>();
             _mockApiProviderService = new Mock<IApiProviderService>();
             _mockLogger = new Mock<ILogger<MoviesController>>();
@@ -33,6 +37,7 @@ namespace MoviePriceComparison.Tests.Controllers
             _controller = new MoviesController(
                 _mockGetMoviesUseCase.Object,
                 _mockGetMovieDetailUseCase.Object,
+                _mockRefreshMovieDataUseCase.Object,
                 _mockMovieRepository.Object,
                 _mockApiProviderService.Object,
                 _mockLogger.Object);
@@ -127,6 +132,60 @@ namespace MoviePriceComparison.Tests.Controllers
             objectResult.Value.Should().NotBeNull();
         }
 
+        [Test]
+        public async Task GetMovies_WithPageAndPageSize_ShouldReturnOkWithPage()
+        {
+            // Arrange
+            var page = new MoviePageDto
+            {
+                Items = new List<MovieComparisonDto> { new MovieComparisonDto { Id = "3", Title = "Alien" } },
+                Page = 2,
+                PageSize = 2,
+                TotalCount = 3,
+                TotalPages = 2
+            };
+
+            _mockGetMoviesUseCase.Setup(x => x.ExecutePageAsync(2, 2))
+                .ReturnsAsync(page);
+
+            // Act
+            var result = await _controller.GetMovies(2, 2);
+
+            // Assert
+            result.Should().BeOfType<OkObjectResult>();
+            var okResult = result as OkObjectResult;
+            okResult!.Value.Should().BeEquivalentTo(page);
+            _mockGetMoviesUseCase.Verify(x => x.ExecuteAsync(), Times.Never);
+        }
+
+        [Test]
+        public async Task GetMovies_WithOnlyPage_ShouldUseDefaultPageSize()
+        {
+            // Arrange
+            _mockGetMoviesUseCase.Setup(x => x.ExecutePageAsync(1, MoviesController.DefaultPageSize))
+                .ReturnsAsync(new MoviePageDto { Page = 1, PageSize = MoviesController.DefaultPageSize });
+
+            // Act
+            var result = await _controller.GetMovies(page: 1);
+
+            // Assert
+            result.Should().BeOfType<OkObjectResult>();
+            _mockGetMoviesUseCase.Verify(x => x.ExecutePageAsync(1, MoviesController.DefaultPageSize), Times.Once);
+        }
+
+        [TestCase(0, 10)]
+        [TestCase(1, 0)]
+        [TestCase(1, MoviesController.MaxPageSize + 1)]
+        public async Task GetMovies_WithInvalidPaging_ShouldReturnBadRequest(int page, int pageSize)
+        {
+            // Act
+            var result = await _controller.GetMovies(page, pageSize);
+
+            // Assert
+            result.Should().BeOfType<BadRequestObjectResult>();
+            _mockGetMoviesUseCase.Verify(x => x.ExecutePageAsync(It.IsAny<int>(), It.IsAny<int>()), Times.Never);
+        }
+
         [Test]
         public async Task GetMovie_WithValidId_ShouldReturnOkWithMovieDetail()
         {
@@ -298,6 +357,7 @@ namespace MoviePriceComparison.Tests.Controllers
             var action = () => new MoviesController(
                 null!,
                 _mockGetMovieDetailUseCase.Object,
+                _mockRefreshMovieDataUseCase.Object,
                 _mockMovieRepository.Object,
                 _mockApiProviderService.Object,
                 _mockLogger.Object);
@@ -313,6 +373,7 @@ namespace MoviePriceComparison.Tests.Controllers
             var action = () => new MoviesController(
                 _mockGetMoviesUseCase.Object,
                 null!,
+                _mockRefreshMovieDataUseCase.Object,
                 _mockMovieRepository.Object,
                 _mockApiProviderService.Object,
                 _mockLogger.Object);
@@ -321,6 +382,22 @@ namespace MoviePriceComparison.Tests.Controllers
                 .WithParameterName("getMovieDetailUseCase");
         }
 
+        [Test]
+        public void Constructor_WithNullRefreshMovieDataUseCase_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var action = () => new MoviesController(
+                _mockGetMoviesUseCase.Object,
+                _mockGetMovieDetailUseCase.Object,
+                null!,
+                _mockMovieRepository.Object,
+                _mockApiProviderService.Object,
+                _mockLogger.Object);
+
+            action.Should().Throw<ArgumentNullException>()
+                .WithParameterName("refreshMovieDataUseCase");
+        }
+
         [Test]
         public void Constructor_WithNullLogger_ShouldThrowArgumentNullException()
         {
@@ -328,6 +405,7 @@ namespace MoviePriceComparison.Tests.Controllers
             var action = () => new MoviesController(
                 _mockGetMoviesUseCase.Object,
                 _mockGetMovieDetailUseCase.Object,
+                _mockRefreshMovieDataUseCase.Object,
                 _mockMovieRepository.Object,
                 _mockApiProviderService.Object,
                 null!);
@@ -424,5 +502,109 @@ namespace MoviePriceComparison.Tests.Controllers
             returnedMovie.Prices.Should().HaveCount(1);
             returnedMovie.CheapestPrice.Should().NotBeNull();
         }
+
+        [Test]
+        public async Task RefreshMovieData_ShouldReturnRefreshResult()
+        {
+            // Arrange
+            var refreshResult = new RefreshResultDto
+            {
+                RefreshedAt = DateTime.UtcNow,
+                Providers = new List<ProviderRefreshDto>
+                {
+                    new ProviderRefreshDto { ProviderId = "cinemaworld", Provider = "Cinemaworld", MovieCount = 2, Succeeded = true }
+                },
+                MovieCount = 2,
+                PricesChanged = 1
+            };
+
+            _mockRefreshMovieDataUseCase.Setup(x => x.ExecuteAsync())
+                .ReturnsAsync(refreshResult);
+
+            // Act
+            var result = await _controller.RefreshMovieData();
+
+            // Assert
+            result.Should().BeOfType<OkObjectResult>();
+            var okResult = result as OkObjectResult;
+            okResult!.Value.Should().BeEquivalentTo(refreshResult);
+            _mockRefreshMovieDataUseCase.Verify(x => x.ExecuteAsync(), Times.Once);
+        }
+
+        [Test]
+        public async Task RefreshMovieData_WithException_ShouldReturnInternalServerError()
+        {
+            // Arrange
+            _mockRefreshMovieDataUseCase.Setup(x => x.ExecuteAsync())
+                .ThrowsAsync(new HttpRequestException("Provider unavailable"));
+
+            // Act
+            var result = await _controller.RefreshMovieData();
+
+            // Assert
+            result.Should().BeOfType<ObjectResult>();
+            var objectResult = result as ObjectResult;
+            objectResult!.StatusCode.Should().Be(500);
+            objectResult.Value.Should().NotBeNull();
+        }
+
+        [Test]
+        public void ReportDiagnostics_ShouldLogEachEventAndReturnAccepted()
+        {
+            // Arrange
+            var report = new ClientDiagnosticsReport
+            {
+                AppVersion = "0.1.0",
+                Route = "/movies/star-wars-1977",
+                Events = new List<ClientDiagnosticEvent>
+                {
+                    new ClientDiagnosticEvent { Type = "error", Name = "TypeError", Message = "price is null", Stack = "at MovieCard" },
+                    new ClientDiagnosticEvent { Type = "api-failure", Name = "ServerError", Endpoint = "/api/movies", Status = 500, Route = "/" },
+                    new ClientDiagnosticEvent { Type = "web-vital", Name = "LCP", Value = 1830 }
+                }
+            };
+
+            // Act
+            var result = _controller.ReportDiagnostics(report);
+
+            // Assert
+            result.Should().BeOfType<AcceptedResult>();
+            _mockLogger.Verify(
+                x => x.Log(
+                    LogLevel.Warning,
+                    It.IsAny<EventId>(),
+                    It.Is<It.IsAnyType>((v, t) => v.ToString()!.Contains("Client error TypeError on /movies/star-wars-1977 (app 0.1.0): price is null")),
+                    It.IsAny<Exception>(),
+                    It.IsAny<Func<It.IsAnyType, Exception?, string>>()),
+                Times.Once);
+            _mockLogger.Verify(
+                x => x.Log(
+                    LogLevel.Warning,
+                    It.IsAny<EventId>(),
+                    It.Is<It.IsAnyType>((v, t) => v.ToString()!.Contains("calling /api/movies with status 500 on /")),
+                    It.IsAny<Exception>(),
+                    It.IsAny<Func<It.IsAnyType, Exception?, string>>()),
+                Times.Once);
+            _mockLogger.Verify(
+                x => x.Log(
+                    LogLevel.Information,
+                    It.IsAny<EventId>(),
+                    It.Is<It.IsAnyType>((v, t) => v.ToString()!.Contains("Client web vital LCP = 1830")),
+                    It.IsAny<Exception>(),
+                    It.IsAny<Func<It.IsAnyType, Exception?, string>>()),
+                Times.Once);
+        }
+
+        [Test]
+        public void ReportDiagnostics_ShouldBeRateLimited()
+        {
+            // Act
+            var attribute = typeof(MoviesController).GetMethod(nameof(MoviesController.ReportDiagnostics))!
+                .GetCustomAttribute<EnableRateLimitingAttribute>();
+
+            // Assert
+            attribute.Should().NotBeNull();
+            attribute!.PolicyName.Should().Be(MoviesController.DiagnosticsRateLimitPolicy);
+        }
     }
 }
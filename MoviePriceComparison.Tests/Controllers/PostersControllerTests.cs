@@ -0,0 +1,91 @@
+using FluentAssertions;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using Moq;
+using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Controllers;
+using MoviePriceComparison.Domain.Entities;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Controllers
+{
+    [TestFixture]
+    public class PostersControllerTests
+    {
+        private Mock<IGetPosterUseCase> _mockGetPosterUseCase;
+        private Mock<ILogger<PostersController>> _mockLogger;
+        private PostersController _controller;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _mockGetPosterUseCase = new Mock<IGetPosterUseCase>();
+            _mockLogger = new Mock<ILogger<PostersController>>();
+
+            _controller = new PostersController(_mockGetPosterUseCase.Object, _mockLogger.Object)
+            {
+                ControllerContext = new ControllerContext { HttpContext = new DefaultHttpContext() }
+            };
+        }
+
+        [Test]
+        public async Task GetPoster_WithPoster_ShouldReturnTheImageWithCacheHeaders()
+        {
+            // Arrange
+            var content = new byte[] { 0xFF, 0xD8, 0xFF };
+            _mockGetPosterUseCase.Setup(x => x.ExecuteAsync("star-wars-1977", "cinemaworld", 400, It.IsAny<CancellationToken>()))
+                .ReturnsAsync(new PosterImage { Content = content, ContentType = "image/jpeg", Width = 400 });
+
+            // Act
+            var result = await _controller.GetPoster("star-wars-1977", "cinemaworld", 400, CancellationToken.None);
+
+            // Assert
+            var file = result.Should().BeOfType<FileContentResult>().Subject;
+            file.FileContents.Should().Equal(content);
+            file.ContentType.Should().Be("image/jpeg");
+            _controller.Response.Headers.CacheControl.ToString().Should().Be("public, max-age=86400");
+        }
+
+        [Test]
+        public async Task GetPoster_WithoutPoster_ShouldReturnNotFoundWithoutCaching()
+        {
+            // Arrange
+            _mockGetPosterUseCase.Setup(x => x.ExecuteAsync("star-wars-1977", "filmworld", null, It.IsAny<CancellationToken>()))
+                .ReturnsAsync((PosterImage?)null);
+
+            // Act
+            var result = await _controller.GetPoster("star-wars-1977", "filmworld", null, CancellationToken.None);
+
+            // Assert
+            result.Should().BeOfType<NotFoundObjectResult>();
+            _controller.Response.Headers.CacheControl.Should().BeEmpty();
+        }
+
+        [TestCase(0)]
+        [TestCase(PostersController.MaxWidth + 1)]
+        public async Task GetPoster_WithWidthOutOfRange_ShouldReturnBadRequest(int width)
+        {
+            // Act
+            var result = await _controller.GetPoster("star-wars-1977", "cinemaworld", width, CancellationToken.None);
+
+            // Assert
+            result.Should().BeOfType<BadRequestObjectResult>();
+            _mockGetPosterUseCase.Verify(x => x.ExecuteAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<int?>(), It.IsAny<CancellationToken>()), Times.Never);
+        }
+
+        [Test]
+        public async Task GetPoster_WhenUseCaseThrows_ShouldReturnInternalServerError()
+        {
+            // Arrange
+            _mockGetPosterUseCase.Setup(x => x.ExecuteAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<int?>(), It.IsAny<CancellationToken>()))
+                .ThrowsAsync(new InvalidOperationException("Repository error"));
+
+            // Act
+            var result = await _controller.GetPoster("star-wars-1977", "cinemaworld", null, CancellationToken.None);
+
+            // Assert
+            result.Should().BeOfType<ObjectResult>().Which.StatusCode.Should().Be(500);
+        }
+    }
+}
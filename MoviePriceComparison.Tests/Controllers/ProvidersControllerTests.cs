@@ -0,0 +1,249 @@
+using System.Reflection;
+using FluentAssertions;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using Moq;
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Controllers;
+using MoviePriceComparison.Infrastructure.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Controllers
+{
+    [TestFixture]
+    public class ProvidersControllerTests
+    {
+        private Mock<IGetApiProvidersUseCase> _mockGetApiProvidersUseCase;
+        private Mock<ISaveApiProviderUseCase> _mockSaveApiProviderUseCase;
+        private Mock<IGetProviderStatusUseCase> _mockGetProviderStatusUseCase;
+        private Mock<ILogger<ProvidersController>> _mockLogger;
+        private ProvidersController _controller;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _mockGetApiProvidersUseCase = new Mock<IGetApiProvidersUseCase>();
+            _mockSaveApiProviderUseCase = new Mock<ISaveApiProviderUseCase>();
+            _mockGetProviderStatusUseCase = new Mock<IGetProviderStatusUseCase>();
+            _mockLogger = new Mock<ILogger<ProvidersController>>();
+
+            _controller = new ProvidersController(
+                _mockGetApiProvidersUseCase.Object,
+                _mockSaveApiProviderUseCase.Object,
+                _mockGetProviderStatusUseCase.Object,
+                _mockLogger.Object);
+        }
+
+        private static ApiProviderDto CreateProviderDto(string id = "cinemaworld") => new ApiProviderDto
+        {
+            Id = id,
+            Name = id,
+            DisplayName = "Cinemaworld",
+            BaseUrl = "https://example.com/api/cinemaworld",
+            HasApiToken = true,
+            IsEnabled = true,
+            Priority = 1,
+            TimeoutSeconds = 30
+        };
+
+        [Test]
+        public async Task GetProviders_WithValidData_ShouldReturnOkWithProviders()
+        {
+            // Arrange
+            var providers = new List<ApiProviderDto> { CreateProviderDto() };
+            _mockGetApiProvidersUseCase.Setup(x => x.ExecuteAsync())
+                .ReturnsAsync(providers);
+
+            // Act
+            var result = await _controller.GetProviders();
+
+            // Assert
+            result.Should().BeOfType<OkObjectResult>();
+            var okResult = result as OkObjectResult;
+            okResult!.Value.Should().BeEquivalentTo(providers);
+        }
+
+        [Test]
+        public async Task GetProviders_WithException_ShouldReturnInternalServerError()
+        {
+            // Arrange
+            _mockGetApiProvidersUseCase.Setup(x => x.ExecuteAsync())
+                .ThrowsAsync(new Exception("Service failed"));
+
+            // Act
+            var result = await _controller.GetProviders();
+
+            // Assert
+            result.Should().BeOfType<ObjectResult>();
+            var objectResult = result as ObjectResult;
+            objectResult!.StatusCode.Should().Be(500);
+        }
+
+        [Test]
+        public async Task GetProvider_WithNonExistentId_ShouldReturnNotFound()
+        {
+            // Arrange
+            _mockGetApiProvidersUseCase.Setup(x => x.ExecuteAsync("unknown"))
+                .ReturnsAsync((ApiProviderDto?)null);
+
+            // Act
+            var result = await _controller.GetProvider("unknown");
+
+            // Assert
+            result.Should().BeOfType<NotFoundObjectResult>();
+        }
+
+        [Test]
+        public async Task CreateProvider_WithNewId_ShouldReturnCreated()
+        {
+            // Arrange
+            var request = new CreateApiProviderRequest { Id = "moviemax", DisplayName = "MovieMax", BaseUrl = "https://example.com/api/moviemax" };
+            var created = CreateProviderDto("moviemax");
+            _mockSaveApiProviderUseCase.Setup(x => x.CreateAsync(request))
+                .ReturnsAsync(created);
+
+            // Act
+            var result = await _controller.CreateProvider(request);
+
+            // Assert
+            result.Should().BeOfType<CreatedAtActionResult>();
+            var createdResult = result as CreatedAtActionResult;
+            createdResult!.ActionName.Should().Be(nameof(ProvidersController.GetProvider));
+            createdResult.RouteValues!["id"].Should().Be("moviemax");
+            createdResult.Value.Should().Be(created);
+        }
+
+        [Test]
+        public async Task CreateProvider_WithExistingId_ShouldReturnConflict()
+        {
+            // Arrange
+            var request = new CreateApiProviderRequest { Id = "cinemaworld", DisplayName = "Cinemaworld", BaseUrl = "https://example.com" };
+            _mockSaveApiProviderUseCase.Setup(x => x.CreateAsync(request))
+                .ThrowsAsync(new InvalidOperationException("Provider with ID cinemaworld already exists"));
+
+            // Act
+            var result = await _controller.CreateProvider(request);
+
+            // Assert
+            result.Should().BeOfType<ConflictObjectResult>();
+        }
+
+        [Test]
+        public async Task UpdateProvider_WithExistingId_ShouldReturnOkWithProvider()
+        {
+            // Arrange
+            var request = new UpdateApiProviderRequest { DisplayName = "Cinemaworld", BaseUrl = "https://example.com", IsEnabled = false };
+            var updated = CreateProviderDto();
+            updated.IsEnabled = false;
+            _mockSaveApiProviderUseCase.Setup(x => x.UpdateAsync("cinemaworld", request))
+                .ReturnsAsync(updated);
+
+            // Act
+            var result = await _controller.UpdateProvider("cinemaworld", request);
+
+            // Assert
+            result.Should().BeOfType<OkObjectResult>();
+            var okResult = result as OkObjectResult;
+            okResult!.Value.Should().Be(updated);
+        }
+
+        [Test]
+        public async Task UpdateProvider_WithNonExistentId_ShouldReturnNotFound()
+        {
+            // Arrange
+            var request = new UpdateApiProviderRequest { DisplayName = "Unknown", BaseUrl = "https://example.com" };
+            _mockSaveApiProviderUseCase.Setup(x => x.UpdateAsync("unknown", request))
+                .ReturnsAsync((ApiProviderDto?)null);
+
+            // Act
+            var result = await _controller.UpdateProvider("unknown", request);
+
+            // Assert
+            result.Should().BeOfType<NotFoundObjectResult>();
+        }
+
+        [Test]
+        public async Task UpdateProvider_WhenUseCaseRejectsRequest_ShouldReturnBadRequest()
+        {
+            // Arrange
+            var request = new UpdateApiProviderRequest { DisplayName = "Cinemaworld", BaseUrl = "https://attacker.example.com" };
+            _mockSaveApiProviderUseCase.Setup(x => x.UpdateAsync("cinemaworld", request))
+                .ThrowsAsync(new ArgumentException("Changing the base URL needs a new API token"));
+
+            // Act
+            var result = await _controller.UpdateProvider("cinemaworld", request);
+
+            // Assert
+            result.Should().BeOfType<BadRequestObjectResult>();
+        }
+
+        [Test]
+        public void ProviderWrites_ShouldRequireTheAdminPolicy()
+        {
+            // Act
+            var policies = new[] { nameof(ProvidersController.CreateProvider), nameof(ProvidersController.UpdateProvider) }
+                .Select(name => typeof(ProvidersController).GetMethod(name)!.GetCustomAttribute<AuthorizeAttribute>()?.Policy);
+
+            // Assert
+            policies.Should().AllBe(AdminApiKeyAuthenticationHandler.PolicyName);
+        }
+
+        [Test]
+        public async Task GetProviderStatus_WithValidData_ShouldReturnOkWithStatus()
+        {
+            // Arrange
+            var status = new ProviderStatusResponseDto
+            {
+                StaleAfterMinutes = 10,
+                Providers = new List<ProviderStatusDto>
+                {
+                    new ProviderStatusDto { ProviderId = "cinemaworld", Provider = "Cinemaworld", State = "failing", LastError = "HTTP 503 Service Unavailable" }
+                }
+            };
+            _mockGetProviderStatusUseCase.Setup(x => x.ExecuteAsync())
+                .ReturnsAsync(status);
+
+            // Act
+            var result = await _controller.GetProviderStatus();
+
+            // Assert
+            result.Should().BeOfType<OkObjectResult>();
+            var okResult = result as OkObjectResult;
+            okResult!.Value.Should().BeEquivalentTo(status);
+        }
+
+        [Test]
+        public async Task GetProviderStatus_WithException_ShouldReturnInternalServerError()
+        {
+            // Arrange
+            _mockGetProviderStatusUseCase.Setup(x => x.ExecuteAsync())
+                .ThrowsAsync(new Exception("Service failed"));
+
+            // Act
+            var result = await _controller.GetProviderStatus();
+
+            // Assert
+            result.Should().BeOfType<ObjectResult>();
+            var objectResult = result as ObjectResult;
+            objectResult!.StatusCode.Should().Be(500);
+        }
+
+        [Test]
+        public void Constructor_WithNullSaveApiProviderUseCase_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var act = () => new ProvidersController(_mockGetApiProvidersUseCase.Object, null!, _mockGetProviderStatusUseCase.Object, _mockLogger.Object);
+            act.Should().Throw<ArgumentNullException>().WithParameterName("saveApiProviderUseCase");
+        }
+
+        [Test]
+        public void Constructor_WithNullGetProviderStatusUseCase_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var act = () => new ProvidersController(_mockGetApiProvidersUseCase.Object, _mockSaveApiProviderUseCase.Object, null!, _mockLogger.Object);
+            act.Should().Throw<ArgumentNullException>().WithParameterName("getProviderStatusUseCase");
+        }
+    }
+}
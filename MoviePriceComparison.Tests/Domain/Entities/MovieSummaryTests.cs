@@ -0,0 +1,37 @@
+using FluentAssertions;
+using MoviePriceComparison.Domain.Entities;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Domain.Entities
+{
+    [TestFixture]
+    public class MovieSummaryTests
+    {
+        [TestCase("The Matrix", "1999", "the-matrix-1999")]
+        [TestCase("Star Wars: Episode IV - A New Hope", "1977", "star-wars-episode-iv-a-new-hope-1977")]
+        [TestCase("  Amélie  ", "2001", "amélie-2001")]
+        [TestCase("Inception", null, "inception")]
+        public void CreateId_ShouldNormaliseTitleAndYear(string title, string? year, string expected)
+        {
+            // Act
+            var id = MovieSummary.CreateId(title, year);
+
+            // Assert
+            id.Should().Be(expected);
+        }
+
+        [Test]
+        public void Id_ShouldNotDependOnProviderDetails()
+        {
+            // Arrange
+            var movie = new MovieSummary { Title = "The Matrix", Year = "1999" };
+            var idBefore = movie.Id;
+
+            // Act
+            movie.AddDetail(new MovieProviderDetail { ProviderId = "filmworld", Provider = "Filmworld", MovieId = "fw001", Price = 14.99m });
+
+            // Assert
+            movie.Id.Should().Be(idBefore);
+        }
+    }
+}
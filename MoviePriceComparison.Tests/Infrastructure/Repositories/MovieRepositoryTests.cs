@@ -1,8 +1,12 @@
+using System.Net;
+using System.Text;
 using FluentAssertions;
 using Microsoft.Extensions.Caching.Memory;
+using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.Options;
 using Moq;
+using Moq.Protected;
 using MoviePriceComparison.Application.DTOs;
 using MoviePriceComparison.Domain.Entities;
 using MoviePriceComparison.Domain.Services;
@@ -17,6 +21,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
     {
         private Mock<IExternalMovieApiService> _mockExternalMovieApiService;
         private Mock<IApiProviderService> _mockApiProviderService;
+        private ProviderStatusService _providerStatusService;
         private Mock<ILogger<MovieRepository>> _mockLogger;
         private IMemoryCache _memoryCache;
         private IOptions<ExternalMovieApiCacheSettings> _cacheSettings;
@@ -27,6 +32,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
         {
             _mockExternalMovieApiService = new Mock<IExternalMovieApiService>();
             _mockApiProviderService = new Mock<IApiProviderService>();
+            _providerStatusService = new ProviderStatusService();
             _mockLogger = new Mock<ILogger<MovieRepository>>();
             _memoryCache = new MemoryCache(new MemoryCacheOptions());
 
@@ -41,6 +47,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
                 _memoryCache,
                 _mockExternalMovieApiService.Object,
                 _mockApiProviderService.Object,
+                _providerStatusService,
                 _mockLogger.Object,
                 _cacheSettings);
         }
@@ -59,6 +66,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
                 null!,
                 _mockExternalMovieApiService.Object,
                 _mockApiProviderService.Object,
+                _providerStatusService,
                 _mockLogger.Object,
                 _cacheSettings);
 
@@ -74,6 +82,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
                 _memoryCache,
                 null!,
                 _mockApiProviderService.Object,
+                _providerStatusService,
                 _mockLogger.Object,
                 _cacheSettings);
 
@@ -89,6 +98,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
                 _memoryCache,
                 _mockExternalMovieApiService.Object,
                 null!,
+                _providerStatusService,
                 _mockLogger.Object,
                 _cacheSettings);
 
@@ -96,6 +106,22 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
                 .WithParameterName("apiProviderService");
         }
 
+        [Test]
+        public void Constructor_WithNullProviderStatusService_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var action = () => new MovieRepository(
+                _memoryCache,
+                _mockExternalMovieApiService.Object,
+                _mockApiProviderService.Object,
+                null!,
+                _mockLogger.Object,
+                _cacheSettings);
+
+            action.Should().Throw<ArgumentNullException>()
+                .WithParameterName("providerStatusService");
+        }
+
         [Test]
         public void Constructor_WithNullLogger_ShouldThrowArgumentNullException()
         {
@@ -104,6 +130,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
                 _memoryCache,
                 _mockExternalMovieApiService.Object,
                 _mockApiProviderService.Object,
+                _providerStatusService,
                 null!,
                 _cacheSettings);
 
@@ -119,6 +146,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
                 _memoryCache,
                 _mockExternalMovieApiService.Object,
                 _mockApiProviderService.Object,
+                _providerStatusService,
                 _mockLogger.Object,
                 null!);
 
@@ -310,6 +338,208 @@ namespace MoviePriceComparison.Tests.Infrastructure.Repositories
                 Times.Once);
         }
 
+        [Test]
+        public async Task GetAllAsync_WithProviderErrorAfterSuccessfulFetch_ShouldServeLastKnownPrices()
+        {
+            // Arrange
+            var providers = new List<ApiProvider>
+            {
+                new ApiProvider { Id = "cinemaworld", IsEnabled = true, DisplayName = "Cinemaworld" }
+            };
+
+            var movies = new List<ExternalMovieSummaryDto>
+            {
+                new ExternalMovieSummaryDto { Title = "Star Wars", Year = "1977", ID = "cw001", Type = "movie" }
+            };
+
+            var movieDetail = new ExternalMovieDetailDto
+            {
+                Title = "Star Wars",
+                Year = "1977",
+                Price = "25.99"
+            };
+
+            _mockApiProviderService.Setup(x => x.GetApiProvidersAsync())
+                .ReturnsAsync(providers);
+
+            _mockExternalMovieApiService.Setup(x => x.GetMoviesFromProviderAsync("cinemaworld"))
+                .ReturnsAsync(movies);
+
+            _mockExternalMovieApiService.Setup(x => x.GetMovieDetailsFromProviderAsync("cinemaworld", "cw001"))
+                .ReturnsAsync(movieDetail);
+
+            await _repository.GetAllAsync();
+            _memoryCache.Remove("movies_list");
+
+            _mockExternalMovieApiService.Setup(x => x.GetMoviesFromProviderAsync("cinemaworld"))
+                .ThrowsAsync(new HttpRequestException("API Error"));
+
+            // Act
+            var result = await _repository.GetAllAsync();
+
+            // Assert
+            result.Should().HaveCount(1);
+            var movie = result.First();
+            movie.Title.Should().Be("Star Wars");
+            movie.Year.Should().Be("1977");
+            var price = movie.ProviderSpecificDetails.Single();
+            price.ProviderId.Should().Be("cinemaworld");
+            price.Price.Should().Be(25.99m);
+            price.FromCache.Should().BeTrue();
+
+            var status = _providerStatusService.GetStatus("cinemaworld");
+            status!.ServedFromCache.Should().BeTrue();
+            status.LastError.Should().Be("API Error");
+        }
+
+        [Test]
+        public async Task GetAllAsync_WithDetailErrorAfterSuccessfulFetch_ShouldNotServeDelistedMovies()
+        {
+            // Arrange
+            var providers = new List<ApiProvider>
+            {
+                new ApiProvider { Id = "cinemaworld", IsEnabled = true, DisplayName = "Cinemaworld" }
+            };
+
+            _mockApiProviderService.Setup(x => x.GetApiProvidersAsync())
+                .ReturnsAsync(providers);
+
+            _mockExternalMovieApiService.Setup(x => x.GetMoviesFromProviderAsync("cinemaworld"))
+                .ReturnsAsync(new List<ExternalMovieSummaryDto>
+                {
+                    new ExternalMovieSummaryDto { Title = "Star Wars", ID = "cw001" },
+                    new ExternalMovieSummaryDto { Title = "Alien", ID = "cw002" }
+                });
+
+            _mockExternalMovieApiService.Setup(x => x.GetMovieDetailsFromProviderAsync("cinemaworld", "cw001"))
+                .ReturnsAsync(new ExternalMovieDetailDto { Title = "Star Wars", Price = "25.99" });
+
+            _mockExternalMovieApiService.Setup(x => x.GetMovieDetailsFromProviderAsync("cinemaworld", "cw002"))
+                .ReturnsAsync(new ExternalMovieDetailDto { Title = "Alien", Price = "19.99" });
+
+            await _repository.GetAllAsync();
+            _memoryCache.Remove("movies_list");
+
+            // Alien is de-listed and one detail call fails; the list call itself succeeds
+            _mockExternalMovieApiService.Setup(x => x.GetMoviesFromProviderAsync("cinemaworld"))
+                .ReturnsAsync(new List<ExternalMovieSummaryDto>
+                {
+                    new ExternalMovieSummaryDto { Title = "Star Wars", ID = "cw001" },
+                    new ExternalMovieSummaryDto { Title = "Jaws", ID = "cw003" }
+                });
+
+            _mockExternalMovieApiService.Setup(x => x.GetMovieDetailsFromProviderAsync("cinemaworld", "cw003"))
+                .ThrowsAsync(new HttpRequestException("API Error"));
+
+            // Act
+            var result = await _repository.GetAllAsync();
+
+            // Assert
+            result.Select(x => x.Title).Should().Equal("Star Wars");
+            result.Single().ProviderSpecificDetails.Single().FromCache.Should().BeFalse();
+
+            var status = _providerStatusService.GetStatus("cinemaworld");
+            status!.ServedFromCache.Should().BeFalse();
+            status.LastError.Should().Be("API Error");
+        }
+
+        [Test]
+        public async Task GetAllAsync_WithProviderErrorAndNoEarlierFetch_ShouldNotServeFromCache()
+        {
+            // Arrange
+            var providers = new List<ApiProvider>
+            {
+                new ApiProvider { Id = "cinemaworld", IsEnabled = true, DisplayName = "Cinemaworld" }
+            };
+
+            _mockApiProviderService.Setup(x => x.GetApiProvidersAsync())
+                .ReturnsAsync(providers);
+
+            _mockExternalMovieApiService.Setup(x => x.GetMoviesFromProviderAsync("cinemaworld"))
+                .ThrowsAsync(new HttpRequestException("API Error"));
+
+            // Act
+            var result = await _repository.GetAllAsync();
+
+            // Assert
+            result.Should().BeEmpty();
+            var status = _providerStatusService.GetStatus("cinemaworld");
+            status!.ServedFromCache.Should().BeFalse();
+            status.IsFailing.Should().BeTrue();
+        }
+
+        [Test]
+        public async Task GetAllAsync_WithRealServiceAndProviderDown_ShouldServeLastKnownPrices()
+        {
+            // Arrange
+            var provider = new ApiProvider
+            {
+                Id = "cinemaworld",
+                IsEnabled = true,
+                DisplayName = "Cinemaworld",
+                BaseUrl = "https://api.cinemaworld.com",
+                ApiToken = "test-token",
+                Endpoints = new ApiEndpoints { Movies = "/movies", MovieDetail = "/movie/{id}" }
+            };
+
+            _mockApiProviderService.Setup(x => x.GetApiProvidersAsync())
+                .ReturnsAsync(new List<ApiProvider> { provider });
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(provider);
+
+            var providerDown = false;
+            var mockHttpMessageHandler = new Mock<HttpMessageHandler>();
+            mockHttpMessageHandler.Protected()
+                .Setup<Task<HttpResponseMessage>>("SendAsync", ItExpr.IsAny<HttpRequestMessage>(), ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync((HttpRequestMessage request, CancellationToken _) =>
+                {
+                    if (providerDown)
+                    {
+                        return new HttpResponseMessage { StatusCode = HttpStatusCode.ServiceUnavailable, ReasonPhrase = "Service Unavailable" };
+                    }
+
+                    var json = request.RequestUri!.AbsolutePath == "/movies"
+                        ? """{"Movies": [{"ID": "cw001", "Title": "Star Wars", "Year": "1977"}]}"""
+                        : """{"ID": "cw001", "Title": "Star Wars", "Year": "1977", "Price": "25.99"}""";
+                    return new HttpResponseMessage
+                    {
+                        StatusCode = HttpStatusCode.OK,
+                        Content = new StringContent(json, Encoding.UTF8, "application/json")
+                    };
+                });
+
+            using var httpClient = new HttpClient(mockHttpMessageHandler.Object);
+            var externalMovieApiService = new ExternalMovieApiService(
+                _mockApiProviderService.Object,
+                _providerStatusService,
+                httpClient,
+                new Mock<IConfiguration>().Object,
+                new Mock<ILogger<ExternalMovieApiService>>().Object);
+            var repository = new MovieRepository(
+                _memoryCache,
+                externalMovieApiService,
+                _mockApiProviderService.Object,
+                _providerStatusService,
+                _mockLogger.Object,
+                _cacheSettings);
+
+            await repository.GetAllAsync();
+            _memoryCache.Remove("movies_list");
+            providerDown = true;
+
+            // Act
+            var result = await repository.GetAllAsync();
+
+            // Assert
+            var price = result.Single().ProviderSpecificDetails.Single();
+            price.Price.Should().Be(25.99m);
+            price.FromCache.Should().BeTrue();
+
+            var status = _providerStatusService.GetStatus("cinemaworld");
+            status!.ServedFromCache.Should().BeTrue();
+            status.LastError.Should().Be("HTTP 503 Service Unavailable");
+        }
+
         [Test]
         public async Task GetAllAsync_WithSameMovieFromMultipleProviders_ShouldMergeMovieData()
         {
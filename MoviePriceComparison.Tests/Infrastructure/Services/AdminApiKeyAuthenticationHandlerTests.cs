@@ -0,0 +1,75 @@
+using System.Text.Encodings.Web;
+using FluentAssertions;
+using Microsoft.AspNetCore.Authentication;
+using Microsoft.AspNetCore.Http;
+using Microsoft.Extensions.Logging.Abstractions;
+using Microsoft.Extensions.Options;
+using Moq;
+using MoviePriceComparison.Infrastructure.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Infrastructure.Services
+{
+    [TestFixture]
+    public class AdminApiKeyAuthenticationHandlerTests
+    {
+        private static async Task<AuthenticateResult> AuthenticateAsync(string configuredKey, string? sentKey)
+        {
+            var options = new Mock<IOptionsMonitor<AdminApiKeyOptions>>();
+            options.Setup(x => x.Get(AdminApiKeyAuthenticationHandler.SchemeName))
+                .Returns(new AdminApiKeyOptions { ApiKey = configuredKey });
+            var handler = new AdminApiKeyAuthenticationHandler(options.Object, NullLoggerFactory.Instance, UrlEncoder.Default);
+
+            var context = new DefaultHttpContext();
+            if (sentKey != null)
+            {
+                context.Request.Headers[AdminApiKeyAuthenticationHandler.HeaderName] = sentKey;
+            }
+
+            var scheme = new AuthenticationScheme(AdminApiKeyAuthenticationHandler.SchemeName, null, typeof(AdminApiKeyAuthenticationHandler));
+            await handler.InitializeAsync(scheme, context);
+            return await handler.AuthenticateAsync();
+        }
+
+        [Test]
+        public async Task AuthenticateAsync_WithMatchingKey_ShouldSucceed()
+        {
+            // Act
+            var result = await AuthenticateAsync("admin-secret", "admin-secret");
+
+            // Assert
+            result.Succeeded.Should().BeTrue();
+        }
+
+        [Test]
+        public async Task AuthenticateAsync_WithWrongKey_ShouldFail()
+        {
+            // Act
+            var result = await AuthenticateAsync("admin-secret", "guess");
+
+            // Assert
+            result.Succeeded.Should().BeFalse();
+            result.Failure.Should().NotBeNull();
+        }
+
+        [Test]
+        public async Task AuthenticateAsync_WithoutHeader_ShouldLeaveRequestAnonymous()
+        {
+            // Act
+            var result = await AuthenticateAsync("admin-secret", null);
+
+            // Assert
+            result.None.Should().BeTrue();
+        }
+
+        [Test]
+        public async Task AuthenticateAsync_WithNoKeyConfigured_ShouldRejectEveryKey()
+        {
+            // Act
+            var result = await AuthenticateAsync("", "");
+
+            // Assert
+            result.Succeeded.Should().BeFalse();
+        }
+    }
+}
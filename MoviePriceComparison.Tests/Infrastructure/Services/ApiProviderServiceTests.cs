@@ -153,6 +153,36 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
             newProviders.Should().NotBeEquivalentTo(cachedProviders);
         }
 
+        [Test]
+        public async Task SaveApiProviderAsync_ShouldKeepChangesAcrossRefreshes()
+        {
+            // Arrange
+            var provider = new ApiProvider { Id = "cinemaworld", Name = "cinemaworld", DisplayName = "Cinemaworld", IsEnabled = false };
+
+            // Act
+            await _service.SaveApiProviderAsync(provider);
+            await _service.RefreshApiProvidersAsync();
+
+            // Assert
+            var providers = await _service.GetApiProvidersAsync();
+            providers.Should().HaveCount(2);
+            (await _service.IsProviderEnabledAsync("cinemaworld")).Should().BeFalse();
+        }
+
+        [Test]
+        public async Task SaveApiProviderAsync_WithNewProvider_ShouldAddIt()
+        {
+            // Arrange
+            await _service.GetApiProvidersAsync();
+
+            // Act
+            await _service.SaveApiProviderAsync(new ApiProvider { Id = "moviemax", Name = "moviemax", DisplayName = "MovieMax" });
+
+            // Assert
+            var providers = await _service.GetApiProvidersAsync();
+            providers.Select(p => p.Id).Should().Contain("moviemax");
+        }
+
         [Test]
         public async Task IsProviderEnabledAsync_WithEnabledProvider_ShouldReturnTrue()
         {
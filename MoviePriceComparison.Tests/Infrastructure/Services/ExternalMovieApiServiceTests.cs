@@ -19,6 +19,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
         private Mock<HttpMessageHandler> _mockHttpMessageHandler;
         private HttpClient _httpClient;
         private Mock<IApiProviderService> _mockApiProviderService;
+        private Mock<IProviderStatusService> _mockProviderStatusService;
         private Mock<ILogger<ExternalMovieApiService>> _mockLogger;
         private Mock<IConfiguration> _mockConfiguration;
         private ExternalMovieApiService _service;
@@ -29,11 +30,13 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
             _mockHttpMessageHandler = new Mock<HttpMessageHandler>();
             _httpClient = new HttpClient(_mockHttpMessageHandler.Object);
             _mockApiProviderService = new Mock<IApiProviderService>();
+            _mockProviderStatusService = new Mock<IProviderStatusService>();
             _mockLogger = new Mock<ILogger<ExternalMovieApiService>>();
             _mockConfiguration = new Mock<IConfiguration>();
 
             _service = new ExternalMovieApiService(
                 _mockApiProviderService.Object,
+                _mockProviderStatusService.Object,
                 _httpClient,
                 _mockConfiguration.Object,
                 _mockLogger.Object);
@@ -104,7 +107,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
         }
 
         [Test]
-        public async Task GetMoviesFromProviderAsync_WithHttpError_ShouldReturnEmpty()
+        public async Task GetMoviesFromProviderAsync_WithHttpError_ShouldThrowProviderUnavailable()
         {
             // Arrange
             var provider = new ApiProvider
@@ -130,10 +133,88 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
                 });
 
             // Act
-            var result = await _service.GetMoviesFromProviderAsync("cinemaworld");
+            var action = () => _service.GetMoviesFromProviderAsync("cinemaworld");
 
             // Assert
-            result.Should().BeEmpty(); // Implementation returns empty instead of throwing
+            (await action.Should().ThrowAsync<ProviderUnavailableException>())
+                .Which.ProviderId.Should().Be("cinemaworld");
+        }
+
+        [Test]
+        public async Task GetMoviesFromProviderAsync_WithHttpError_ShouldRecordFailure()
+        {
+            // Arrange
+            var provider = new ApiProvider
+            {
+                Id = "cinemaworld",
+                BaseUrl = "https://api.cinemaworld.com",
+                ApiToken = "test-token",
+                Endpoints = new ApiEndpoints { Movies = "/movies" }
+            };
+
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(provider);
+
+            _mockHttpMessageHandler.Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync(new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.ServiceUnavailable,
+                    ReasonPhrase = "Service Unavailable"
+                });
+
+            // Act
+            var action = () => _service.GetMoviesFromProviderAsync("cinemaworld");
+
+            // Assert
+            await action.Should().ThrowAsync<ProviderUnavailableException>();
+            _mockProviderStatusService.Verify(
+                x => x.RecordFailure("cinemaworld", It.IsAny<TimeSpan>(), "HTTP 503 Service Unavailable"),
+                Times.Once);
+            _mockProviderStatusService.Verify(
+                x => x.RecordSuccess(It.IsAny<string>(), It.IsAny<TimeSpan>()),
+                Times.Never);
+        }
+
+        [Test]
+        public async Task GetMoviesFromProviderAsync_WithValidResponse_ShouldRecordSuccess()
+        {
+            // Arrange
+            var provider = new ApiProvider
+            {
+                Id = "cinemaworld",
+                BaseUrl = "https://api.cinemaworld.com",
+                ApiToken = "test-token",
+                Endpoints = new ApiEndpoints { Movies = "/movies" }
+            };
+
+            _mockApiProviderService.Setup(x => x.GetApiProviderAsync("cinemaworld"))
+                .ReturnsAsync(provider);
+
+            _mockHttpMessageHandler.Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync(new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent("{\"Movies\": []}", Encoding.UTF8, "application/json")
+                });
+
+            // Act
+            await _service.GetMoviesFromProviderAsync("cinemaworld");
+
+            // Assert
+            _mockProviderStatusService.Verify(
+                x => x.RecordSuccess("cinemaworld", It.IsAny<TimeSpan>()),
+                Times.Once);
+            _mockProviderStatusService.Verify(
+                x => x.RecordFailure(It.IsAny<string>(), It.IsAny<TimeSpan>(), It.IsAny<string>()),
+                Times.Never);
         }
 
         [Test]
@@ -324,7 +405,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
         }
 
         [Test]
-        public async Task GetMoviesFromProviderAsync_WithInvalidJson_ShouldReturnEmpty()
+        public async Task GetMoviesFromProviderAsync_WithInvalidJson_ShouldThrowProviderUnavailable()
         {
             // Arrange
             var provider = new ApiProvider
@@ -350,10 +431,11 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
                 });
 
             // Act
-            var result = await _service.GetMoviesFromProviderAsync("cinemaworld");
+            var action = () => _service.GetMoviesFromProviderAsync("cinemaworld");
 
             // Assert
-            result.Should().BeEmpty(); // Implementation returns empty instead of throwing
+            (await action.Should().ThrowAsync<ProviderUnavailableException>())
+                .WithInnerException<JsonException>();
         }
 
         [Test]
@@ -394,6 +476,21 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
         {
             // Act & Assert
             var action = () => new ExternalMovieApiService(
+                null!,
+                _mockProviderStatusService.Object,
+                _httpClient,
+                _mockConfiguration.Object,
+                _mockLogger.Object);
+
+            action.Should().Throw<ArgumentNullException>();
+        }
+
+        [Test]
+        public void Constructor_WithNullProviderStatusService_ShouldThrowArgumentNullException()
+        {
+            // Act & Assert
+            var action = () => new ExternalMovieApiService(
+                _mockApiProviderService.Object,
                 null!,
                 _httpClient,
                 _mockConfiguration.Object,
@@ -408,6 +505,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
             // Act & Assert
             var action = () => new ExternalMovieApiService(
                 _mockApiProviderService.Object,
+                _mockProviderStatusService.Object,
                 null!,
                 _mockConfiguration.Object,
                 _mockLogger.Object);
@@ -421,6 +519,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
             // Act & Assert
             var action = () => new ExternalMovieApiService(
                 _mockApiProviderService.Object,
+                _mockProviderStatusService.Object,
                 _httpClient,
                 null!,
                 _mockLogger.Object);
@@ -434,6 +533,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
             // Act & Assert
             var action = () => new ExternalMovieApiService(
                 _mockApiProviderService.Object,
+                _mockProviderStatusService.Object,
                 _httpClient,
                 _mockConfiguration.Object,
                 null!);
@@ -472,7 +572,7 @@ namespace MoviePriceComparison.Tests.Infrastructure.Services
                 });
 
             var httpClient = new HttpClient(mockHttpMessageHandler.Object);
-            var service = new ExternalMovieApiService(_mockApiProviderService.Object, httpClient, _mockConfiguration.Object, _mockLogger.Object);
+            var service = new ExternalMovieApiService(_mockApiProviderService.Object, _mockProviderStatusService.Object, httpClient, _mockConfiguration.Object, _mockLogger.Object);
 
             // Act
             var result = await service.GetMoviesFromProviderAsync("cinemaworld");
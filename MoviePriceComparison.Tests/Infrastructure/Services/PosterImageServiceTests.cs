@@ -0,0 +1,197 @@
+using System.Net;
+using System.Net.Http.Headers;
+using FluentAssertions;
+using Microsoft.Extensions.Caching.Distributed;
+using Microsoft.Extensions.Caching.Memory;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+using Moq.Protected;
+using MoviePriceComparison.Infrastructure.Services;
+using NUnit.Framework;
+using SixLabors.ImageSharp;
+using SixLabors.ImageSharp.PixelFormats;
+
+namespace MoviePriceComparison.Tests.Infrastructure.Services
+{
+    [TestFixture]
+    public class PosterImageServiceTests
+    {
+        private const string PosterUrl = "https://cinemaworld.com/poster.png";
+
+        private Mock<HttpMessageHandler> _mockHttpMessageHandler;
+        private IDistributedCache _cache;
+        private PosterSettings _settings;
+        private PosterImageService _service;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _mockHttpMessageHandler = new Mock<HttpMessageHandler>();
+            _cache = new MemoryDistributedCache(Options.Create(new MemoryDistributedCacheOptions()));
+            _settings = new PosterSettings { Widths = new[] { 200, 400 } };
+
+            _service = new PosterImageService(
+                new HttpClient(_mockHttpMessageHandler.Object),
+                _cache,
+                Options.Create(_settings),
+                new Mock<ILogger<PosterImageService>>().Object);
+        }
+
+        private static byte[] CreatePng(int width, int height)
+        {
+            using var image = new Image<Rgba32>(width, height);
+            using var stream = new MemoryStream();
+            image.SaveAsPng(stream);
+            return stream.ToArray();
+        }
+
+        private void SetupResponse(HttpStatusCode statusCode, byte[] content, string contentType)
+        {
+            _mockHttpMessageHandler.Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync(() =>
+                {
+                    var body = new ByteArrayContent(content);
+                    body.Headers.ContentType = new MediaTypeHeaderValue(contentType);
+                    return new HttpResponseMessage { StatusCode = statusCode, Content = body };
+                });
+        }
+
+        private void VerifyRequests(int times)
+        {
+            _mockHttpMessageHandler.Protected().Verify(
+                "SendAsync",
+                Times.Exactly(times),
+                ItExpr.IsAny<HttpRequestMessage>(),
+                ItExpr.IsAny<CancellationToken>());
+        }
+
+        [TestCase(300, 400)]
+        [TestCase(150, 200)]
+        [TestCase(1000, 400)]
+        [TestCase(null, 400)]
+        public async Task GetAsync_ShouldScaleToTheNextConfiguredWidthAsJpeg(int? requestedWidth, int expectedWidth)
+        {
+            // Arrange
+            SetupResponse(HttpStatusCode.OK, CreatePng(1000, 1500), "image/png");
+
+            // Act
+            var poster = await _service.GetAsync(PosterUrl, requestedWidth);
+
+            // Assert
+            poster.Should().NotBeNull();
+            poster!.ContentType.Should().Be("image/jpeg");
+            poster.Width.Should().Be(expectedWidth);
+            using var image = Image.Load(poster.Content);
+            image.Width.Should().Be(expectedWidth);
+            image.Height.Should().Be(expectedWidth * 3 / 2);
+        }
+
+        [Test]
+        public async Task GetAsync_ShouldNotEnlargeSmallPosters()
+        {
+            // Arrange
+            SetupResponse(HttpStatusCode.OK, CreatePng(100, 150), "image/png");
+
+            // Act
+            var poster = await _service.GetAsync(PosterUrl, 400);
+
+            // Assert
+            using var image = Image.Load(poster!.Content);
+            image.Width.Should().Be(100);
+        }
+
+        [Test]
+        public async Task GetAsync_ShouldFetchEachVariantOnce()
+        {
+            // Arrange
+            SetupResponse(HttpStatusCode.OK, CreatePng(1000, 1500), "image/png");
+
+            // Act
+            await _service.GetAsync(PosterUrl, 400);
+            await _service.GetAsync(PosterUrl, 350);
+            await _service.GetAsync(PosterUrl, 200);
+
+            // Assert
+            VerifyRequests(2);
+        }
+
+        [Test]
+        public async Task GetAsync_WithUnusableResponses_ShouldReturnNullAndRememberTheFailure()
+        {
+            // Arrange
+            SetupResponse(HttpStatusCode.NotFound, Array.Empty<byte>(), "text/html");
+
+            // Act
+            var first = await _service.GetAsync(PosterUrl, 200);
+            var second = await _service.GetAsync(PosterUrl, 200);
+
+            // Assert
+            first.Should().BeNull();
+            second.Should().BeNull();
+            VerifyRequests(1);
+        }
+
+        [Test]
+        public async Task GetAsync_WithNonImageContentType_ShouldReturnNull()
+        {
+            // Arrange
+            SetupResponse(HttpStatusCode.OK, CreatePng(100, 150), "text/html");
+
+            // Act & Assert
+            (await _service.GetAsync(PosterUrl, 200)).Should().BeNull();
+        }
+
+        [Test]
+        public async Task GetAsync_WithUndecodableImage_ShouldReturnNull()
+        {
+            // Arrange
+            SetupResponse(HttpStatusCode.OK, new byte[] { 1, 2, 3, 4 }, "image/jpeg");
+
+            // Act & Assert
+            (await _service.GetAsync(PosterUrl, 200)).Should().BeNull();
+        }
+
+        [Test]
+        public async Task GetAsync_WithImageOverTheSizeLimit_ShouldReturnNull()
+        {
+            // Arrange
+            var png = CreatePng(100, 150);
+            _settings.MaxDownloadBytes = png.Length - 1;
+            SetupResponse(HttpStatusCode.OK, png, "image/png");
+
+            // Act & Assert
+            (await _service.GetAsync(PosterUrl, 200)).Should().BeNull();
+        }
+
+        [Test]
+        public async Task GetAsync_WithDimensionsOverThePixelLimit_ShouldReturnNull()
+        {
+            // Arrange
+            _settings.MaxSourcePixels = 1000 * 1500 - 1;
+            SetupResponse(HttpStatusCode.OK, CreatePng(1000, 1500), "image/png");
+
+            // Act & Assert
+            (await _service.GetAsync(PosterUrl, 200)).Should().BeNull();
+        }
+
+        [Test]
+        public async Task GetAsync_WhenTheHostIsUnreachable_ShouldReturnNull()
+        {
+            // Arrange
+            _mockHttpMessageHandler.Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ThrowsAsync(new HttpRequestException("Connection refused"));
+
+            // Act & Assert
+            (await _service.GetAsync(PosterUrl, 200)).Should().BeNull();
+        }
+    }
+}
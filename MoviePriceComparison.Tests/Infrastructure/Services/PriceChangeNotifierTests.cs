@@ -0,0 +1,84 @@
+using FluentAssertions;
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Infrastructure.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Infrastructure.Services
+{
+    [TestFixture]
+    public class PriceChangeNotifierTests
+    {
+        private PriceChangeNotifier _notifier;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _notifier = new PriceChangeNotifier();
+        }
+
+        private static PriceChange CreateChange(string providerMovieId, decimal? price)
+        {
+            return new PriceChange
+            {
+                MovieId = "star-wars-1977",
+                ProviderId = "cinemaworld",
+                Provider = "Cinemaworld",
+                ProviderMovieId = providerMovieId,
+                Price = price,
+                LastUpdated = DateTime.UtcNow
+            };
+        }
+
+        [Test]
+        public async Task SubscribeAsync_ShouldReceiveChangesPublishedAfterSubscribing()
+        {
+            // Arrange
+            using var cts = new CancellationTokenSource(TimeSpan.FromSeconds(5));
+            var first = _notifier.SubscribeAsync(cts.Token).GetAsyncEnumerator(cts.Token);
+            var second = _notifier.SubscribeAsync(cts.Token).GetAsyncEnumerator(cts.Token);
+            // Subscriptions start on the first read
+            var firstRead = first.MoveNextAsync();
+            var secondRead = second.MoveNextAsync();
+
+            // Act
+            _notifier.Publish(new[] { CreateChange("cw001", 19.99m), CreateChange("cw002", 24.99m) });
+
+            // Assert
+            (await firstRead).Should().BeTrue();
+            first.Current.ProviderMovieId.Should().Be("cw001");
+            (await first.MoveNextAsync()).Should().BeTrue();
+            first.Current.ProviderMovieId.Should().Be("cw002");
+            (await secondRead).Should().BeTrue();
+            second.Current.ProviderMovieId.Should().Be("cw001");
+
+            await first.DisposeAsync();
+            await second.DisposeAsync();
+        }
+
+        [Test]
+        public async Task SubscribeAsync_WhenCancelled_ShouldStopAndUnsubscribe()
+        {
+            // Arrange
+            using var cts = new CancellationTokenSource();
+            var changes = _notifier.SubscribeAsync(cts.Token).GetAsyncEnumerator(cts.Token);
+            var read = changes.MoveNextAsync();
+
+            // Act
+            cts.Cancel();
+            var action = async () => await read;
+
+            // Assert
+            await action.Should().ThrowAsync<OperationCanceledException>();
+            await changes.DisposeAsync();
+            // Publishing with no subscribers left is a no-op
+            _notifier.Invoking(n => n.Publish(new[] { CreateChange("cw001", 19.99m) })).Should().NotThrow();
+        }
+
+        [Test]
+        public void Publish_WithoutSubscribers_ShouldNotThrow()
+        {
+            // Act & Assert
+            _notifier.Invoking(n => n.Publish(new[] { CreateChange("cw001", 19.99m) })).Should().NotThrow();
+        }
+    }
+}
@@ -0,0 +1,87 @@
+using FluentAssertions;
+using MoviePriceComparison.Infrastructure.Services;
+using NUnit.Framework;
+
+namespace MoviePriceComparison.Tests.Infrastructure.Services
+{
+    [TestFixture]
+    public class ProviderStatusServiceTests
+    {
+        private ProviderStatusService _service;
+
+        [SetUp]
+        public void SetUp()
+        {
+            _service = new ProviderStatusService();
+        }
+
+        [Test]
+        public void GetStatus_WithUnknownProvider_ShouldReturnNull()
+        {
+            // Act & Assert
+            _service.GetStatus("cinemaworld").Should().BeNull();
+        }
+
+        [Test]
+        public void RecordFailure_ShouldKeepErrorAndLatency()
+        {
+            // Act
+            _service.RecordFailure("cinemaworld", TimeSpan.FromMilliseconds(1234.4), "HTTP 503 Service Unavailable");
+
+            // Assert
+            var status = _service.GetStatus("cinemaworld");
+            status.Should().NotBeNull();
+            status!.LastError.Should().Be("HTTP 503 Service Unavailable");
+            status.LastErrorAt.Should().NotBeNull();
+            status.LastSuccessAt.Should().BeNull();
+            status.LatencyMs.Should().Be(1234);
+            status.IsFailing.Should().BeTrue();
+        }
+
+        [Test]
+        public void RecordSuccess_ShouldMatchProviderIdCaseInsensitively()
+        {
+            // Act
+            _service.RecordSuccess("CinemaWorld", TimeSpan.FromMilliseconds(90));
+            _service.RecordServedFromCache("cinemaworld", true);
+
+            // Assert
+            _service.GetStatuses().Should().ContainSingle();
+            var status = _service.GetStatus("cinemaworld");
+            status!.LastSuccessAt.Should().NotBeNull();
+            status.ServedFromCache.Should().BeTrue();
+            status.IsFailing.Should().BeFalse();
+        }
+
+        [Test]
+        public void Record_ShouldKeepOnlyTheMostRecentLatencies()
+        {
+            // Act
+            for (var i = 1; i <= ProviderStatusService.MaxLatencySamples + 5; i++)
+            {
+                _service.RecordSuccess("cinemaworld", TimeSpan.FromMilliseconds(i));
+            }
+
+            // Assert
+            var latencies = _service.GetStatus("cinemaworld")!.RecentLatencies;
+            latencies.Should().HaveCount(ProviderStatusService.MaxLatencySamples);
+            latencies.First().LatencyMs.Should().Be(6);
+            latencies.Last().LatencyMs.Should().Be(ProviderStatusService.MaxLatencySamples + 5);
+        }
+
+        [Test]
+        public void GetStatus_ShouldReturnSnapshot()
+        {
+            // Arrange
+            _service.RecordSuccess("cinemaworld", TimeSpan.FromMilliseconds(90));
+            var snapshot = _service.GetStatus("cinemaworld")!;
+
+            // Act
+            _service.RecordFailure("cinemaworld", TimeSpan.FromMilliseconds(50), "Timeout");
+
+            // Assert
+            snapshot.LastError.Should().BeNull();
+            snapshot.RecentLatencies.Should().HaveCount(1);
+        }
+    }
+}
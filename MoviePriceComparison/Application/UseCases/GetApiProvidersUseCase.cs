@@ -0,0 +1,37 @@
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Domain.Services;
+
+namespace MoviePriceComparison.Application.UseCases
+{
+    public interface IGetApiProvidersUseCase
+    {
+        Task<IEnumerable<ApiProviderDto>> ExecuteAsync();
+        Task<ApiProviderDto?> ExecuteAsync(string providerId);
+    }
+
+    public class GetApiProvidersUseCase : IGetApiProvidersUseCase
+    {
+        private readonly IApiProviderService _apiProviderService;
+
+        public GetApiProvidersUseCase(IApiProviderService apiProviderService)
+        {
+            _apiProviderService = apiProviderService ?? throw new ArgumentNullException(nameof(apiProviderService));
+        }
+
+        public async Task<IEnumerable<ApiProviderDto>> ExecuteAsync()
+        {
+            var providers = await _apiProviderService.GetApiProvidersAsync();
+            return providers
+                .OrderBy(p => p.Priority)
+                .ThenBy(p => p.DisplayName)
+                .Select(ApiProviderDto.FromProvider)
+                .ToList();
+        }
+
+        public async Task<ApiProviderDto?> ExecuteAsync(string providerId)
+        {
+            var provider = await _apiProviderService.GetApiProviderAsync(providerId);
+            return provider != null ? ApiProviderDto.FromProvider(provider) : null;
+        }
+    }
+}
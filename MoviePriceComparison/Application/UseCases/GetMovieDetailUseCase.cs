@@ -1,8 +1,5 @@
 using MoviePriceComparison.Application.DTOs;
 using MoviePriceComparison.Domain.Repositories;
-using MoviePriceComparison.Infrastructure.Services;
-using MoviePriceComparison.Domain.Entities;
-using System.Net.Http;
 
 namespace MoviePriceComparison.Application.UseCases
 {
@@ -13,22 +10,20 @@ namespace MoviePriceComparison.Application.UseCases
 
     public class GetMovieDetailUseCase : UseCaseBase, IGetMovieDetailUseCase
     {
-        public GetMovieDetailUseCase(IMovieRepository movieRepository, HttpClient httpClient) : base(movieRepository, httpClient) { }
+        public GetMovieDetailUseCase(IMovieRepository movieRepository) : base(movieRepository) { }
 
         public async Task<MovieDetailResponseDto?> ExecuteAsync(string movieId)
         {
-            var movies = await _movieRepository.GetAllAsync();
-            var movie = movies.FirstOrDefault(x => x.ProviderSpecificDetails.Any(a => a.MovieId == movieId));
+            var movie = await FindMovieAsync(movieId);
             if (movie == null)
                 return null;
 
             var cheapestProvider = movie.ProviderSpecificDetails.MinBy(x => x.Price);
-
-            // Get a valid poster URL from the provider-specific details
-            var validPosterUrl = await GetValidPosterUrlAsync(movie.ProviderSpecificDetails);
+            var posters = GetPosterCandidates(movie.ProviderSpecificDetails);
 
             return new MovieDetailResponseDto
             {
+                Id = movie.Id,
                 Title = movie.Title,
                 Year = movie.Year,
                 Type = movie.Type,
@@ -43,7 +38,8 @@ namespace MoviePriceComparison.Application.UseCases
                 Language = movie.Language,
                 Country = movie.Country,
                 Awards = movie.Awards,
-                Poster = validPosterUrl,
+                Poster = posters.FirstOrDefault()?.Url,
+                Posters = posters,
                 Metascore = movie.Metascore,
                 Rating = movie.Rating,
                 Votes = movie.Votes,
@@ -55,6 +51,7 @@ namespace MoviePriceComparison.Application.UseCases
                     MovieId = price.MovieId,
                     Price = price.Price,
                     LastUpdated = price.UpdatedAt,
+                    FromCache = price.FromCache,
                 }).ToList(),
                 CheapestPrice = cheapestProvider != null ? new MoviePriceDto
                 {
@@ -62,7 +59,8 @@ namespace MoviePriceComparison.Application.UseCases
                     ProviderId = cheapestProvider.ProviderId,
                     MovieId = cheapestProvider.MovieId,
                     Price = cheapestProvider.Price,
-                    LastUpdated = cheapestProvider.UpdatedAt
+                    LastUpdated = cheapestProvider.UpdatedAt,
+                    FromCache = cheapestProvider.FromCache
                 } : null,
             };
         }
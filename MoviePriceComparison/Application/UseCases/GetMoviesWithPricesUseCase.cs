@@ -1,4 +1,5 @@
 using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Domain.Entities;
 using MoviePriceComparison.Domain.Repositories;
 
 namespace MoviePriceComparison.Application.UseCases
@@ -6,54 +7,89 @@ namespace MoviePriceComparison.Application.UseCases
     public interface IGetMoviesWithPricesUseCase
     {
         Task<IEnumerable<MovieComparisonDto>> ExecuteAsync();
+
+        /// <summary>
+        /// One page of the catalogue, in the same order as ExecuteAsync
+        /// </summary>
+        Task<MoviePageDto> ExecutePageAsync(int page, int pageSize);
     }
 
     public class GetMoviesWithPricesUseCase : UseCaseBase, IGetMoviesWithPricesUseCase
     {
-        public GetMoviesWithPricesUseCase(IMovieRepository movieRepository, HttpClient httpClient) : base(movieRepository, httpClient) { }
+        public GetMoviesWithPricesUseCase(IMovieRepository movieRepository) : base(movieRepository) { }
 
 
         public async Task<IEnumerable<MovieComparisonDto>> ExecuteAsync()
         {
-            List<MovieComparisonDto> result = new();
             var movies = await _movieRepository.GetAllAsync();
-            foreach (var movie in movies)
+            return movies.Select(ToComparisonDto).ToList();
+        }
+
+        public async Task<MoviePageDto> ExecutePageAsync(int page, int pageSize)
+        {
+            if (page < 1)
             {
-                var cheapestProvider = movie.ProviderSpecificDetails.MinBy(x => x.Price);
+                throw new ArgumentOutOfRangeException(nameof(page), page, "Page must be 1 or greater");
+            }
+            if (pageSize < 1)
+            {
+                throw new ArgumentOutOfRangeException(nameof(pageSize), pageSize, "Page size must be 1 or greater");
+            }
 
-                // Get a valid poster URL from the provider-specific details
-                var validPosterUrl = await GetValidPosterUrlAsync(movie.ProviderSpecificDetails);
+            var movies = (await _movieRepository.GetAllAsync()).ToList();
 
-                result.Add(new MovieComparisonDto
-                {
-                    Title = movie.Title,
-                    Year = movie.Year,
-                    Genre = movie.Genre,
-                    Director = movie.Director,
-                    Actors = movie.Actors,
-                    Plot = movie.Plot,
-                    Poster = validPosterUrl,
-                    Rating = movie.Rating,
-                    Prices = movie.ProviderSpecificDetails.Select(price => new MoviePriceDto
-                    {
-                        ProviderId = price.ProviderId,
-                        Provider = price.Provider,
-                        MovieId = price.MovieId,
-                        Price = price.Price,
-                        LastUpdated = price.UpdatedAt,
-                    }).ToList(),
-                    CheapestPrice = cheapestProvider != null ? new MoviePriceDto
-                    {
-                        Provider = cheapestProvider.Provider,
-                        ProviderId = cheapestProvider.ProviderId,
-                        MovieId = cheapestProvider.MovieId,
-                        Price = cheapestProvider.Price,
-                        LastUpdated = cheapestProvider.UpdatedAt
-                    } : null
-                });
-            }
+            var items = movies
+                .Skip((page - 1) * pageSize)
+                .Take(pageSize)
+                .Select(ToComparisonDto)
+                .ToList();
 
-            return result;
+            return new MoviePageDto
+            {
+                Items = items,
+                Page = page,
+                PageSize = pageSize,
+                TotalCount = movies.Count,
+                TotalPages = (int)Math.Ceiling(movies.Count / (double)pageSize)
+            };
+        }
+
+        private static MovieComparisonDto ToComparisonDto(MovieSummary movie)
+        {
+            var cheapestProvider = movie.ProviderSpecificDetails.MinBy(x => x.Price);
+            var posters = GetPosterCandidates(movie.ProviderSpecificDetails);
+
+            return new MovieComparisonDto
+            {
+                Id = movie.Id,
+                Title = movie.Title,
+                Year = movie.Year,
+                Genre = movie.Genre,
+                Director = movie.Director,
+                Actors = movie.Actors,
+                Plot = movie.Plot,
+                Poster = posters.FirstOrDefault()?.Url,
+                Posters = posters,
+                Rating = movie.Rating,
+                Prices = movie.ProviderSpecificDetails.Select(price => new MoviePriceDto
+                {
+                    ProviderId = price.ProviderId,
+                    Provider = price.Provider,
+                    MovieId = price.MovieId,
+                    Price = price.Price,
+                    LastUpdated = price.UpdatedAt,
+                    FromCache = price.FromCache,
+                }).ToList(),
+                CheapestPrice = cheapestProvider != null ? new MoviePriceDto
+                {
+                    Provider = cheapestProvider.Provider,
+                    ProviderId = cheapestProvider.ProviderId,
+                    MovieId = cheapestProvider.MovieId,
+                    Price = cheapestProvider.Price,
+                    LastUpdated = cheapestProvider.UpdatedAt,
+                    FromCache = cheapestProvider.FromCache
+                } : null
+            };
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Domain.Repositories;
+using MoviePriceComparison.Domain.Services;
+
+namespace MoviePriceComparison.Application.UseCases
+{
+    public interface IGetPosterUseCase
+    {
+        /// <summary>
+        /// One provider's poster for a movie, scaled to fit width. Null when the
+        /// movie is unknown, the provider has no poster for it, or the poster
+        /// cannot be loaded.
+        /// </summary>
+        Task<PosterImage?> ExecuteAsync(string movieId, string providerId, int? width, CancellationToken cancellationToken = default);
+    }
+
+    public class GetPosterUseCase : UseCaseBase, IGetPosterUseCase
+    {
+        private readonly IPosterImageService _posterImageService;
+
+        public GetPosterUseCase(IMovieRepository movieRepository, IPosterImageService posterImageService) : base(movieRepository)
+        {
+            _posterImageService = posterImageService ?? throw new ArgumentNullException(nameof(posterImageService));
+        }
+
+        public async Task<PosterImage?> ExecuteAsync(string movieId, string providerId, int? width, CancellationToken cancellationToken = default)
+        {
+            var movie = await FindMovieAsync(movieId);
+            // Only URLs the providers gave us are fetched; clients cannot point the proxy anywhere else.
+            var posterUrl = movie?.ProviderSpecificDetails
+                .FirstOrDefault(p => string.Equals(p.ProviderId, providerId, StringComparison.OrdinalIgnoreCase))
+                ?.PosterUrl;
+            if (string.IsNullOrWhiteSpace(posterUrl))
+            {
+                return null;
+            }
+
+            return await _posterImageService.GetAsync(posterUrl, width, cancellationToken);
+        }
+    }
+}
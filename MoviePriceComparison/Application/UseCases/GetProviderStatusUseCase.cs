@@ -0,0 +1,82 @@
+using Microsoft.Extensions.Options;
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Domain.Services;
+
+namespace MoviePriceComparison.Application.UseCases
+{
+    public class ProviderStatusSettings
+    {
+        // Prices older than this are shown as stale
+        public int StaleAfterMinutes { get; set; } = 10;
+    }
+
+    public interface IGetProviderStatusUseCase
+    {
+        Task<ProviderStatusResponseDto> ExecuteAsync();
+    }
+
+    public class GetProviderStatusUseCase : IGetProviderStatusUseCase
+    {
+        private readonly IApiProviderService _apiProviderService;
+        private readonly IProviderStatusService _providerStatusService;
+        private readonly ProviderStatusSettings _settings;
+
+        public GetProviderStatusUseCase(
+            IApiProviderService apiProviderService,
+            IProviderStatusService providerStatusService,
+            IOptions<ProviderStatusSettings> settings)
+        {
+            _apiProviderService = apiProviderService ?? throw new ArgumentNullException(nameof(apiProviderService));
+            _providerStatusService = providerStatusService ?? throw new ArgumentNullException(nameof(providerStatusService));
+            _settings = settings?.Value ?? throw new ArgumentNullException(nameof(settings));
+        }
+
+        public async Task<ProviderStatusResponseDto> ExecuteAsync()
+        {
+            var providers = await _apiProviderService.GetApiProvidersAsync();
+            var statuses = _providerStatusService.GetStatuses()
+                .ToDictionary(s => s.ProviderId, StringComparer.OrdinalIgnoreCase);
+
+            return new ProviderStatusResponseDto
+            {
+                CheckedAt = DateTime.UtcNow,
+                StaleAfterMinutes = _settings.StaleAfterMinutes,
+                Providers = providers
+                    .OrderBy(p => p.Priority)
+                    .ThenBy(p => p.DisplayName)
+                    .Select(provider => ToDto(provider, statuses.GetValueOrDefault(provider.Id)))
+                    .ToList()
+            };
+        }
+
+        private static ProviderStatusDto ToDto(ApiProvider provider, ProviderStatus? status)
+        {
+            return new ProviderStatusDto
+            {
+                ProviderId = provider.Id,
+                Provider = provider.DisplayName,
+                IsEnabled = provider.IsEnabled,
+                State = GetState(provider, status),
+                LastSuccessAt = status?.LastSuccessAt,
+                LastErrorAt = status?.LastErrorAt,
+                LastError = status?.LastError,
+                LatencyMs = status?.LatencyMs,
+                ServedFromCache = status?.ServedFromCache ?? false,
+                RecentLatencies = status?.RecentLatencies.Select(sample => new ProviderLatencySampleDto
+                {
+                    At = sample.At,
+                    LatencyMs = sample.LatencyMs,
+                    Succeeded = sample.Succeeded
+                }).ToList() ?? new()
+            };
+        }
+
+        private static string GetState(ApiProvider provider, ProviderStatus? status)
+        {
+            if (!provider.IsEnabled) return "disabled";
+            if (status == null || (status.LastSuccessAt == null && status.LastErrorAt == null)) return "unknown";
+            return status.IsFailing ? "failing" : "healthy";
+        }
+    }
+}
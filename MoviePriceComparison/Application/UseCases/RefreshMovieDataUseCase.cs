@@ -0,0 +1,120 @@
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Domain.Repositories;
+using MoviePriceComparison.Domain.Services;
+
+namespace MoviePriceComparison.Application.UseCases
+{
+    public interface IRefreshMovieDataUseCase
+    {
+        Task<RefreshResultDto> ExecuteAsync();
+    }
+
+    public class RefreshMovieDataUseCase : IRefreshMovieDataUseCase
+    {
+        private readonly IMovieRepository _movieRepository;
+        private readonly IApiProviderService _apiProviderService;
+        private readonly IPriceChangeNotifier _priceChangeNotifier;
+        private readonly IProviderStatusService _providerStatusService;
+
+        public RefreshMovieDataUseCase(
+            IMovieRepository movieRepository,
+            IApiProviderService apiProviderService,
+            IPriceChangeNotifier priceChangeNotifier,
+            IProviderStatusService providerStatusService)
+        {
+            _movieRepository = movieRepository ?? throw new ArgumentNullException(nameof(movieRepository));
+            _apiProviderService = apiProviderService ?? throw new ArgumentNullException(nameof(apiProviderService));
+            _priceChangeNotifier = priceChangeNotifier ?? throw new ArgumentNullException(nameof(priceChangeNotifier));
+            _providerStatusService = providerStatusService ?? throw new ArgumentNullException(nameof(providerStatusService));
+        }
+
+        public async Task<RefreshResultDto> ExecuteAsync()
+        {
+            // Snapshot prices before the refresh replaces the cached list
+            var previousPrices = GetPrices(await _movieRepository.GetAllAsync());
+
+            var refreshStartedAt = DateTime.UtcNow;
+            await _movieRepository.RefreshData();
+
+            var movies = (await _movieRepository.GetAllAsync()).ToList();
+            var currentPrices = GetPrices(movies);
+            var changes = GetPriceChanges(previousPrices, currentPrices);
+            var providers = await _apiProviderService.GetApiProvidersAsync();
+
+            // Open event streams hear about every change, whoever asked for the refresh
+            _priceChangeNotifier.Publish(changes);
+
+            return new RefreshResultDto
+            {
+                RefreshedAt = DateTime.UtcNow,
+                Providers = providers.Where(p => p.IsEnabled).Select(provider =>
+                {
+                    // A provider whose movie list fails is not called again that refresh,
+                    // so any success recorded since the refresh started means its list arrived
+                    var status = _providerStatusService.GetStatus(provider.Id);
+                    var succeeded = status?.LastSuccessAt >= refreshStartedAt;
+                    return new ProviderRefreshDto
+                    {
+                        ProviderId = provider.Id,
+                        Provider = provider.DisplayName,
+                        MovieCount = movies.Count(m => m.ProviderSpecificDetails.Any(d => d.ProviderId == provider.Id)),
+                        Succeeded = succeeded,
+                        Error = succeeded ? null : status?.LastError,
+                    };
+                }).ToList(),
+                MovieCount = movies.Count,
+                PricesChanged = changes.Count,
+            };
+        }
+
+        // Values are copied rather than referenced: the repository may update its entities in place
+        private readonly record struct PriceSnapshot(string MovieId, string Provider, decimal? Price, bool FromCache, DateTime UpdatedAt);
+
+        private static Dictionary<(string ProviderId, string MovieId), PriceSnapshot> GetPrices(IEnumerable<MovieSummary> movies)
+        {
+            var prices = new Dictionary<(string ProviderId, string MovieId), PriceSnapshot>();
+            foreach (var movie in movies)
+            {
+                foreach (var detail in movie.ProviderSpecificDetails)
+                {
+                    prices[(detail.ProviderId, detail.MovieId)] =
+                        new PriceSnapshot(movie.Id, detail.Provider, detail.Price, detail.FromCache, detail.UpdatedAt);
+                }
+            }
+            return prices;
+        }
+
+        // A price that appeared or disappeared counts as a change too
+        private static List<PriceChange> GetPriceChanges(
+            Dictionary<(string ProviderId, string MovieId), PriceSnapshot> previous,
+            Dictionary<(string ProviderId, string MovieId), PriceSnapshot> current)
+        {
+            var changes = new List<PriceChange>();
+            foreach (var key in previous.Keys.Union(current.Keys))
+            {
+                var hadPrice = previous.TryGetValue(key, out var before);
+                var hasPrice = current.TryGetValue(key, out var after);
+                if (hadPrice && hasPrice && before.Price == after.Price)
+                {
+                    continue;
+                }
+
+                var snapshot = hasPrice ? after : before;
+                changes.Add(new PriceChange
+                {
+                    MovieId = snapshot.MovieId,
+                    ProviderId = key.ProviderId,
+                    Provider = snapshot.Provider,
+                    ProviderMovieId = key.MovieId,
+                    PreviousPrice = hadPrice ? before.Price : null,
+                    Price = hasPrice ? after.Price : null,
+                    Removed = !hasPrice,
+                    FromCache = hasPrice && after.FromCache,
+                    LastUpdated = hasPrice ? after.UpdatedAt : DateTime.UtcNow
+                });
+            }
+            return changes;
+        }
+    }
+}
@@ -0,0 +1,91 @@
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Domain.Services;
+
+namespace MoviePriceComparison.Application.UseCases
+{
+    public interface ISaveApiProviderUseCase
+    {
+        /// <summary>
+        /// Adds a provider; throws <see cref="InvalidOperationException"/> when the id is taken.
+        /// </summary>
+        Task<ApiProviderDto> CreateAsync(CreateApiProviderRequest request);
+
+        /// <summary>
+        /// Updates a provider; returns null when it does not exist. Throws
+        /// <see cref="ArgumentException"/> when the base URL changes without a new token.
+        /// </summary>
+        Task<ApiProviderDto?> UpdateAsync(string providerId, UpdateApiProviderRequest request);
+    }
+
+    public class SaveApiProviderUseCase : ISaveApiProviderUseCase
+    {
+        private readonly IApiProviderService _apiProviderService;
+
+        public SaveApiProviderUseCase(IApiProviderService apiProviderService)
+        {
+            _apiProviderService = apiProviderService ?? throw new ArgumentNullException(nameof(apiProviderService));
+        }
+
+        public async Task<ApiProviderDto> CreateAsync(CreateApiProviderRequest request)
+        {
+            if (request == null)
+                throw new ArgumentNullException(nameof(request));
+
+            if (await _apiProviderService.GetApiProviderAsync(request.Id) != null)
+                throw new InvalidOperationException($"Provider with ID {request.Id} already exists");
+
+            var provider = new ApiProvider { Id = request.Id, Name = request.Id };
+            Apply(provider, request);
+
+            return ApiProviderDto.FromProvider(await _apiProviderService.SaveApiProviderAsync(provider));
+        }
+
+        public async Task<ApiProviderDto?> UpdateAsync(string providerId, UpdateApiProviderRequest request)
+        {
+            if (request == null)
+                throw new ArgumentNullException(nameof(request));
+
+            var existing = await _apiProviderService.GetApiProviderAsync(providerId);
+            if (existing == null)
+                return null;
+
+            // The stored token is sent to whatever BaseUrl says, so it must not follow the provider to a new host
+            var baseUrlChanged = !string.Equals(NormaliseBaseUrl(request.BaseUrl), NormaliseBaseUrl(existing.BaseUrl), StringComparison.Ordinal);
+            if (baseUrlChanged && !string.IsNullOrEmpty(existing.ApiToken) && string.IsNullOrWhiteSpace(request.ApiToken))
+                throw new ArgumentException("Changing the base URL needs a new API token");
+
+            // Work on a copy so the cached provider list is untouched until the save succeeds
+            var provider = new ApiProvider
+            {
+                Id = existing.Id,
+                Name = existing.Name,
+                ApiToken = existing.ApiToken
+            };
+            Apply(provider, request);
+
+            return ApiProviderDto.FromProvider(await _apiProviderService.SaveApiProviderAsync(provider));
+        }
+
+        private static void Apply(ApiProvider provider, UpdateApiProviderRequest request)
+        {
+            provider.DisplayName = request.DisplayName.Trim();
+            provider.BaseUrl = NormaliseBaseUrl(request.BaseUrl);
+            provider.IsEnabled = request.IsEnabled;
+            provider.Priority = request.Priority;
+            provider.TimeoutSeconds = request.TimeoutSeconds;
+            provider.Endpoints = new ApiEndpoints
+            {
+                Movies = request.Endpoints.Movies,
+                MovieDetail = request.Endpoints.MovieDetail
+            };
+
+            // The token is write-only: an empty value keeps whatever is stored
+            if (!string.IsNullOrWhiteSpace(request.ApiToken))
+            {
+                provider.ApiToken = request.ApiToken.Trim();
+            }
+        }
+
+        private static string NormaliseBaseUrl(string baseUrl) => baseUrl.Trim().TrimEnd('/');
+    }
+}
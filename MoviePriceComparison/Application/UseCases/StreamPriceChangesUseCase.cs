@@ -0,0 +1,40 @@
+using System.Runtime.CompilerServices;
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Domain.Services;
+
+namespace MoviePriceComparison.Application.UseCases
+{
+    public interface IStreamPriceChangesUseCase
+    {
+        IAsyncEnumerable<PriceChangeDto> ExecuteAsync(CancellationToken cancellationToken);
+    }
+
+    public class StreamPriceChangesUseCase : IStreamPriceChangesUseCase
+    {
+        private readonly IPriceChangeNotifier _priceChangeNotifier;
+
+        public StreamPriceChangesUseCase(IPriceChangeNotifier priceChangeNotifier)
+        {
+            _priceChangeNotifier = priceChangeNotifier ?? throw new ArgumentNullException(nameof(priceChangeNotifier));
+        }
+
+        public async IAsyncEnumerable<PriceChangeDto> ExecuteAsync([EnumeratorCancellation] CancellationToken cancellationToken)
+        {
+            await foreach (var change in _priceChangeNotifier.SubscribeAsync(cancellationToken))
+            {
+                yield return new PriceChangeDto
+                {
+                    MovieId = change.MovieId,
+                    ProviderId = change.ProviderId,
+                    Provider = change.Provider,
+                    ProviderMovieId = change.ProviderMovieId,
+                    PreviousPrice = change.PreviousPrice,
+                    Price = change.Price,
+                    Removed = change.Removed,
+                    FromCache = change.FromCache,
+                    LastUpdated = change.LastUpdated
+                };
+            }
+        }
+    }
+}
@@ -1,62 +1,40 @@
 using MoviePriceComparison.Application.DTOs;
 using MoviePriceComparison.Domain.Repositories;
-using MoviePriceComparison.Infrastructure.Services;
 using MoviePriceComparison.Domain.Entities;
-using System.Net.Http;
 
 namespace MoviePriceComparison.Application.UseCases
 {
     public abstract class UseCaseBase
     {
         protected readonly IMovieRepository _movieRepository;
-        protected readonly HttpClient _httpClient;
 
-        public UseCaseBase(IMovieRepository movieRepository, HttpClient httpClient)
+        public UseCaseBase(IMovieRepository movieRepository)
         {
             _movieRepository = movieRepository ?? throw new ArgumentNullException(nameof(movieRepository));
-            _httpClient = httpClient ?? throw new ArgumentNullException(nameof(httpClient));
         }
 
-        protected async Task<string?> GetValidPosterUrlAsync(IEnumerable<MovieProviderDetail> providerDetails)
+        /// <summary>
+        /// Looks a movie up by canonical id, or by a provider-specific id so links
+        /// shared before canonical ids existed keep working.
+        /// </summary>
+        protected async Task<MovieSummary?> FindMovieAsync(string movieId)
         {
-            var posterUrls = providerDetails
-                .Where(p => !string.IsNullOrEmpty(p.PosterUrl))
-                .Select(p => p.PosterUrl)
-                .Distinct()
-                .ToList();
-
-            foreach (var url in posterUrls)
-            {
-                if (await IsValidImageUrlAsync(url))
-                {
-                    return url;
-                }
-            }
-
-            return posterUrls.FirstOrDefault(); // Return first URL as fallback if none are accessible
+            var movies = await _movieRepository.GetAllAsync();
+            return movies.FirstOrDefault(x => string.Equals(x.Id, movieId, StringComparison.OrdinalIgnoreCase))
+                ?? movies.FirstOrDefault(x => x.ProviderSpecificDetails.Any(a => a.MovieId == movieId));
         }
 
-        protected async Task<bool> IsValidImageUrlAsync(string url)
+        /// <summary>
+        /// One poster per provider that has one, in provider order. Nothing is
+        /// fetched here: clients try them in turn through the poster proxy.
+        /// </summary>
+        protected static List<PosterCandidateDto> GetPosterCandidates(IEnumerable<MovieProviderDetail> providerDetails)
         {
-            try
-            {
-                if (string.IsNullOrWhiteSpace(url))
-                {
-                    return false;
-                }
-
-                using var response = await _httpClient.GetAsync(url, HttpCompletionOption.ResponseHeadersRead);
-
-                if (!response.IsSuccessStatusCode)
-                    return false;
-
-                var contentType = response.Content.Headers.ContentType?.MediaType;
-                return contentType != null && contentType.StartsWith("image/", StringComparison.OrdinalIgnoreCase);
-            }
-            catch
-            {
-                return false;
-            }
+            return providerDetails
+                .Where(p => !string.IsNullOrWhiteSpace(p.PosterUrl))
+                .DistinctBy(p => p.PosterUrl)
+                .Select(p => new PosterCandidateDto { ProviderId = p.ProviderId, Url = p.PosterUrl! })
+                .ToList();
         }
     }
 }
@@ -0,0 +1,40 @@
+namespace MoviePriceComparison.Application.DTOs
+{
+    /// <summary>
+    /// Provider as shown to the admin console. The API token is write-only, so only its presence is reported.
+    /// </summary>
+    public class ApiProviderDto
+    {
+        public string Id { get; set; } = string.Empty;
+        public string Name { get; set; } = string.Empty;
+        public string DisplayName { get; set; } = string.Empty;
+        public string BaseUrl { get; set; } = string.Empty;
+        public bool HasApiToken { get; set; }
+        public bool IsEnabled { get; set; }
+        public int Priority { get; set; }
+        public int TimeoutSeconds { get; set; }
+        public ApiEndpoints Endpoints { get; set; } = new();
+        public DateTime LastUpdated { get; set; }
+
+        public static ApiProviderDto FromProvider(ApiProvider provider)
+        {
+            return new ApiProviderDto
+            {
+                Id = provider.Id,
+                Name = provider.Name,
+                DisplayName = provider.DisplayName,
+                BaseUrl = provider.BaseUrl,
+                HasApiToken = !string.IsNullOrEmpty(provider.ApiToken),
+                IsEnabled = provider.IsEnabled,
+                Priority = provider.Priority,
+                TimeoutSeconds = provider.TimeoutSeconds,
+                Endpoints = new ApiEndpoints
+                {
+                    Movies = provider.Endpoints.Movies,
+                    MovieDetail = provider.Endpoints.MovieDetail
+                },
+                LastUpdated = provider.LastUpdated
+            };
+        }
+    }
+}
@@ -0,0 +1,74 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace MoviePriceComparison.Application.DTOs
+{
+    /// <summary>
+    /// A batch of diagnostics from the browser. The client sends no user, session
+    /// or device identifiers, and routes and endpoints without their query string.
+    /// </summary>
+    public class ClientDiagnosticsReport
+    {
+        public const int MaxEvents = 50;
+
+        [Required]
+        [StringLength(50)]
+        public string AppVersion { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Route the page was on when the batch was sent.
+        /// </summary>
+        [Required]
+        [StringLength(500)]
+        public string Route { get; set; } = string.Empty;
+
+        [Required]
+        [MinLength(1)]
+        [MaxLength(MaxEvents)]
+        public List<ClientDiagnosticEvent> Events { get; set; } = new();
+    }
+
+    public class ClientDiagnosticEvent
+    {
+        public const string ErrorType = "error";
+        public const string ApiFailureType = "api-failure";
+        public const string WebVitalType = "web-vital";
+
+        [Required]
+        [RegularExpression("^(error|api-failure|web-vital)$", ErrorMessage = "Type must be error, api-failure or web-vital")]
+        public string Type { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Error class, API error class, or Web Vital name (LCP, CLS, ...).
+        /// </summary>
+        [Required]
+        [StringLength(100)]
+        public string Name { get; set; } = string.Empty;
+
+        [StringLength(1000)]
+        public string? Message { get; set; }
+
+        [StringLength(8000)]
+        public string? Stack { get; set; }
+
+        /// <summary>
+        /// Route the event happened on.
+        /// </summary>
+        [StringLength(500)]
+        public string? Route { get; set; }
+
+        /// <summary>
+        /// API path of a failed call.
+        /// </summary>
+        [StringLength(500)]
+        public string? Endpoint { get; set; }
+
+        public int? Status { get; set; }
+
+        /// <summary>
+        /// Web Vital value: milliseconds, or unitless for CLS.
+        /// </summary>
+        public double? Value { get; set; }
+
+        public DateTime OccurredAt { get; set; }
+    }
+}
@@ -9,7 +9,11 @@ namespace MoviePriceComparison.Application.DTOs
         public string? Director { get; set; }
         public string? Actors { get; set; }
         public string? Plot { get; set; }
+        /// <summary>
+        /// The first of Posters, unchecked; kept for clients that predate the poster proxy.
+        /// </summary>
         public string? Poster { get; set; }
+        public List<PosterCandidateDto> Posters { get; set; } = new();
         public string? Rating { get; set; }
         public List<MoviePriceDto> Prices { get; set; } = new();
         public MoviePriceDto? CheapestPrice { get; set; }
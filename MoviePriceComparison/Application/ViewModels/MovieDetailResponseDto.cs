@@ -2,6 +2,7 @@ namespace MoviePriceComparison.Application.DTOs
 {
     public class MovieDetailResponseDto
     {
+        public string Id { get; set; } = string.Empty;
         public string Title { get; set; } = string.Empty;
         public string? Year { get; set; }
         public string? Type { get; set; }
@@ -16,7 +17,11 @@ namespace MoviePriceComparison.Application.DTOs
         public string? Language { get; set; }
         public string? Country { get; set; }
         public string? Awards { get; set; }
+        /// <summary>
+        /// The first of Posters, unchecked; kept for clients that predate the poster proxy.
+        /// </summary>
         public string? Poster { get; set; }
+        public List<PosterCandidateDto> Posters { get; set; } = new();
         public string? Metascore { get; set; }
         public string? Rating { get; set; }
         public string? Votes { get; set; }
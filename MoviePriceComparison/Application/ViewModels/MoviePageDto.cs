@@ -0,0 +1,15 @@
+namespace MoviePriceComparison.Application.DTOs
+{
+    public class MoviePageDto
+    {
+        public List<MovieComparisonDto> Items { get; set; } = new();
+
+        /// <summary>
+        /// 1-based page number
+        /// </summary>
+        public int Page { get; set; }
+        public int PageSize { get; set; }
+        public int TotalCount { get; set; }
+        public int TotalPages { get; set; }
+    }
+}
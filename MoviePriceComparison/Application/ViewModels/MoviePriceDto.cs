@@ -7,5 +7,6 @@ namespace MoviePriceComparison.Application.DTOs
         public required string Provider { get; set; }
         public decimal? Price { get; set; }
         public DateTime LastUpdated { get; set; }
+        public bool FromCache { get; set; }
     }
 }
@@ -0,0 +1,16 @@
+namespace MoviePriceComparison.Application.DTOs
+{
+    /// <summary>
+    /// One provider's poster for a movie. Clients load it through
+    /// GET /api/movies/{id}/posters/{providerId} and try the next on failure.
+    /// </summary>
+    public class PosterCandidateDto
+    {
+        public string ProviderId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// The provider's own URL, as the proxy fetches it.
+        /// </summary>
+        public string Url { get; set; } = string.Empty;
+    }
+}
@@ -0,0 +1,23 @@
+namespace MoviePriceComparison.Application.DTOs
+{
+    /// <summary>
+    /// Payload of a "price-changed" event on /api/movies/events. The price fields
+    /// match MoviePriceDto, so clients can drop it straight into a movie's prices.
+    /// </summary>
+    public class PriceChangeDto
+    {
+        public required string MovieId { get; set; }
+        public required string ProviderId { get; set; }
+        public required string Provider { get; set; }
+        public required string ProviderMovieId { get; set; }
+        public decimal? PreviousPrice { get; set; }
+        public decimal? Price { get; set; }
+
+        /// <summary>
+        /// The provider no longer lists the movie; remove its price rather than update it.
+        /// </summary>
+        public bool Removed { get; set; }
+        public bool FromCache { get; set; }
+        public DateTime LastUpdated { get; set; }
+    }
+}
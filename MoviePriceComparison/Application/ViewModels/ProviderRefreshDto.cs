@@ -0,0 +1,16 @@
+namespace MoviePriceComparison.Application.DTOs
+{
+    public class ProviderRefreshDto
+    {
+        public required string ProviderId { get; set; }
+        public required string Provider { get; set; }
+        public int MovieCount { get; set; }
+
+        /// <summary>
+        /// False when the provider's movie list could not be fetched during the refresh;
+        /// its movies then carry the prices from an earlier refresh.
+        /// </summary>
+        public bool Succeeded { get; set; }
+        public string? Error { get; set; }
+    }
+}
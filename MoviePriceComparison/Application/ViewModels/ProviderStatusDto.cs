@@ -0,0 +1,27 @@
+namespace MoviePriceComparison.Application.DTOs
+{
+    public class ProviderStatusDto
+    {
+        public required string ProviderId { get; set; }
+        public required string Provider { get; set; }
+        public bool IsEnabled { get; set; }
+
+        /// <summary>
+        /// "healthy", "failing", "disabled" or "unknown" (not called since the API started)
+        /// </summary>
+        public required string State { get; set; }
+        public DateTime? LastSuccessAt { get; set; }
+        public DateTime? LastErrorAt { get; set; }
+        public string? LastError { get; set; }
+        public int? LatencyMs { get; set; }
+        public bool ServedFromCache { get; set; }
+        public List<ProviderLatencySampleDto> RecentLatencies { get; set; } = new();
+    }
+
+    public class ProviderLatencySampleDto
+    {
+        public DateTime At { get; set; }
+        public int LatencyMs { get; set; }
+        public bool Succeeded { get; set; }
+    }
+}
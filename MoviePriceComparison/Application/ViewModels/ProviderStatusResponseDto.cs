@@ -0,0 +1,13 @@
+namespace MoviePriceComparison.Application.DTOs
+{
+    public class ProviderStatusResponseDto
+    {
+        public DateTime CheckedAt { get; set; }
+
+        /// <summary>
+        /// Prices last updated longer ago than this should be treated as stale
+        /// </summary>
+        public int StaleAfterMinutes { get; set; }
+        public List<ProviderStatusDto> Providers { get; set; } = new();
+    }
+}
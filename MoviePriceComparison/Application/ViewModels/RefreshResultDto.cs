@@ -0,0 +1,10 @@
+namespace MoviePriceComparison.Application.DTOs
+{
+    public class RefreshResultDto
+    {
+        public DateTime RefreshedAt { get; set; }
+        public List<ProviderRefreshDto> Providers { get; set; } = new();
+        public int MovieCount { get; set; }
+        public int PricesChanged { get; set; }
+    }
+}
@@ -0,0 +1,39 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace MoviePriceComparison.Application.DTOs
+{
+    public class UpdateApiProviderRequest
+    {
+        [Required]
+        [StringLength(100)]
+        public string DisplayName { get; set; } = string.Empty;
+
+        [Required]
+        [Url]
+        public string BaseUrl { get; set; } = string.Empty;
+
+        /// <summary>
+        /// New token; leave empty to keep the current one. Never returned by the API.
+        /// </summary>
+        public string? ApiToken { get; set; }
+
+        public bool IsEnabled { get; set; } = true;
+
+        [Range(1, 100)]
+        public int Priority { get; set; } = 1;
+
+        [Range(1, 300)]
+        public int TimeoutSeconds { get; set; } = 30;
+
+        [Required]
+        public ApiEndpoints Endpoints { get; set; } = new();
+    }
+
+    public class CreateApiProviderRequest : UpdateApiProviderRequest
+    {
+        [Required]
+        [RegularExpression("^[a-z0-9-]+$", ErrorMessage = "Id may only contain lowercase letters, digits and dashes")]
+        [StringLength(50)]
+        public string Id { get; set; } = string.Empty;
+    }
+}
@@ -1,4 +1,6 @@
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using MoviePriceComparison.Application.DTOs;
 using MoviePriceComparison.Application.UseCases;
 using MoviePriceComparison.Domain.Repositories;
 using MoviePriceComparison.Domain.Services;
@@ -11,6 +13,7 @@ namespace MoviePriceComparison.Controllers
     {
         private readonly IGetMoviesWithPricesUseCase _getMoviesWithPricesUseCase;
         private readonly IGetMovieDetailUseCase _getMovieDetailUseCase;
+        private readonly IRefreshMovieDataUseCase _refreshMovieDataUseCase;
         private readonly IMovieRepository _movieRepository;
         private readonly IApiProviderService _apiProviderService;
         private readonly ILogger<MoviesController> _logger;
@@ -18,27 +21,50 @@ namespace MoviePriceComparison.Controllers
         public MoviesController(
             IGetMoviesWithPricesUseCase getMoviesWithPricesUseCase,
             IGetMovieDetailUseCase getMovieDetailUseCase,
+            IRefreshMovieDataUseCase refreshMovieDataUseCase,
             IMovieRepository movieRepository,
             IApiProviderService apiProviderService,
             ILogger<MoviesController> logger)
         {
             _getMoviesWithPricesUseCase = getMoviesWithPricesUseCase ?? throw new ArgumentNullException(nameof(getMoviesWithPricesUseCase));
             _getMovieDetailUseCase = getMovieDetailUseCase ?? throw new ArgumentNullException(nameof(getMovieDetailUseCase));
+            _refreshMovieDataUseCase = refreshMovieDataUseCase ?? throw new ArgumentNullException(nameof(refreshMovieDataUseCase));
             _movieRepository = movieRepository ?? throw new ArgumentNullException(nameof(movieRepository));
             _apiProviderService = apiProviderService ?? throw new ArgumentNullException(nameof(apiProviderService));
             _logger = logger ?? throw new ArgumentNullException(nameof(logger));
         }
 
+        public const int DefaultPageSize = 50;
+        public const int MaxPageSize = 200;
+        public const int MaxDiagnosticsBytes = 256 * 1024;
+        public const string DiagnosticsRateLimitPolicy = "Diagnostics";
+
         /// <summary>
-        /// Get all movies with price comparison
+        /// Get movies with price comparison. Without page or pageSize the whole
+        /// catalogue is returned as an array; with either, one page of it.
         /// </summary>
         [HttpGet("movies")]
-        public async Task<IActionResult> GetMovies()
+        public async Task<IActionResult> GetMovies([FromQuery] int? page = null, [FromQuery] int? pageSize = null)
         {
+            if (page < 1)
+            {
+                return BadRequest(new { error = "page must be 1 or greater" });
+            }
+            if (pageSize < 1 || pageSize > MaxPageSize)
+            {
+                return BadRequest(new { error = $"pageSize must be between 1 and {MaxPageSize}" });
+            }
+
             try
             {
-                var movies = await _getMoviesWithPricesUseCase.ExecuteAsync();
-                return Ok(movies);
+                if (page == null && pageSize == null)
+                {
+                    var movies = await _getMoviesWithPricesUseCase.ExecuteAsync();
+                    return Ok(movies);
+                }
+
+                var result = await _getMoviesWithPricesUseCase.ExecutePageAsync(page ?? 1, pageSize ?? DefaultPageSize);
+                return Ok(result);
             }
             catch (Exception ex)
             {
@@ -73,15 +99,17 @@ namespace MoviePriceComparison.Controllers
         // SEARCH function omitted intentionally.
 
         /// <summary>
-        /// Refresh movie data from external APIs
+        /// Refresh movie data from external APIs and report what changed
         /// </summary>
-        [HttpPost("refresh")]
-        public IActionResult RefreshMovieData()
+        [HttpPost("movies/refresh")]
+        public async Task<IActionResult> RefreshMovieData()
         {
             try
             {
-                _logger.LogInformation("Movie data refresh completed successfully");
-                return Ok(new { message = "Movie data refreshed successfully" });
+                var result = await _refreshMovieDataUseCase.ExecuteAsync();
+                _logger.LogInformation("Movie data refresh completed: {ProviderCount} providers, {PricesChanged} prices changed",
+                    result.Providers.Count, result.PricesChanged);
+                return Ok(result);
             }
             catch (Exception ex)
             {
@@ -89,5 +117,37 @@ namespace MoviePriceComparison.Controllers
                 return StatusCode(500, new { error = "An error occurred while refreshing movie data" });
             }
         }
+
+        /// <summary>
+        /// Write a batch of client diagnostics (render errors, failed API calls and
+        /// Web Vitals) to the server log
+        /// </summary>
+        [HttpPost("diagnostics")]
+        [RequestSizeLimit(MaxDiagnosticsBytes)]
+        [EnableRateLimiting(DiagnosticsRateLimitPolicy)]
+        public IActionResult ReportDiagnostics([FromBody] ClientDiagnosticsReport report)
+        {
+            foreach (var entry in report.Events)
+            {
+                var route = entry.Route ?? report.Route;
+                switch (entry.Type)
+                {
+                    case ClientDiagnosticEvent.ErrorType:
+                        _logger.LogWarning("Client error {ErrorName} on {Route} (app {AppVersion}): {Message}\n{Stack}",
+                            entry.Name, route, report.AppVersion, entry.Message, entry.Stack);
+                        break;
+                    case ClientDiagnosticEvent.ApiFailureType:
+                        _logger.LogWarning("Client API failure {ErrorName} calling {Endpoint} with status {Status} on {Route} (app {AppVersion}): {Message}",
+                            entry.Name, entry.Endpoint, entry.Status, route, report.AppVersion, entry.Message);
+                        break;
+                    default:
+                        _logger.LogInformation("Client web vital {Metric} = {Value} on {Route} (app {AppVersion})",
+                            entry.Name, entry.Value, route, report.AppVersion);
+                        break;
+                }
+            }
+
+            return Accepted();
+        }
     }
 }
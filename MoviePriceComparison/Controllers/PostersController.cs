@@ -0,0 +1,56 @@
+using Microsoft.AspNetCore.Mvc;
+using MoviePriceComparison.Application.UseCases;
+
+namespace MoviePriceComparison.Controllers
+{
+    [ApiController]
+    [Route("api")]
+    public class PostersController : ControllerBase
+    {
+        public const int MaxWidth = 2000;
+
+        // A changed poster URL shows up in browsers within a day
+        private const int BrowserCacheSeconds = 24 * 60 * 60;
+
+        private readonly IGetPosterUseCase _getPosterUseCase;
+        private readonly ILogger<PostersController> _logger;
+
+        public PostersController(IGetPosterUseCase getPosterUseCase, ILogger<PostersController> logger)
+        {
+            _getPosterUseCase = getPosterUseCase ?? throw new ArgumentNullException(nameof(getPosterUseCase));
+            _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        }
+
+        /// <summary>
+        /// A provider's poster for a movie, served from this API's origin, resized
+        /// to fit width and cached. 404 when there is no usable poster, so clients
+        /// move on to the next candidate.
+        /// </summary>
+        [HttpGet("movies/{id}/posters/{providerId}")]
+        public async Task<IActionResult> GetPoster(string id, string providerId, [FromQuery] int? width, CancellationToken cancellationToken)
+        {
+            if (width < 1 || width > MaxWidth)
+            {
+                return BadRequest(new { error = $"width must be between 1 and {MaxWidth}" });
+            }
+
+            try
+            {
+                var poster = await _getPosterUseCase.ExecuteAsync(id, providerId, width, cancellationToken);
+                if (poster == null)
+                {
+                    return NotFound(new { error = $"No poster from {providerId} for movie {id}" });
+                }
+
+                // Only successes are cached; a missing poster may turn up on the next refresh
+                Response.Headers.CacheControl = $"public, max-age={BrowserCacheSeconds}";
+                return File(poster.Content, poster.ContentType);
+            }
+            catch (Exception ex) when (!cancellationToken.IsCancellationRequested)
+            {
+                _logger.LogError(ex, "Error getting poster from {ProviderId} for movie {MovieId}", providerId, id);
+                return StatusCode(500, new { error = "An error occurred while retrieving the poster" });
+            }
+        }
+    }
+}
@@ -0,0 +1,88 @@
+using System.Text.Json;
+using Microsoft.AspNetCore.Mvc;
+using MoviePriceComparison.Application.UseCases;
+
+namespace MoviePriceComparison.Controllers
+{
+    [ApiController]
+    [Route("api")]
+    public class PriceEventsController : ControllerBase
+    {
+        /// <summary>
+        /// Idle streams get a comment line this often so proxies do not close them.
+        /// </summary>
+        public static readonly TimeSpan HeartbeatInterval = TimeSpan.FromSeconds(20);
+
+        // Clients wait this long before reconnecting after the stream drops
+        private const int ReconnectDelayMs = 5000;
+
+        private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+        private readonly IStreamPriceChangesUseCase _streamPriceChangesUseCase;
+        private readonly ILogger<PriceEventsController> _logger;
+
+        public PriceEventsController(
+            IStreamPriceChangesUseCase streamPriceChangesUseCase,
+            ILogger<PriceEventsController> logger)
+        {
+            _streamPriceChangesUseCase = streamPriceChangesUseCase ?? throw new ArgumentNullException(nameof(streamPriceChangesUseCase));
+            _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        }
+
+        /// <summary>
+        /// Server-Sent Events stream with one "price-changed" event per movie and
+        /// provider whose price moves in a refresh, until the client disconnects.
+        /// Changes made while a client is disconnected are not replayed; clients
+        /// reload the movie list when they reconnect.
+        /// </summary>
+        [HttpGet("movies/events")]
+        public async Task StreamPriceChanges(CancellationToken cancellationToken)
+        {
+            Response.ContentType = "text/event-stream";
+            Response.Headers.CacheControl = "no-cache";
+            // Stops nginx buffering the stream into large, late chunks
+            Response.Headers["X-Accel-Buffering"] = "no";
+
+            await WriteAsync($"retry: {ReconnectDelayMs}\n\n", cancellationToken);
+
+            var changes = _streamPriceChangesUseCase.ExecuteAsync(cancellationToken).GetAsyncEnumerator(cancellationToken);
+            try
+            {
+                var next = changes.MoveNextAsync().AsTask();
+                while (true)
+                {
+                    var completed = await Task.WhenAny(next, Task.Delay(HeartbeatInterval, cancellationToken));
+                    cancellationToken.ThrowIfCancellationRequested();
+
+                    if (completed != next)
+                    {
+                        await WriteAsync(": heartbeat\n\n", cancellationToken);
+                        continue;
+                    }
+                    if (!await next)
+                    {
+                        return;
+                    }
+
+                    var data = JsonSerializer.Serialize(changes.Current, JsonOptions);
+                    await WriteAsync($"event: price-changed\ndata: {data}\n\n", cancellationToken);
+                    next = changes.MoveNextAsync().AsTask();
+                }
+            }
+            catch (OperationCanceledException)
+            {
+                _logger.LogDebug("Price event stream closed by the client");
+            }
+            finally
+            {
+                await changes.DisposeAsync();
+            }
+        }
+
+        private async Task WriteAsync(string text, CancellationToken cancellationToken)
+        {
+            await Response.WriteAsync(text, cancellationToken);
+            await Response.Body.FlushAsync(cancellationToken);
+        }
+    }
+}
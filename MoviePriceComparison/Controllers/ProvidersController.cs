@@ -0,0 +1,140 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MoviePriceComparison.Application.DTOs;
+using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Infrastructure.Services;
+
+namespace MoviePriceComparison.Controllers
+{
+    [ApiController]
+    [Route("api")]
+    public class ProvidersController : ControllerBase
+    {
+        private readonly IGetApiProvidersUseCase _getApiProvidersUseCase;
+        private readonly ISaveApiProviderUseCase _saveApiProviderUseCase;
+        private readonly IGetProviderStatusUseCase _getProviderStatusUseCase;
+        private readonly ILogger<ProvidersController> _logger;
+
+        public ProvidersController(
+            IGetApiProvidersUseCase getApiProvidersUseCase,
+            ISaveApiProviderUseCase saveApiProviderUseCase,
+            IGetProviderStatusUseCase getProviderStatusUseCase,
+            ILogger<ProvidersController> logger)
+        {
+            _getApiProvidersUseCase = getApiProvidersUseCase ?? throw new ArgumentNullException(nameof(getApiProvidersUseCase));
+            _saveApiProviderUseCase = saveApiProviderUseCase ?? throw new ArgumentNullException(nameof(saveApiProviderUseCase));
+            _getProviderStatusUseCase = getProviderStatusUseCase ?? throw new ArgumentNullException(nameof(getProviderStatusUseCase));
+            _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        }
+
+        /// <summary>
+        /// Get all movie providers, enabled or not
+        /// </summary>
+        [HttpGet("providers")]
+        public async Task<IActionResult> GetProviders()
+        {
+            try
+            {
+                var providers = await _getApiProvidersUseCase.ExecuteAsync();
+                return Ok(providers);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error getting providers");
+                return StatusCode(500, new { error = "An error occurred while retrieving providers" });
+            }
+        }
+
+        /// <summary>
+        /// Get the last success, last error and latency of every movie provider
+        /// </summary>
+        [HttpGet("providers/status")]
+        public async Task<IActionResult> GetProviderStatus()
+        {
+            try
+            {
+                var status = await _getProviderStatusUseCase.ExecuteAsync();
+                return Ok(status);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error getting provider status");
+                return StatusCode(500, new { error = "An error occurred while retrieving provider status" });
+            }
+        }
+
+        /// <summary>
+        /// Get a single movie provider
+        /// </summary>
+        [HttpGet("providers/{id}")]
+        public async Task<IActionResult> GetProvider(string id)
+        {
+            try
+            {
+                var provider = await _getApiProvidersUseCase.ExecuteAsync(id);
+                if (provider == null)
+                {
+                    return NotFound(new { error = $"Provider with ID {id} not found" });
+                }
+
+                return Ok(provider);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error getting provider with ID {ProviderId}", id);
+                return StatusCode(500, new { error = "An error occurred while retrieving the provider" });
+            }
+        }
+
+        /// <summary>
+        /// Add a movie provider
+        /// </summary>
+        [HttpPost("providers")]
+        [Authorize(Policy = AdminApiKeyAuthenticationHandler.PolicyName)]
+        public async Task<IActionResult> CreateProvider([FromBody] CreateApiProviderRequest request)
+        {
+            try
+            {
+                var provider = await _saveApiProviderUseCase.CreateAsync(request);
+                return CreatedAtAction(nameof(GetProvider), new { id = provider.Id }, provider);
+            }
+            catch (InvalidOperationException ex)
+            {
+                return Conflict(new { error = ex.Message });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error creating provider with ID {ProviderId}", request.Id);
+                return StatusCode(500, new { error = "An error occurred while creating the provider" });
+            }
+        }
+
+        /// <summary>
+        /// Update a movie provider, including enabling or disabling it
+        /// </summary>
+        [HttpPut("providers/{id}")]
+        [Authorize(Policy = AdminApiKeyAuthenticationHandler.PolicyName)]
+        public async Task<IActionResult> UpdateProvider(string id, [FromBody] UpdateApiProviderRequest request)
+        {
+            try
+            {
+                var provider = await _saveApiProviderUseCase.UpdateAsync(id, request);
+                if (provider == null)
+                {
+                    return NotFound(new { error = $"Provider with ID {id} not found" });
+                }
+
+                return Ok(provider);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new { error = ex.Message });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating provider with ID {ProviderId}", id);
+                return StatusCode(500, new { error = "An error occurred while updating the provider" });
+            }
+        }
+    }
+}
@@ -9,6 +9,9 @@ namespace MoviePriceComparison.Domain.Entities
         public decimal? Price { get; set; }
         public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
 
+        // Set when the provider could not be reached and this price was kept from the previous refresh
+        public bool FromCache { get; set; }
+
         public bool IsStale(TimeSpan maxAge)
         {
             return DateTime.UtcNow - UpdatedAt > maxAge;
@@ -1,7 +1,15 @@
+using System.Text;
+
 namespace MoviePriceComparison.Domain.Entities
 {
     public class MovieSummary
     {
+        /// <summary>
+        /// Canonical id shared by every provider's listing of the movie, e.g. "the-matrix-1999".
+        /// Providers are merged by title, so the normalised title and year identify the movie
+        /// across providers and refreshes.
+        /// </summary>
+        public string Id => CreateId(Title, Year);
         public string Title { get; set; } = null!;
         public string? Year { get; set; }
         public string? Type { get; set; }
@@ -71,6 +79,24 @@ namespace MoviePriceComparison.Domain.Entities
             UpdatedAt = DateTime.UtcNow;
         }
 
+        public static string CreateId(string title, string? year)
+        {
+            var slug = new StringBuilder();
+            foreach (var c in $"{title} {year}".ToLowerInvariant())
+            {
+                if (char.IsLetterOrDigit(c))
+                {
+                    slug.Append(c);
+                }
+                else if (slug.Length > 0 && slug[^1] != '-')
+                {
+                    slug.Append('-');
+                }
+            }
+
+            return slug.ToString().TrimEnd('-');
+        }
+
         public MovieProviderDetail? GetCheapestPrice()
         {
             return ProviderSpecificDetails
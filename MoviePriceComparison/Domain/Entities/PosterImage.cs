@@ -0,0 +1,13 @@
+namespace MoviePriceComparison.Domain.Entities
+{
+    /// <summary>
+    /// A poster as the proxy serves it: re-encoded and scaled to one of the
+    /// configured widths.
+    /// </summary>
+    public class PosterImage
+    {
+        public required byte[] Content { get; init; }
+        public required string ContentType { get; init; }
+        public int Width { get; init; }
+    }
+}
@@ -0,0 +1,22 @@
+namespace MoviePriceComparison.Domain.Entities
+{
+    /// <summary>
+    /// One provider's price for one movie differing between two refreshes: a new
+    /// amount, a new listing, or (with Removed set) a listing that disappeared.
+    /// </summary>
+    public class PriceChange
+    {
+        /// <summary>
+        /// Canonical movie id, as in the movie list.
+        /// </summary>
+        public required string MovieId { get; set; }
+        public required string ProviderId { get; set; }
+        public required string Provider { get; set; }
+        public required string ProviderMovieId { get; set; }
+        public decimal? PreviousPrice { get; set; }
+        public decimal? Price { get; set; }
+        public bool Removed { get; set; }
+        public bool FromCache { get; set; }
+        public DateTime LastUpdated { get; set; }
+    }
+}
@@ -0,0 +1,31 @@
+namespace MoviePriceComparison.Domain.Entities
+{
+    /// <summary>
+    /// Outcome of the calls made to one provider's API, so a provider whose prices
+    /// are missing from the list can be told apart from one that has no listing.
+    /// </summary>
+    public class ProviderStatus
+    {
+        public required string ProviderId { get; set; }
+        public DateTime? LastSuccessAt { get; set; }
+        public DateTime? LastErrorAt { get; set; }
+        public string? LastError { get; set; }
+        public int? LatencyMs { get; set; }
+
+        /// <summary>
+        /// True when the last refresh could not reach the provider and its prices
+        /// were carried over from the previous refresh instead.
+        /// </summary>
+        public bool ServedFromCache { get; set; }
+        public List<ProviderLatencySample> RecentLatencies { get; set; } = new();
+
+        public bool IsFailing => LastErrorAt != null && (LastSuccessAt == null || LastErrorAt > LastSuccessAt);
+    }
+
+    public class ProviderLatencySample
+    {
+        public DateTime At { get; set; }
+        public int LatencyMs { get; set; }
+        public bool Succeeded { get; set; }
+    }
+}
@@ -5,5 +5,6 @@ namespace MoviePriceComparison.Domain.Repositories
     public interface IMovieRepository
     {
         Task<IEnumerable<MovieSummary>> GetAllAsync();
+        Task RefreshData();
     }
 }
@@ -8,5 +8,6 @@ namespace MoviePriceComparison.Domain.Services
         Task<ApiProvider?> GetApiProviderAsync(string providerId);
         Task RefreshApiProvidersAsync();
         Task<bool> IsProviderEnabledAsync(string providerId);
+        Task<ApiProvider> SaveApiProviderAsync(ApiProvider provider);
     }
 }
@@ -4,6 +4,7 @@ namespace MoviePriceComparison.Domain.Services
 {
     public interface IExternalMovieApiService
     {
+        /// <exception cref="ProviderUnavailableException">The provider has no token, failed or could not be reached.</exception>
         Task<IEnumerable<ExternalMovieSummaryDto>> GetMoviesFromProviderAsync(string provider);
         Task<ExternalMovieDetailDto?> GetMovieDetailsFromProviderAsync(string provider, string movieId);
         // would be nice to have something like this
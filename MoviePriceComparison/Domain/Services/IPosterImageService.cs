@@ -0,0 +1,13 @@
+using MoviePriceComparison.Domain.Entities;
+
+namespace MoviePriceComparison.Domain.Services
+{
+    public interface IPosterImageService
+    {
+        /// <summary>
+        /// The image at url scaled to fit width, fetched once and then served from
+        /// cache. Null when the URL does not return a usable image.
+        /// </summary>
+        Task<PosterImage?> GetAsync(string url, int? width, CancellationToken cancellationToken = default);
+    }
+}
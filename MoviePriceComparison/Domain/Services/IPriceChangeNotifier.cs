@@ -0,0 +1,14 @@
+using MoviePriceComparison.Domain.Entities;
+
+namespace MoviePriceComparison.Domain.Services
+{
+    public interface IPriceChangeNotifier
+    {
+        void Publish(IEnumerable<PriceChange> changes);
+
+        /// <summary>
+        /// Changes published from the first MoveNextAsync until the token is cancelled.
+        /// </summary>
+        IAsyncEnumerable<PriceChange> SubscribeAsync(CancellationToken cancellationToken);
+    }
+}
@@ -0,0 +1,13 @@
+using MoviePriceComparison.Domain.Entities;
+
+namespace MoviePriceComparison.Domain.Services
+{
+    public interface IProviderStatusService
+    {
+        void RecordSuccess(string providerId, TimeSpan latency);
+        void RecordFailure(string providerId, TimeSpan latency, string error);
+        void RecordServedFromCache(string providerId, bool servedFromCache);
+        ProviderStatus? GetStatus(string providerId);
+        IReadOnlyList<ProviderStatus> GetStatuses();
+    }
+}
@@ -5,6 +5,7 @@ using MoviePriceComparison.Domain.Services;
 using System.Diagnostics.Contracts;
 using MoviePriceComparison.Infrastructure.Services;
 using Microsoft.Extensions.Options;
+using MoviePriceComparison.Application.DTOs;
 
 namespace MoviePriceComparison.Infrastructure.Repositories
 {
@@ -19,21 +20,26 @@ namespace MoviePriceComparison.Infrastructure.Repositories
         private readonly IMemoryCache _cache;
         private readonly IExternalMovieApiService _externalMovieApiService;
         private readonly IApiProviderService _apiProviderService;
+        private readonly IProviderStatusService _providerStatusService;
         private readonly ILogger<MovieRepository> _logger;
         private readonly ExternalMovieApiCacheSettings _cacheSettings;
 
         private const string LIST_CACHE_KEY = "movies_list";
+        // Never expires: the prices to fall back on when a provider is down during a refresh
+        private const string LAST_KNOWN_CACHE_KEY = "movies_list_last_known";
         //private const string DETAIL_CACHE_KEY = "movies_detail";
 
         public MovieRepository(IMemoryCache cache,
         IExternalMovieApiService externalMovieApiService,
         IApiProviderService apiProviderService,
+        IProviderStatusService providerStatusService,
         ILogger<MovieRepository> logger,
         IOptions<ExternalMovieApiCacheSettings> cacheSettings)
         {
             _cache = cache ?? throw new ArgumentNullException(nameof(cache));
             _externalMovieApiService = externalMovieApiService ?? throw new ArgumentNullException(nameof(externalMovieApiService));
             _apiProviderService = apiProviderService ?? throw new ArgumentNullException(nameof(apiProviderService));
+            _providerStatusService = providerStatusService ?? throw new ArgumentNullException(nameof(providerStatusService));
             _logger = logger ?? throw new ArgumentNullException(nameof(logger));
             _cacheSettings = cacheSettings?.Value ?? throw new ArgumentNullException(nameof(cacheSettings));
         }
@@ -66,10 +72,26 @@ namespace MoviePriceComparison.Infrastructure.Repositories
             // Process providers sequentially to avoid race conditions
             foreach (var provider in providers.Where(p => p.IsEnabled))
             {
+                var fetchStartedAt = DateTime.UtcNow;
+                IEnumerable<ExternalMovieSummaryDto> movies;
                 try
                 {
-                    var movies = await _externalMovieApiService.GetMoviesFromProviderAsync(provider.Id);
+                    movies = await _externalMovieApiService.GetMoviesFromProviderAsync(provider.Id);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(ex, "Error fetching movies from provider {ProviderId}", provider.Id);
+                    if (ex is not ProviderUnavailableException)
+                    {
+                        _providerStatusService.RecordFailure(provider.Id, DateTime.UtcNow - fetchStartedAt, ex.Message);
+                    }
+                    // Continue with other providers even if one fails
+                    ServeLastKnownPrices(result, provider);
+                    continue;
+                }
 
+                try
+                {
                     foreach (var movieItem in movies)
                     {
                         var externalSpecifics = await _externalMovieApiService.GetMovieDetailsFromProviderAsync(provider.Id, movieItem.ID);
@@ -125,9 +147,12 @@ namespace MoviePriceComparison.Infrastructure.Repositories
                 }
                 catch (Exception ex)
                 {
-                    _logger.LogError(ex, "Error fetching movies from provider {ProviderId}", provider.Id);
-                    // Continue with other providers even if one fails
+                    // The list arrived, so what it lacks is de-listed; only the prices fetched so far are served
+                    _logger.LogError(ex, "Error fetching movie details from provider {ProviderId}", provider.Id);
+                    _providerStatusService.RecordFailure(provider.Id, DateTime.UtcNow - fetchStartedAt, ex.Message);
                 }
+
+                _providerStatusService.RecordServedFromCache(provider.Id, false);
             }
 
             // Cache the result
@@ -139,9 +164,83 @@ namespace MoviePriceComparison.Infrastructure.Repositories
             };
 
             _cache.Set(LIST_CACHE_KEY, result, cacheOptions);
+            _cache.Set(LAST_KNOWN_CACHE_KEY, result, new MemoryCacheEntryOptions { Priority = CacheItemPriority.NeverRemove });
             _logger.LogInformation("Cached {MovieCount} movies for {CacheDuration} minutes", result.Count, _cacheSettings.CacheDurationMinutes);
 
             return result;
         }
+
+        // A provider whose movie list could not be fetched keeps the prices it had on the previous
+        // fetch, flagged as FromCache, rather than silently dropping out of the comparison
+        private void ServeLastKnownPrices(List<MovieSummary> result, ApiProvider provider)
+        {
+            var servedFromCache = false;
+
+            if (_cache.TryGetValue(LAST_KNOWN_CACHE_KEY, out IEnumerable<MovieSummary>? lastKnownMovies))
+            {
+                foreach (var lastKnownMovie in lastKnownMovies!)
+                {
+                    var lastKnownDetail = lastKnownMovie.ProviderSpecificDetails.FirstOrDefault(x => x.ProviderId == provider.Id);
+                    if (lastKnownDetail == null)
+                    {
+                        continue;
+                    }
+
+                    var currentMovie = result.FirstOrDefault(x => x.Title == lastKnownMovie.Title);
+                    if (currentMovie == null)
+                    {
+                        currentMovie = CopyWithoutPrices(lastKnownMovie);
+                        result.Add(currentMovie);
+                    }
+                    else if (currentMovie.ProviderSpecificDetails.Any(x => x.ProviderId == provider.Id))
+                    {
+                        continue;
+                    }
+
+                    currentMovie.ProviderSpecificDetails.Add(new MovieProviderDetail
+                    {
+                        ProviderId = lastKnownDetail.ProviderId,
+                        MovieId = lastKnownDetail.MovieId,
+                        Provider = lastKnownDetail.Provider,
+                        PosterUrl = lastKnownDetail.PosterUrl,
+                        Price = lastKnownDetail.Price,
+                        UpdatedAt = lastKnownDetail.UpdatedAt,
+                        FromCache = true
+                    });
+                    servedFromCache = true;
+                }
+            }
+
+            if (servedFromCache)
+            {
+                _logger.LogWarning("Serving last known prices for provider {ProviderId}", provider.Id);
+            }
+            _providerStatusService.RecordServedFromCache(provider.Id, servedFromCache);
+        }
+
+        private static MovieSummary CopyWithoutPrices(MovieSummary movie)
+        {
+            return new MovieSummary
+            {
+                Title = movie.Title,
+                Year = movie.Year,
+                Type = movie.Type,
+                Rated = movie.Rated,
+                Released = movie.Released,
+                Runtime = movie.Runtime,
+                Genre = movie.Genre,
+                Director = movie.Director,
+                Writer = movie.Writer,
+                Actors = movie.Actors,
+                Plot = movie.Plot,
+                Language = movie.Language,
+                Country = movie.Country,
+                Awards = movie.Awards,
+                Metascore = movie.Metascore,
+                Rating = movie.Rating,
+                Votes = movie.Votes,
+                UpdatedAt = movie.UpdatedAt
+            };
+        }
     }
 }
@@ -0,0 +1,56 @@
+using System.Security.Claims;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Encodings.Web;
+using Microsoft.AspNetCore.Authentication;
+using Microsoft.Extensions.Options;
+
+namespace MoviePriceComparison.Infrastructure.Services
+{
+    public class AdminApiKeyOptions : AuthenticationSchemeOptions
+    {
+        /// <summary>
+        /// Shared secret the provider console sends in the X-Admin-Key header.
+        /// Empty (the default) turns every admin endpoint off rather than leaving it open.
+        /// </summary>
+        public string ApiKey { get; set; } = string.Empty;
+    }
+
+    /// <summary>
+    /// Authenticates callers of the provider admin endpoints by a shared API key.
+    /// Requests without the header are left anonymous, so public endpoints are
+    /// unaffected; only endpoints requiring <see cref="PolicyName"/> reject them.
+    /// </summary>
+    public class AdminApiKeyAuthenticationHandler : AuthenticationHandler<AdminApiKeyOptions>
+    {
+        public const string SchemeName = "AdminApiKey";
+        public const string PolicyName = "ProviderAdmin";
+        public const string HeaderName = "X-Admin-Key";
+
+        public AdminApiKeyAuthenticationHandler(
+            IOptionsMonitor<AdminApiKeyOptions> options,
+            ILoggerFactory logger,
+            UrlEncoder encoder)
+            : base(options, logger, encoder)
+        {
+        }
+
+        protected override Task<AuthenticateResult> HandleAuthenticateAsync()
+        {
+            if (!Request.Headers.TryGetValue(HeaderName, out var values))
+                return Task.FromResult(AuthenticateResult.NoResult());
+
+            if (string.IsNullOrEmpty(Options.ApiKey))
+                return Task.FromResult(AuthenticateResult.Fail("No admin API key is configured"));
+
+            // Constant-time, so response timing does not reveal how much of a guess was right
+            var expected = Encoding.UTF8.GetBytes(Options.ApiKey);
+            var actual = Encoding.UTF8.GetBytes(values.ToString());
+            if (!CryptographicOperations.FixedTimeEquals(expected, actual))
+                return Task.FromResult(AuthenticateResult.Fail("Invalid admin API key"));
+
+            var identity = new ClaimsIdentity(new[] { new Claim(ClaimTypes.Name, "provider-admin") }, SchemeName);
+            return Task.FromResult(AuthenticateResult.Success(new AuthenticationTicket(new ClaimsPrincipal(identity), SchemeName)));
+        }
+    }
+}
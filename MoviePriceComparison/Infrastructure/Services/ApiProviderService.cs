@@ -17,6 +17,8 @@ namespace MoviePriceComparison.Infrastructure.Services
         private readonly ILogger<ApiProviderService> _logger;
         private readonly ApiProviderConfiguration _config;
         private const string CACHE_KEY = "api_providers";
+        // Stands in for the administration microservice's own storage, so it never expires
+        private const string SAVED_PROVIDERS_CACHE_KEY = "api_providers_saved";
 
         public ApiProviderService(
             HttpClient httpClient,
@@ -74,12 +76,49 @@ namespace MoviePriceComparison.Infrastructure.Services
             return provider?.IsEnabled ?? false;
         }
 
+        public async Task<ApiProvider> SaveApiProviderAsync(ApiProvider provider)
+        {
+            if (provider == null)
+                throw new ArgumentNullException(nameof(provider));
+
+            provider.LastUpdated = DateTime.UtcNow;
+            await SaveApiProviderToServiceAsync(provider);
+            _logger.LogInformation("Saved API provider {ProviderId}", provider.Id);
+
+            // Providers are re-read on the next request; movies pick up the change on the next refresh
+            _cache.Remove(CACHE_KEY);
+            return provider;
+        }
+
+        private async Task SaveApiProviderToServiceAsync(ApiProvider provider)
+        {
+            // maintain the async pattern
+            await Task.CompletedTask;
+            // mock the write; a real administration service would take a PUT to _config.ApiProviderServiceUrl
+            var savedProviders = GetSavedProviders();
+            savedProviders[provider.Id] = provider;
+            _cache.Set(SAVED_PROVIDERS_CACHE_KEY, savedProviders, new MemoryCacheEntryOptions { Priority = CacheItemPriority.NeverRemove });
+        }
+
+        private Dictionary<string, ApiProvider> GetSavedProviders()
+        {
+            return _cache.TryGetValue(SAVED_PROVIDERS_CACHE_KEY, out Dictionary<string, ApiProvider>? savedProviders) && savedProviders != null
+                ? savedProviders
+                : new Dictionary<string, ApiProvider>(StringComparer.OrdinalIgnoreCase);
+        }
+
         private async Task<List<ApiProvider>> FetchApiProvidersFromServiceAsync()
         {
             // maintain the async pattern
             await Task.CompletedTask;
-            // mock the response
-            return GetFallbackProviders();
+            // mock the response: the default providers with any saved changes applied
+            var providers = GetFallbackProviders();
+            foreach (var saved in GetSavedProviders().Values)
+            {
+                providers.RemoveAll(p => p.Id.Equals(saved.Id, StringComparison.OrdinalIgnoreCase));
+                providers.Add(saved);
+            }
+            return providers;
 
             // What it might otherwise look like if there was a real microservice to fetch from
             // try
@@ -1,3 +1,4 @@
+using System.Diagnostics;
 using System.Text.Json;
 using MoviePriceComparison.Domain.Services;
 
@@ -10,14 +11,17 @@ namespace MoviePriceComparison.Infrastructure.Services
         private readonly IConfiguration _configuration;
         private readonly ILogger<ExternalMovieApiService> _logger;
         private readonly IApiProviderService _movieProdiverService;
+        private readonly IProviderStatusService _providerStatusService;
 
         public ExternalMovieApiService(
             IApiProviderService apiProviderService,
+            IProviderStatusService providerStatusService,
             HttpClient httpClient,
             IConfiguration configuration,
             ILogger<ExternalMovieApiService> logger)
         {
             _movieProdiverService = apiProviderService ?? throw new ArgumentNullException(nameof(apiProviderService));
+            _providerStatusService = providerStatusService ?? throw new ArgumentNullException(nameof(providerStatusService));
             _httpClient = httpClient ?? throw new ArgumentNullException(nameof(httpClient));
             _configuration = configuration ?? throw new ArgumentNullException(nameof(configuration));
             _logger = logger ?? throw new ArgumentNullException(nameof(logger));
@@ -25,6 +29,7 @@ namespace MoviePriceComparison.Infrastructure.Services
 
         public async Task<IEnumerable<ExternalMovieSummaryDto>> GetMoviesFromProviderAsync(string providerId)
         {
+            var stopwatch = Stopwatch.StartNew();
             try
             {
                 var provider = await _movieProdiverService.GetApiProviderAsync(providerId);
@@ -37,7 +42,8 @@ namespace MoviePriceComparison.Infrastructure.Services
                 if (string.IsNullOrEmpty(provider.ApiToken))
                 {
                     _logger.LogWarning("No API token configured for provider: {ProviderId}", providerId);
-                    return Enumerable.Empty<ExternalMovieSummaryDto>();
+                    _providerStatusService.RecordFailure(providerId, stopwatch.Elapsed, "No API token configured");
+                    throw new ProviderUnavailableException(providerId, "No API token configured");
                 }
                 var renderedUrlFragment = provider.Endpoints.Movies;
                 if (renderedUrlFragment.StartsWith('/')) renderedUrlFragment = renderedUrlFragment.Substring(1);
@@ -50,7 +56,9 @@ namespace MoviePriceComparison.Infrastructure.Services
                 {
                     _logger.LogWarning("Failed to get movies from {ProviderId}. Status: {StatusCode}",
                         providerId, response.StatusCode);
-                    return Enumerable.Empty<ExternalMovieSummaryDto>();
+                    var status = DescribeStatus(response);
+                    _providerStatusService.RecordFailure(providerId, stopwatch.Elapsed, status);
+                    throw new ProviderUnavailableException(providerId, status);
                 }
 
                 var content = await response.Content.ReadAsStringAsync();
@@ -61,17 +69,20 @@ namespace MoviePriceComparison.Infrastructure.Services
                     PropertyNameCaseInsensitive = true
                 });
 
+                _providerStatusService.RecordSuccess(providerId, stopwatch.Elapsed);
                 return pasrsedResponse?.Movies ?? Enumerable.Empty<ExternalMovieSummaryDto>();
             }
-            catch (Exception ex)
+            catch (Exception ex) when (ex is not ProviderUnavailableException)
             {
                 _logger.LogError(ex, "Error getting movies from provider {ProviderId}", providerId);
-                return Enumerable.Empty<ExternalMovieSummaryDto>();
+                _providerStatusService.RecordFailure(providerId, stopwatch.Elapsed, ex.Message);
+                throw new ProviderUnavailableException(providerId, ex.Message, ex);
             }
         }
 
         public async Task<ExternalMovieDetailDto?> GetMovieDetailsFromProviderAsync(string providerId, string movieId)
         {
+            var stopwatch = Stopwatch.StartNew();
             try
             {
                 var provider = await _movieProdiverService.GetApiProviderAsync(providerId);
@@ -84,6 +95,7 @@ namespace MoviePriceComparison.Infrastructure.Services
                 if (string.IsNullOrEmpty(provider.ApiToken))
                 {
                     _logger.LogWarning("No API token configured for provider: {ProviderId}", providerId);
+                    _providerStatusService.RecordFailure(providerId, stopwatch.Elapsed, "No API token configured");
                     return null;
                 }
 
@@ -98,6 +110,7 @@ namespace MoviePriceComparison.Infrastructure.Services
                 {
                     _logger.LogWarning("Failed to get movie details from {ProviderId} for movie {MovieId}. Status: {StatusCode}",
                         providerId, movieId, response.StatusCode);
+                    _providerStatusService.RecordFailure(providerId, stopwatch.Elapsed, DescribeStatus(response));
                     return null;
                 }
 
@@ -110,14 +123,36 @@ namespace MoviePriceComparison.Infrastructure.Services
                     PropertyNameCaseInsensitive = true
                 });
 
+                _providerStatusService.RecordSuccess(providerId, stopwatch.Elapsed);
                 return movieDto;
             }
             catch (Exception ex)
             {
                 _logger.LogError(ex, "Error getting movie details from provider {ProviderId} for movie {MovieId}", providerId, movieId);
+                _providerStatusService.RecordFailure(providerId, stopwatch.Elapsed, ex.Message);
                 return null;
             }
         }
+
+        private static string DescribeStatus(HttpResponseMessage response)
+        {
+            return $"HTTP {(int)response.StatusCode} {response.ReasonPhrase ?? response.StatusCode.ToString()}";
+        }
+    }
+
+    /// <summary>
+    /// Thrown when a provider's movie list could not be fetched. The failure has
+    /// already been recorded with the provider status service.
+    /// </summary>
+    public class ProviderUnavailableException : Exception
+    {
+        public string ProviderId { get; }
+
+        public ProviderUnavailableException(string providerId, string message, Exception? innerException = null)
+            : base(message, innerException)
+        {
+            ProviderId = providerId;
+        }
     }
 
     public class ExternalMoviesResponseDto
@@ -0,0 +1,180 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.Extensions.Caching.Distributed;
+using Microsoft.Extensions.Options;
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Domain.Services;
+using SixLabors.ImageSharp;
+using SixLabors.ImageSharp.Formats;
+using SixLabors.ImageSharp.Formats.Jpeg;
+using SixLabors.ImageSharp.Processing;
+
+namespace MoviePriceComparison.Infrastructure.Services
+{
+    public class PosterSettings
+    {
+        public static readonly int[] DefaultWidths = { 200, 400, 800 };
+
+        /// <summary>
+        /// Widths the proxy serves. Other requests get the next width up, and no
+        /// width gets the largest, so the cache holds a few variants per poster.
+        /// Empty means DefaultWidths (the binder would add configured values to a non-empty default).
+        /// </summary>
+        public int[] Widths { get; set; } = Array.Empty<int>();
+
+        public int CacheHours { get; set; } = 24;
+
+        /// <summary>
+        /// How long a URL that did not return an image is left alone before it is tried again.
+        /// </summary>
+        public int FailureCacheMinutes { get; set; } = 10;
+
+        public int MaxDownloadBytes { get; set; } = 5 * 1024 * 1024;
+
+        /// <summary>
+        /// Largest source image, in pixels, the proxy will decode. A small file can
+        /// declare huge dimensions, so this is checked from the header before decoding.
+        /// </summary>
+        public long MaxSourcePixels { get; set; } = 25_000_000;
+    }
+
+    /// <summary>
+    /// Fetches provider posters, re-encodes them as JPEG at the requested width
+    /// and keeps the result in the distributed cache, so each variant is fetched
+    /// and resized once per cache period. Failures are cached too (as an empty
+    /// entry) so a dead URL is not fetched on every request.
+    /// </summary>
+    public class PosterImageService : IPosterImageService
+    {
+        public const string ContentType = "image/jpeg";
+
+        private const int JpegQuality = 80;
+
+        private readonly HttpClient _httpClient;
+        private readonly IDistributedCache _cache;
+        private readonly PosterSettings _settings;
+        private readonly ILogger<PosterImageService> _logger;
+
+        public PosterImageService(
+            HttpClient httpClient,
+            IDistributedCache cache,
+            IOptions<PosterSettings> settings,
+            ILogger<PosterImageService> logger)
+        {
+            _httpClient = httpClient ?? throw new ArgumentNullException(nameof(httpClient));
+            _cache = cache ?? throw new ArgumentNullException(nameof(cache));
+            _settings = settings?.Value ?? throw new ArgumentNullException(nameof(settings));
+            _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        }
+
+        public async Task<PosterImage?> GetAsync(string url, int? width, CancellationToken cancellationToken = default)
+        {
+            var targetWidth = SelectWidth(width);
+            var cacheKey = $"poster:{targetWidth}:{Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(url)))}";
+
+            var content = await _cache.GetAsync(cacheKey, cancellationToken);
+            if (content == null)
+            {
+                var original = await DownloadAsync(url, cancellationToken);
+                content = (original != null ? Resize(original, targetWidth, url) : null) ?? Array.Empty<byte>();
+
+                await _cache.SetAsync(cacheKey, content, new DistributedCacheEntryOptions
+                {
+                    AbsoluteExpirationRelativeToNow = content.Length > 0
+                        ? TimeSpan.FromHours(_settings.CacheHours)
+                        : TimeSpan.FromMinutes(_settings.FailureCacheMinutes)
+                }, cancellationToken);
+            }
+
+            return content.Length > 0
+                ? new PosterImage { Content = content, ContentType = ContentType, Width = targetWidth }
+                : null;
+        }
+
+        private int SelectWidth(int? width)
+        {
+            var widths = (_settings.Widths.Length > 0 ? _settings.Widths : PosterSettings.DefaultWidths).Order().ToList();
+            return width == null ? widths.Last() : widths.FirstOrDefault(w => w >= width, widths.Last());
+        }
+
+        private async Task<byte[]?> DownloadAsync(string url, CancellationToken cancellationToken)
+        {
+            try
+            {
+                using var response = await _httpClient.GetAsync(url, HttpCompletionOption.ResponseHeadersRead, cancellationToken);
+                var mediaType = response.Content.Headers.ContentType?.MediaType;
+                if (!response.IsSuccessStatusCode || mediaType == null || !mediaType.StartsWith("image/", StringComparison.OrdinalIgnoreCase))
+                {
+                    _logger.LogWarning("Poster {Url} returned {StatusCode} with content type {ContentType}", url, (int)response.StatusCode, mediaType);
+                    return null;
+                }
+                if (response.Content.Headers.ContentLength > _settings.MaxDownloadBytes)
+                {
+                    _logger.LogWarning("Poster {Url} is larger than {MaxBytes} bytes", url, _settings.MaxDownloadBytes);
+                    return null;
+                }
+
+                // Content-Length can be missing, so the limit is enforced while reading too
+                await using var stream = await response.Content.ReadAsStreamAsync(cancellationToken);
+                using var buffer = new MemoryStream();
+                var chunk = new byte[81920];
+                int read;
+                while ((read = await stream.ReadAsync(chunk, cancellationToken)) > 0)
+                {
+                    if (buffer.Length + read > _settings.MaxDownloadBytes)
+                    {
+                        _logger.LogWarning("Poster {Url} is larger than {MaxBytes} bytes", url, _settings.MaxDownloadBytes);
+                        return null;
+                    }
+                    buffer.Write(chunk, 0, read);
+                }
+                return buffer.ToArray();
+            }
+            catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException && !cancellationToken.IsCancellationRequested)
+            {
+                _logger.LogWarning(ex, "Could not fetch poster {Url}", url);
+                return null;
+            }
+        }
+
+        private byte[]? Resize(byte[] original, int width, string url)
+        {
+            try
+            {
+                var info = Image.Identify(original);
+                if ((long)info.Width * info.Height > _settings.MaxSourcePixels)
+                {
+                    _logger.LogWarning("Poster {Url} is {Width}x{Height}, more than {MaxPixels} pixels", url, info.Width, info.Height, _settings.MaxSourcePixels);
+                    return null;
+                }
+
+                // Decoding straight to the target size keeps memory near the thumbnail's, not the original's
+                var options = new DecoderOptions
+                {
+                    MaxFrames = 1,
+                    TargetSize = info.Width > width
+                        ? new Size(width, Math.Max(1, (int)Math.Round((double)info.Height * width / info.Width)))
+                        : null
+                };
+
+                using var image = Image.Load(options, original);
+                if (image.Width > width)
+                {
+                    image.Mutate(x => x.Resize(width, 0));
+                }
+                // Camera and editing metadata is of no use to a thumbnail
+                image.Metadata.ExifProfile = null;
+                image.Metadata.XmpProfile = null;
+
+                using var output = new MemoryStream();
+                image.SaveAsJpeg(output, new JpegEncoder { Quality = JpegQuality });
+                return output.ToArray();
+            }
+            catch (ImageFormatException ex)
+            {
+                _logger.LogWarning(ex, "Poster {Url} is not a readable image", url);
+                return null;
+            }
+        }
+    }
+}
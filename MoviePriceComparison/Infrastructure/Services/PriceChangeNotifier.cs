@@ -0,0 +1,67 @@
+using System.Runtime.CompilerServices;
+using System.Threading.Channels;
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Domain.Services;
+
+namespace MoviePriceComparison.Infrastructure.Services
+{
+    /// <summary>
+    /// Fans price changes out to every open event stream. Registered as a singleton
+    /// so refreshes (scoped per request or run in the background) and subscribers
+    /// (one per connected browser) meet in the same instance.
+    /// </summary>
+    public class PriceChangeNotifier : IPriceChangeNotifier
+    {
+        /// <summary>
+        /// A subscriber that falls this far behind loses its oldest changes rather
+        /// than holding memory; the client reloads the list when it reconnects anyway.
+        /// </summary>
+        public const int MaxQueuedChanges = 1000;
+
+        private readonly HashSet<Channel<PriceChange>> _subscribers = new();
+        private readonly object _lock = new();
+
+        public void Publish(IEnumerable<PriceChange> changes)
+        {
+            lock (_lock)
+            {
+                foreach (var change in changes)
+                {
+                    foreach (var subscriber in _subscribers)
+                    {
+                        subscriber.Writer.TryWrite(change);
+                    }
+                }
+            }
+        }
+
+        public async IAsyncEnumerable<PriceChange> SubscribeAsync([EnumeratorCancellation] CancellationToken cancellationToken)
+        {
+            var channel = Channel.CreateBounded<PriceChange>(new BoundedChannelOptions(MaxQueuedChanges)
+            {
+                FullMode = BoundedChannelFullMode.DropOldest,
+                SingleReader = true
+            });
+
+            lock (_lock)
+            {
+                _subscribers.Add(channel);
+            }
+
+            try
+            {
+                await foreach (var change in channel.Reader.ReadAllAsync(cancellationToken))
+                {
+                    yield return change;
+                }
+            }
+            finally
+            {
+                lock (_lock)
+                {
+                    _subscribers.Remove(channel);
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,73 @@
+using Microsoft.Extensions.Options;
+using MoviePriceComparison.Application.UseCases;
+
+namespace MoviePriceComparison.Infrastructure.Services
+{
+    public class LiveUpdateSettings
+    {
+        /// <summary>
+        /// How often the server refreshes provider prices on its own so open event
+        /// streams see changes without anyone pressing Refresh. 0 turns it off.
+        /// </summary>
+        public int RefreshIntervalMinutes { get; set; } = 5;
+    }
+
+    /// <summary>
+    /// Runs the refresh use case on a timer. Each run gets its own scope because
+    /// the use case and repository are scoped services.
+    /// </summary>
+    public class PriceRefreshBackgroundService : BackgroundService
+    {
+        private readonly IServiceScopeFactory _scopeFactory;
+        private readonly LiveUpdateSettings _settings;
+        private readonly ILogger<PriceRefreshBackgroundService> _logger;
+
+        public PriceRefreshBackgroundService(
+            IServiceScopeFactory scopeFactory,
+            IOptions<LiveUpdateSettings> settings,
+            ILogger<PriceRefreshBackgroundService> logger)
+        {
+            _scopeFactory = scopeFactory ?? throw new ArgumentNullException(nameof(scopeFactory));
+            _settings = settings?.Value ?? throw new ArgumentNullException(nameof(settings));
+            _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        }
+
+        protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+        {
+            if (_settings.RefreshIntervalMinutes <= 0)
+            {
+                _logger.LogInformation("Scheduled price refresh is disabled");
+                return;
+            }
+
+            using var timer = new PeriodicTimer(TimeSpan.FromMinutes(_settings.RefreshIntervalMinutes));
+            try
+            {
+                while (await timer.WaitForNextTickAsync(stoppingToken))
+                {
+                    await RefreshAsync();
+                }
+            }
+            catch (OperationCanceledException)
+            {
+                // Host is shutting down
+            }
+        }
+
+        private async Task RefreshAsync()
+        {
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var refreshMovieData = scope.ServiceProvider.GetRequiredService<IRefreshMovieDataUseCase>();
+                var result = await refreshMovieData.ExecuteAsync();
+                _logger.LogInformation("Scheduled price refresh found {PricesChanged} changed prices", result.PricesChanged);
+            }
+            catch (Exception ex)
+            {
+                // A failed run must not stop later ones
+                _logger.LogError(ex, "Scheduled price refresh failed");
+            }
+        }
+    }
+}
@@ -0,0 +1,110 @@
+using MoviePriceComparison.Domain.Entities;
+using MoviePriceComparison.Domain.Services;
+
+namespace MoviePriceComparison.Infrastructure.Services
+{
+    /// <summary>
+    /// Keeps the outcome of every provider API call for the lifetime of the process.
+    /// Registered as a singleton: repositories and API clients are scoped per request
+    /// and would otherwise forget what happened on the previous refresh.
+    /// </summary>
+    public class ProviderStatusService : IProviderStatusService
+    {
+        public const int MaxLatencySamples = 20;
+
+        private readonly Dictionary<string, ProviderStatus> _statuses = new(StringComparer.OrdinalIgnoreCase);
+        private readonly object _lock = new();
+
+        public void RecordSuccess(string providerId, TimeSpan latency)
+        {
+            Record(providerId, latency, status =>
+            {
+                status.LastSuccessAt = DateTime.UtcNow;
+            }, succeeded: true);
+        }
+
+        public void RecordFailure(string providerId, TimeSpan latency, string error)
+        {
+            Record(providerId, latency, status =>
+            {
+                status.LastErrorAt = DateTime.UtcNow;
+                status.LastError = error;
+            }, succeeded: false);
+        }
+
+        public void RecordServedFromCache(string providerId, bool servedFromCache)
+        {
+            lock (_lock)
+            {
+                GetOrAdd(providerId).ServedFromCache = servedFromCache;
+            }
+        }
+
+        public ProviderStatus? GetStatus(string providerId)
+        {
+            lock (_lock)
+            {
+                return _statuses.TryGetValue(providerId, out var status) ? Copy(status) : null;
+            }
+        }
+
+        public IReadOnlyList<ProviderStatus> GetStatuses()
+        {
+            lock (_lock)
+            {
+                return _statuses.Values.Select(Copy).ToList();
+            }
+        }
+
+        private void Record(string providerId, TimeSpan latency, Action<ProviderStatus> update, bool succeeded)
+        {
+            var latencyMs = (int)Math.Round(latency.TotalMilliseconds);
+            lock (_lock)
+            {
+                var status = GetOrAdd(providerId);
+                update(status);
+                status.LatencyMs = latencyMs;
+                status.RecentLatencies.Add(new ProviderLatencySample
+                {
+                    At = DateTime.UtcNow,
+                    LatencyMs = latencyMs,
+                    Succeeded = succeeded
+                });
+                if (status.RecentLatencies.Count > MaxLatencySamples)
+                {
+                    status.RecentLatencies.RemoveRange(0, status.RecentLatencies.Count - MaxLatencySamples);
+                }
+            }
+        }
+
+        private ProviderStatus GetOrAdd(string providerId)
+        {
+            if (!_statuses.TryGetValue(providerId, out var status))
+            {
+                status = new ProviderStatus { ProviderId = providerId };
+                _statuses[providerId] = status;
+            }
+            return status;
+        }
+
+        // Callers get a snapshot so they never see a half-applied update
+        private static ProviderStatus Copy(ProviderStatus status)
+        {
+            return new ProviderStatus
+            {
+                ProviderId = status.ProviderId,
+                LastSuccessAt = status.LastSuccessAt,
+                LastErrorAt = status.LastErrorAt,
+                LastError = status.LastError,
+                LatencyMs = status.LatencyMs,
+                ServedFromCache = status.ServedFromCache,
+                RecentLatencies = status.RecentLatencies.Select(sample => new ProviderLatencySample
+                {
+                    At = sample.At,
+                    LatencyMs = sample.LatencyMs,
+                    Succeeded = sample.Succeeded
+                }).ToList()
+            };
+        }
+    }
+}
@@ -4,6 +4,9 @@ using Microsoft.Extensions.Caching.StackExchangeRedis;
 using MoviePriceComparison.Domain.Services;
 using MoviePriceComparison.Infrastructure.Services;
 using MoviePriceComparison.Application.UseCases;
+using MoviePriceComparison.Controllers;
+using Microsoft.AspNetCore.RateLimiting;
+using System.Threading.RateLimiting;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -13,6 +16,19 @@ var isLocalDev = environment == "LOCALDEV";
 
 // Add services to the container
 builder.Services.AddControllers();
+
+// Provider admin endpoints take a shared key; see AdminApiKeyAuthenticationHandler
+builder.Services.AddAuthentication(AdminApiKeyAuthenticationHandler.SchemeName)
+    .AddScheme<AdminApiKeyOptions, AdminApiKeyAuthenticationHandler>(AdminApiKeyAuthenticationHandler.SchemeName, options =>
+    {
+        options.ApiKey = builder.Configuration["ProviderAdmin:ApiKey"] ?? "";
+    });
+builder.Services.AddAuthorization(options =>
+{
+    options.AddPolicy(AdminApiKeyAuthenticationHandler.PolicyName, policy => policy
+        .AddAuthenticationSchemes(AdminApiKeyAuthenticationHandler.SchemeName)
+        .RequireAuthenticatedUser());
+});
 builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen();
 
@@ -47,6 +63,13 @@ builder.Services.Configure<ApiProviderConfiguration>(options =>
 builder.Services.Configure<MoviePriceComparison.Infrastructure.Repositories.ExternalMovieApiCacheSettings>(
     builder.Configuration.GetSection("ExternalMovieApiCacheSettings"));
 
+// Cached prices count as stale once they pass the cache's maximum age
+builder.Services.Configure<ProviderStatusSettings>(options =>
+    options.StaleAfterMinutes = builder.Configuration.GetValue<int>("ExternalMovieApiCacheSettings:MaxAgeMinutes", 10));
+
+// Configure scheduled refreshes that feed the live price stream
+builder.Services.Configure<LiveUpdateSettings>(builder.Configuration.GetSection("LiveUpdates"));
+
 // Configure HTTP clients
 builder.Services.AddHttpClient<IExternalMovieApiService, ExternalMovieApiService>(client =>
 {
@@ -58,10 +81,12 @@ builder.Services.AddHttpClient<IApiProviderService, ApiProviderService>(client =
     client.Timeout = TimeSpan.FromSeconds(30);
 });
 
-// Add HttpClient for poster URL validation
-builder.Services.AddHttpClient<GetMovieDetailUseCase>(client =>
+// Configure the poster proxy's variants and cache
+builder.Services.Configure<PosterSettings>(builder.Configuration.GetSection("Posters"));
+
+builder.Services.AddHttpClient<IPosterImageService, PosterImageService>(client =>
 {
-    client.Timeout = TimeSpan.FromSeconds(10); // Shorter timeout for image validation
+    client.Timeout = TimeSpan.FromSeconds(10); // A slow poster host should not hold the card's image request for long
 });
 
 // Register Clean Architecture layers
@@ -69,8 +94,19 @@ builder.Services.AddHttpClient<GetMovieDetailUseCase>(client =>
 // Application layer
 builder.Services.AddScoped<IGetMoviesWithPricesUseCase, GetMoviesWithPricesUseCase>();
 builder.Services.AddScoped<IGetMovieDetailUseCase, GetMovieDetailUseCase>();
+builder.Services.AddScoped<IRefreshMovieDataUseCase, RefreshMovieDataUseCase>();
+builder.Services.AddScoped<IGetApiProvidersUseCase, GetApiProvidersUseCase>();
+builder.Services.AddScoped<ISaveApiProviderUseCase, SaveApiProviderUseCase>();
+builder.Services.AddScoped<IGetProviderStatusUseCase, GetProviderStatusUseCase>();
+builder.Services.AddScoped<IStreamPriceChangesUseCase, StreamPriceChangesUseCase>();
+builder.Services.AddScoped<IGetPosterUseCase, GetPosterUseCase>();
 
 // Infrastructure layer
+// Provider call outcomes must outlive the request that recorded them
+builder.Services.AddSingleton<IProviderStatusService, ProviderStatusService>();
+// Refreshes and event stream subscribers must share one notifier
+builder.Services.AddSingleton<IPriceChangeNotifier, PriceChangeNotifier>();
+builder.Services.AddHostedService<PriceRefreshBackgroundService>();
 builder.Services.AddScoped<IExternalMovieApiService, ExternalMovieApiService>();
 builder.Services.AddScoped<MoviePriceComparison.Domain.Repositories.IMovieRepository, MoviePriceComparison.Infrastructure.Repositories.MovieRepository>();
 
@@ -90,6 +126,21 @@ builder.Services.AddCors(options =>
     });
 });
 
+// Anyone can post diagnostics, so each client IP gets a fixed number of batches per window
+builder.Services.AddRateLimiter(options =>
+{
+    options.RejectionStatusCode = StatusCodes.Status429TooManyRequests;
+    options.AddPolicy(MoviesController.DiagnosticsRateLimitPolicy, context =>
+        RateLimitPartition.GetFixedWindowLimiter(
+            context.Connection.RemoteIpAddress?.ToString() ?? "unknown",
+            _ => new FixedWindowRateLimiterOptions
+            {
+                PermitLimit = builder.Configuration.GetValue<int>("Diagnostics:PermitLimit", 30),
+                Window = TimeSpan.FromSeconds(builder.Configuration.GetValue<int>("Diagnostics:WindowSeconds", 60)),
+                QueueLimit = 0
+            }));
+});
+
 // Add logging
 builder.Services.AddLogging(logging =>
 {
@@ -109,6 +160,8 @@ if (app.Environment.IsDevelopment())
 
 app.UseHttpsRedirection();
 app.UseCors("AllowReactApp");
+app.UseRateLimiter();
+app.UseAuthentication();
 app.UseAuthorization();
 app.MapControllers();
 
@@ -125,13 +178,6 @@ app.MapPost("/api/providers/refresh", async (IApiProviderService apiProviderServ
 {
     await apiProviderService.RefreshApiProvidersAsync();
     return Results.Ok(new { message = "API providers cache refreshed", timestamp = DateTime.UtcNow });
-});
-
-// Add endpoint to get current API providers
-app.MapGet("/api/providers", async (IApiProviderService apiProviderService) =>
-{
-    var providers = await apiProviderService.GetApiProvidersAsync();
-    return Results.Ok(providers);
-});
+}).RequireAuthorization(AdminApiKeyAuthenticationHandler.PolicyName);
 
 app.Run();
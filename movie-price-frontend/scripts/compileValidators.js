@@ -0,0 +1,100 @@
+/**
+ * Compiles the JSON schemas in src/services into plain validator functions
+ * (Ajv standalone code), so the app never builds code from strings at runtime
+ * and the CSP can leave out 'unsafe-eval'.
+ *
+ *   npm run validators
+ *
+ * Run it after changing a schema; src/services/__tests__/validators.test.ts
+ * fails while the committed output is out of date.
+ */
+const fs = require('fs');
+const path = require('path');
+const Ajv = require('ajv').default;
+const standaloneCode = require('ajv/dist/standalone').default;
+
+const SERVICES_DIR = path.join(__dirname, '..', 'src', 'services');
+const OUTPUT_BASENAME = 'validators.generated';
+
+// Each validator: the schema it checks and the type it narrows to.
+const VALIDATORS = [
+  { name: 'validatePriceInfo', module: './movieSchemas', schema: 'priceInfoSchema', type: 'PriceInfo', from: '../types/Movie' },
+  { name: 'validatePosterCandidate', module: './movieSchemas', schema: 'posterCandidateSchema', type: 'PosterCandidate', from: '../types/Movie' },
+  { name: 'validateMovieComparison', module: './movieSchemas', schema: 'movieComparisonSchema', type: 'MovieComparison', from: '../types/Movie' },
+  { name: 'validateMovieDetail', module: './movieSchemas', schema: 'movieDetailSchema', type: 'MovieDetail', from: '../types/Movie' },
+  { name: 'validateMoviePage', module: './movieSchemas', schema: 'moviePageSchema', type: 'MoviePage', from: '../types/Movie' },
+  { name: 'validateRefreshResult', module: './movieSchemas', schema: 'refreshResultSchema', type: 'RefreshResult', from: '../types/Movie' },
+  { name: 'validatePriceChangeEvent', module: './movieSchemas', schema: 'priceChangeEventSchema', type: 'PriceChangeEvent', from: '../types/Movie' },
+  { name: 'validateApiProvider', module: './movieSchemas', schema: 'apiProviderSchema', type: 'ApiProvider', from: '../types/Provider' },
+  { name: 'validateApiProviderList', module: './movieSchemas', schema: 'apiProviderListSchema', type: 'ApiProvider[]', from: '../types/Provider' },
+  { name: 'validateProviderStatusReport', module: './movieSchemas', schema: 'providerStatusReportSchema', type: 'ProviderStatusReport', from: '../types/Provider' },
+  { name: 'validateRuntimeConfig', module: './runtimeConfigSchema', schema: 'runtimeConfigSchema', type: 'RuntimeConfig', from: './runtimeConfig' },
+  { name: 'validateWatchlistItem', module: './watchlistSchema', schema: 'watchlistItemSchema', type: 'WatchlistItem', from: './watchlist' },
+  { name: 'validateWatchlistFile', module: './watchlistSchema', schema: 'watchlistFileSchema', type: 'WatchlistFile', from: './watchlist' },
+];
+
+const HEADER = '// Generated by scripts/compileValidators.js from the schemas in src/services; do not edit.\n';
+
+/**
+ * Returns the validator module and its declarations. `load` requires a schema
+ * module by absolute path: Node's require with the TypeScript hook below, or
+ * Jest's, which transforms TypeScript itself.
+ */
+const generateValidators = (load) => {
+  const ajv = new Ajv({ allErrors: true, code: { source: true, esm: true, lines: true } });
+  VALIDATORS.forEach(({ name, module, schema }) => {
+    ajv.addSchema(load(path.join(SERVICES_DIR, module))[schema], name);
+  });
+
+  // Ajv's ESM output still pulls its runtime helpers in with require().
+  const js = standaloneCode(ajv, Object.fromEntries(VALIDATORS.map(({ name }) => [name, name])))
+    .replace(/^"use strict";\n?/, '')
+    .replace(/const (\w+) = require\("([^"]+)"\)\.default;/g, 'import $1 from "$2";');
+
+  const typesByModule = new Map();
+  VALIDATORS.forEach(({ type, from }) => {
+    const types = typesByModule.get(from) || new Set();
+    types.add(type.replace('[]', ''));
+    typesByModule.set(from, types);
+  });
+  const imports = Array.from(typesByModule, ([from, types]) =>
+    `import { ${Array.from(types).sort().join(', ')} } from '${from}';`);
+  const dts = [
+    "import { ValidateFunction } from 'ajv';",
+    ...imports,
+    '',
+    ...VALIDATORS.map(({ name, type }) => `export declare const ${name}: ValidateFunction<${type}>;`),
+  ].join('\n');
+
+  return {
+    js: `${HEADER}/* eslint-disable */\n${js}\n`,
+    dts: `${HEADER}${dts}\n`,
+  };
+};
+
+const OUTPUT_PATHS = {
+  js: path.join(SERVICES_DIR, `${OUTPUT_BASENAME}.js`),
+  dts: path.join(SERVICES_DIR, `${OUTPUT_BASENAME}.d.ts`),
+};
+
+// Lets plain Node require the schema modules, which are TypeScript.
+const registerTypeScript = () => {
+  const ts = require('typescript');
+  require.extensions['.ts'] = (module, filename) => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+      fileName: filename,
+    });
+    module._compile(outputText, filename);
+  };
+};
+
+if (require.main === module) {
+  registerTypeScript();
+  const { js, dts } = generateValidators(require);
+  fs.writeFileSync(OUTPUT_PATHS.js, js);
+  fs.writeFileSync(OUTPUT_PATHS.dts, dts);
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATHS.js)} and its declarations`);
+}
+
+module.exports = { generateValidators, OUTPUT_PATHS };
@@ -8,7 +8,8 @@ const mockMovieApi = movieApi as jest.Mocked<typeof movieApi>;
 
 test('renders movie price comparison app', async () => {
   // Mock API responses
-  mockMovieApi.getMovies.mockResolvedValue([]);
+  mockMovieApi.getMovies.mockResolvedValue({ items: [], page: 1, pageSize: 100, totalCount: 0, totalPages: 0 });
+  mockMovieApi.getProviderStatus.mockResolvedValue({ checkedAt: '2023-01-01T00:00:00Z', staleAfterMinutes: 10, providers: [] });
 
   render(<App />);
 
@@ -1,102 +1,181 @@
-import { useEffect, useState } from 'react';
+import { useRef, useState } from 'react';
+import { BrowserRouter, Link, Route, Routes } from 'react-router-dom';
 import './App.css';
-import MovieCard from './components/MovieCard';
-import { movieApi } from './services/movieApi';
+import AppCommands from './components/AppCommands';
+import CommandPalette from './components/CommandPalette';
+import LocaleSelector from './components/LocaleSelector';
+import OfflineBanner from './components/OfflineBanner';
+import PageErrorBoundary from './components/PageErrorBoundary';
+import RefreshStatus from './components/RefreshStatus';
+import RouteFocus from './components/RouteFocus';
+import ShortcutHelp from './components/ShortcutHelp';
+import Toaster from './components/Toaster';
+import { useI18n } from './hooks/useI18n';
+import { useLivePrices } from './hooks/useLivePrices';
+import { useMovieRefresh } from './hooks/useMovieRefresh';
+import { useMovies } from './hooks/useMovieQueries';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useWatchlist } from './hooks/useWatchlist';
+import MovieDetailPage from './pages/MovieDetailPage';
+import ComparePage from './pages/ComparePage';
+import MovieListPage from './pages/MovieListPage';
+import ProviderFormPage from './pages/ProviderFormPage';
+import ProviderPreferencesPage from './pages/ProviderPreferencesPage';
+import ProvidersPage from './pages/ProvidersPage';
+import ReportPage from './pages/ReportPage';
+import ProviderStatusPage from './pages/ProviderStatusPage';
+import WatchlistPage from './pages/WatchlistPage';
+import { getErrorMessage } from './services/apiErrors';
+import { isFeatureEnabled } from './services/runtimeConfig';
 import { MovieComparison } from './types/Movie';
+import {
+  COMPARE_PATH,
+  HOME_PATH,
+  MOVIE_DETAIL_PATH,
+  NEW_PROVIDER_PATH,
+  PROVIDER_EDIT_PATH,
+  PROVIDER_PREFERENCES_PATH,
+  PROVIDER_STATUS_PATH,
+  PROVIDERS_PATH,
+  REPORT_PATH,
+  WATCHLIST_PATH,
+} from './utils/routes';
 
-function App() {
-  const [movies, setMovies] = useState<MovieComparison[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [refreshing, setRefreshing] = useState(false);
+const NO_MOVIES: MovieComparison[] = [];
 
-  useEffect(() => {
-    loadMovies();
-  }, []);
+function App() {
+  const { data: movies = NO_MOVIES, totalCount, hasMore, loadMore, loading, error, updatedAt, refetch } = useMovies();
+  const {
+    stage,
+    result,
+    priceChanges,
+    refreshing,
+    queued,
+    error: refreshError,
+    refresh,
+    clearError,
+  } = useMovieRefresh(movies, refetch);
+  const { flashes: priceFlashes } = useLivePrices(refetch);
+  const online = useOnlineStatus();
+  const watchedCount = useWatchlist().length;
+  const { t } = useI18n();
+  const [comparedKeys, setComparedKeys] = useState<string[]>([]);
+  const providerAdmin = isFeatureEnabled('providerAdmin');
+  const mainRef = useRef<HTMLElement>(null);
 
-  const loadMovies = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const moviesData = await movieApi.getMovies();
-      setMovies(moviesData);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load movies');
-    } finally {
-      setLoading(false);
+  // The shortcut can fire while the button is disabled.
+  const handleRefreshCommand = () => {
+    if (!refreshing) {
+      refresh();
     }
   };
 
-  const handleRefresh = async () => {
-    try {
-      setRefreshing(true);
-      await movieApi.refreshMovieData();
-      await loadMovies();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to refresh data');
-    } finally {
-      setRefreshing(false);
-    }
+  const handleRetry = () => {
+    clearError();
+    refetch();
   };
 
-  const handleMovieClick = (movie: MovieComparison) => {
-    const priceText = movie.prices.map(p => `${p.provider}: $${p.price.toFixed(2)}}`).join('\n');
-    const cheapestText = movie.cheapestPrice ? `\nBest Price: ${movie.cheapestPrice.provider} - $${movie.cheapestPrice.price.toFixed(2)}` : '';
-    alert(`Movie Details:\n\nTitle: ${movie.title}\nYear: ${movie.year || 'N/A'}\nGenre: ${movie.genre || 'N/A'}\nDirector: ${movie.director || 'N/A'}\nRating: ${movie.rating || 'N/A'}\n\nPrices:\n${priceText}${cheapestText}`);
-  };
+  // Offline with a list to show, the banner explains why it could not be revalidated.
+  const loadError = !online && movies.length > 0 ? null : error;
+  const displayedError = refreshError ?? loadError;
 
   return (
-    <div className="App">
-      <header className="App-header">
-        <h1>🎬 Movie Price Comparison</h1>
+    <BrowserRouter>
+      <RouteFocus targetRef={mainRef} />
+      <AppCommands onRefresh={handleRefreshCommand} />
+      <div className="App">
+        <a href="#main-content" className="skip-link">{t('app.skipToContent')}</a>
+        <header className="App-header">
+          <h1>
+            <Link to={HOME_PATH} className="App-title-link">{t('app.title')}</Link>
+          </h1>
 
-        {/* Search and Refresh */}
-        <div className="controls">
-          <button
-            onClick={handleRefresh}
-            disabled={refreshing}
-            className="refresh-button"
-          >
-            {refreshing ? '🔄 Refreshing...' : '🔄 Refresh Data'}
-          </button>
-        </div>
-      </header>
-
-      <main className="App-main">
-        {loading && <div className="loading">Loading movies...</div>}
-
-        {error && (
-          <div className="error">
-            <p>Error: {error}</p>
-            <button onClick={loadMovies}>Try Again</button>
+          {/* Refresh and its outcome; search and filters live on the list page */}
+          <div className="controls">
+            <button
+              onClick={refresh}
+              disabled={refreshing}
+              className="refresh-button"
+            >
+              {refreshing ? t('app.refreshing') : queued ? t('app.refreshQueued') : t('app.refresh')}
+            </button>
+            <Link to={WATCHLIST_PATH} className="watchlist-link">
+              {t('app.watchlistLink', { count: watchedCount })}
+            </Link>
+            <Link to={PROVIDER_PREFERENCES_PATH} className="preferences-link">
+              {t('app.providerPreferencesLink')}
+            </Link>
+            {providerAdmin && (
+              <Link to={PROVIDERS_PATH} className="admin-link">
+                {t('app.providersLink')}
+              </Link>
+            )}
+            <RefreshStatus
+              stage={stage}
+              result={result}
+              movedCount={Object.keys(priceChanges).length}
+              loadedAt={updatedAt}
+            />
+            <LocaleSelector />
           </div>
-        )}
+        </header>
 
-        {!loading && !error && (
-          <>
-            <div className="movies-count">
-              Found {movies.length} movie{movies.length !== 1 ? 's' : ''}
-            </div>
+        <OfflineBanner movies={movies} refreshQueued={queued} />
 
-            <div className="movies-grid">
-              {movies.map((movie) => (
-                <MovieCard
-                  key={movie.id}
-                  movie={movie}
-                  onClick={handleMovieClick}
-                />
-              ))}
-            </div>
+        <main className="App-main" id="main-content" ref={mainRef} tabIndex={-1}>
+          <PageErrorBoundary>
+            <Routes>
+              <Route
+                path={HOME_PATH}
+                element={
+                  <MovieListPage
+                    movies={movies}
+                    totalCount={totalCount}
+                    hasMore={hasMore}
+                    onLoadMore={loadMore}
+                    loading={loading}
+                    error={displayedError ? getErrorMessage(displayedError, t('app.loadMoviesFailed')) : null}
+                    onRetry={handleRetry}
+                    priceChanges={priceChanges}
+                    priceFlashes={priceFlashes}
+                    comparedKeys={comparedKeys}
+                    onComparedKeysChange={setComparedKeys}
+                  />
+                }
+              />
+              <Route path={MOVIE_DETAIL_PATH} element={<MovieDetailPage />} />
+              <Route path={WATCHLIST_PATH} element={<WatchlistPage movies={movies} />} />
+              <Route
+                path={COMPARE_PATH}
+                element={<ComparePage movies={movies} loading={loading} onComparedKeysChange={setComparedKeys} />}
+              />
+              <Route path={REPORT_PATH} element={<ReportPage movies={movies} loading={loading} />} />
+              <Route path={PROVIDER_PREFERENCES_PATH} element={<ProviderPreferencesPage movies={movies} />} />
+              {providerAdmin && (
+                <>
+                  <Route path={PROVIDERS_PATH} element={<ProvidersPage />} />
+                  <Route path={NEW_PROVIDER_PATH} element={<ProviderFormPage />} />
+                  <Route path={PROVIDER_EDIT_PATH} element={<ProviderFormPage />} />
+                  <Route path={PROVIDER_STATUS_PATH} element={<ProviderStatusPage />} />
+                </>
+              )}
+              <Route
+                path="*"
+                element={
+                  <div className="no-movies">
+                    {t('app.pageNotFound')} <Link to={HOME_PATH}>{t('app.backToMovies')}</Link>
+                  </div>
+                }
+              />
+            </Routes>
+          </PageErrorBoundary>
+        </main>
 
-            {movies.length === 0 && (
-              <div className="no-movies">
-                No movies found. Try refreshing the data or check your search query.
-              </div>
-            )}
-          </>
-        )}
-      </main>
-    </div>
+        <Toaster />
+        <CommandPalette movies={movies} />
+        <ShortcutHelp />
+      </div>
+    </BrowserRouter>
   );
 }
 
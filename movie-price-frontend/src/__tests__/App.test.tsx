@@ -1,8 +1,17 @@
 import '@testing-library/jest-dom';
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
 import App from '../App';
+import { NetworkError, ServerError } from '../services/apiErrors';
 import { movieApi } from '../services/movieApi';
-import { MovieComparison } from '../types/Movie';
+import { toasts } from '../services/notifications';
+import { preferences } from '../services/preferences';
+import { priceHistory } from '../services/priceHistory';
+import { providerPreferences } from '../services/providerPreferences';
+import { queryCache } from '../services/queryCache';
+import { DEFAULT_RUNTIME_CONFIG, setRuntimeConfig } from '../services/runtimeConfig';
+import { watchlist } from '../services/watchlist';
+import { MovieComparison, MovieDetail, MoviePage, RefreshResult } from '../types/Movie';
+import { ProviderStatusReport } from '../types/Provider';
 
 // Mock the movieApi service
 jest.mock('../services/movieApi');
@@ -61,11 +70,58 @@ const mockMovies: MovieComparison[] = [
     }
 ];
 
+const mockMovieDetail: MovieDetail = {
+    id: '1',
+    title: 'The Matrix',
+    year: '1999',
+    runtime: '136 min',
+    writer: 'Lana Wachowski, Lilly Wachowski',
+    prices: mockMovies[0].prices,
+    cheapestPrice: mockMovies[0].cheapestPrice,
+    updatedAt: '2023-01-01T00:00:00Z'
+};
+
+const mockRefreshResult: RefreshResult = {
+    refreshedAt: '2023-01-02T00:00:00Z',
+    providers: [
+        { providerId: 'cinemaworld', provider: 'Cinemaworld', movieCount: 2, succeeded: true },
+        { providerId: 'filmworld', provider: 'Filmworld', movieCount: 1, succeeded: true }
+    ],
+    movieCount: 2,
+    pricesChanged: 3
+};
+
+const toPage = (items: MovieComparison[]): MoviePage =>
+    ({ items, page: 1, pageSize: 100, totalCount: items.length, totalPages: 1 });
+
+// Flips navigator.onLine and fires the event the connectivity store listens for.
+const setOnline = (online: boolean) => {
+    jest.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(online);
+    act(() => {
+        window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+    });
+};
+
+const mockProviderStatus: ProviderStatusReport = {
+    checkedAt: '2023-01-02T00:00:00Z',
+    staleAfterMinutes: 10,
+    providers: []
+};
+
 describe('App', () => {
     beforeEach(() => {
         jest.clearAllMocks();
-        mockMovieApi.getMovies.mockResolvedValue(mockMovies);
-        mockMovieApi.refreshMovieData.mockResolvedValue();
+        queryCache.clear();
+        priceHistory.clear();
+        watchlist.clear();
+        toasts.clear();
+        preferences.reset();
+        providerPreferences.reset();
+        setRuntimeConfig(DEFAULT_RUNTIME_CONFIG);
+        window.history.pushState({}, '', '/');
+        mockMovieApi.getMovies.mockResolvedValue(toPage(mockMovies));
+        mockMovieApi.refreshMovieData.mockResolvedValue(mockRefreshResult);
+        mockMovieApi.getProviderStatus.mockResolvedValue(mockProviderStatus);
     });
 
     test('renders app header and title', async () => {
@@ -105,6 +161,44 @@ describe('App', () => {
         });
     });
 
+    test('loads the next page of movies as the grid reaches the end of the loaded ones', async () => {
+        mockMovieApi.getMovies
+            .mockResolvedValueOnce({ items: [mockMovies[0]], page: 1, pageSize: 1, totalCount: 2, totalPages: 2 })
+            .mockResolvedValueOnce({ items: [mockMovies[1]], page: 2, pageSize: 1, totalCount: 2, totalPages: 2 });
+
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getAllByText('Inception')).toHaveLength(2);
+        });
+        expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        expect(screen.queryByText('Loading more movies...')).not.toBeInTheDocument();
+        expect(mockMovieApi.getMovies).toHaveBeenLastCalledWith({ page: 2, pageSize: 100 });
+    });
+
+    test('sums what buying every cheapest option saves for the movies shown', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Buying the cheapest option for all 2 movies saves $1.00 over the most expensive')).toBeInTheDocument();
+        });
+    });
+
+    test('switches language and display currency from the header', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+
+        fireEvent.change(screen.getByLabelText('Language'), { target: { value: 'fr-FR' } });
+        fireEvent.change(screen.getByLabelText('Devise d’affichage'), { target: { value: 'EUR' } });
+
+        expect(screen.getByText('2 films trouvés')).toBeInTheDocument();
+        expect(screen.getAllByText('9,14 €')).toHaveLength(2); // Best price + provider price
+        expect(document.documentElement.lang).toBe('fr-FR');
+    });
+
     test('handles refresh functionality', async () => {
         render(<App />);
 
@@ -134,9 +228,162 @@ describe('App', () => {
         });
     });
 
+    test('reports the refresh outcome and highlights movies whose best price moved', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('The Matrix')).toBeInTheDocument();
+        });
+
+        const cheaperFilmworld = { ...mockMovies[0].cheapestPrice!, price: 12.99 };
+        const cheaperMatrix: MovieComparison = {
+            ...mockMovies[0],
+            cheapestPrice: cheaperFilmworld,
+            prices: [mockMovies[0].prices[0], cheaperFilmworld]
+        };
+        mockMovieApi.getMovies.mockResolvedValue(toPage([cheaperMatrix, mockMovies[1]]));
+
+        fireEvent.click(screen.getByText('🔄 Refresh Data'));
+
+        expect(screen.getByText('Refreshing prices from providers...')).toBeInTheDocument();
+
+        await waitFor(() => {
+            expect(screen.getByText('Refreshed Cinemaworld (2 movies), Filmworld (1 movie)')).toBeInTheDocument();
+        });
+        expect(screen.getByText('3 prices changed, 1 best price moved')).toBeInTheDocument();
+        expect(screen.getByText(/^Last refreshed/)).toBeInTheDocument();
+
+        expect(screen.getByText('▼ Down from $14.99')).toBeInTheDocument();
+        expect(screen.getByRole('article', { name: 'The Matrix' })).toHaveClass('price-moved');
+        expect(screen.getByRole('article', { name: 'Inception' })).not.toHaveClass('price-moved');
+    });
+
+    test('reports providers that could not be reached during a refresh', async () => {
+        mockMovieApi.refreshMovieData.mockResolvedValue({
+            ...mockRefreshResult,
+            providers: [
+                mockRefreshResult.providers[0],
+                { ...mockRefreshResult.providers[1], succeeded: false, error: 'HTTP 503 Service Unavailable' }
+            ]
+        });
+        render(<App />);
+        await waitFor(() => {
+            expect(screen.getByText('The Matrix')).toBeInTheDocument();
+        });
+
+        fireEvent.click(screen.getByText('🔄 Refresh Data'));
+
+        await waitFor(() => {
+            expect(screen.getByText('Refreshed Cinemaworld (2 movies)')).toBeInTheDocument();
+        });
+        expect(screen.getByText('Could not reach Filmworld')).toBeInTheDocument();
+    });
+
+    test('stars movies onto the watchlist page', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('The Matrix')).toBeInTheDocument();
+        });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Watch The Matrix' }));
+
+        expect(screen.getByRole('button', { name: 'Watch The Matrix' })).toHaveAttribute('aria-pressed', 'true');
+        fireEvent.click(screen.getByText('★ Watchlist (1)'));
+
+        expect(screen.getByRole('heading', { name: 'Watchlist' })).toBeInTheDocument();
+        expect(screen.getByLabelText('Target price for The Matrix')).toHaveValue(14.99);
+    });
+
+    test('compares selected movies side by side', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('The Matrix')).toBeInTheDocument();
+        });
+
+        fireEvent.click(screen.getByLabelText('Compare The Matrix'));
+        expect(screen.getByText('1 of 6 selected for comparison')).toBeInTheDocument();
+        expect(screen.getByText('Compare selected')).toBeDisabled();
+
+        fireEvent.click(screen.getByLabelText('Compare Inception'));
+        fireEvent.click(screen.getByText('Compare selected'));
+
+        expect(screen.getByRole('heading', { name: 'Compare movies' })).toBeInTheDocument();
+        expect(window.location.search).toBe('?movie=1&movie=2');
+        expect(screen.getByText('Cheapest single provider for all 2 movies: Cinemaworld ($34.98)')).toBeInTheDocument();
+
+        await waitFor(() => {
+            expect(mockMovieApi.getMovieDetail).toHaveBeenCalledWith('2');
+        });
+
+        fireEvent.click(screen.getByText('← Back to all movies'));
+
+        expect(screen.getByLabelText('Compare Inception')).toBeChecked();
+    });
+
+    test('opens the provider console from the header', async () => {
+        mockMovieApi.getProviders.mockResolvedValue([]);
+
+        render(<App />);
+
+        fireEvent.click(screen.getByText('⚙ Providers'));
+
+        await waitFor(() => {
+            expect(screen.getByText('No providers are configured.')).toBeInTheDocument();
+        });
+        expect(window.location.pathname).toBe('/admin/providers');
+
+        fireEvent.click(screen.getByRole('link', { name: 'Provider health' }));
+
+        expect(await screen.findByRole('heading', { name: 'Provider health' })).toBeInTheDocument();
+        expect(window.location.pathname).toBe('/admin/providers/status');
+    });
+
+    test('leaves out the provider console when the runtime config turns it off', async () => {
+        setRuntimeConfig({ ...DEFAULT_RUNTIME_CONFIG, features: { ...DEFAULT_RUNTIME_CONFIG.features, providerAdmin: false } });
+        window.history.pushState({}, '', '/admin/providers');
+
+        render(<App />);
+
+        expect(await screen.findByText('Page not found.', { exact: false })).toBeInTheDocument();
+        expect(screen.queryByText('⚙ Providers')).not.toBeInTheDocument();
+        expect(mockMovieApi.getProviders).not.toHaveBeenCalled();
+    });
+
+    test('raises a toast when a refresh drops a watched movie below its target', async () => {
+        watchlist.add(mockMovies[0]);
+
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('The Matrix')).toBeInTheDocument();
+        });
+
+        const cheaperMatrix: MovieComparison = {
+            ...mockMovies[0],
+            prices: [mockMovies[0].prices[0], { ...mockMovies[0].prices[1], price: 9.99 }],
+            cheapestPrice: { ...mockMovies[0].cheapestPrice!, price: 9.99 }
+        };
+        mockMovieApi.getMovies.mockResolvedValue(toPage([cheaperMatrix, mockMovies[1]]));
+
+        fireEvent.click(screen.getByText('🔄 Refresh Data'));
+
+        await waitFor(() => {
+            expect(screen.getByText('The Matrix is $9.99 at Filmworld, below your target of $14.99')).toBeInTheDocument();
+        });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+        expect(screen.queryByText('The Matrix is $9.99 at Filmworld, below your target of $14.99')).not.toBeInTheDocument();
+    });
+
     test('disables refresh button while refreshing', async () => {
         // Make refresh take longer to test disabled state
-        mockMovieApi.refreshMovieData.mockImplementation(() => new Promise(resolve => setTimeout(resolve, 100)));
+        mockMovieApi.refreshMovieData.mockImplementation(
+            () => new Promise(resolve => setTimeout(() => resolve(mockRefreshResult), 100))
+        );
 
         render(<App />);
 
@@ -152,9 +399,8 @@ describe('App', () => {
         expect(screen.getByText('🔄 Refreshing...')).toBeDisabled();
     });
 
-    test('handles movie click to show details', async () => {
-        // Mock window.alert
-        const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => { });
+    test('navigates to the detail page when a movie is clicked', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
 
         render(<App />);
 
@@ -163,18 +409,222 @@ describe('App', () => {
             expect(screen.getByText('The Matrix')).toBeInTheDocument();
         });
 
-        // Click on a movie card - use getByRole to find the clickable element
-        const movieCard = screen.getByRole('button', { name: /the matrix/i });
-        fireEvent.click(movieCard);
+        fireEvent.click(screen.getByRole('button', { name: 'View details The Matrix' }));
 
-        expect(alertSpy).toHaveBeenCalledWith(
-            expect.stringContaining('Movie Details:')
-        );
-        expect(alertSpy).toHaveBeenCalledWith(
-            expect.stringContaining('The Matrix')
-        );
+        await waitFor(() => {
+            expect(screen.getByText('Lana Wachowski, Lilly Wachowski')).toBeInTheDocument();
+        });
+
+        expect(mockMovieApi.getMovieDetail).toHaveBeenCalledWith('1');
+        expect(window.location.pathname).toBe('/movies/1');
+        // Focus follows the navigation instead of staying on the removed card
+        expect(screen.getByRole('main')).toHaveFocus();
+    });
+
+    test('recomputes best prices from the providers the user keeps, on the list and the detail page', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+        fireEvent.click(screen.getByRole('link', { name: '🛒 My providers' }));
+        fireEvent.change(screen.getByLabelText('Preference for Filmworld'), { target: { value: 'hidden' } });
+        fireEvent.click(screen.getByText('← Back to all movies'));
+
+        const matrixCard = await screen.findByRole('article', { name: 'The Matrix' });
+        expect(matrixCard).toHaveTextContent('Best Price:$15.99');
+        expect(matrixCard).not.toHaveTextContent('Filmworld');
+
+        fireEvent.click(screen.getByRole('button', { name: 'View details The Matrix' }));
+
+        await waitFor(() => {
+            expect(screen.getByText('Best Price: Cinemaworld - $15.99')).toBeInTheDocument();
+        });
+        expect(screen.queryByText('Filmworld')).not.toBeInTheDocument();
+    });
+
+    test('has no axe violations on the movie list', async () => {
+        const { container } = render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+
+        await expect(container).toHaveNoAxeViolations();
+    });
+
+    test('renders the detail page for a deep link', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+        window.history.pushState({}, '', '/movies/cw001');
 
-        alertSpy.mockRestore();
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('136 min')).toBeInTheDocument();
+        });
+
+        expect(mockMovieApi.getMovieDetail).toHaveBeenCalledWith('cw001');
+
+        fireEvent.click(screen.getByText('← Back to all movies'));
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+    });
+
+    test('filters movies from the search box and keeps the query in the URL', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+
+        fireEvent.change(screen.getByLabelText('Search movies'), { target: { value: 'nolan' } });
+
+        expect(screen.getByText('Showing 1 of 2 movies')).toBeInTheDocument();
+        expect(screen.queryByText('The Matrix')).not.toBeInTheDocument();
+        expect(window.location.search).toBe('?q=nolan');
+    });
+
+    test('applies filters from a shared URL', async () => {
+        window.history.pushState({}, '', '/?genre=Sci-Fi&sort=price');
+
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Showing 1 of 2 movies')).toBeInTheDocument();
+        });
+
+        expect(screen.getByLabelText('Genre')).toHaveValue('Sci-Fi');
+        expect(screen.getByLabelText('Sort by')).toHaveValue('price');
+        expect(screen.getByText('The Matrix')).toBeInTheDocument();
+    });
+
+    test('clears filters', async () => {
+        window.history.pushState({}, '', '/?q=nothing-matches');
+
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Showing 0 of 2 movies')).toBeInTheDocument();
+        });
+
+        fireEvent.click(screen.getByText('Clear'));
+
+        expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        expect(window.location.search).toBe('');
+    });
+
+    test('opens the command palette with Ctrl+K and jumps to a movie found by director', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+
+        fireEvent.keyDown(document.body, { key: 'k', ctrlKey: true });
+
+        const input = screen.getByRole('combobox', { name: 'Search movies and commands…' });
+        expect(input).toHaveFocus();
+
+        fireEvent.change(input, { target: { value: 'nolan' } });
+        const results = screen.getByRole('listbox', { name: 'Matching movies and commands' });
+        expect(within(results).getAllByRole('option')[0]).toHaveTextContent('Inception');
+
+        fireEvent.keyDown(input, { key: 'Enter' });
+
+        expect(screen.queryByRole('dialog', { name: 'Command palette' })).not.toBeInTheDocument();
+        expect(window.location.pathname).toBe('/movies/2');
+    });
+
+    test('runs actions from the command palette', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+
+        fireEvent.keyDown(document.body, { key: 'k', ctrlKey: true });
+        const input = screen.getByRole('combobox', { name: 'Search movies and commands…' });
+        fireEvent.change(input, { target: { value: 'prices in eur' } });
+        fireEvent.keyDown(input, { key: 'Enter' });
+
+        expect(preferences.getSnapshot().currency).toBe('EUR');
+
+        fireEvent.keyDown(document.body, { key: 'k', ctrlKey: true });
+        fireEvent.change(screen.getByRole('combobox', { name: 'Search movies and commands…' }), { target: { value: 'genre sci' } });
+        fireEvent.keyDown(screen.getByRole('combobox', { name: 'Search movies and commands…' }), { key: 'Enter' });
+
+        expect(screen.getByText('Showing 1 of 2 movies')).toBeInTheDocument();
+        expect(window.location.search).toBe('?genre=Sci-Fi');
+    });
+
+    test('closes the command palette with Escape and gives focus back', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+
+        const refreshButton = screen.getByText('🔄 Refresh Data');
+        refreshButton.focus();
+        fireEvent.keyDown(refreshButton, { key: 'k', metaKey: true });
+        fireEvent.keyDown(screen.getByRole('combobox', { name: 'Search movies and commands…' }), { key: 'Escape' });
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(refreshButton).toHaveFocus();
+    });
+
+    test('runs single-key shortcuts outside text fields', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+
+        fireEvent.keyDown(document.body, { key: '/' });
+        const search = screen.getByLabelText('Search movies');
+        expect(search).toHaveFocus();
+
+        // Typed into the search box, `r` is just a letter.
+        fireEvent.keyDown(search, { key: 'r' });
+        expect(mockMovieApi.refreshMovieData).not.toHaveBeenCalled();
+
+        search.blur();
+        fireEvent.keyDown(document.body, { key: 'j' });
+        expect(screen.getByRole('button', { name: 'View details The Matrix' })).toHaveFocus();
+        fireEvent.keyDown(document.body, { key: 'j' });
+        expect(screen.getByRole('button', { name: 'View details Inception' })).toHaveFocus();
+        fireEvent.keyDown(document.body, { key: 'k' });
+        expect(screen.getByRole('button', { name: 'View details The Matrix' })).toHaveFocus();
+
+        fireEvent.keyDown(document.body, { key: 'r' });
+        await waitFor(() => {
+            expect(mockMovieApi.refreshMovieData).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    test('lists the shortcuts on ?', async () => {
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Found 2 movies')).toBeInTheDocument();
+        });
+
+        fireEvent.keyDown(document.body, { key: '?', shiftKey: true });
+
+        const help = screen.getByRole('dialog', { name: 'Keyboard shortcuts' });
+        expect(help).toHaveTextContent('rRefresh prices');
+        expect(help).toHaveTextContent('/Search movies');
+        expect(help).toHaveTextContent('jNext movie');
+        expect(help).toHaveTextContent('Ctrl+KOpen the command palette');
+        await expect(help).toHaveNoAxeViolations();
+
+        fireEvent.keyDown(screen.getByRole('button', { name: 'Close' }), { key: 'Escape' });
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
     });
 
     test('displays error message when API fails', async () => {
@@ -192,6 +642,28 @@ describe('App', () => {
         });
     });
 
+    test('tells the user when the backend is unreachable', async () => {
+        mockMovieApi.getMovies.mockRejectedValue(new NetworkError('Failed to fetch movies', '/api/movies'));
+
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Error: The movie service is unreachable. Check your connection and try again.')).toBeInTheDocument();
+        });
+    });
+
+    test('shows the server message for server errors', async () => {
+        mockMovieApi.getMovies.mockRejectedValue(
+            new ServerError('Failed to fetch movies', '/api/movies', 500, 'An error occurred while retrieving movies')
+        );
+
+        render(<App />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Error: An error occurred while retrieving movies')).toBeInTheDocument();
+        });
+    });
+
     test('handles try again button after error', async () => {
         mockMovieApi.getMovies.mockRejectedValueOnce(new Error('Network error'));
 
@@ -203,7 +675,7 @@ describe('App', () => {
         });
 
         // Mock successful retry
-        mockMovieApi.getMovies.mockResolvedValue(mockMovies);
+        mockMovieApi.getMovies.mockResolvedValue(toPage(mockMovies));
 
         // Click try again
         const tryAgainButton = screen.getByText('Try Again');
@@ -237,8 +709,54 @@ describe('App', () => {
         });
     });
 
+    test('keeps cached movies on screen offline and says how old their prices are', async () => {
+        const { unmount } = render(<App />);
+        await waitFor(() => {
+            expect(screen.getByText('The Matrix')).toBeInTheDocument();
+        });
+        unmount();
+
+        setOnline(false);
+        queryCache.invalidate();
+        mockMovieApi.getMovies.mockRejectedValue(new NetworkError('Failed to fetch movies', '/api/movies'));
+        render(<App />);
+
+        await waitFor(() => {
+            expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(2);
+        });
+        expect(screen.getByText('You are offline.')).toBeInTheDocument();
+        expect(screen.getByText(/Prices shown were last updated .* \(1 Jan 2023/)).toBeInTheDocument();
+        expect(screen.getByText('The Matrix')).toBeInTheDocument();
+        expect(screen.queryByText('Try Again')).not.toBeInTheDocument();
+
+        setOnline(true);
+        expect(screen.queryByText('You are offline.')).not.toBeInTheDocument();
+    });
+
+    test('queues a refresh while offline and runs it on reconnect', async () => {
+        render(<App />);
+        await waitFor(() => {
+            expect(screen.getByText('The Matrix')).toBeInTheDocument();
+        });
+
+        setOnline(false);
+        fireEvent.click(screen.getByText('🔄 Refresh Data'));
+        fireEvent.click(screen.getByText('🔄 Refresh queued'));
+
+        expect(screen.getByText(/Your refresh will run when you are back online/)).toBeInTheDocument();
+        expect(mockMovieApi.refreshMovieData).not.toHaveBeenCalled();
+
+        setOnline(true);
+
+        await waitFor(() => {
+            expect(screen.getByText('Refreshed Cinemaworld (2 movies), Filmworld (1 movie)')).toBeInTheDocument();
+        });
+        expect(mockMovieApi.refreshMovieData).toHaveBeenCalledTimes(1);
+        expect(screen.getByText('🔄 Refresh Data')).toBeInTheDocument();
+    });
+
     test('displays no movies message when list is empty', async () => {
-        mockMovieApi.getMovies.mockResolvedValue([]);
+        mockMovieApi.getMovies.mockResolvedValue(toPage([]));
 
         render(<App />);
 
@@ -253,7 +771,7 @@ describe('App', () => {
 
     test('displays correct singular/plural movie count', async () => {
         // Test with single movie
-        mockMovieApi.getMovies.mockResolvedValue([mockMovies[0]]);
+        mockMovieApi.getMovies.mockResolvedValue(toPage([mockMovies[0]]));
 
         render(<App />);
 
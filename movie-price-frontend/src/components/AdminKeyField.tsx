@@ -0,0 +1,28 @@
+import React from 'react';
+import { useAdminKey } from '../hooks/useAdminKey';
+import { useI18n } from '../hooks/useI18n';
+import { adminKey } from '../services/adminKey';
+import './AdminKeyField.css';
+
+/** Where the provider console asks for the key the API needs before it accepts provider changes. */
+const AdminKeyField: React.FC = () => {
+  const { t } = useI18n();
+  const key = useAdminKey();
+
+  return (
+    <div className="admin-key-field">
+      <label htmlFor="admin-key">{t('adminKey.label')}</label>
+      <input
+        id="admin-key"
+        type="password"
+        value={key}
+        onChange={(event) => adminKey.set(event.target.value)}
+        aria-describedby="admin-key-hint"
+        autoComplete="off"
+      />
+      <small id="admin-key-hint">{t('adminKey.hint')}</small>
+    </div>
+  );
+};
+
+export default AdminKeyField;
@@ -0,0 +1,71 @@
+import React, { useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCommands, useShortcuts } from '../hooks/useCommands';
+import { useI18n } from '../hooks/useI18n';
+import { Command } from '../services/commands';
+import { preferences } from '../services/preferences';
+import { getSupportedCurrencies } from '../services/runtimeConfig';
+import { HOME_PATH, PROVIDER_PREFERENCES_PATH, WATCHLIST_PATH } from '../utils/routes';
+
+interface AppCommandsProps {
+  onRefresh: () => void;
+}
+
+/**
+ * Commands available on every page, and the keyboard listener that runs
+ * any registered command's shortcut. Renders nothing; it sits inside the
+ * router so the navigation commands can navigate.
+ */
+const AppCommands: React.FC<AppCommandsProps> = ({ onRefresh }) => {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+
+  // Read at run time, so a new refresh function each render does not re-register every command.
+  const refreshRef = useRef(onRefresh);
+  refreshRef.current = onRefresh;
+
+  useShortcuts();
+
+  const commands = useMemo((): Command[] => [
+    {
+      id: 'refresh',
+      title: t('command.refresh'),
+      group: t('command.group.general'),
+      keywords: 'reload update',
+      shortcut: 'r',
+      run: () => refreshRef.current(),
+    },
+    {
+      id: 'go-to-movies',
+      title: t('command.goToMovies'),
+      group: t('command.group.navigation'),
+      keywords: 'home list',
+      run: () => navigate(HOME_PATH),
+    },
+    {
+      id: 'go-to-watchlist',
+      title: t('command.goToWatchlist'),
+      group: t('command.group.navigation'),
+      run: () => navigate(WATCHLIST_PATH),
+    },
+    {
+      id: 'go-to-provider-preferences',
+      title: t('command.goToProviderPreferences'),
+      group: t('command.group.navigation'),
+      run: () => navigate(PROVIDER_PREFERENCES_PATH),
+    },
+    ...getSupportedCurrencies().map(currency => ({
+      id: `currency-${currency}`,
+      title: t('command.currency', { currency }),
+      group: t('command.group.currency'),
+      keywords: 'currency',
+      run: () => preferences.setCurrency(currency),
+    })),
+  ], [t, navigate]);
+
+  useCommands(commands);
+
+  return null;
+};
+
+export default AppCommands;
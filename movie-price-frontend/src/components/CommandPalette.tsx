@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCommands, useRegisteredCommands } from '../hooks/useCommands';
+import { useI18n } from '../hooks/useI18n';
+import { Command, formatShortcut } from '../services/commands';
+import { MovieComparison } from '../types/Movie';
+import { fuzzyScore, searchMovies } from '../utils/fuzzySearch';
+import { getMovieDetailPath } from '../utils/routes';
+import './CommandPalette.css';
+
+interface CommandPaletteProps {
+  movies: MovieComparison[];
+}
+
+interface PaletteItem {
+  id: string;
+  label: string;
+  detail: string;
+  shortcut?: string;
+  score: number;
+  run: () => void;
+}
+
+const MAX_MOVIE_RESULTS = 8;
+const PALETTE_COMMAND_ID = 'open-palette';
+const LISTBOX_ID = 'command-palette-results';
+
+// Commands are ranked like movie titles (see searchMovies), so neither always comes first.
+const COMMAND_WEIGHT = 2;
+
+/**
+ * Ctrl/Cmd+K opens a search over the loaded movies and every registered
+ * command. Arrow keys pick a result, Enter runs it and Escape closes the
+ * palette, handing focus back to wherever it was.
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ movies }) => {
+  const { t, formatPrice } = useI18n();
+  const navigate = useNavigate();
+  const registered = useRegisteredCommands();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const openPalette = () => {
+    returnFocusRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    setQuery('');
+    setActiveIndex(0);
+    setOpen(true);
+  };
+
+  const close = () => {
+    setOpen(false);
+    returnFocusRef.current?.focus();
+  };
+
+  // Read at run time, so the command itself only re-registers when the language changes.
+  const toggleRef = useRef<() => void>(openPalette);
+  toggleRef.current = open ? close : openPalette;
+
+  const paletteCommands = useMemo((): Command[] => [
+    {
+      id: PALETTE_COMMAND_ID,
+      title: t('command.openPalette'),
+      group: t('command.group.general'),
+      shortcut: 'mod+k',
+      run: () => toggleRef.current(),
+    },
+  ], [t]);
+
+  useCommands(paletteCommands);
+
+  useEffect(() => {
+    if (open) {
+      inputRef.current?.focus();
+    }
+  }, [open]);
+
+  const items = useMemo((): PaletteItem[] => {
+    const commandItems = registered
+      .filter(command => command.id !== PALETTE_COMMAND_ID)
+      .map(command => ({
+        id: `command-${command.id}`,
+        label: command.title,
+        detail: command.group,
+        shortcut: command.shortcut,
+        score: (fuzzyScore(query, `${command.title} ${command.keywords ?? ''}`) ?? -1) * COMMAND_WEIGHT,
+        run: command.run,
+      }))
+      .filter(item => item.score >= 0);
+    const movieItems = searchMovies(movies, query, MAX_MOVIE_RESULTS).map(({ movie, score }) => ({
+      id: `movie-${movie.id}`,
+      label: movie.title,
+      detail: [movie.year, movie.cheapestPrice && formatPrice(movie.cheapestPrice.price)].filter(Boolean).join(' · '),
+      score,
+      run: () => navigate(getMovieDetailPath(movie)),
+    }));
+    // Sorting is stable, so with an empty query commands keep their registration order.
+    return [...movieItems, ...commandItems].sort((a, b) => b.score - a.score);
+  }, [registered, movies, query, navigate, formatPrice]);
+
+  if (!open) {
+    return null;
+  }
+
+  const runItem = (item: PaletteItem) => {
+    close();
+    item.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveIndex(index => (items.length === 0 ? 0 : (index + 1) % items.length));
+        break;
+      case 'ArrowUp':
+        setActiveIndex(index => (items.length === 0 ? 0 : (index - 1 + items.length) % items.length));
+        break;
+      case 'Enter':
+        if (items[activeIndex]) {
+          runItem(items[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        close();
+        break;
+      case 'Tab':
+        // The search field is the only stop in the dialog, so focus stays on it.
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div className="command-palette-backdrop" onMouseDown={close}>
+      <div
+        className="command-palette"
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('palette.label')}
+        onMouseDown={(event) => event.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          className="command-palette-input"
+          role="combobox"
+          aria-expanded={items.length > 0}
+          aria-controls={LISTBOX_ID}
+          aria-autocomplete="list"
+          aria-activedescendant={items[activeIndex] ? `${LISTBOX_ID}-${activeIndex}` : undefined}
+          aria-label={t('palette.placeholder')}
+          placeholder={t('palette.placeholder')}
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setActiveIndex(0);
+          }}
+        />
+        <ul id={LISTBOX_ID} className="command-palette-results" role="listbox" aria-label={t('palette.results')}>
+          {items.map((item, index) => (
+            <li
+              key={item.id}
+              id={`${LISTBOX_ID}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={index === activeIndex ? 'command-palette-item active' : 'command-palette-item'}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => runItem(item)}
+            >
+              <span className="command-palette-label">{item.label}</span>
+              {item.detail && <span className="command-palette-detail">{item.detail}</span>}
+              {item.shortcut && <kbd>{formatShortcut(item.shortcut)}</kbd>}
+            </li>
+          ))}
+        </ul>
+        {items.length === 0 && (
+          <p className="command-palette-empty" role="status">{t('palette.noResults')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { diagnostics } from '../services/diagnostics';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  /** Rendered in place of the children once they throw; `reset` renders them again. */
+  fallback: (reset: () => void) => React.ReactNode;
+  /** Any change clears the error, e.g. new data for a card that failed on the old. */
+  resetKeys?: unknown[];
+}
+
+interface ErrorBoundaryState {
+  failed: boolean;
+}
+
+const NO_RESET_KEYS: unknown[] = [];
+
+const keysChanged = (previous: unknown[], next: unknown[]) =>
+  previous.length !== next.length || previous.some((key, index) => !Object.is(key, next[index]));
+
+/**
+ * Contains a render error to the subtree that threw, so one bad movie does not
+ * blank the page. The error goes to diagnostics with its component stack.
+ * React only offers this as a class component.
+ */
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { failed: false };
+
+  static getDerivedStateFromError(): ErrorBoundaryState {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    diagnostics.reportError(error, info.componentStack ?? undefined);
+  }
+
+  componentDidUpdate(previous: ErrorBoundaryProps) {
+    if (this.state.failed && keysChanged(previous.resetKeys ?? NO_RESET_KEYS, this.props.resetKeys ?? NO_RESET_KEYS)) {
+      this.reset();
+    }
+  }
+
+  reset = () => {
+    this.setState({ failed: false });
+  };
+
+  render() {
+    return this.state.failed ? this.props.fallback(this.reset) : this.props.children;
+  }
+}
+
+export default ErrorBoundary;
@@ -0,0 +1,118 @@
+import React, { useMemo, useRef } from 'react';
+import { Link, To, useLocation, useNavigate } from 'react-router-dom';
+import { useCommands } from '../hooks/useCommands';
+import { useI18n } from '../hooks/useI18n';
+import { Command } from '../services/commands';
+import { toasts } from '../services/notifications';
+import { MovieComparison, MovieDetail } from '../types/Movie';
+import { downloadFile, getExportFileName, toCsv, toJson } from '../utils/export';
+import './ExportActions.css';
+
+interface ExportActionsProps {
+  /** A list exports as an array, a single movie as the object itself. */
+  data: MovieComparison[] | MovieDetail;
+  /** File name without the date and extension. */
+  fileName: string;
+  /** The report page for the same movies; without one, Print prints the current page. */
+  reportTo?: To;
+}
+
+// Excel only reads a CSV as UTF-8, and so gets accented titles right, when it starts with a byte order mark.
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/**
+ * CSV and JSON downloads, printing, and a link to the current page. Every page
+ * keeps what it shows in its URL, so that link brings a colleague to the same movies.
+ */
+const ExportActions: React.FC<ExportActionsProps> = ({ data, fileName, reportTo }) => {
+  const { t } = useI18n();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const movies = Array.isArray(data) ? data : [data];
+
+  const handleCsv = () => {
+    downloadFile(getExportFileName(fileName, 'csv'), BYTE_ORDER_MARK + toCsv(movies), 'text/csv;charset=utf-8');
+  };
+
+  const handleJson = () => {
+    downloadFile(getExportFileName(fileName, 'json'), toJson(data), 'application/json');
+  };
+
+  const handleCopyLink = async () => {
+    const url = new URL(location.pathname + location.search, window.location.origin).href;
+    try {
+      await navigator.clipboard.writeText(url);
+      toasts.show(t('export.linkCopied'));
+    } catch {
+      // No clipboard access (an insecure origin, or permission denied): show the link to copy by hand.
+      toasts.show(t('export.copyFailed', { url }));
+    }
+  };
+
+  const handlePrint = () => {
+    if (reportTo) {
+      navigate(reportTo);
+    } else {
+      window.print();
+    }
+  };
+
+  // Read at run time, so new data or a new URL does not re-register the commands.
+  const actionsRef = useRef({ handleCsv, handleJson, handlePrint, handleCopyLink });
+  actionsRef.current = { handleCsv, handleJson, handlePrint, handleCopyLink };
+
+  const hasReport = reportTo !== undefined;
+  const commands = useMemo((): Command[] => [
+    {
+      id: 'export-csv',
+      title: t('export.csv'),
+      group: t('export.label'),
+      keywords: 'spreadsheet excel',
+      run: () => actionsRef.current.handleCsv(),
+    },
+    {
+      id: 'export-json',
+      title: t('export.json'),
+      group: t('export.label'),
+      run: () => actionsRef.current.handleJson(),
+    },
+    {
+      id: 'export-print',
+      title: t(hasReport ? 'export.report' : 'export.print'),
+      group: t('export.label'),
+      run: () => actionsRef.current.handlePrint(),
+    },
+    {
+      id: 'export-copy-link',
+      title: t('export.copyLink'),
+      group: t('export.label'),
+      keywords: 'share url',
+      run: () => actionsRef.current.handleCopyLink(),
+    },
+  ], [t, hasReport]);
+
+  useCommands(commands);
+
+  return (
+    <div className="export-actions" role="group" aria-label={t('export.label')}>
+      <button type="button" onClick={handleCsv} disabled={movies.length === 0}>
+        {t('export.csv')}
+      </button>
+      <button type="button" onClick={handleJson} disabled={movies.length === 0}>
+        {t('export.json')}
+      </button>
+      {reportTo ? (
+        <Link to={reportTo}>{t('export.report')}</Link>
+      ) : (
+        <button type="button" onClick={handlePrint}>
+          {t('export.print')}
+        </button>
+      )}
+      <button type="button" onClick={handleCopyLink}>
+        {t('export.copyLink')}
+      </button>
+    </div>
+  );
+};
+
+export default ExportActions;
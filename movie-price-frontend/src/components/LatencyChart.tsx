@@ -0,0 +1,47 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { ProviderLatencySample } from '../types/Provider';
+import { formatLatency, getLatencyBars } from '../utils/providerHealth';
+import './LatencyChart.css';
+
+interface LatencyChartProps {
+  samples: ProviderLatencySample[];
+  width?: number;
+  height?: number;
+}
+
+const LatencyChart: React.FC<LatencyChartProps> = ({ samples, width = 200, height = 40 }) => {
+  const { t } = useI18n();
+
+  if (samples.length === 0) {
+    return <span className="latency-chart-empty">{t('providerStatus.noCalls')}</span>;
+  }
+
+  const failures = samples.filter(sample => !sample.succeeded).length;
+  const slowest = Math.max(...samples.map(sample => sample.latencyMs));
+  const label = t('providerStatus.chart', { count: samples.length, latency: formatLatency(slowest), failures });
+
+  return (
+    <svg
+      className="latency-chart"
+      role="img"
+      aria-label={label}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      {getLatencyBars(samples, width, height).map((bar, index) => (
+        <rect
+          key={samples[index].at + index}
+          className={bar.succeeded ? 'latency-bar' : 'latency-bar latency-bar-failed'}
+          x={bar.x}
+          y={bar.y}
+          width={bar.width}
+          height={bar.height}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default LatencyChart;
@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { isSupportedLocale, LOCALE_NAMES, LOCALES } from '../i18n/translate';
+import { preferences } from '../services/preferences';
+import { getSupportedCurrencies } from '../services/runtimeConfig';
+import './LocaleSelector.css';
+
+const LocaleSelector: React.FC = () => {
+  const { locale, currency, t } = useI18n();
+
+  // Lets screen readers and hyphenation follow the chosen language.
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return (
+    <div className="locale-selector">
+      <select
+        aria-label={t('locale.language')}
+        value={locale}
+        onChange={(event) => {
+          if (isSupportedLocale(event.target.value)) {
+            preferences.setLocale(event.target.value);
+          }
+        }}
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option}>{LOCALE_NAMES[option]}</option>
+        ))}
+      </select>
+      <select
+        aria-label={t('locale.currency')}
+        value={currency}
+        onChange={(event) => preferences.setCurrency(event.target.value)}
+      >
+        {getSupportedCurrencies().map((option) => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LocaleSelector;
@@ -1,93 +1,179 @@
-import React, { useState } from 'react';
+import React, { useId } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { ProviderPriceHistory } from '../services/priceHistory';
 import { MovieComparison } from '../types/Movie';
+import { getDeal } from '../utils/deals';
+import { PriceChange, PriceFlash } from '../utils/priceChanges';
+import { getPosterSources, getPosterWidth } from '../utils/posters';
+import { getCheapestSeries, getPriceInsights } from '../utils/priceInsights';
+import { DEFAULT_STALE_AFTER_MS } from '../utils/providerHealth';
+import Poster from './Poster';
+import PriceFreshnessBadge from './PriceFreshnessBadge';
+import PriceInsightBadges from './PriceInsightBadges';
+import PriceSparkline from './PriceSparkline';
 import './MovieCard.css';
 
 interface MovieCardProps {
   movie: MovieComparison;
   onClick: (movie: MovieComparison) => void;
+  /** Set when the cheapest price moved in the last refresh. */
+  priceChange?: PriceChange;
+  /** Providers whose price just changed live, by providerId; their prices are briefly highlighted. */
+  flashedPrices?: Record<string, PriceFlash>;
+  /** Recorded prices for this movie, one entry per provider. */
+  history?: ProviderPriceHistory[];
+  previousVisitAt?: number;
+  /** Prices last updated longer ago than this are marked stale. */
+  staleAfterMs?: number;
+  watched?: boolean;
+  /** Renders the watchlist star when provided. */
+  onToggleWatch?: (movie: MovieComparison) => void;
+  compared?: boolean;
+  /** Set when the comparison is full, so only selected cards can change. */
+  compareDisabled?: boolean;
+  /** Renders the compare checkbox when provided. */
+  onToggleCompare?: (movie: MovieComparison) => void;
 }
 
-const MovieCard: React.FC<MovieCardProps> = ({ movie, onClick }) => {
-  const [imageError, setImageError] = useState(false);
-  const [imageLoading, setImageLoading] = useState(true);
+// The poster box is 200px tall and posters are 2:3.
+const POSTER_WIDTH = 134;
 
-  const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+const NO_HISTORY: ProviderPriceHistory[] = [];
+const NO_FLASHES: Record<string, PriceFlash> = {};
 
-  const handleImageError = () => {
-    setImageError(true);
-    setImageLoading(false);
-  };
+const withFlash = (className: string, flash?: PriceFlash) =>
+  flash ? `${className} price-flash price-flash-${flash}` : className;
 
-  const handleImageLoad = () => {
-    setImageLoading(false);
-  };
+const MovieCard: React.FC<MovieCardProps> = ({
+  movie,
+  onClick,
+  priceChange,
+  flashedPrices = NO_FLASHES,
+  history = NO_HISTORY,
+  previousVisitAt,
+  staleAfterMs = DEFAULT_STALE_AFTER_MS,
+  watched = false,
+  onToggleWatch,
+  compared = false,
+  compareDisabled = false,
+  onToggleCompare,
+}) => {
+  const { t, formatPrice } = useI18n();
+  const titleId = useId();
+  const detailsId = useId();
+  const summaryId = useId();
+  const insights = getPriceInsights(history, movie.cheapestPrice?.price, previousVisitAt);
+  const deal = getDeal(movie.prices);
+  const priceSummary = movie.cheapestPrice
+    ? t('card.priceSummary', {
+      provider: movie.cheapestPrice.provider,
+      price: formatPrice(movie.cheapestPrice.price),
+      count: movie.prices.length,
+    })
+    : t('card.noPriceSummary', { count: movie.prices.length });
 
-  const renderPosterContent = () => {
-    if (!movie.poster || imageError) {
-      return (
-        <div className="poster-placeholder">
-          <div className="poster-icon">🎬</div>
-          <div className="poster-text">{movie.title}</div>
-        </div>
-      );
-    }
-
-    return (
-      <>
-        {imageLoading && (
-          <div className="poster-loading" data-testid="poster-loading">
-            <div className="loading-spinner"></div>
-          </div>
-        )}
-        <img
-          src={movie.poster}
+  return (
+    <article className={priceChange ? 'movie-card-container price-moved' : 'movie-card-container'} aria-labelledby={titleId}>
+      <div className="movie-card">
+        <Poster
+          className="movie-poster"
+          sources={getPosterSources(movie, getPosterWidth(POSTER_WIDTH))}
           alt={movie.title}
-          onError={handleImageError}
-          onLoad={handleImageLoad}
-          style={{ display: imageLoading ? 'none' : 'block' }}
+          placeholder={
+            <div className="poster-placeholder">
+              <div className="poster-icon">🎬</div>
+              <div className="poster-text">{movie.title}</div>
+            </div>
+          }
         />
-      </>
-    );
-  };
 
-  return (
-    <button
-      className="movie-card"
-      onClick={() => onClick(movie)}
-      aria-label={movie.title}
-      type="button"
-    >
-      <div className="movie-poster">
-        {renderPosterContent()}
-      </div>
+        <div className="movie-info">
+          <h3 className="movie-title" id={titleId}>{movie.title}</h3>
+          <p className="movie-year">{movie.year}</p>
+          <p className="movie-genre">{movie.genre}</p>
+          {movie.rating && <p className="movie-rating">⭐ {movie.rating}</p>}
 
-      <div className="movie-info">
-        <h3 className="movie-title">{movie.title}</h3>
-        <p className="movie-year">{movie.year}</p>
-        <p className="movie-genre">{movie.genre}</p>
-        {movie.rating && <p className="movie-rating">⭐ {movie.rating}</p>}
-
-        <div className="price-section">
-          {movie.cheapestPrice && (
-            <div className="best-price">
-              <span className="best-price-label">Best Price:</span>
-              <span className="best-price-value">
-                {formatPrice(movie.cheapestPrice.price)}
-              </span>
-            </div>
-          )}
+          <div className="price-section">
+            {movie.cheapestPrice && (
+              <div className="best-price">
+                <span className="best-price-label">{t('card.bestPrice')}</span>
+                <span className={withFlash('best-price-value', flashedPrices[movie.cheapestPrice.providerId])}>
+                  {formatPrice(movie.cheapestPrice.price)}
+                </span>
+                {priceChange && (
+                  <span className={`price-change price-change-${priceChange.direction}`}>
+                    {t(priceChange.direction === 'down' ? 'card.priceDown' : 'card.priceUp', {
+                      price: formatPrice(priceChange.previous),
+                    })}
+                  </span>
+                )}
+              </div>
+            )}
 
-          <div className="all-prices">
-            {movie.prices.map((price, index) => (
-              <div key={index} className="price-item">
-                <span className="provider">{price.provider}:</span>
-                <span className="price">{formatPrice(price.price)}</span>
+            {deal && deal.saving > 0 && (
+              <div className="deal">
+                <span className="deal-saving">
+                  {t('card.dealSaving', { saving: formatPrice(deal.saving), percent: Math.round(deal.savingPercent) })}
+                </span>
+                <span className="deal-score">{t('card.dealScore', { score: deal.score })}</span>
               </div>
-            ))}
+            )}
+
+            <PriceInsightBadges insights={insights} />
+            <PriceSparkline points={getCheapestSeries(history)} />
+
+            <ul className="all-prices" aria-label={t('common.prices')}>
+              {movie.prices.map((price, index) => (
+                <li key={index} className="price-item">
+                  <span className="provider">{price.provider}:</span>
+                  <span className={withFlash(price.price === null ? 'price price-unavailable' : 'price', flashedPrices[price.providerId])}>
+                    {formatPrice(price.price)}
+                  </span>
+                  <PriceFreshnessBadge price={price} staleAfterMs={staleAfterMs} />
+                </li>
+              ))}
+            </ul>
           </div>
         </div>
+
+        {/* Stretched over the whole card, so the card can still be clicked anywhere */}
+        <button
+          type="button"
+          id={detailsId}
+          className="movie-card-details"
+          onClick={() => onClick(movie)}
+          aria-labelledby={`${detailsId} ${titleId}`}
+          aria-describedby={summaryId}
+          data-grid-focus
+        >
+          {t('card.viewDetails')}
+        </button>
+        <p id={summaryId} hidden>{priceSummary}</p>
       </div>
-    </button>
+      {onToggleWatch && (
+        <button
+          type="button"
+          className={watched ? 'watch-toggle watched' : 'watch-toggle'}
+          aria-pressed={watched}
+          aria-label={t('card.watch', { title: movie.title })}
+          onClick={() => onToggleWatch(movie)}
+        >
+          {watched ? '★' : '☆'}
+        </button>
+      )}
+      {onToggleCompare && (
+        <label className="compare-toggle">
+          <input
+            type="checkbox"
+            checked={compared}
+            disabled={compareDisabled && !compared}
+            aria-label={t('card.compareMovie', { title: movie.title })}
+            onChange={() => onToggleCompare(movie)}
+          />
+          {t('card.compare')}
+        </label>
+      )}
+    </article>
   );
 };
 
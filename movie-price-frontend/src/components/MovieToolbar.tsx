@@ -0,0 +1,130 @@
+import React, { useMemo, useRef } from 'react';
+import { useCommands } from '../hooks/useCommands';
+import { useI18n } from '../hooks/useI18n';
+import { Command } from '../services/commands';
+import { EMPTY_FILTERS, MovieFilters, MovieSortKey, SORT_OPTIONS } from '../utils/movieFilters';
+import './MovieToolbar.css';
+
+interface MovieToolbarProps {
+  filters: MovieFilters;
+  genres: string[];
+  onChange: (filters: MovieFilters) => void;
+}
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const MovieToolbar: React.FC<MovieToolbarProps> = ({ filters, genres, onChange }) => {
+  const { t } = useI18n();
+  const update = (changes: Partial<MovieFilters>) => onChange({ ...filters, ...changes });
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  // Commands read the latest filters when they run, so typing in the search box does not re-register them.
+  const updateRef = useRef(update);
+  updateRef.current = update;
+  const clearRef = useRef(() => onChange(EMPTY_FILTERS));
+  clearRef.current = () => onChange(EMPTY_FILTERS);
+
+  const commands = useMemo((): Command[] => [
+    {
+      id: 'focus-search',
+      title: t('command.focusSearch'),
+      group: t('command.group.list'),
+      keywords: 'find',
+      shortcut: '/',
+      run: () => {
+        searchRef.current?.focus();
+        searchRef.current?.select();
+      },
+    },
+    {
+      id: 'clear-filters',
+      title: t('command.clearFilters'),
+      group: t('command.group.list'),
+      keywords: 'reset',
+      run: () => clearRef.current(),
+    },
+    ...genres.map(genre => ({
+      id: `filter-genre-${genre}`,
+      title: t(genre === filters.genre ? 'command.unfilterGenre' : 'command.filterGenre', { genre }),
+      group: t('command.group.list'),
+      run: () => updateRef.current({ genre: genre === filters.genre ? '' : genre }),
+    })),
+    ...SORT_OPTIONS.map(option => ({
+      id: `sort-${option.value || 'default'}`,
+      title: t('command.sortBy', { sort: t(option.label) }),
+      group: t('command.group.list'),
+      run: () => updateRef.current({ sort: option.value }),
+    })),
+  ], [t, genres, filters.genre]);
+
+  useCommands(commands);
+
+  return (
+    <form className="movie-toolbar" role="search" onSubmit={(event) => event.preventDefault()}>
+      <input
+        ref={searchRef}
+        type="search"
+        className="search-input"
+        placeholder={t('toolbar.searchPlaceholder')}
+        aria-label={t('toolbar.search')}
+        value={filters.query}
+        onChange={(event) => update({ query: event.target.value })}
+      />
+
+      <select
+        aria-label={t('toolbar.genre')}
+        value={filters.genre}
+        onChange={(event) => update({ genre: event.target.value })}
+      >
+        <option value="">{t('toolbar.allGenres')}</option>
+        {genres.map((genre) => (
+          <option key={genre} value={genre}>{genre}</option>
+        ))}
+      </select>
+
+      <input
+        type="number"
+        className="year-input"
+        placeholder={t('toolbar.fromYear')}
+        aria-label={t('toolbar.fromYear')}
+        value={filters.yearFrom ?? ''}
+        onChange={(event) => update({ yearFrom: toOptionalNumber(event.target.value) })}
+      />
+      <input
+        type="number"
+        className="year-input"
+        placeholder={t('toolbar.toYear')}
+        aria-label={t('toolbar.toYear')}
+        value={filters.yearTo ?? ''}
+        onChange={(event) => update({ yearTo: toOptionalNumber(event.target.value) })}
+      />
+
+      <select
+        aria-label={t('toolbar.minRating')}
+        value={filters.minRating ?? ''}
+        onChange={(event) => update({ minRating: toOptionalNumber(event.target.value) })}
+      >
+        <option value="">{t('toolbar.anyRating')}</option>
+        {[5, 6, 7, 8, 9].map((rating) => (
+          <option key={rating} value={rating}>⭐ {rating}+</option>
+        ))}
+      </select>
+
+      <select
+        aria-label={t('toolbar.sortBy')}
+        value={filters.sort}
+        onChange={(event) => update({ sort: event.target.value as MovieSortKey })}
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{t(option.label)}</option>
+        ))}
+      </select>
+
+      <button type="button" className="clear-filters" onClick={() => onChange(EMPTY_FILTERS)}>
+        {t('toolbar.clear')}
+      </button>
+    </form>
+  );
+};
+
+export default MovieToolbar;
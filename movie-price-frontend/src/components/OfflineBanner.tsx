@@ -0,0 +1,39 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { MovieComparison } from '../types/Movie';
+import { getNewestPriceTime } from '../utils/providerHealth';
+import './OfflineBanner.css';
+
+interface OfflineBannerProps {
+  /** The list on screen, used to say how old its prices are. */
+  movies: MovieComparison[];
+  refreshQueued: boolean;
+}
+
+/** Shown only while offline, so shoppers know the prices may have moved since. */
+const OfflineBanner: React.FC<OfflineBannerProps> = ({ movies, refreshQueued }) => {
+  const online = useOnlineStatus();
+  const { t, formatDateTime, formatRelativeTime } = useI18n();
+
+  if (online) {
+    return null;
+  }
+
+  const newest = getNewestPriceTime(movies);
+
+  return (
+    <div className="offline-banner" role="status">
+      <strong>{t('offline.title')}</strong>{' '}
+      {newest === undefined
+        ? t('offline.noPrices')
+        : t('offline.pricesAge', {
+          age: formatRelativeTime(newest),
+          time: formatDateTime(new Date(newest).toISOString()),
+        })}
+      {refreshQueued && <> {t('offline.refreshQueued')}</>}
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { useLocation } from 'react-router-dom';
+import { useI18n } from '../hooks/useI18n';
+import ErrorBoundary from './ErrorBoundary';
+
+interface PageErrorBoundaryProps {
+  children: React.ReactNode;
+}
+
+/** Last line of defence for a route; leaving the page clears the error, so the header links keep working. */
+const PageErrorBoundary: React.FC<PageErrorBoundaryProps> = ({ children }) => {
+  const { pathname } = useLocation();
+  const { t } = useI18n();
+
+  return (
+    <ErrorBoundary
+      resetKeys={[pathname]}
+      fallback={reset => (
+        <div className="error" role="alert">
+          <p>{t('error.pageFailed')}</p>
+          <button onClick={reset}>{t('common.tryAgain')}</button>
+        </div>
+      )}
+    >
+      {children}
+    </ErrorBoundary>
+  );
+};
+
+export default PageErrorBoundary;
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getPosterCrossOrigin } from '../utils/posters';
+import './Poster.css';
+
+interface PosterProps {
+  /** Tried in order; the next one loads when one fails. */
+  sources: string[];
+  alt: string;
+  className?: string;
+  /** Shown when there is no source or every source failed. Without one, nothing is rendered then. */
+  placeholder?: React.ReactNode;
+  /** How far outside the viewport loading starts, so posters are usually ready when scrolled to. */
+  rootMargin?: string;
+}
+
+interface Attempt {
+  sourcesKey: string;
+  index: number;
+  loaded: boolean;
+}
+
+/**
+ * A poster image that is only requested once it nears the viewport. Browsers
+ * without IntersectionObserver load it straight away.
+ */
+const Poster: React.FC<PosterProps> = ({ sources, alt, className, placeholder, rootMargin = '200px' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(typeof IntersectionObserver === 'undefined');
+  const [attempt, setAttempt] = useState<Attempt>({ sourcesKey: '', index: 0, loaded: false });
+
+  // Callers build the list on every render, so it is compared by content; a new list starts over.
+  const sourcesKey = sources.join('\n');
+  const current = attempt.sourcesKey === sourcesKey ? attempt : { sourcesKey, index: 0, loaded: false };
+  const exhausted = current.index >= sources.length;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (visible || !container) {
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setVisible(true);
+      }
+    }, { rootMargin });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [visible, rootMargin, exhausted]);
+
+  if (exhausted && !placeholder) {
+    return null;
+  }
+
+  return (
+    <div ref={containerRef} className={className}>
+      {exhausted ? placeholder : (
+        <>
+          {!current.loaded && (
+            <div className="poster-loading" data-testid="poster-loading">
+              <div className="loading-spinner"></div>
+            </div>
+          )}
+          {visible && (
+            <img
+              key={sources[current.index]}
+              src={sources[current.index]}
+              crossOrigin={getPosterCrossOrigin(sources[current.index])}
+              alt={alt}
+              decoding="async"
+              onLoad={() => setAttempt({ ...current, loaded: true })}
+              onError={() => setAttempt({ ...current, index: current.index + 1, loaded: false })}
+              style={{ display: current.loaded ? 'block' : 'none' }}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Poster;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { PriceInfo } from '../types/Movie';
+import { getPriceFreshness, PRICE_FRESHNESS_LABELS } from '../utils/providerHealth';
+import './PriceFreshnessBadge.css';
+
+interface PriceFreshnessBadgeProps {
+  price: PriceInfo;
+  staleAfterMs: number;
+}
+
+const PriceFreshnessBadge: React.FC<PriceFreshnessBadgeProps> = ({ price, staleAfterMs }) => {
+  const { t, formatDateTime } = useI18n();
+  const freshness = getPriceFreshness(price, staleAfterMs);
+  if (freshness === 'fresh') {
+    return null;
+  }
+
+  const description = t(freshness === 'cached' ? 'freshness.cachedDescription' : 'freshness.staleDescription', {
+    provider: price.provider,
+    time: formatDateTime(price.lastUpdated),
+  });
+
+  return (
+    <span className={`price-freshness price-freshness-${freshness}`} title={description}>
+      {t(PRICE_FRESHNESS_LABELS[freshness])}
+    </span>
+  );
+};
+
+export default PriceFreshnessBadge;
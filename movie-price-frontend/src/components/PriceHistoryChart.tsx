@@ -0,0 +1,74 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { ProviderPriceHistory } from '../services/priceHistory';
+import { getChartBounds, getProviderSeries, toPolyline } from '../utils/priceInsights';
+import './PriceHistoryChart.css';
+
+interface PriceHistoryChartProps {
+  histories: ProviderPriceHistory[];
+}
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const LINE_COLORS = ['#667eea', '#e67e22', '#27ae60', '#c0392b', '#8e44ad', '#16a085'];
+
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ histories }) => {
+  const { t, formatPrice, formatDate } = useI18n();
+  const series = histories.map(getProviderSeries);
+  const bounds = getChartBounds(series);
+
+  if (!bounds) {
+    return <p className="price-history-empty">{t('history.empty')}</p>;
+  }
+
+  return (
+    <figure className="price-history">
+      <svg
+        className="price-history-chart"
+        role="img"
+        aria-label={t('history.chart', { from: formatDate(bounds.minTime), to: formatDate(bounds.maxTime) })}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+      >
+        {series.map((points, index) => (
+          <polyline
+            key={histories[index].providerId}
+            points={toPolyline(points, bounds, WIDTH, HEIGHT)}
+            stroke={LINE_COLORS[index % LINE_COLORS.length]}
+          />
+        ))}
+      </svg>
+
+      <div className="price-history-axis">
+        <span>{formatDate(bounds.minTime)}</span>
+        <span>
+          {formatPrice(bounds.minPrice)} – {formatPrice(bounds.maxPrice)}
+        </span>
+        <span>{formatDate(bounds.maxTime)}</span>
+      </div>
+
+      <figcaption>
+        <ul className="price-history-legend">
+          {histories.map((history, index) => {
+            const prices = history.snapshots.map(snapshot => snapshot.price);
+            return (
+              <li key={history.providerId}>
+                <span
+                  className="price-history-swatch"
+                  style={{ background: LINE_COLORS[index % LINE_COLORS.length] }}
+                />
+                {t('history.legend', {
+                  provider: history.provider,
+                  price: formatPrice(Math.min(...prices)),
+                  count: prices.length,
+                })}
+              </li>
+            );
+          })}
+        </ul>
+      </figcaption>
+    </figure>
+  );
+};
+
+export default PriceHistoryChart;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { PriceInsights } from '../utils/priceInsights';
+import './PriceInsightBadges.css';
+
+interface PriceInsightBadgesProps {
+  insights: PriceInsights;
+}
+
+const PriceInsightBadges: React.FC<PriceInsightBadgesProps> = ({ insights }) => {
+  const { t, formatPrice } = useI18n();
+  if (!insights.isLowestSeen && !insights.droppedSinceVisit) {
+    return null;
+  }
+
+  return (
+    <div className="price-insights">
+      {insights.isLowestSeen && <span className="price-insight price-insight-lowest">{t('insight.lowestSeen')}</span>}
+      {insights.droppedSinceVisit && (
+        <span className="price-insight price-insight-dropped">
+          {t('insight.droppedSinceVisit', { price: formatPrice(insights.previousVisitPrice) })}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default PriceInsightBadges;
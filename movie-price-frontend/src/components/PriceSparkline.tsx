@@ -0,0 +1,41 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { getChartBounds, PricePoint, toPolyline } from '../utils/priceInsights';
+import './PriceSparkline.css';
+
+interface PriceSparklineProps {
+  points: PricePoint[];
+  width?: number;
+  height?: number;
+}
+
+const PriceSparkline: React.FC<PriceSparklineProps> = ({ points, width = 120, height = 24 }) => {
+  const { t, formatPrice } = useI18n();
+  const bounds = getChartBounds([points]);
+  if (!bounds || points.length < 2) {
+    return null;
+  }
+
+  const first = points[0].price;
+  const last = points[points.length - 1].price;
+  const label = t('insight.sparkline', {
+    first: formatPrice(first),
+    last: formatPrice(last),
+    lowest: formatPrice(bounds.minPrice),
+  });
+
+  return (
+    <svg
+      className="price-sparkline"
+      role="img"
+      aria-label={label}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      <polyline points={toPolyline(points, bounds, width, height)} />
+    </svg>
+  );
+};
+
+export default PriceSparkline;
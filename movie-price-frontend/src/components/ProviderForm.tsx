@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n/translate';
+import { getErrorMessage } from '../services/apiErrors';
+import { NewApiProviderInput } from '../types/Provider';
+import {
+  fromProviderFormValues,
+  ProviderFormErrors,
+  ProviderFormValues,
+  validateProviderForm,
+} from '../utils/providerForm';
+import './ProviderForm.css';
+
+interface ProviderFormProps {
+  initialValues: ProviderFormValues;
+  /** Creating a provider: the id is editable. Editing: it is fixed. */
+  isNew: boolean;
+  /** Whether the provider already has a token stored; only known when editing. */
+  hasApiToken?: boolean;
+  submitLabel: string;
+  /** Rejects when the save fails; the error's message is shown above the buttons. */
+  onSubmit: (input: NewApiProviderInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+type TextField = Exclude<keyof ProviderFormValues, 'isEnabled'>;
+
+interface FieldSpec {
+  name: TextField;
+  label: MessageKey;
+  type?: string;
+  hint?: MessageKey;
+}
+
+const ProviderForm: React.FC<ProviderFormProps> = ({
+  initialValues,
+  isNew,
+  hasApiToken = false,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) => {
+  const { t } = useI18n();
+  const [values, setValues] = useState(initialValues);
+  const [errors, setErrors] = useState<ProviderFormErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fields: FieldSpec[] = [
+    ...(isNew ? [{ name: 'id', label: 'providerForm.id', hint: 'providerForm.idHint' } as FieldSpec] : []),
+    { name: 'displayName', label: 'providerForm.displayName' },
+    { name: 'baseUrl', label: 'providerForm.baseUrl', type: 'url' },
+    {
+      name: 'apiToken',
+      label: 'providerForm.apiToken',
+      type: 'password',
+      hint: hasApiToken ? 'providerForm.tokenSet' : 'providerForm.tokenNotSet',
+    },
+    { name: 'priority', label: 'providerForm.priority', type: 'number', hint: 'providerForm.priorityHint' },
+    { name: 'timeoutSeconds', label: 'providerForm.timeoutSeconds', type: 'number' },
+    { name: 'moviesEndpoint', label: 'providerForm.moviesEndpoint' },
+    { name: 'movieDetailEndpoint', label: 'providerForm.movieDetailEndpoint', hint: 'providerForm.movieDetailEndpointHint' },
+  ];
+
+  const setValue = <K extends keyof ProviderFormValues>(name: K, value: ProviderFormValues[K]) => {
+    setValues(current => ({ ...current, [name]: value }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const validationErrors = validateProviderForm(values, isNew, hasApiToken ? initialValues.baseUrl : undefined);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    setSubmitError(null);
+    try {
+      await onSubmit(fromProviderFormValues(values));
+    } catch (error) {
+      setSubmitError(getErrorMessage(error, t('providerForm.saveFailed')));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="provider-form" onSubmit={handleSubmit} noValidate>
+      {fields.map(({ name, label, type = 'text', hint }) => {
+        const inputId = `provider-${name}`;
+        const error = errors[name];
+        const describedBy = [hint && `${inputId}-hint`, error && `${inputId}-error`].filter(Boolean).join(' ');
+        return (
+          <div className="provider-form-field" key={name}>
+            <label htmlFor={inputId}>{t(label)}</label>
+            <input
+              id={inputId}
+              type={type}
+              value={values[name]}
+              onChange={(event) => setValue(name, event.target.value)}
+              aria-invalid={error ? true : undefined}
+              aria-describedby={describedBy || undefined}
+              autoComplete={name === 'apiToken' ? 'new-password' : 'off'}
+            />
+            {hint && <small id={`${inputId}-hint`}>{t(hint)}</small>}
+            {error && <span id={`${inputId}-error`} className="provider-form-error">{t(error)}</span>}
+          </div>
+        );
+      })}
+
+      <label className="provider-form-enabled">
+        <input
+          type="checkbox"
+          checked={values.isEnabled}
+          onChange={(event) => setValue('isEnabled', event.target.checked)}
+        />
+        {t('providerForm.enabled')}
+      </label>
+
+      {submitError && <p className="provider-form-error" role="alert">{submitError}</p>}
+
+      <div className="provider-form-actions">
+        <button type="submit" disabled={saving}>
+          {saving ? t('providerForm.saving') : submitLabel}
+        </button>
+        <button type="button" onClick={onCancel} disabled={saving}>
+          {t('providerForm.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ProviderForm;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { RefreshStage } from '../hooks/useMovieRefresh';
+import { RefreshResult } from '../types/Movie';
+import './RefreshStatus.css';
+
+interface RefreshStatusProps {
+  stage: RefreshStage;
+  result?: RefreshResult;
+  /** Number of movies whose cheapest price moved in the last refresh. */
+  movedCount: number;
+  /** When the list currently on screen was fetched, in epoch milliseconds. */
+  loadedAt?: number;
+}
+
+const RefreshStatus: React.FC<RefreshStatusProps> = ({ stage, result, movedCount, loadedAt }) => {
+  const { t, formatDateTime } = useI18n();
+
+  const renderContent = () => {
+    if (stage === 'refreshing') {
+      return <p>{t('refresh.refreshing')}</p>;
+    }
+    if (stage === 'reloading') {
+      return <p>{t('refresh.reloading')}</p>;
+    }
+    if (result) {
+      const providers = result.providers
+        .filter(provider => provider.succeeded)
+        .map(provider => t('refresh.providerMovies', { provider: provider.provider, count: provider.movieCount }))
+        .join(', ');
+      const failed = result.providers
+        .filter(provider => !provider.succeeded)
+        .map(provider => provider.provider)
+        .join(', ');
+      const changes = [
+        t('refresh.pricesChanged', { count: result.pricesChanged }),
+        ...(movedCount > 0 ? [t('refresh.bestPricesMoved', { count: movedCount })] : []),
+      ].join(', ');
+      return (
+        <>
+          {(providers || !failed) && (
+            <p className="refresh-providers">
+              {providers ? t('refresh.refreshed', { providers }) : t('refresh.noProviders')}
+            </p>
+          )}
+          {failed && <p className="refresh-failed">{t('refresh.failed', { providers: failed })}</p>}
+          <p className="refresh-changes">{changes}</p>
+          <p className="refresh-time">{t('refresh.lastRefreshed', { time: formatDateTime(result.refreshedAt) })}</p>
+        </>
+      );
+    }
+    if (loadedAt !== undefined) {
+      return (
+        <p className="refresh-time">
+          {t('refresh.loadedAt', { time: formatDateTime(new Date(loadedAt).toISOString()) })}
+        </p>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="refresh-status" role="status">
+      {renderContent()}
+    </div>
+  );
+};
+
+export default RefreshStatus;
@@ -0,0 +1,31 @@
+import React, { useEffect, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+
+interface RouteFocusProps {
+  /** Focused after each navigation, so it needs tabIndex={-1}. */
+  targetRef: React.RefObject<HTMLElement>;
+}
+
+/**
+ * Moves focus to the page content after client-side navigation, so keyboard
+ * and screen reader users carry on from the top of the new page rather than
+ * from a link that has just been removed. Query string changes alone (search
+ * and filters) leave focus where it is.
+ */
+const RouteFocus: React.FC<RouteFocusProps> = ({ targetRef }) => {
+  const { pathname } = useLocation();
+  const previousPathname = useRef(pathname);
+
+  useEffect(() => {
+    if (previousPathname.current === pathname) {
+      return;
+    }
+    previousPathname.current = pathname;
+    // Where the page scrolls to is up to the page (see useScrollRestoration).
+    targetRef.current?.focus({ preventScroll: true });
+  }, [pathname, targetRef]);
+
+  return null;
+};
+
+export default RouteFocus;
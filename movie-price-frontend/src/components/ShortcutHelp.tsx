@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useCommands, useRegisteredCommands } from '../hooks/useCommands';
+import { useI18n } from '../hooks/useI18n';
+import { Command, formatShortcut } from '../services/commands';
+import './ShortcutHelp.css';
+
+/**
+ * `?` lists every shortcut the current page offers, read from the command
+ * registry so a view's own shortcuts show up while it is mounted.
+ */
+const ShortcutHelp: React.FC = () => {
+  const { t } = useI18n();
+  const registered = useRegisteredCommands();
+  const [open, setOpen] = useState(false);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const helpCommands = useMemo((): Command[] => [
+    {
+      id: 'show-shortcuts',
+      title: t('command.showShortcuts'),
+      group: t('command.group.general'),
+      keywords: 'help keyboard',
+      shortcut: '?',
+      run: () => {
+        returnFocusRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        setOpen(true);
+      },
+    },
+  ], [t]);
+
+  useCommands(helpCommands);
+
+  useEffect(() => {
+    if (open) {
+      closeRef.current?.focus();
+    }
+  }, [open]);
+
+  if (!open) {
+    return null;
+  }
+
+  const close = () => {
+    setOpen(false);
+    returnFocusRef.current?.focus();
+  };
+
+  const shortcuts = registered.filter(command => command.shortcut);
+
+  return (
+    <div className="shortcut-help-backdrop" onMouseDown={close}>
+      <div
+        className="shortcut-help"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onMouseDown={(event) => event.stopPropagation()}
+        onKeyDown={(event) => {
+          // The close button is the only stop in the dialog, so Tab stays on it.
+          if (event.key === 'Escape' || event.key === 'Tab') {
+            event.preventDefault();
+          }
+          if (event.key === 'Escape') {
+            close();
+          }
+        }}
+      >
+        <h2 id="shortcut-help-title">{t('shortcuts.title')}</h2>
+        <table className="shortcut-help-table">
+          <thead>
+            <tr>
+              <th scope="col">{t('shortcuts.key')}</th>
+              <th scope="col">{t('shortcuts.action')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shortcuts.map(command => (
+              <tr key={command.id}>
+                <td><kbd>{formatShortcut(command.shortcut ?? '')}</kbd></td>
+                <td>{command.title}</td>
+              </tr>
+            ))}
+            <tr>
+              <td>{t('shortcuts.gridKeys')}</td>
+              <td>{t('shortcuts.gridAction')}</td>
+            </tr>
+          </tbody>
+        </table>
+        <button type="button" ref={closeRef} className="shortcut-help-close" onClick={close}>
+          {t('shortcuts.close')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
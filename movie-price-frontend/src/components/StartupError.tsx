@@ -0,0 +1,36 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { RuntimeConfigError } from '../services/runtimeConfig';
+import './StartupError.css';
+
+interface StartupErrorProps {
+  error: unknown;
+}
+
+/**
+ * Rendered instead of App when it cannot start, usually because config.json is
+ * missing or invalid. The technical details are for whoever deploys the app,
+ * so they stay in English.
+ */
+const StartupError: React.FC<StartupErrorProps> = ({ error }) => {
+  const { t } = useI18n();
+  const details = error instanceof RuntimeConfigError ? error.details : [];
+
+  return (
+    <div className="startup-error" role="alert">
+      <h1>{t('error.startupTitle')}</h1>
+      <p>{t('error.startupConfig')}</p>
+      <div className="startup-error-details">
+        <p>{error instanceof Error ? error.message : String(error)}</p>
+        {details.length > 0 && (
+          <ul>
+            {details.map((detail) => <li key={detail}>{detail}</li>)}
+          </ul>
+        )}
+      </div>
+      <button onClick={() => window.location.reload()}>{t('common.tryAgain')}</button>
+    </div>
+  );
+};
+
+export default StartupError;
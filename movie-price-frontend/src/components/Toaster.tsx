@@ -0,0 +1,23 @@
+import React from 'react';
+import { useToasts } from '../hooks/useWatchlist';
+import { toasts as toastStore } from '../services/notifications';
+import './Toaster.css';
+
+const Toaster: React.FC = () => {
+  const toasts = useToasts();
+
+  return (
+    <div className="toaster" aria-live="polite">
+      {toasts.map((toast) => (
+        <div key={toast.id} className="toast" role="status">
+          <span>{toast.message}</span>
+          <button type="button" aria-label="Dismiss" onClick={() => toastStore.dismiss(toast.id)}>
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Toaster;
@@ -0,0 +1,221 @@
+import React, { useEffect, useImperativeHandle, useLayoutEffect, useReducer, useRef, useState } from 'react';
+import { getNavigationTarget, getRowOffsets, getVisibleRows } from '../utils/virtualGrid';
+import './VirtualGrid.css';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  /** Width of one cell including its gap; sets how many columns fit. */
+  columnWidth: number;
+  /** Used for rows that have not been rendered yet. */
+  estimatedRowHeight: number;
+  /** Rows mounted above and below the viewport so fast scrolling does not flash. */
+  overscanRows?: number;
+  className?: string;
+  /** Accessible name of the list. */
+  label?: string;
+  /** Lets keyboard shortcuts outside the grid move focus through it. */
+  controllerRef?: React.Ref<VirtualGridController>;
+  /** Called whenever the last row is mounted, so more items can be loaded before the user gets there. */
+  onNearEnd?: () => void;
+}
+
+export interface VirtualGridController {
+  /**
+   * Focuses the item `step` places after the focused one, or before it when
+   * negative. With focus outside the grid, focuses the first item in view.
+   */
+  moveFocus: (step: number) => void;
+}
+
+// What arrow keys move focus to inside an item: its marked primary control, else its first control.
+const FOCUS_TARGET = '[data-grid-focus], button, a[href], input, select, textarea, [tabindex]';
+
+interface Viewport {
+  /** Window scroll position relative to the top of the grid. */
+  top: number;
+  height: number;
+}
+
+/**
+ * Lays items out in rows and mounts only the rows near the viewport. The page
+ * scrolls as usual; the grid reserves the full height so the scrollbar and
+ * scroll position stay meaningful. Rows are measured once rendered, so cards
+ * of uneven height are fine.
+ *
+ * Screen readers get a list whose items carry their position in the full
+ * list. Arrow keys, Home and End move focus between items, scrolling
+ * unmounted ones into view first.
+ */
+function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  columnWidth,
+  estimatedRowHeight,
+  overscanRows = 2,
+  className,
+  label,
+  controllerRef,
+  onNearEnd,
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef(new Map<number, HTMLDivElement>());
+  const pendingFocus = useRef<number>();
+  const [columns, setColumns] = useState(1);
+  const [viewport, setViewport] = useState<Viewport>({ top: 0, height: window.innerHeight });
+  const [, remeasured] = useReducer((count: number) => count + 1, 0);
+
+  // Row membership changes with the items or the column count, so old measurements no longer apply.
+  const measurements = useRef({ items, columns, rowHeights: new Map<number, number>() });
+  if (measurements.current.items !== items || measurements.current.columns !== columns) {
+    measurements.current = { items, columns, rowHeights: new Map() };
+  }
+  const { rowHeights } = measurements.current;
+
+  useLayoutEffect(() => {
+    const update = () => {
+      const container = containerRef.current;
+      if (!container) {
+        return;
+      }
+      const rect = container.getBoundingClientRect();
+      setColumns(Math.max(1, Math.floor(rect.width / columnWidth)));
+      setViewport({ top: -rect.top, height: window.innerHeight });
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [columnWidth]);
+
+  const rowCount = Math.ceil(items.length / columns);
+  const offsets = getRowOffsets(rowCount, rowHeights, estimatedRowHeight);
+  const [firstRow, lastRow] = getVisibleRows(offsets, viewport.top, viewport.height, overscanRows);
+
+  // The last row mounts an overscan ahead of the viewport, which is the head start a load gets.
+  const nearEnd = lastRow >= rowCount - 1;
+  useEffect(() => {
+    if (nearEnd) {
+      onNearEnd?.();
+    }
+  }, [nearEnd, items, onNearEnd]);
+
+  useLayoutEffect(() => {
+    let changed = false;
+    rowRefs.current.forEach((row, index) => {
+      // Unlaid-out rows (jsdom, display: none) report 0; keep the estimate for those.
+      if (row.offsetHeight > 0 && rowHeights.get(index) !== row.offsetHeight) {
+        rowHeights.set(index, row.offsetHeight);
+        changed = true;
+      }
+    });
+    if (changed) {
+      remeasured();
+    }
+  });
+
+  const focusItem = (index: number) => {
+    const cell = containerRef.current?.querySelector(`[data-grid-index="${index}"]`);
+    const target = cell?.querySelector<HTMLElement>(FOCUS_TARGET);
+    target?.focus();
+    return target !== undefined && target !== null;
+  };
+
+  // Once a scrolled-to item is mounted, focus it.
+  useLayoutEffect(() => {
+    if (pendingFocus.current !== undefined && focusItem(pendingFocus.current)) {
+      pendingFocus.current = undefined;
+    }
+  });
+
+  const moveFocusTo = (target: number) => {
+    if (!focusItem(target)) {
+      pendingFocus.current = target;
+      const gridTop = containerRef.current!.getBoundingClientRect().top + window.scrollY;
+      window.scrollTo({ top: gridTop + offsets[Math.floor(target / columns)] });
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const cell = (event.target as HTMLElement).closest<HTMLElement>('[data-grid-index]');
+    if (!cell || event.altKey || event.metaKey || event.shiftKey) {
+      return;
+    }
+    const target = getNavigationTarget(Number(cell.dataset.gridIndex), event.key, columns, items.length, event.ctrlKey);
+    if (target === undefined) {
+      return;
+    }
+    event.preventDefault();
+    moveFocusTo(target);
+  };
+
+  useImperativeHandle(controllerRef, () => ({
+    moveFocus: (step: number) => {
+      const focused = document.activeElement;
+      const cell = focused && containerRef.current?.contains(focused)
+        ? focused.closest<HTMLElement>('[data-grid-index]')
+        : null;
+      const target = cell
+        ? Number(cell.dataset.gridIndex) + step
+        : getVisibleRows(offsets, Math.max(0, viewport.top), viewport.height, 0)[0] * columns;
+      if (target >= 0 && target < items.length) {
+        moveFocusTo(target);
+      }
+    },
+  }));
+
+  const rows: React.ReactNode[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    rows.push(
+      <div
+        key={row}
+        className="virtual-grid-row"
+        style={{ top: offsets[row] }}
+        ref={(element) => {
+          if (element) {
+            rowRefs.current.set(row, element);
+          } else {
+            rowRefs.current.delete(row);
+          }
+        }}
+      >
+        {items.slice(row * columns, (row + 1) * columns).map((item, column) => {
+          const index = row * columns + column;
+          return (
+            <div
+              key={getKey(item)}
+              role="listitem"
+              className="virtual-grid-cell"
+              data-grid-index={index}
+              aria-posinset={index + 1}
+              aria-setsize={items.length}
+            >
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={className ? `virtual-grid ${className}` : 'virtual-grid'}
+      style={{ height: offsets[rowCount] }}
+      role="list"
+      aria-label={label}
+      onKeyDown={handleKeyDown}
+    >
+      {rows}
+    </div>
+  );
+}
+
+export default VirtualGrid;
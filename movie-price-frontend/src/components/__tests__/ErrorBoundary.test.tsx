@@ -0,0 +1,65 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { diagnostics } from '../../services/diagnostics';
+import ErrorBoundary from '../ErrorBoundary';
+
+const Price: React.FC<{ price: number | null }> = ({ price }) => {
+    if (price === null) {
+        throw new TypeError('price is null');
+    }
+    return <span>${price.toFixed(2)}</span>;
+};
+
+const renderBoundary = (price: number | null) => (
+    <ErrorBoundary
+        resetKeys={[price]}
+        fallback={reset => <button onClick={reset}>Price unavailable</button>}
+    >
+        <Price price={price} />
+    </ErrorBoundary>
+);
+
+describe('ErrorBoundary', () => {
+    let reportError: jest.SpyInstance;
+
+    beforeEach(() => {
+        // React logs every caught render error to the console.
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        reportError = jest.spyOn(diagnostics, 'reportError').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('renders children while they render', () => {
+        render(renderBoundary(12.5));
+
+        expect(screen.getByText('$12.50')).toBeInTheDocument();
+        expect(reportError).not.toHaveBeenCalled();
+    });
+
+    test('shows the fallback and reports the error with its component stack', () => {
+        render(renderBoundary(null));
+
+        expect(screen.getByText('Price unavailable')).toBeInTheDocument();
+        expect(reportError).toHaveBeenCalledWith(expect.objectContaining({ message: 'price is null' }), expect.stringContaining('Price'));
+    });
+
+    test('renders the children again when a reset key changes', () => {
+        const { rerender } = render(renderBoundary(null));
+
+        rerender(renderBoundary(9.99));
+
+        expect(screen.getByText('$9.99')).toBeInTheDocument();
+    });
+
+    test('retries the children from the fallback', () => {
+        render(renderBoundary(null));
+
+        fireEvent.click(screen.getByText('Price unavailable'));
+
+        expect(screen.getByText('Price unavailable')).toBeInTheDocument();
+        expect(reportError).toHaveBeenCalledTimes(2);
+    });
+});
@@ -70,6 +70,20 @@ describe('MovieCard', () => {
         expect(screen.getAllByText('$14.99')).toHaveLength(2); // Best price + provider price
     });
 
+    test('shows the saving over the most expensive provider and the deal score', () => {
+        render(<MovieCard movie={mockMovie} onClick={mockOnClick} />);
+
+        expect(screen.getByText('Save $1.00 (6%)')).toBeInTheDocument();
+        expect(screen.getByText('Deal score 13/100')).toBeInTheDocument();
+    });
+
+    test('shows no deal when the providers agree', () => {
+        const samePrice = { ...mockMovie, prices: mockMovie.prices.map(price => ({ ...price, price: 14.99 })) };
+        render(<MovieCard movie={samePrice} onClick={mockOnClick} />);
+
+        expect(screen.queryByText(/^Deal score/)).not.toBeInTheDocument();
+    });
+
     test('does not display best price section when not available', () => {
         render(<MovieCard movie={mockMovieWithoutBestPrice} onClick={mockOnClick} />);
 
@@ -102,6 +116,24 @@ describe('MovieCard', () => {
         expect(image).toHaveAttribute('src', 'https://example.com/matrix.jpg');
     });
 
+    test('loads provider posters through the poster proxy, falling back to the next provider', () => {
+        const movie: MovieComparison = {
+            ...mockMovie,
+            posters: [
+                { providerId: 'cinemaworld', url: 'https://cinemaworld.example.com/matrix.jpg' },
+                { providerId: 'filmworld', url: 'https://filmworld.example.com/matrix.jpg' }
+            ]
+        };
+        render(<MovieCard movie={movie} onClick={mockOnClick} />);
+
+        const image = screen.getByAltText('The Matrix');
+        expect(image).toHaveAttribute('src', expect.stringMatching(/\/api\/movies\/1\/posters\/cinemaworld\?width=\d+$/));
+
+        fireEvent.error(image);
+
+        expect(screen.getByAltText('The Matrix')).toHaveAttribute('src', expect.stringContaining('/posters/filmworld?'));
+    });
+
     test('displays placeholder when poster is not available', () => {
         render(<MovieCard movie={mockMovieWithoutPoster} onClick={mockOnClick} />);
 
@@ -159,6 +191,67 @@ describe('MovieCard', () => {
         expect(screen.getByText('$12.50')).toBeInTheDocument();
     });
 
+    test('shows price unavailable for a provider without a price', () => {
+        const movieWithNullPrice: MovieComparison = {
+            ...mockMovie,
+            prices: [
+                { ...mockMovie.prices[0], price: null },
+                mockMovie.prices[1]
+            ]
+        };
+
+        render(<MovieCard movie={movieWithNullPrice} onClick={mockOnClick} />);
+
+        expect(screen.getByText('Price unavailable')).toBeInTheDocument();
+        expect(screen.getAllByText('$14.99')).toHaveLength(2);
+    });
+
+    test('highlights a best price that moved in the last refresh', () => {
+        render(
+            <MovieCard
+                movie={mockMovie}
+                onClick={mockOnClick}
+                priceChange={{ previous: 16.99, current: 14.99, direction: 'down' }}
+            />
+        );
+
+        expect(screen.getByText('▼ Down from $16.99')).toHaveClass('price-change-down');
+        expect(screen.getByRole('article', { name: 'The Matrix' })).toHaveClass('price-moved');
+    });
+
+    test('highlights prices that just changed live', () => {
+        render(<MovieCard movie={mockMovie} onClick={mockOnClick} flashedPrices={{ filmworld: 'down' }} />);
+
+        // Filmworld is also the best price, so both copies flash
+        expect(screen.getAllByText('$14.99')).toHaveLength(2);
+        screen.getAllByText('$14.99').forEach(price => expect(price).toHaveClass('price-flash', 'price-flash-down'));
+        expect(screen.getByText('$15.99')).not.toHaveClass('price-flash');
+    });
+
+    test('shows recorded price history and insights', () => {
+        const history = [{
+            key: 'The Matrix::filmworld',
+            movieKey: 'The Matrix',
+            providerId: 'filmworld',
+            provider: 'Filmworld',
+            snapshots: [{ price: 18.99, recordedAt: 1000 }, { price: 14.99, recordedAt: 3000 }],
+            lastSeenAt: 4000
+        }];
+
+        render(<MovieCard movie={mockMovie} onClick={mockOnClick} history={history} previousVisitAt={2000} />);
+
+        expect(screen.getByRole('img', { name: 'Best price history: $18.99 to $14.99, lowest $14.99' })).toBeInTheDocument();
+        expect(screen.getByText('Lowest price seen')).toBeInTheDocument();
+        expect(screen.getByText('Dropped since your last visit (was $18.99)')).toBeInTheDocument();
+    });
+
+    test('shows no history until prices have been recorded', () => {
+        render(<MovieCard movie={mockMovie} onClick={mockOnClick} />);
+
+        expect(screen.queryByRole('img', { name: /Best price history/ })).not.toBeInTheDocument();
+        expect(screen.queryByText('Lowest price seen')).not.toBeInTheDocument();
+    });
+
     test('handles empty prices array', () => {
         const movieWithNoPrices: MovieComparison = {
             ...mockMovie,
@@ -178,6 +271,37 @@ describe('MovieCard', () => {
         expect(image).toHaveAttribute('alt', 'The Matrix');
     });
 
+    test('is an article named by its title with a details control that summarises the prices', () => {
+        render(<MovieCard movie={mockMovie} onClick={mockOnClick} />);
+
+        expect(screen.getByRole('article', { name: 'The Matrix' })).toBeInTheDocument();
+        expect(screen.getByRole('list', { name: 'Prices' })).toBeInTheDocument();
+        expect(screen.getAllByRole('listitem')).toHaveLength(2);
+        expect(screen.getByRole('button', { name: 'View details The Matrix' }))
+            .toHaveAccessibleDescription('Cheapest: Filmworld $14.99 of 2 providers');
+    });
+
+    test('says when no provider has a price', () => {
+        render(<MovieCard movie={{ ...mockMovie, prices: [{ ...mockMovie.prices[0], price: null }], cheapestPrice: undefined }} onClick={mockOnClick} />);
+
+        expect(screen.getByRole('button', { name: 'View details The Matrix' }))
+            .toHaveAccessibleDescription('No price from 1 provider');
+    });
+
+    test('has no axe violations with every control shown', async () => {
+        const { container } = render(
+            <MovieCard
+                movie={mockMovie}
+                onClick={mockOnClick}
+                priceChange={{ previous: 16.99, current: 14.99, direction: 'down' }}
+                onToggleWatch={jest.fn()}
+                onToggleCompare={jest.fn()}
+            />
+        );
+
+        await expect(container).toHaveNoAxeViolations();
+    });
+
     test('handles missing optional fields gracefully', () => {
         const minimalMovie: MovieComparison = {
             id: '1',
@@ -208,4 +332,27 @@ describe('MovieCard', () => {
         expect(screen.getByText('The Matrix')).toBeInTheDocument();
         expect(screen.queryByText(/⭐/)).not.toBeInTheDocument();
     });
+
+    test('marks prices kept from an earlier refresh and prices past the stale threshold', () => {
+        const movie: MovieComparison = {
+            ...mockMovie,
+            prices: [
+                { ...mockMovie.prices[0], fromCache: true },
+                { ...mockMovie.prices[1], lastUpdated: new Date().toISOString() },
+            ]
+        };
+
+        const { rerender } = render(<MovieCard movie={movie} onClick={mockOnClick} />);
+
+        expect(screen.getByText('From cache')).toHaveAttribute(
+            'title',
+            expect.stringContaining('Cinemaworld could not be reached')
+        );
+        expect(screen.queryByText('Stale')).not.toBeInTheDocument();
+
+        rerender(<MovieCard movie={{ ...movie, prices: [mockMovie.prices[1]] }} onClick={mockOnClick} />);
+
+        expect(screen.getByText('Stale')).toBeInTheDocument();
+        expect(screen.queryByText('From cache')).not.toBeInTheDocument();
+    });
 });
@@ -0,0 +1,85 @@
+import '@testing-library/jest-dom';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import Poster from '../Poster';
+
+const sources = ['/api/movies/1/posters/cinemaworld?width=400', '/api/movies/1/posters/filmworld?width=400'];
+
+describe('Poster', () => {
+    describe('with IntersectionObserver', () => {
+        let observers: { callback: IntersectionObserverCallback; options?: IntersectionObserverInit; disconnect: jest.Mock }[];
+
+        const scrollIntoView = () => act(() => {
+            observers.forEach(({ callback }) =>
+                callback([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver));
+        });
+
+        beforeEach(() => {
+            observers = [];
+            window.IntersectionObserver = jest.fn((callback: IntersectionObserverCallback, options?: IntersectionObserverInit) => {
+                const observer = { callback, options, disconnect: jest.fn() };
+                observers.push(observer);
+                return { observe: jest.fn(), disconnect: observer.disconnect } as unknown as IntersectionObserver;
+            });
+        });
+
+        afterEach(() => {
+            delete (window as { IntersectionObserver?: unknown }).IntersectionObserver;
+        });
+
+        test('requests the image only once it nears the viewport', () => {
+            render(<Poster sources={sources} alt="The Matrix" />);
+
+            expect(screen.queryByAltText('The Matrix')).not.toBeInTheDocument();
+            expect(screen.getByTestId('poster-loading')).toBeInTheDocument();
+            expect(observers[0].options).toEqual({ rootMargin: '200px' });
+
+            scrollIntoView();
+
+            expect(screen.getByAltText('The Matrix')).toHaveAttribute('src', sources[0]);
+            expect(observers[0].disconnect).toHaveBeenCalled();
+        });
+    });
+
+    test('loads straight away without IntersectionObserver', () => {
+        render(<Poster sources={sources} alt="The Matrix" />);
+
+        fireEvent.load(screen.getByAltText('The Matrix'));
+
+        expect(screen.getByAltText('The Matrix')).toBeVisible();
+        expect(screen.queryByTestId('poster-loading')).not.toBeInTheDocument();
+    });
+
+    test('requests proxied posters with CORS and provider URLs without', () => {
+        const { rerender } = render(<Poster sources={sources} alt="The Matrix" />);
+        expect(screen.getByAltText('The Matrix')).toHaveAttribute('crossorigin', 'anonymous');
+
+        rerender(<Poster sources={['https://cinemaworld.example.com/matrix.jpg']} alt="The Matrix" />);
+        expect(screen.getByAltText('The Matrix')).not.toHaveAttribute('crossorigin');
+    });
+
+    test('tries the next source when one fails, then shows the placeholder', () => {
+        render(<Poster sources={sources} alt="The Matrix" placeholder={<span>No poster</span>} />);
+
+        fireEvent.error(screen.getByAltText('The Matrix'));
+        expect(screen.getByAltText('The Matrix')).toHaveAttribute('src', sources[1]);
+
+        fireEvent.error(screen.getByAltText('The Matrix'));
+        expect(screen.queryByAltText('The Matrix')).not.toBeInTheDocument();
+        expect(screen.getByText('No poster')).toBeInTheDocument();
+    });
+
+    test('renders nothing without a source or a placeholder', () => {
+        const { container } = render(<Poster sources={[]} alt="The Matrix" />);
+
+        expect(container).toBeEmptyDOMElement();
+    });
+
+    test('starts over when given different sources', () => {
+        const { rerender } = render(<Poster sources={sources} alt="The Matrix" />);
+        fireEvent.error(screen.getByAltText('The Matrix'));
+
+        rerender(<Poster sources={['/other.jpg']} alt="The Matrix" />);
+
+        expect(screen.getByAltText('The Matrix')).toHaveAttribute('src', '/other.jpg');
+    });
+});
@@ -0,0 +1,22 @@
+import '@testing-library/jest-dom';
+import { render, screen } from '@testing-library/react';
+import { RuntimeConfigError } from '../../services/runtimeConfig';
+import StartupError from '../StartupError';
+
+describe('StartupError', () => {
+    test('explains that the app could not start and lists what is wrong with the config', () => {
+        render(<StartupError error={new RuntimeConfigError('/config.json is invalid', '/config.json', ['features/livePrices must be boolean'])} />);
+
+        expect(screen.getByRole('alert')).toHaveTextContent('Movie Price Comparison could not start');
+        expect(screen.getByText('/config.json is invalid')).toBeInTheDocument();
+        expect(screen.getByRole('listitem')).toHaveTextContent('features/livePrices must be boolean');
+        expect(screen.getByRole('button', { name: 'Try Again' })).toBeInTheDocument();
+    });
+
+    test('shows the message of any other startup failure', () => {
+        render(<StartupError error={new Error('Loading chunk 3 failed')} />);
+
+        expect(screen.getByText('Loading chunk 3 failed')).toBeInTheDocument();
+        expect(screen.queryByRole('list')).not.toBeInTheDocument();
+    });
+});
@@ -0,0 +1,81 @@
+import '@testing-library/jest-dom';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import VirtualGrid from '../VirtualGrid';
+
+const items = Array.from({ length: 1000 }, (_, index) => `Item ${index}`);
+
+const renderGrid = () => render(
+    <VirtualGrid
+        items={items}
+        getKey={item => item}
+        renderItem={item => <button type="button">{item}</button>}
+        columnWidth={200}
+        estimatedRowHeight={100}
+        overscanRows={1}
+        label="Items"
+    />
+);
+
+describe('VirtualGrid', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('mounts only the rows near the viewport', () => {
+        renderGrid();
+
+        expect(screen.getByText('Item 0')).toBeInTheDocument();
+        expect(screen.queryByText('Item 999')).not.toBeInTheDocument();
+        expect(screen.getAllByText(/^Item \d+$/).length).toBeLessThan(20);
+    });
+
+    test('swaps rows in as the page scrolls', () => {
+        renderGrid();
+        jest.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+            top: -20000, bottom: 30000, left: 0, right: 400, width: 400, height: 50000, x: 0, y: -20000,
+            toJSON: () => ({}),
+        });
+
+        act(() => {
+            window.dispatchEvent(new Event('scroll'));
+        });
+
+        // Two columns at 100px per row: the viewport now starts at row 200.
+        expect(screen.getByText('Item 400')).toBeInTheDocument();
+        expect(screen.getByText('Item 401')).toBeInTheDocument();
+        expect(screen.queryByText('Item 0')).not.toBeInTheDocument();
+    });
+
+    test('is a labelled list whose items know their place in the whole list', async () => {
+        const { container } = renderGrid();
+
+        expect(screen.getByRole('list', { name: 'Items' })).toBeInTheDocument();
+        expect(screen.getAllByRole('listitem')[1]).toHaveAttribute('aria-posinset', '2');
+        expect(screen.getAllByRole('listitem')[1]).toHaveAttribute('aria-setsize', '1000');
+        await expect(container).toHaveNoAxeViolations();
+    });
+
+    test('moves focus between items with the arrow keys', () => {
+        renderGrid();
+
+        // jsdom lays nothing out, so the grid has a single column.
+        fireEvent.keyDown(screen.getByText('Item 0'), { key: 'ArrowDown' });
+        expect(screen.getByText('Item 1')).toHaveFocus();
+
+        fireEvent.keyDown(screen.getByText('Item 1'), { key: 'ArrowUp' });
+        expect(screen.getByText('Item 0')).toHaveFocus();
+
+        // Nothing before the first item, so focus stays put.
+        fireEvent.keyDown(screen.getByText('Item 0'), { key: 'ArrowLeft' });
+        expect(screen.getByText('Item 0')).toHaveFocus();
+    });
+
+    test('scrolls to an item that is not mounted before focusing it', () => {
+        const scrollTo = jest.spyOn(window, 'scrollTo').mockImplementation(() => { });
+        renderGrid();
+
+        fireEvent.keyDown(screen.getByText('Item 0'), { key: 'End', ctrlKey: true });
+
+        expect(scrollTo).toHaveBeenCalledWith({ top: 999 * 100 });
+    });
+});
@@ -0,0 +1,117 @@
+import { act, renderHook } from '@testing-library/react';
+import { queryCache, movieQueryKeys } from '../../services/queryCache';
+import { MovieComparison, MovieDetail, PriceChangeEvent } from '../../types/Movie';
+import { PRICE_FLASH_MS, useLivePrices } from '../useLivePrices';
+import { LoadedMovies } from '../useMovieQueries';
+
+jest.mock('../../services/movieApi');
+
+const matrixPrices = [
+    { providerId: 'cinemaworld', provider: 'Cinemaworld', movieId: 'cw0133093', price: 12.5, lastUpdated: '2023-01-01T00:00:00Z' },
+    { providerId: 'filmworld', provider: 'Filmworld', movieId: 'fw0133093', price: 13.5, lastUpdated: '2023-01-01T00:00:00Z' }
+];
+
+const movies: MovieComparison[] = [
+    { id: 'the-matrix-1999', title: 'The Matrix', prices: matrixPrices, cheapestPrice: matrixPrices[0] },
+    { id: 'inception-2010', title: 'Inception', prices: [] }
+];
+
+const priceChange: PriceChangeEvent = {
+    movieId: 'the-matrix-1999',
+    providerId: 'filmworld',
+    provider: 'Filmworld',
+    providerMovieId: 'fw0133093',
+    previousPrice: 13.5,
+    price: 11.5,
+    removed: false,
+    fromCache: false,
+    lastUpdated: '2023-01-02T00:00:00Z'
+};
+
+describe('useLivePrices', () => {
+    let stream: EventTarget;
+
+    const renderLivePrices = (refetch = jest.fn().mockResolvedValue(undefined)) =>
+        renderHook(() => useLivePrices(refetch, {
+            createEventSource: () => {
+                stream = new EventTarget();
+                return Object.assign(stream, { close: jest.fn() }) as unknown as EventSource;
+            }
+        }));
+
+    const send = (change: PriceChangeEvent) => act(() => {
+        stream.dispatchEvent(new MessageEvent('price-changed', { data: JSON.stringify(change) }));
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        queryCache.clear();
+        queryCache.setData<LoadedMovies>(movieQueryKeys.movies, { items: movies, pageCount: 1, totalPages: 1, totalCount: movies.length });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('patches the cached list and detail with each change', () => {
+        const detail: MovieDetail = { ...movies[0], updatedAt: '2023-01-01T00:00:00Z' };
+        queryCache.setData(movieQueryKeys.movieDetail(detail.id), detail);
+        const { result } = renderLivePrices();
+        act(() => {
+            stream.dispatchEvent(new Event('open'));
+        });
+
+        send(priceChange);
+
+        const [matrix, inception] = queryCache.getState<LoadedMovies>(movieQueryKeys.movies).data!.items;
+        expect(result.current.status).toBe('live');
+        expect(matrix.cheapestPrice).toMatchObject({ providerId: 'filmworld', price: 11.5 });
+        expect(inception).toBe(movies[1]);
+        expect(queryCache.getState<MovieDetail>(movieQueryKeys.movieDetail(detail.id)).data?.cheapestPrice?.price).toBe(11.5);
+    });
+
+    test('highlights the changed provider price for a moment', () => {
+        const { result } = renderLivePrices();
+
+        send(priceChange);
+        expect(result.current.flashes).toEqual({ 'the-matrix-1999': { filmworld: 'down' } });
+
+        act(() => {
+            jest.advanceTimersByTime(PRICE_FLASH_MS);
+        });
+        expect(result.current.flashes).toEqual({});
+    });
+
+    test('keeps the highlight for the full time after a repeat change', () => {
+        const { result } = renderLivePrices();
+
+        send(priceChange);
+        act(() => {
+            jest.advanceTimersByTime(PRICE_FLASH_MS - 100);
+        });
+        send({ ...priceChange, previousPrice: 11.5, price: 12.5 });
+
+        act(() => {
+            jest.advanceTimersByTime(100);
+        });
+        expect(result.current.flashes).toEqual({ 'the-matrix-1999': { filmworld: 'up' } });
+
+        act(() => {
+            jest.advanceTimersByTime(PRICE_FLASH_MS - 100);
+        });
+        expect(result.current.flashes).toEqual({});
+    });
+
+    test('reloads the list when the stream recovers', () => {
+        const refetch = jest.fn().mockResolvedValue(undefined);
+        renderLivePrices(refetch);
+
+        act(() => {
+            stream.dispatchEvent(new Event('error'));
+            jest.advanceTimersByTime(1000);
+            stream.dispatchEvent(new Event('open'));
+        });
+
+        expect(refetch).toHaveBeenCalledTimes(1);
+    });
+});
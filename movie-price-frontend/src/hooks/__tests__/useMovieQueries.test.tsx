@@ -0,0 +1,222 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { movieApi } from '../../services/movieApi';
+import { queryCache } from '../../services/queryCache';
+import { MovieComparison, MoviePage } from '../../types/Movie';
+import { MOVIES_PAGE_SIZE, useMovieDetail, useMovies } from '../useMovieQueries';
+
+jest.mock('../../services/movieApi');
+const mockMovieApi = movieApi as jest.Mocked<typeof movieApi>;
+
+const mockMovies: MovieComparison[] = [
+    { id: '1', title: 'The Matrix', prices: [] }
+];
+
+const toPage = (items: MovieComparison[], page = 1, totalPages = 1, totalCount = items.length): MoviePage =>
+    ({ items, page, pageSize: 100, totalCount, totalPages });
+
+describe('movie query hooks', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        queryCache.clear();
+        mockMovieApi.getMovies.mockResolvedValue(toPage(mockMovies));
+    });
+
+    test('useMovies loads movies and exposes loading state', async () => {
+        const { result } = renderHook(() => useMovies());
+
+        expect(result.current.loading).toBe(true);
+
+        await waitFor(() => {
+            expect(result.current.data).toEqual(mockMovies);
+        });
+
+        expect(result.current.loading).toBe(false);
+        expect(result.current.error).toBeUndefined();
+    });
+
+    test('useMovies loads one page at a time', async () => {
+        const inception: MovieComparison = { id: '2', title: 'Inception', prices: [] };
+        mockMovieApi.getMovies
+            .mockResolvedValueOnce(toPage(mockMovies, 1, 2, 2))
+            .mockResolvedValueOnce(toPage([inception], 2, 2, 2));
+
+        const { result } = renderHook(() => useMovies());
+
+        await waitFor(() => {
+            expect(result.current.data).toEqual(mockMovies);
+        });
+        expect(result.current.totalCount).toBe(2);
+        expect(result.current.hasMore).toBe(true);
+        expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(1);
+
+        act(() => {
+            result.current.loadMore();
+        });
+
+        await waitFor(() => {
+            expect(result.current.data).toEqual([...mockMovies, inception]);
+        });
+        expect(mockMovieApi.getMovies).toHaveBeenLastCalledWith({ page: 2, pageSize: MOVIES_PAGE_SIZE });
+        expect(result.current.hasMore).toBe(false);
+
+        act(() => {
+            result.current.loadMore();
+        });
+
+        expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(2);
+    });
+
+    test('loadMore does not ask for a page while one is on its way', async () => {
+        let resolveSecondPage: (page: MoviePage) => void = () => undefined;
+        mockMovieApi.getMovies
+            .mockResolvedValueOnce(toPage(mockMovies, 1, 2, 2))
+            .mockReturnValueOnce(new Promise(resolve => {
+                resolveSecondPage = resolve;
+            }));
+
+        const { result } = renderHook(() => useMovies());
+        await waitFor(() => expect(result.current.data).toEqual(mockMovies));
+
+        act(() => {
+            result.current.loadMore();
+            result.current.loadMore();
+        });
+
+        expect(result.current.isFetching).toBe(true);
+        expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(2);
+
+        await act(async () => {
+            resolveSecondPage(toPage([], 2, 2, 2));
+        });
+
+        expect(result.current.isFetching).toBe(false);
+    });
+
+    test('a revalidation keeps the previous list until every loaded page is back', async () => {
+        const inception: MovieComparison = { id: '2', title: 'Inception', prices: [] };
+        mockMovieApi.getMovies
+            .mockResolvedValueOnce(toPage(mockMovies, 1, 2, 2))
+            .mockResolvedValueOnce(toPage([inception], 2, 2, 2));
+        const { result } = renderHook(() => useMovies());
+        await waitFor(() => expect(result.current.data).toEqual(mockMovies));
+        act(() => {
+            result.current.loadMore();
+        });
+        await waitFor(() => expect(result.current.data).toEqual([...mockMovies, inception]));
+
+        const updated: MovieComparison = { ...mockMovies[0], title: 'The Matrix Reloaded' };
+        let resolveSecondPage: (page: MoviePage) => void = () => undefined;
+        mockMovieApi.getMovies
+            .mockResolvedValueOnce(toPage([updated], 1, 2, 2))
+            .mockReturnValueOnce(new Promise(resolve => {
+                resolveSecondPage = resolve;
+            }));
+
+        let refetched: Promise<MovieComparison[] | undefined> = Promise.resolve(undefined);
+        act(() => {
+            refetched = result.current.refetch();
+        });
+        await waitFor(() => expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(4));
+
+        expect(result.current.data).toEqual([...mockMovies, inception]);
+
+        await act(async () => {
+            resolveSecondPage(toPage([inception], 2, 2, 2));
+            await expect(refetched).resolves.toEqual([updated, inception]);
+        });
+
+        expect(result.current.data).toEqual([updated, inception]);
+    });
+
+    test('useMovies lists a movie once when it moves onto the next page', async () => {
+        const inception: MovieComparison = { id: '2', title: 'Inception', prices: [] };
+        mockMovieApi.getMovies
+            .mockResolvedValueOnce(toPage([...mockMovies, inception], 1, 2, 3))
+            .mockResolvedValueOnce(toPage([inception], 2, 2, 3));
+
+        const { result } = renderHook(() => useMovies());
+        await waitFor(() => expect(result.current.hasMore).toBe(true));
+
+        act(() => {
+            result.current.loadMore();
+        });
+
+        await waitFor(() => {
+            expect(result.current.hasMore).toBe(false);
+        });
+        expect(result.current.data).toEqual([...mockMovies, inception]);
+    });
+
+    test('useMovies reloads the loaded pages when the catalogue changes between pages', async () => {
+        const inception: MovieComparison = { id: '2', title: 'Inception', prices: [] };
+        const alien: MovieComparison = { id: '3', title: 'Alien', prices: [] };
+        mockMovieApi.getMovies
+            .mockResolvedValueOnce(toPage(mockMovies, 1, 2, 2))
+            .mockResolvedValueOnce(toPage([alien], 2, 2, 3))
+            .mockResolvedValueOnce(toPage([alien], 1, 2, 3))
+            .mockResolvedValueOnce(toPage([...mockMovies, inception], 2, 2, 3));
+
+        const { result } = renderHook(() => useMovies());
+        await waitFor(() => expect(result.current.data).toEqual(mockMovies));
+
+        act(() => {
+            result.current.loadMore();
+        });
+
+        await waitFor(() => {
+            expect(result.current.data).toEqual([alien, ...mockMovies, inception]);
+        });
+        expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(4);
+        expect(mockMovieApi.getMovies).toHaveBeenNthCalledWith(3, { page: 1, pageSize: MOVIES_PAGE_SIZE });
+        expect(result.current.totalCount).toBe(3);
+    });
+
+    test('concurrent consumers share a single request', async () => {
+        const { result: firstResult } = renderHook(() => useMovies());
+        const { result: secondResult } = renderHook(() => useMovies());
+
+        await waitFor(() => {
+            expect(secondResult.current.data).toEqual(mockMovies);
+        });
+
+        expect(firstResult.current.data).toEqual(mockMovies);
+        expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(1);
+    });
+
+    test('renders cached data immediately on remount', async () => {
+        const { result: firstResult, unmount } = renderHook(() => useMovies());
+        await waitFor(() => expect(firstResult.current.data).toEqual(mockMovies));
+        unmount();
+
+        const { result } = renderHook(() => useMovies());
+
+        expect(result.current.data).toEqual(mockMovies);
+        expect(result.current.loading).toBe(false);
+        expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(1);
+    });
+
+    test('refetch forces a new request', async () => {
+        const { result } = renderHook(() => useMovies());
+        await waitFor(() => expect(result.current.data).toEqual(mockMovies));
+
+        await act(async () => {
+            await result.current.refetch();
+        });
+
+        expect(mockMovieApi.getMovies).toHaveBeenCalledTimes(2);
+    });
+
+    test('useMovieDetail exposes errors', async () => {
+        const error = new Error('Failed to fetch movie detail');
+        mockMovieApi.getMovieDetail.mockRejectedValue(error);
+
+        const { result } = renderHook(() => useMovieDetail('cw001'));
+
+        await waitFor(() => {
+            expect(result.current.error).toBe(error);
+        });
+
+        expect(result.current.loading).toBe(false);
+        expect(mockMovieApi.getMovieDetail).toHaveBeenCalledWith('cw001');
+    });
+});
@@ -0,0 +1,61 @@
+import { act, renderHook } from '@testing-library/react';
+import { movieApi } from '../../services/movieApi';
+import { providerPreferences } from '../../services/providerPreferences';
+import { MovieComparison, PriceInfo } from '../../types/Movie';
+import { applyProviderPreferences } from '../../utils/providerPreferences';
+import { useMovieRefresh } from '../useMovieRefresh';
+
+jest.mock('../../services/movieApi');
+const mockMovieApi = movieApi as jest.Mocked<typeof movieApi>;
+
+const price = (providerId: string, value: number): PriceInfo => ({
+    providerId,
+    provider: providerId,
+    movieId: `${providerId}-1`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const movie = (prices: PriceInfo[]): MovieComparison => ({
+    id: '1',
+    title: 'The Matrix',
+    prices,
+    cheapestPrice: prices.reduce((cheapest, current) => (current.price! < cheapest.price! ? current : cheapest))
+});
+
+describe('useMovieRefresh', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        providerPreferences.reset();
+        mockMovieApi.refreshMovieData.mockResolvedValue({ refreshedAt: '2023-01-01T00:00:00Z', providers: [], movieCount: 1, pricesChanged: 1 });
+    });
+
+    afterEach(() => {
+        providerPreferences.reset();
+    });
+
+    test('reports cheapest price moves between the list before and after', async () => {
+        const before = [movie([price('cinemaworld', 12), price('filmworld', 14)])];
+        const refetch = jest.fn().mockResolvedValue([movie([price('cinemaworld', 10), price('filmworld', 14)])]);
+        const { result } = renderHook(() => useMovieRefresh(before, refetch));
+
+        await act(() => result.current.refresh());
+
+        expect(result.current.priceChanges).toEqual({ '1': { previous: 12, current: 10, direction: 'down' } });
+    });
+
+    test('ignores price moves at a hidden provider', async () => {
+        providerPreferences.setRank('filmworld', 'hidden');
+        const before = [applyProviderPreferences(
+            movie([price('cinemaworld', 12), price('filmworld', 14)]),
+            providerPreferences.getSnapshot()
+        )];
+        // Only the hidden provider got cheaper; the refetched list is unfiltered.
+        const refetch = jest.fn().mockResolvedValue([movie([price('cinemaworld', 12), price('filmworld', 8)])]);
+        const { result } = renderHook(() => useMovieRefresh(before, refetch));
+
+        await act(() => result.current.refresh());
+
+        expect(result.current.priceChanges).toEqual({});
+    });
+});
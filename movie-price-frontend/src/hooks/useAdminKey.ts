@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { adminKey, AdminKeyStore } from '../services/adminKey';
+
+export const useAdminKey = (store: AdminKeyStore = adminKey): string =>
+  useSyncExternalStore(store.subscribe, store.getSnapshot);
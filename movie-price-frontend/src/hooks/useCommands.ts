@@ -0,0 +1,32 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { Command, CommandRegistry, commands as defaultRegistry } from '../services/commands';
+
+/** Every registered command, re-rendering as views come and go. */
+export const useRegisteredCommands = (registry: CommandRegistry = defaultRegistry): Command[] =>
+  useSyncExternalStore(registry.subscribe, registry.getSnapshot);
+
+/**
+ * Registers commands for as long as the component is mounted. Pass a memoised
+ * list: a new array re-registers, which is how commands pick up fresh state.
+ */
+export const useCommands = (commands: Command[], registry: CommandRegistry = defaultRegistry) => {
+  useEffect(() => registry.register(commands), [commands, registry]);
+};
+
+/** Runs the command bound to each key pressed anywhere in the page. */
+export const useShortcuts = (registry: CommandRegistry = defaultRegistry) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) {
+        return;
+      }
+      const command = registry.commandFor(event);
+      if (command) {
+        event.preventDefault();
+        command.run();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [registry]);
+};
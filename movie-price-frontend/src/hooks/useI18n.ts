@@ -0,0 +1,28 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { MessageKey, MessageParams, translate, Translate } from '../i18n/translate';
+import { DisplayPreferences, preferences, PreferencesStore } from '../services/preferences';
+import { formatDate, formatDateTime, formatPrice, formatRelativeTime } from '../utils/format';
+
+export interface I18n extends DisplayPreferences {
+  t: Translate;
+  formatPrice: (price: number | null | undefined) => string;
+  formatDateTime: (value: string) => string;
+  formatDate: (time: number) => string;
+  formatRelativeTime: (time: number) => string;
+}
+
+export const usePreferences = (store: PreferencesStore = preferences): DisplayPreferences =>
+  useSyncExternalStore(store.subscribe, store.getSnapshot);
+
+/** Translator and formatters bound to the shopper's locale and currency; re-renders when they change. */
+export const useI18n = (): I18n => {
+  const current = usePreferences();
+  return useMemo(() => ({
+    ...current,
+    t: (key: MessageKey, params?: MessageParams) => translate(current.locale, key, params),
+    formatPrice: (price: number | null | undefined) => formatPrice(price, current),
+    formatDateTime: (value: string) => formatDateTime(value, current),
+    formatDate: (time: number) => formatDate(time, current),
+    formatRelativeTime: (time: number) => formatRelativeTime(time, current),
+  }), [current]);
+};
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from 'react';
+import { movieApi } from '../services/movieApi';
+import { announcePriceAlerts } from '../services/notifications';
+import { PriceEventsClient, PriceEventsOptions, PriceEventsStatus } from '../services/priceEvents';
+import { priceHistory } from '../services/priceHistory';
+import { providerPreferences } from '../services/providerPreferences';
+import { movieQueryKeys, queryCache } from '../services/queryCache';
+import { isFeatureEnabled } from '../services/runtimeConfig';
+import { watchlist } from '../services/watchlist';
+import { MovieDetail, PriceChangeEvent } from '../types/Movie';
+import { applyPriceChange, getPriceFlash, PriceFlashes } from '../utils/priceChanges';
+import { applyProviderPreferences } from '../utils/providerPreferences';
+import { LoadedMovies } from './useMovieQueries';
+
+/** How long a changed price stays highlighted; matches the MovieCard animation. */
+export const PRICE_FLASH_MS = 2000;
+
+const NO_FLASHES: PriceFlashes = {};
+
+/**
+ * Patches cached movies with one change. The list and the movie's detail are
+ * both updated so neither shows the old price until its next reload; like any
+ * other price we receive, the new one is recorded and checked against the
+ * watchlist.
+ */
+const applyToCache = (change: PriceChangeEvent) => {
+  const loaded = queryCache.getState<LoadedMovies>(movieQueryKeys.movies).data;
+  const movies = loaded?.items;
+  const detailKey = movieQueryKeys.movieDetail(change.movieId);
+  const detail = queryCache.getState<MovieDetail>(detailKey).data;
+
+  const patched = movies?.map(movie => applyPriceChange(movie, change));
+  const movie = patched?.find((candidate, index) => candidate !== movies![index]);
+  if (loaded && patched && movie) {
+    queryCache.setData(movieQueryKeys.movies, { ...loaded, items: patched });
+    priceHistory.record([movie]);
+    announcePriceAlerts(watchlist.check([applyProviderPreferences(movie, providerPreferences.getSnapshot())]));
+  }
+  if (detail) {
+    queryCache.setData(detailKey, applyPriceChange(detail, change));
+  }
+};
+
+/**
+ * Keeps the cached movie list in step with the API's price-change stream for
+ * as long as the calling component is mounted. Returns the stream status and
+ * the provider prices that changed in the last PRICE_FLASH_MS, for MovieCard
+ * to animate. `refetch` reloads the list when the stream cannot be trusted to
+ * have delivered everything: on polls and after reconnecting. Does nothing
+ * when the runtime config turns the `livePrices` feature off.
+ */
+export function useLivePrices(
+  refetch: () => Promise<unknown>,
+  options: Partial<Omit<PriceEventsOptions, 'onChange' | 'onResync'>> = {}
+) {
+  const [status, setStatus] = useState<PriceEventsStatus>('idle');
+  const [flashes, setFlashes] = useState<PriceFlashes>(NO_FLASHES);
+  const refetchRef = useRef(refetch);
+  refetchRef.current = refetch;
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    if (!isFeatureEnabled('livePrices')) {
+      return;
+    }
+    // One timer per movie and provider, so a repeat change restarts its highlight
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const flash = (change: PriceChangeEvent) => {
+      const direction = getPriceFlash(change);
+      if (!direction) {
+        return;
+      }
+      const update = (remove: boolean) => setFlashes((current) => {
+        const { [change.providerId]: _previous, ...others } = current[change.movieId] ?? {};
+        const providers = remove ? others : { ...others, [change.providerId]: direction };
+        const { [change.movieId]: _movie, ...rest } = current;
+        return Object.keys(providers).length > 0 ? { ...rest, [change.movieId]: providers } : rest;
+      });
+      update(false);
+      const key = `${change.movieId}/${change.providerId}`;
+      clearTimeout(timers.get(key));
+      timers.set(key, setTimeout(() => {
+        timers.delete(key);
+        update(true);
+      }, PRICE_FLASH_MS));
+    };
+
+    const client = new PriceEventsClient({
+      url: movieApi.getPriceEventsUrl(),
+      ...optionsRef.current,
+      onChange: (change) => {
+        applyToCache(change);
+        flash(change);
+      },
+      onResync: () => {
+        refetchRef.current();
+      },
+    });
+    const unsubscribe = client.subscribe(() => setStatus(client.getSnapshot()));
+    client.start();
+    setStatus(client.getSnapshot());
+
+    return () => {
+      unsubscribe();
+      client.stop();
+      timers.forEach(timer => clearTimeout(timer));
+    };
+  }, []);
+
+  return { status, flashes };
+}
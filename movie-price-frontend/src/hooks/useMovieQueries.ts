@@ -0,0 +1,161 @@
+import { useCallback, useMemo } from 'react';
+import { movieApi } from '../services/movieApi';
+import { announcePriceAlerts } from '../services/notifications';
+import { priceHistory } from '../services/priceHistory';
+import { providerPreferences } from '../services/providerPreferences';
+import { movieQueryKeys, queryCache } from '../services/queryCache';
+import { watchlist } from '../services/watchlist';
+import { MovieComparison, MovieDetail } from '../types/Movie';
+import { applyProviderPreferences, ProviderPreferences } from '../utils/providerPreferences';
+import { useProviderPreferences } from './useProviderPreferences';
+import { QueryResult, useQuery } from './useQuery';
+
+// Every successful response is also recorded as price history, and every
+// movie list is checked against the watchlist targets.
+//
+// The cache keeps movies as the API sent them; callers get them with the
+// user's provider preferences applied, so every page, export and alert agrees
+// on which providers count and what the best price is.
+
+const preferMovies = (movies: MovieComparison[], preferences: ProviderPreferences) =>
+  movies.map(movie => applyProviderPreferences(movie, preferences));
+
+const preferMovieDetails = (details: (MovieDetail | undefined)[], preferences: ProviderPreferences) =>
+  details.map(detail => detail && applyProviderPreferences(detail, preferences));
+
+function usePreferred<T>(result: QueryResult<T>, prefer: (data: T, preferences: ProviderPreferences) => T): QueryResult<T> {
+  const preferences = useProviderPreferences();
+  const { data } = result;
+  const preferred = useMemo(
+    () => (data === undefined ? undefined : prefer(data, preferences)),
+    [data, prefer, preferences]
+  );
+  return { ...result, data: preferred };
+}
+
+export const MOVIES_PAGE_SIZE = 100;
+
+// Past this, a catalogue that keeps changing is walked to the end as it is.
+const MAX_WALK_RESTARTS = 2;
+
+/** The pages of the movie list loaded so far; what the cache holds under movieQueryKeys.movies. */
+export interface LoadedMovies {
+  items: MovieComparison[];
+  /** Pages 1 to pageCount are loaded. */
+  pageCount: number;
+  totalPages: number;
+  totalCount: number;
+}
+
+const preferLoadedMovies = (loaded: LoadedMovies, preferences: ProviderPreferences) =>
+  ({ ...loaded, items: preferMovies(loaded.items, preferences) });
+
+const recordMovies = (movies: MovieComparison[]) => {
+  priceHistory.record(movies);
+  announcePriceAlerts(watchlist.check(preferMovies(movies, providerPreferences.getSnapshot())));
+};
+
+const fetchMoviePage = (page: number) => movieApi.getMovies({ page, pageSize: MOVIES_PAGE_SIZE });
+
+/**
+ * Loads the first `pageCount` pages, or as many as there are. A movie added
+ * or removed mid-walk shifts every later page, so a change in totalCount
+ * starts the walk over, and movies are keyed by id so one moved onto the
+ * next page is not listed twice.
+ */
+const fetchMoviePages = async (pageCount: number): Promise<LoadedMovies> => {
+  const movies = new Map<string, MovieComparison>();
+  let totalCount: number | undefined;
+  let restarts = 0;
+  for (let page = 1; ; page++) {
+    const result = await fetchMoviePage(page);
+    if (totalCount !== undefined && result.totalCount !== totalCount && restarts < MAX_WALK_RESTARTS) {
+      restarts++;
+      totalCount = undefined;
+      movies.clear();
+      page = 0;
+      continue;
+    }
+    totalCount = result.totalCount;
+    result.items.forEach(movie => movies.set(movie.id, movie));
+    if (page >= Math.min(pageCount, result.totalPages)) {
+      const loaded = { items: Array.from(movies.values()), pageCount: page, totalPages: result.totalPages, totalCount };
+      recordMovies(loaded.items);
+      return loaded;
+    }
+  }
+};
+
+/**
+ * Appends the page after the loaded ones. If the catalogue changed since they
+ * were loaded, every page after the change has shifted, so they are reloaded
+ * along with the new one.
+ */
+const fetchNextPage = async (loaded: LoadedMovies): Promise<LoadedMovies> => {
+  const page = loaded.pageCount + 1;
+  const result = await fetchMoviePage(page);
+  if (result.totalCount !== loaded.totalCount) {
+    return fetchMoviePages(page);
+  }
+  const movies = new Map(loaded.items.map(movie => [movie.id, movie]));
+  result.items.forEach(movie => movies.set(movie.id, movie));
+  recordMovies(result.items);
+  return { items: Array.from(movies.values()), pageCount: page, totalPages: result.totalPages, totalCount: result.totalCount };
+};
+
+// A revalidation reloads as many pages as are on screen, so the grid never shrinks mid-refresh.
+const fetchLoadedMovies = () =>
+  fetchMoviePages(queryCache.getState<LoadedMovies>(movieQueryKeys.movies).data?.pageCount ?? 1);
+
+/** Loads the next page of the list, unless one is already on its way or there is none left. */
+const loadMoreMovies = () => {
+  const { data, isFetching } = queryCache.getState<LoadedMovies>(movieQueryKeys.movies);
+  if (isFetching || data === undefined || data.pageCount >= data.totalPages) {
+    return;
+  }
+  queryCache
+    .fetch(movieQueryKeys.movies, () => fetchNextPage(data), { force: true })
+    // Failures are recorded in the cache entry and reach the list through useQuery.
+    .catch(() => undefined);
+};
+
+/**
+ * The movie list, one page at a time: the first page on mount and the next
+ * one each time `loadMore` is called. `data` holds the movies loaded so far
+ * and `totalCount` the size of the whole catalogue.
+ */
+export const useMovies = () => {
+  const { data, refetch, ...state } = usePreferred(
+    useQuery<LoadedMovies>(movieQueryKeys.movies, fetchLoadedMovies),
+    preferLoadedMovies
+  );
+  const refetchMovies = useCallback(async () => (await refetch())?.items, [refetch]);
+  return {
+    ...state,
+    data: data?.items,
+    totalCount: data?.totalCount,
+    hasMore: data !== undefined && data.pageCount < data.totalPages,
+    loadMore: loadMoreMovies,
+    refetch: refetchMovies,
+  };
+};
+
+const fetchMovieDetail = async (id: string) => {
+  const movie = await movieApi.getMovieDetail(id);
+  priceHistory.record([movie]);
+  return movie;
+};
+
+export const useMovieDetail = (id: string) =>
+  usePreferred(useQuery<MovieDetail>(movieQueryKeys.movieDetail(id), () => fetchMovieDetail(id)), applyProviderPreferences);
+
+/**
+ * Details for several movies at once, sharing each movie's own cache entry.
+ * A movie whose detail fails to load comes back undefined instead of failing the rest.
+ */
+export const useMovieDetails = (ids: string[]) =>
+  usePreferred(useQuery<(MovieDetail | undefined)[]>(movieQueryKeys.movieDetails(ids), () =>
+    Promise.all(ids.map(id =>
+      queryCache.fetch(movieQueryKeys.movieDetail(id), () => fetchMovieDetail(id)).catch(() => undefined)
+    ))
+  ), preferMovieDetails);
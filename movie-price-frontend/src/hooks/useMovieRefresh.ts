@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { NetworkError } from '../services/apiErrors';
+import { connectivity } from '../services/connectivity';
+import { movieApi } from '../services/movieApi';
+import { providerPreferences } from '../services/providerPreferences';
+import { queryCache } from '../services/queryCache';
+import { MovieComparison, RefreshResult } from '../types/Movie';
+import { diffCheapestPrices, PriceChanges } from '../utils/priceChanges';
+import { applyProviderPreferences } from '../utils/providerPreferences';
+import { useOnlineStatus } from './useOnlineStatus';
+
+/** `refreshing` while the backend re-pulls providers, `reloading` while we fetch the result. */
+export type RefreshStage = 'idle' | 'refreshing' | 'reloading';
+
+export interface MovieRefreshState {
+  stage: RefreshStage;
+  /** Summary of the last successful refresh in this session. */
+  result?: RefreshResult;
+  /** Movies whose cheapest price moved in the last refresh. */
+  priceChanges: PriceChanges;
+  error: unknown;
+  /** Asked for while offline; runs as soon as the browser is back online. */
+  queued: boolean;
+}
+
+const INITIAL_STATE: MovieRefreshState = { stage: 'idle', priceChanges: {}, error: null, queued: false };
+
+/**
+ * Runs a backend refresh as a tracked operation: asks the API to re-pull every
+ * provider, reloads the list and diffs it against what was on screen before.
+ * Refreshes asked for offline, or cut off by the connection dropping, are
+ * queued and replayed once on reconnect; repeated clicks do not stack up.
+ */
+export function useMovieRefresh(
+  movies: MovieComparison[],
+  refetch: () => Promise<MovieComparison[] | undefined>
+) {
+  const [state, setState] = useState<MovieRefreshState>(INITIAL_STATE);
+
+  const online = useOnlineStatus();
+
+  const refresh = async () => {
+    if (!connectivity.getSnapshot()) {
+      setState(current => ({ ...current, queued: true, error: null }));
+      return;
+    }
+    const before = movies;
+    setState(current => ({ ...current, stage: 'refreshing', queued: false, error: null }));
+    try {
+      const result = await movieApi.refreshMovieData();
+      // Details cached before the refresh are revalidated on their next visit.
+      queryCache.invalidate();
+      setState(current => ({ ...current, stage: 'reloading' }));
+      const after = await refetch();
+      // `movies` has the user's provider preferences applied; refetch returns the list as the API sent it.
+      const preferences = providerPreferences.getSnapshot();
+      setState({
+        stage: 'idle',
+        result,
+        priceChanges: after
+          ? diffCheapestPrices(before, after.map(movie => applyProviderPreferences(movie, preferences)))
+          : {},
+        error: null,
+        queued: false,
+      });
+    } catch (error) {
+      const disconnected = error instanceof NetworkError && !connectivity.getSnapshot();
+      setState(current => disconnected
+        ? { ...current, stage: 'idle', queued: true }
+        : { ...current, stage: 'idle', error });
+    }
+  };
+
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+
+  useEffect(() => {
+    if (online && state.queued && state.stage === 'idle') {
+      refreshRef.current();
+    }
+  }, [online, state.queued, state.stage]);
+
+  const clearError = useCallback(() => {
+    setState(current => ({ ...current, error: null }));
+  }, []);
+
+  return { ...state, refreshing: state.stage !== 'idle', refresh, clearError };
+}
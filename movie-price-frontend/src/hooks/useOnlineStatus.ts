@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { connectivity, ConnectivityStore } from '../services/connectivity';
+
+export const useOnlineStatus = (store: ConnectivityStore = connectivity): boolean =>
+  useSyncExternalStore(store.subscribe, store.getSnapshot);
@@ -0,0 +1,34 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { PriceHistory, priceHistory, PriceHistoryIndex, ProviderPriceHistory } from '../services/priceHistory';
+import { isProviderHidden } from '../utils/providerPreferences';
+import { useProviderPreferences } from './useProviderPreferences';
+
+export interface PriceHistoryResult {
+  histories: PriceHistoryIndex;
+  previousVisitAt?: number;
+}
+
+/**
+ * Recorded price history for every movie, re-rendering as new prices are
+ * recorded. Providers the user hid are left out, as they are from the prices.
+ */
+export function usePriceHistory(history: PriceHistory = priceHistory): PriceHistoryResult {
+  const recorded = useSyncExternalStore(history.subscribe, history.getSnapshot);
+  const preferences = useProviderPreferences();
+  const histories = useMemo(() => {
+    if (!Object.values(preferences).includes('hidden')) {
+      return recorded;
+    }
+    const visible = new Map<string, ProviderPriceHistory[]>();
+    recorded.forEach((providers, movieKey) => {
+      visible.set(movieKey, providers.filter(provider => !isProviderHidden(preferences, provider.providerId)));
+    });
+    return visible;
+  }, [recorded, preferences]);
+
+  useEffect(() => {
+    history.load();
+  }, [history]);
+
+  return { histories, previousVisitAt: history.previousVisitAt };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { providerPreferences, ProviderPreferencesStore } from '../services/providerPreferences';
+import { ProviderPreferences } from '../utils/providerPreferences';
+
+export const useProviderPreferences = (store: ProviderPreferencesStore = providerPreferences): ProviderPreferences =>
+  useSyncExternalStore(store.subscribe, store.getSnapshot);
@@ -0,0 +1,35 @@
+import { movieApi } from '../services/movieApi';
+import { providerQueryKeys, queryCache } from '../services/queryCache';
+import { ApiProvider, ApiProviderInput, NewApiProviderInput, ProviderStatusReport } from '../types/Provider';
+import { useQuery } from './useQuery';
+
+export const useProviders = () =>
+  useQuery<ApiProvider[]>(providerQueryKeys.providers, () => movieApi.getProviders());
+
+export const useProvider = (id: string) =>
+  useQuery<ApiProvider>(providerQueryKeys.provider(id), () => movieApi.getProvider(id));
+
+export const useProviderStatus = () =>
+  useQuery<ProviderStatusReport>(providerQueryKeys.status, () => movieApi.getProviderStatus());
+
+// Same order as the API: priority first, then name.
+const byPriority = (a: ApiProvider, b: ApiProvider) =>
+  a.priority - b.priority || a.displayName.localeCompare(b.displayName);
+
+// Saves answer with the stored provider, so the cache is updated in place
+// rather than refetched.
+const storeProvider = (provider: ApiProvider) => {
+  queryCache.setData(providerQueryKeys.provider(provider.id), provider);
+  const providers = queryCache.getState<ApiProvider[]>(providerQueryKeys.providers).data;
+  if (providers) {
+    const others = providers.filter(existing => existing.id !== provider.id);
+    queryCache.setData(providerQueryKeys.providers, [...others, provider].sort(byPriority));
+  }
+  return provider;
+};
+
+export const createProvider = async (input: NewApiProviderInput) =>
+  storeProvider(await movieApi.createProvider(input));
+
+export const updateProvider = async (id: string, input: ApiProviderInput) =>
+  storeProvider(await movieApi.updateProvider(id, input));
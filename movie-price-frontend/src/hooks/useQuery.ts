@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QueryCache, queryCache, QueryState } from '../services/queryCache';
+
+export interface QueryResult<T> extends QueryState<T> {
+  /** True only while there is nothing to show yet: no data and no error. */
+  loading: boolean;
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Subscribes a component to a cache key. Cached data renders immediately and
+ * is revalidated in the background once stale; errors are surfaced through
+ * state, so callers never need their own loading/error bookkeeping.
+ */
+export function useQuery<T>(key: string, fetcher: () => Promise<T>, cache: QueryCache = queryCache): QueryResult<T> {
+  const [state, setState] = useState<QueryState<T>>(() => cache.getState<T>(key));
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const run = useCallback(
+    (force: boolean) =>
+      cache
+        .fetch(key, () => fetcherRef.current(), { force })
+        // Failures are already recorded in the cache entry and reach us via state.
+        .catch(() => undefined),
+    [cache, key]
+  );
+
+  useEffect(() => {
+    setState(cache.getState<T>(key));
+    const unsubscribe = cache.subscribe(key, () => setState(cache.getState<T>(key)));
+    run(false);
+    return unsubscribe;
+  }, [cache, key, run]);
+
+  const refetch = useCallback(() => run(true), [run]);
+
+  return {
+    ...state,
+    loading: state.data === undefined && state.error === undefined,
+    refetch,
+  };
+}
@@ -0,0 +1,36 @@
+import { useLayoutEffect, useRef } from 'react';
+
+// Kept for the session only: a reload starts at the top like any other page.
+const positions = new Map<string, number>();
+
+/**
+ * Remembers the window scroll position under `key` and returns to it the next
+ * time a component using the same key mounts, once `ready` (content tall
+ * enough to scroll to) is true. Positions are recorded on every scroll rather
+ * than on unmount, because by unmount the next page may already have
+ * shortened the document and clamped the position.
+ */
+export const useScrollRestoration = (key: string, ready: boolean) => {
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const restored = useRef(false);
+
+  useLayoutEffect(() => {
+    if (!ready || restored.current) {
+      return;
+    }
+    restored.current = true;
+    const saved = positions.get(keyRef.current);
+    if (saved) {
+      window.scrollTo(0, saved);
+    }
+  }, [ready]);
+
+  useLayoutEffect(() => {
+    const save = () => {
+      positions.set(keyRef.current, window.scrollY);
+    };
+    window.addEventListener('scroll', save, { passive: true });
+    return () => window.removeEventListener('scroll', save);
+  }, []);
+};
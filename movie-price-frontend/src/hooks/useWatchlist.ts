@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { ToastStore, toasts, Toast } from '../services/notifications';
+import { Watchlist, watchlist, WatchlistItem } from '../services/watchlist';
+
+export const useWatchlist = (list: Watchlist = watchlist): WatchlistItem[] =>
+  useSyncExternalStore(list.subscribe, list.getSnapshot);
+
+export const useToasts = (store: ToastStore = toasts): Toast[] =>
+  useSyncExternalStore(store.subscribe, store.getSnapshot);
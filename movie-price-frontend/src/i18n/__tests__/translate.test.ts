@@ -0,0 +1,39 @@
+import { de } from '../messages/de';
+import { en } from '../messages/en';
+import { fr } from '../messages/fr';
+import { MessageKey, Messages, translate } from '../translate';
+
+const placeholders = (message: Messages[MessageKey]) => {
+    const text = typeof message === 'string' ? message : Object.values(message).join(' ');
+    return Array.from(new Set(text.match(/\{\w+\}/g) ?? [])).sort();
+};
+
+describe('translate', () => {
+    test('fills in parameters', () => {
+        expect(translate('en-AU', 'app.watchlistLink', { count: 3 })).toBe('★ Watchlist (3)');
+        expect(translate('de-DE', 'detail.bestPrice', { provider: 'Filmworld', price: '14,99 €' }))
+            .toBe('Bestpreis: Filmworld - 14,99 €');
+    });
+
+    test('leaves placeholders without a parameter in place', () => {
+        expect(translate('en-AU', 'common.error')).toBe('Error: {message}');
+    });
+
+    test('picks the plural form for the count', () => {
+        expect(translate('en-AU', 'list.found', { count: 1 })).toBe('Found 1 movie');
+        expect(translate('en-AU', 'list.found', { count: 0 })).toBe('Found 0 movies');
+        // French treats zero as singular.
+        expect(translate('fr-FR', 'list.found', { count: 0 })).toBe('0 film trouvé');
+        expect(translate('fr-FR', 'list.found', { count: 2 })).toBe('2 films trouvés');
+    });
+
+    test('shares one catalog between regions of a language', () => {
+        expect(translate('en-US', 'toolbar.clear')).toBe(translate('en-GB', 'toolbar.clear'));
+    });
+
+    test.each([['fr', fr], ['de', de]])('%s uses the same placeholders as English', (_, catalog) => {
+        (Object.keys(en) as MessageKey[]).forEach((key) => {
+            expect([key, placeholders(catalog[key])]).toEqual([key, placeholders(en[key])]);
+        });
+    });
+});
@@ -0,0 +1,310 @@
+import { Messages } from '../translate';
+
+export const de: Messages = {
+  'app.title': '🎬 Filmpreisvergleich',
+  'app.refresh': '🔄 Daten aktualisieren',
+  'app.refreshing': '🔄 Wird aktualisiert...',
+  'app.refreshQueued': '🔄 Aktualisierung vorgemerkt',
+  'app.watchlistLink': '★ Merkliste ({count})',
+  'app.providersLink': '⚙ Anbieter',
+  'app.providerPreferencesLink': '🛒 Meine Anbieter',
+  'app.loadMoviesFailed': 'Filme konnten nicht geladen werden',
+  'app.pageNotFound': 'Seite nicht gefunden.',
+  'app.backToMovies': 'Zurück zu allen Filmen',
+  'app.skipToContent': 'Zum Hauptinhalt springen',
+
+  'locale.language': 'Sprache',
+  'locale.currency': 'Anzeigewährung',
+
+  'common.backToMovies': '← Zurück zu allen Filmen',
+  'common.loadingMovies': 'Filme werden geladen...',
+  'common.loading': 'Wird geladen...',
+  'common.error': 'Fehler: {message}',
+  'common.tryAgain': 'Erneut versuchen',
+  'common.notAvailable': 'k. A.',
+  'common.priceUnavailable': 'Preis nicht verfügbar',
+  'common.prices': 'Preise',
+  'common.movie': 'Film',
+
+  'error.notFound': 'Film nicht gefunden. Möglicherweise wurde er von allen Anbietern entfernt.',
+  'error.timeout': 'Der Filmdienst hat zu lange gebraucht. Bitte versuche es erneut.',
+  'error.network': 'Der Filmdienst ist nicht erreichbar. Prüfe deine Verbindung und versuche es erneut.',
+  'error.invalidResponse': 'Der Filmdienst hat Daten in einem unerwarteten Format geliefert.',
+  'error.adminKey': 'Die API hat die Änderung abgelehnt. Gib einen gültigen Admin-Schlüssel ein und versuche es erneut.',
+  'error.cardFailed': 'Dieser Film konnte nicht angezeigt werden.',
+  'error.gridFailed': 'Beim Anzeigen der Filme ist etwas schiefgelaufen.',
+  'error.pageFailed': 'Auf dieser Seite ist etwas schiefgelaufen.',
+  'error.startupTitle': 'Movie Price Comparison konnte nicht starten',
+  'error.startupConfig': 'Die Konfiguration fehlt oder ist ungültig. Wenn das weiterhin passiert, informiere bitte den Administrator der Website.',
+
+  'refresh.refreshing': 'Preise werden bei den Anbietern aktualisiert...',
+  'refresh.reloading': 'Aktualisierte Preise werden geladen...',
+  'refresh.providerMovies': { one: '{provider} ({count} Film)', other: '{provider} ({count} Filme)' },
+  'refresh.refreshed': 'Aktualisiert: {providers}',
+  'refresh.noProviders': 'Keine Anbieter aktiviert',
+  'refresh.failed': '{providers} nicht erreichbar',
+  'refresh.pricesChanged': { one: '{count} Preis geändert', other: '{count} Preise geändert' },
+  'refresh.bestPricesMoved': {
+    one: '{count} Bestpreis hat sich bewegt',
+    other: '{count} Bestpreise haben sich bewegt',
+  },
+  'refresh.lastRefreshed': 'Zuletzt aktualisiert {time}',
+  'refresh.loadedAt': 'Preise geladen {time}',
+
+  'offline.title': 'Sie sind offline.',
+  'offline.pricesAge': 'Die angezeigten Preise wurden zuletzt {age} aktualisiert ({time}).',
+  'offline.noPrices': 'Die Preise werden geladen, sobald Sie wieder online sind.',
+  'offline.refreshQueued': 'Die Aktualisierung startet, sobald Sie wieder online sind.',
+
+  'list.showing': '{visible} von {total} Filmen',
+  'list.found': { one: '{count} Film gefunden', other: '{count} Filme gefunden' },
+  'list.loadingMore': 'Weitere Filme werden geladen...',
+  'list.comparedCount': '{count} von {max} zum Vergleich ausgewählt',
+  'list.compareSelected': 'Auswahl vergleichen',
+  'list.clearSelection': 'Auswahl aufheben',
+  'list.noMovies': 'Keine Filme gefunden. Aktualisiere die Daten oder prüfe deine Suche.',
+  'list.title': 'Filme',
+  'list.totalSaving': { one: 'Das günstigste Angebot spart {saving} gegenüber dem teuersten', other: 'Die günstigsten Angebote für alle {count} Filme sparen {saving} gegenüber den teuersten' },
+
+  'toolbar.searchPlaceholder': 'Titel, Schauspieler oder Regie suchen',
+  'toolbar.search': 'Filme suchen',
+  'toolbar.genre': 'Genre',
+  'toolbar.allGenres': 'Alle Genres',
+  'toolbar.fromYear': 'Ab Jahr',
+  'toolbar.toYear': 'Bis Jahr',
+  'toolbar.minRating': 'Mindestbewertung',
+  'toolbar.anyRating': 'Jede Bewertung',
+  'toolbar.sortBy': 'Sortieren nach',
+  'toolbar.clear': 'Zurücksetzen',
+
+  'sort.default': 'Standardreihenfolge',
+  'sort.title': 'Titel (A-Z)',
+  'sort.year': 'Jahr (neueste zuerst)',
+  'sort.rating': 'Bewertung (höchste zuerst)',
+  'sort.price': 'Günstigster Preis',
+  'sort.deal': 'Bestes Angebot',
+
+  'card.bestPrice': 'Bestpreis:',
+  'card.priceDown': '▼ Gesunken von {price}',
+  'card.priceUp': '▲ Gestiegen von {price}',
+  'card.watch': '{title} merken',
+  'card.compare': 'Vergleichen',
+  'card.compareMovie': '{title} vergleichen',
+  'card.viewDetails': 'Details ansehen',
+  'card.dealSaving': '{saving} sparen ({percent} %)',
+  'card.dealScore': 'Angebotswert {score}/100',
+  'card.priceSummary': { one: 'Am günstigsten: {provider} {price} von {count} Anbieter', other: 'Am günstigsten: {provider} {price} von {count} Anbietern' },
+  'card.noPriceSummary': { one: 'Kein Preis von {count} Anbieter', other: 'Kein Preis von {count} Anbietern' },
+
+  'freshness.stale': 'Veraltet',
+  'freshness.cached': 'Aus dem Cache',
+  'freshness.staleDescription': '{provider} hat diesen Preis zuletzt am {time} aktualisiert',
+  'freshness.cachedDescription': '{provider} war nicht erreichbar; angezeigt wird der Preis vom {time}',
+
+  'insight.lowestSeen': 'Niedrigster bisheriger Preis',
+  'insight.droppedSinceVisit': 'Gesunken seit deinem letzten Besuch (war {price})',
+  'insight.sparkline': 'Bestpreisverlauf: {first} bis {last}, niedrigster {lowest}',
+
+  'history.empty': 'Noch kein Preisverlauf aufgezeichnet.',
+  'history.chart': 'Preisverlauf vom {from} bis {to}',
+  'history.legend': {
+    one: '{provider}: niedrigster {price}, {count} Preis aufgezeichnet',
+    other: '{provider}: niedrigster {price}, {count} Preise aufgezeichnet',
+  },
+
+  'detail.loading': 'Film wird geladen...',
+  'detail.loadFailed': 'Film konnte nicht geladen werden',
+  'detail.noProviders': 'Derzeit bietet kein Anbieter diesen Film an.',
+  'detail.provider': 'Anbieter',
+  'detail.price': 'Preis',
+  'detail.lastUpdated': 'Zuletzt aktualisiert',
+  'detail.bestPrice': 'Bestpreis: {provider} - {price}',
+  'detail.deal': 'Spart {saving} ({percent} %) gegenüber dem teuersten Anbieter. Die Preise schwanken um ±{spread}. Angebotswert {score}/100.',
+  'detail.priceHistory': 'Preisverlauf',
+  'detail.updated': 'Aktualisiert {time}',
+
+  'field.year': 'Jahr',
+  'field.type': 'Typ',
+  'field.rated': 'Altersfreigabe',
+  'field.released': 'Erschienen',
+  'field.runtime': 'Laufzeit',
+  'field.genre': 'Genre',
+  'field.director': 'Regie',
+  'field.writer': 'Drehbuch',
+  'field.actors': 'Besetzung',
+  'field.language': 'Sprache',
+  'field.country': 'Land',
+  'field.awards': 'Auszeichnungen',
+  'field.metascore': 'Metascore',
+  'field.rating': 'Bewertung',
+  'field.votes': 'Stimmen',
+
+  'watchlist.title': 'Merkliste',
+  'watchlist.export': 'Als JSON exportieren',
+  'watchlist.import': 'JSON importieren',
+  'watchlist.imported': { one: '{count} Film importiert.', other: '{count} Filme importiert.' },
+  'watchlist.importFailed': 'Import fehlgeschlagen.',
+  'watchlist.readFailed': 'Die Datei konnte nicht gelesen werden.',
+  'watchlist.enableNotifications': 'Browser-Benachrichtigungen aktivieren',
+  'watchlist.empty': 'Deine Merkliste ist leer. Markiere einen Film mit einem Stern, um seinen Preis zu beobachten.',
+  'watchlist.bestPriceNow': 'Aktueller Bestpreis',
+  'watchlist.alertBelow': 'Benachrichtigen unter ({currency})',
+  'watchlist.actions': 'Aktionen',
+  'watchlist.notListed': 'Derzeit nicht angeboten',
+  'watchlist.targetPrice': 'Zielpreis für {title}',
+  'watchlist.remove': 'Entfernen',
+  'watchlist.alertTitle': 'Preissenkung auf deiner Merkliste',
+  'watchlist.alert': '{title} kostet bei {provider} {price}, unter deinem Zielpreis von {target}',
+
+  'compare.title': 'Filme vergleichen',
+  'compare.selectTwo': 'Wähle mindestens zwei Filme in der Liste aus, um sie zu vergleichen.',
+  'compare.field': 'Feld',
+  'compare.remove': '{title} aus dem Vergleich entfernen',
+  'compare.totalBasket': 'Warenkorb gesamt',
+  'compare.missing': '{count} fehlen',
+  'compare.cheapestInRow': 'Am günstigsten für den Film',
+  'compare.cheapestInColumn': 'Am günstigsten beim Anbieter',
+  'compare.cheapestBasket': 'Günstigster Einzelanbieter für alle {count} Filme: {provider} ({price})',
+  'compare.noBasket': 'Kein einzelner Anbieter führt alle diese Filme.',
+  'compare.bestMix': 'Jeden Film beim günstigsten Anbieter kaufen: {price}',
+
+  'export.label': 'Exportieren',
+  'export.csv': 'Als CSV herunterladen',
+  'export.json': 'Als JSON herunterladen',
+  'export.print': 'Drucken',
+  'export.report': 'Bericht drucken',
+  'export.copyLink': 'Link zum Teilen kopieren',
+  'export.linkCopied': 'Link kopiert. Wer ihn öffnet, sieht diese Filme.',
+  'export.copyFailed': 'Der Link konnte nicht kopiert werden. Teilen Sie stattdessen diese Adresse: {url}',
+
+  'report.title': 'Preisbericht',
+  'report.summary': { one: '{count} Film, Preise vom {time}', other: '{count} Filme, Preise vom {time}' },
+  'report.empty': 'Keine Filme passen zu diesem Bericht.',
+  'report.cheapest': 'Am günstigsten',
+  'report.backToCompare': '← Zurück zum Vergleich',
+
+  'providerPreferences.title': 'Meine Anbieter',
+  'providerPreferences.intro': 'Wählen Sie, welche Anbieter für Sie zählen. Bestpreise, Sortierung, Angebotswerte, Vergleiche, Benachrichtigungen und Exporte berücksichtigen nur die behaltenen Anbieter. Der Preis eines angehefteten Anbieters ist der Bestpreis, sobald er einen hat; der eines herabgestuften nur, wenn kein anderer Anbieter einen Preis hat. Auf diesem Gerät gespeichert.',
+  'providerPreferences.rank': 'Einstellung',
+  'providerPreferences.rankFor': 'Einstellung für {provider}',
+  'providerPreferences.pinned': 'Angeheftet',
+  'providerPreferences.normal': 'Normal',
+  'providerPreferences.downRanked': 'Herabgestuft',
+  'providerPreferences.hidden': 'Ausgeblendet',
+  'providerPreferences.none': 'Noch keine Anbieter zur Auswahl.',
+  'providerPreferences.reset': 'Alle zurücksetzen',
+
+  'providers.title': 'Anbieter',
+  'providers.backToProviders': '← Zurück zu den Anbietern',
+  'providers.health': 'Anbieterstatus',
+  'providers.add': 'Anbieter hinzufügen',
+  'providers.note': 'Änderungen erscheinen in der Filmliste bei der nächsten Preisaktualisierung.',
+  'providers.loading': 'Anbieter werden geladen...',
+  'providers.loadFailed': 'Anbieter konnten nicht geladen werden',
+  'providers.none': 'Es sind keine Anbieter eingerichtet.',
+  'providers.provider': 'Anbieter',
+  'providers.baseUrl': 'Basis-URL',
+  'providers.priority': 'Priorität',
+  'providers.timeout': 'Zeitlimit',
+  'providers.timeoutSeconds': '{seconds} s',
+  'providers.apiToken': 'API-Token',
+  'providers.status': 'Status',
+  'providers.lastUpdated': 'Zuletzt aktualisiert',
+  'providers.actions': 'Aktionen',
+  'providers.tokenSet': 'Gesetzt',
+  'providers.tokenNotSet': 'Nicht gesetzt',
+  'providers.enabled': 'Aktiv',
+  'providers.disabled': 'Deaktiviert',
+  'providers.edit': 'Bearbeiten',
+  'providers.enable': 'Aktivieren',
+  'providers.disable': 'Deaktivieren',
+  'providers.updateFailed': '{provider} konnte nicht aktualisiert werden',
+  'providers.loadingOne': 'Anbieter wird geladen...',
+  'providers.loadOneFailed': 'Anbieter konnte nicht geladen werden',
+  'providers.notFound': 'Anbieter nicht gefunden.',
+  'providers.gone': 'Diesen Anbieter gibt es nicht mehr.',
+  'providers.editTitle': '{provider} bearbeiten',
+  'providers.saveChanges': 'Änderungen speichern',
+
+  'adminKey.label': 'Admin-Schlüssel',
+  'adminKey.hint': 'Nötig, um Anbieter hinzuzufügen oder zu ändern. Bleibt gespeichert, bis dieser Tab geschlossen wird.',
+
+  'providerForm.id': 'ID',
+  'providerForm.idHint': 'Kleinbuchstaben, Ziffern und Bindestriche; lässt sich später nicht ändern.',
+  'providerForm.displayName': 'Anzeigename',
+  'providerForm.baseUrl': 'Basis-URL',
+  'providerForm.apiToken': 'API-Token',
+  'providerForm.tokenSet': 'Ein Token ist gesetzt. Leer lassen, um es zu behalten, außer die Basis-URL ändert sich.',
+  'providerForm.tokenNotSet': 'Es ist kein Token gesetzt.',
+  'providerForm.priority': 'Priorität',
+  'providerForm.priorityHint': '1 wird zuerst abgefragt.',
+  'providerForm.timeoutSeconds': 'Zeitlimit (Sekunden)',
+  'providerForm.moviesEndpoint': 'Pfad der Filmliste',
+  'providerForm.movieDetailEndpoint': 'Pfad der Filmdetails',
+  'providerForm.movieDetailEndpointHint': '{id} wird durch die Film-ID ersetzt.',
+  'providerForm.enabled': 'Aktiv',
+  'providerForm.saving': 'Wird gespeichert...',
+  'providerForm.cancel': 'Abbrechen',
+  'providerForm.saveFailed': 'Der Anbieter konnte nicht gespeichert werden.',
+  'providerForm.invalidId': 'Nur Kleinbuchstaben, Ziffern und Bindestriche verwenden.',
+  'providerForm.missingDisplayName': 'Gib einen Anzeigenamen ein.',
+  'providerForm.invalidBaseUrl': 'Gib eine vollständige http(s)-URL ein.',
+  'providerForm.newTokenNeeded': 'Gib für die neue Basis-URL ein neues Token ein.',
+  'providerForm.invalidPriority': 'Gib eine ganze Zahl von 1 bis 100 ein.',
+  'providerForm.invalidTimeout': 'Gib eine ganze Zahl von Sekunden von 1 bis 300 ein.',
+  'providerForm.missingMoviesEndpoint': 'Gib den Pfad der Filmliste ein.',
+  'providerForm.invalidMovieDetailEndpoint': 'Der Pfad muss {id} enthalten.',
+
+  'providerStatus.title': 'Anbieterstatus',
+  'providerStatus.loading': 'Anbieterstatus wird geladen...',
+  'providerStatus.loadFailed': 'Anbieterstatus konnte nicht geladen werden',
+  'providerStatus.checking': 'Wird geprüft...',
+  'providerStatus.checkNow': 'Jetzt prüfen',
+  'providerStatus.note': 'Geprüft am {time}. Preise, die älter als {minutes} Minuten sind, gelten als veraltet; Preise aus einer früheren Aktualisierung, die während eines Anbieterausfalls behalten wurden, sind als aus dem Cache markiert.',
+  'providerStatus.servedFromCache': 'Zeigt zwischengespeicherte Preise der letzten erfolgreichen Aktualisierung',
+  'providerStatus.latency': 'Latenz',
+  'providerStatus.lastSuccess': 'Letzter Erfolg',
+  'providerStatus.lastError': 'Letzter Fehler',
+  'providerStatus.never': 'Nie',
+  'providerStatus.noError': 'Keiner',
+  'providerStatus.healthy': 'Funktioniert',
+  'providerStatus.failing': 'Fehlerhaft',
+  'providerStatus.disabled': 'Deaktiviert',
+  'providerStatus.unknown': 'Noch nicht aufgerufen',
+  'providerStatus.noCalls': 'Noch keine Aufrufe',
+  'providerStatus.chart': {
+    one: 'Letzter Aufruf: langsamster {latency}, {failures} fehlgeschlagen',
+    other: 'Letzte {count} Aufrufe: langsamster {latency}, {failures} fehlgeschlagen',
+  },
+
+  'command.group.general': 'Allgemein',
+  'command.group.navigation': 'Gehe zu',
+  'command.group.list': 'Filmliste',
+  'command.group.currency': 'Anzeigewährung',
+  'command.openPalette': 'Befehlspalette öffnen',
+  'command.showShortcuts': 'Tastenkürzel anzeigen',
+  'command.refresh': 'Preise aktualisieren',
+  'command.goToMovies': 'Zu den Filmen',
+  'command.goToWatchlist': 'Zur Merkliste',
+  'command.goToProviderPreferences': 'Zu meinen Anbietern',
+  'command.currency': 'Preise in {currency} anzeigen',
+  'command.focusSearch': 'Filme suchen',
+  'command.clearFilters': 'Filter zurücksetzen',
+  'command.filterGenre': 'Nach Genre filtern: {genre}',
+  'command.unfilterGenre': 'Nicht mehr nach Genre filtern: {genre}',
+  'command.sortBy': 'Sortieren nach: {sort}',
+  'command.nextMovie': 'Nächster Film',
+  'command.previousMovie': 'Vorheriger Film',
+
+  'palette.label': 'Befehlspalette',
+  'palette.placeholder': 'Filme und Befehle suchen…',
+  'palette.results': 'Passende Filme und Befehle',
+  'palette.noResults': 'Keine Filme oder Befehle gefunden.',
+
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.key': 'Taste',
+  'shortcuts.action': 'Aktion',
+  'shortcuts.gridKeys': 'Pfeiltasten, Pos1, Ende',
+  'shortcuts.gridAction': 'Zwischen Filmen im Raster wechseln',
+  'shortcuts.close': 'Schließen',
+};
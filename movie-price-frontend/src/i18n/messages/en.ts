@@ -0,0 +1,309 @@
+// English strings, and the source of the message keys every other catalog must
+// provide. `{name}` is replaced by the matching parameter; plural messages pick
+// a form with Intl.PluralRules on the `count` parameter.
+
+export const en = {
+  'app.title': '🎬 Movie Price Comparison',
+  'app.refresh': '🔄 Refresh Data',
+  'app.refreshing': '🔄 Refreshing...',
+  'app.refreshQueued': '🔄 Refresh queued',
+  'app.watchlistLink': '★ Watchlist ({count})',
+  'app.providersLink': '⚙ Providers',
+  'app.providerPreferencesLink': '🛒 My providers',
+  'app.loadMoviesFailed': 'Failed to load movies',
+  'app.pageNotFound': 'Page not found.',
+  'app.backToMovies': 'Back to all movies',
+  'app.skipToContent': 'Skip to main content',
+
+  'locale.language': 'Language',
+  'locale.currency': 'Display currency',
+
+  'common.backToMovies': '← Back to all movies',
+  'common.loadingMovies': 'Loading movies...',
+  'common.loading': 'Loading...',
+  'common.error': 'Error: {message}',
+  'common.tryAgain': 'Try Again',
+  'common.notAvailable': 'N/A',
+  'common.priceUnavailable': 'Price unavailable',
+  'common.prices': 'Prices',
+  'common.movie': 'Movie',
+
+  'error.notFound': 'Movie not found. It may have been removed by every provider.',
+  'error.timeout': 'The movie service took too long to respond. Please try again.',
+  'error.network': 'The movie service is unreachable. Check your connection and try again.',
+  'error.invalidResponse': 'The movie service returned data in an unexpected format.',
+  'error.adminKey': 'The API refused the change. Enter a valid admin key and try again.',
+  'error.cardFailed': 'This movie could not be displayed.',
+  'error.gridFailed': 'Something went wrong showing the movies.',
+  'error.pageFailed': 'Something went wrong on this page.',
+  'error.startupTitle': 'Movie Price Comparison could not start',
+  'error.startupConfig': 'Its configuration is missing or invalid. If this keeps happening, let the site administrator know.',
+
+  'refresh.refreshing': 'Refreshing prices from providers...',
+  'refresh.reloading': 'Loading updated prices...',
+  'refresh.providerMovies': { one: '{provider} ({count} movie)', other: '{provider} ({count} movies)' },
+  'refresh.refreshed': 'Refreshed {providers}',
+  'refresh.noProviders': 'No providers are enabled',
+  'refresh.failed': 'Could not reach {providers}',
+  'refresh.pricesChanged': { one: '{count} price changed', other: '{count} prices changed' },
+  'refresh.bestPricesMoved': { one: '{count} best price moved', other: '{count} best prices moved' },
+  'refresh.lastRefreshed': 'Last refreshed {time}',
+  'refresh.loadedAt': 'Prices loaded {time}',
+
+  'offline.title': 'You are offline.',
+  'offline.pricesAge': 'Prices shown were last updated {age} ({time}).',
+  'offline.noPrices': 'Prices will load once you reconnect.',
+  'offline.refreshQueued': 'Your refresh will run when you are back online.',
+
+  'list.showing': 'Showing {visible} of {total} movies',
+  'list.found': { one: 'Found {count} movie', other: 'Found {count} movies' },
+  'list.loadingMore': 'Loading more movies...',
+  'list.comparedCount': '{count} of {max} selected for comparison',
+  'list.compareSelected': 'Compare selected',
+  'list.clearSelection': 'Clear selection',
+  'list.noMovies': 'No movies found. Try refreshing the data or check your search query.',
+  'list.title': 'Movies',
+  'list.totalSaving': { one: 'Buying the cheapest option saves {saving} over the most expensive', other: 'Buying the cheapest option for all {count} movies saves {saving} over the most expensive' },
+
+  'toolbar.searchPlaceholder': 'Search title, actor or director',
+  'toolbar.search': 'Search movies',
+  'toolbar.genre': 'Genre',
+  'toolbar.allGenres': 'All genres',
+  'toolbar.fromYear': 'From year',
+  'toolbar.toYear': 'To year',
+  'toolbar.minRating': 'Minimum rating',
+  'toolbar.anyRating': 'Any rating',
+  'toolbar.sortBy': 'Sort by',
+  'toolbar.clear': 'Clear',
+
+  'sort.default': 'Default order',
+  'sort.title': 'Title (A-Z)',
+  'sort.year': 'Year (newest)',
+  'sort.rating': 'Rating (highest)',
+  'sort.price': 'Cheapest price',
+  'sort.deal': 'Best deal',
+
+  'card.bestPrice': 'Best Price:',
+  'card.priceDown': '▼ Down from {price}',
+  'card.priceUp': '▲ Up from {price}',
+  'card.watch': 'Watch {title}',
+  'card.compare': 'Compare',
+  'card.compareMovie': 'Compare {title}',
+  'card.viewDetails': 'View details',
+  'card.dealSaving': 'Save {saving} ({percent}%)',
+  'card.dealScore': 'Deal score {score}/100',
+  'card.priceSummary': { one: 'Cheapest: {provider} {price} of {count} provider', other: 'Cheapest: {provider} {price} of {count} providers' },
+  'card.noPriceSummary': { one: 'No price from {count} provider', other: 'No price from {count} providers' },
+
+  'freshness.stale': 'Stale',
+  'freshness.cached': 'From cache',
+  'freshness.staleDescription': '{provider} last updated this price {time}',
+  'freshness.cachedDescription': '{provider} could not be reached; showing its price from {time}',
+
+  'insight.lowestSeen': 'Lowest price seen',
+  'insight.droppedSinceVisit': 'Dropped since your last visit (was {price})',
+  'insight.sparkline': 'Best price history: {first} to {last}, lowest {lowest}',
+
+  'history.empty': 'No price history recorded yet.',
+  'history.chart': 'Price history from {from} to {to}',
+  'history.legend': {
+    one: '{provider}: lowest {price}, {count} price recorded',
+    other: '{provider}: lowest {price}, {count} prices recorded',
+  },
+
+  'detail.loading': 'Loading movie...',
+  'detail.loadFailed': 'Failed to load movie',
+  'detail.noProviders': 'No provider currently lists this movie.',
+  'detail.provider': 'Provider',
+  'detail.price': 'Price',
+  'detail.lastUpdated': 'Last updated',
+  'detail.bestPrice': 'Best Price: {provider} - {price}',
+  'detail.deal': 'Saves {saving} ({percent}%) over the most expensive provider. Prices vary by ±{spread}. Deal score {score}/100.',
+  'detail.priceHistory': 'Price history',
+  'detail.updated': 'Updated {time}',
+
+  'field.year': 'Year',
+  'field.type': 'Type',
+  'field.rated': 'Rated',
+  'field.released': 'Released',
+  'field.runtime': 'Runtime',
+  'field.genre': 'Genre',
+  'field.director': 'Director',
+  'field.writer': 'Writer',
+  'field.actors': 'Actors',
+  'field.language': 'Language',
+  'field.country': 'Country',
+  'field.awards': 'Awards',
+  'field.metascore': 'Metascore',
+  'field.rating': 'Rating',
+  'field.votes': 'Votes',
+
+  'watchlist.title': 'Watchlist',
+  'watchlist.export': 'Export JSON',
+  'watchlist.import': 'Import JSON',
+  'watchlist.imported': { one: 'Imported {count} movie.', other: 'Imported {count} movies.' },
+  'watchlist.importFailed': 'Import failed.',
+  'watchlist.readFailed': 'The file could not be read.',
+  'watchlist.enableNotifications': 'Enable browser notifications',
+  'watchlist.empty': 'Your watchlist is empty. Star a movie to watch its price.',
+  'watchlist.bestPriceNow': 'Best price now',
+  'watchlist.alertBelow': 'Alert me below ({currency})',
+  'watchlist.actions': 'Actions',
+  'watchlist.notListed': 'Not currently listed',
+  'watchlist.targetPrice': 'Target price for {title}',
+  'watchlist.remove': 'Remove',
+  'watchlist.alertTitle': 'Price drop on your watchlist',
+  'watchlist.alert': '{title} is {price} at {provider}, below your target of {target}',
+
+  'compare.title': 'Compare movies',
+  'compare.selectTwo': 'Select at least two movies on the list to compare them.',
+  'compare.field': 'Field',
+  'compare.remove': 'Remove {title} from comparison',
+  'compare.totalBasket': 'Total basket',
+  'compare.missing': 'Missing {count}',
+  'compare.cheapestInRow': 'Cheapest for the movie',
+  'compare.cheapestInColumn': 'Cheapest at the provider',
+  'compare.cheapestBasket': 'Cheapest single provider for all {count} movies: {provider} ({price})',
+  'compare.noBasket': 'No single provider sells all of these movies.',
+  'compare.bestMix': 'Buying each movie from its cheapest provider: {price}',
+
+  'export.label': 'Export',
+  'export.csv': 'Download CSV',
+  'export.json': 'Download JSON',
+  'export.print': 'Print',
+  'export.report': 'Print report',
+  'export.copyLink': 'Copy share link',
+  'export.linkCopied': 'Link copied. Anyone who opens it sees these movies.',
+  'export.copyFailed': 'Could not copy the link. Share this address instead: {url}',
+
+  'report.title': 'Price report',
+  'report.summary': { one: '{count} movie, prices as of {time}', other: '{count} movies, prices as of {time}' },
+  'report.empty': 'No movies match this report.',
+  'report.cheapest': 'Cheapest',
+  'report.backToCompare': '← Back to comparison',
+
+  'providerPreferences.title': 'My providers',
+  'providerPreferences.intro': 'Choose which providers count for you. Best prices, sorting, deal scores, comparisons, alerts and exports only use the providers you keep. A pinned provider’s price is the best price whenever it has one; a down-ranked provider’s only when no other provider has a price. Saved on this device.',
+  'providerPreferences.rank': 'Preference',
+  'providerPreferences.rankFor': 'Preference for {provider}',
+  'providerPreferences.pinned': 'Pinned',
+  'providerPreferences.normal': 'Normal',
+  'providerPreferences.downRanked': 'Down-ranked',
+  'providerPreferences.hidden': 'Hidden',
+  'providerPreferences.none': 'No providers to choose from yet.',
+  'providerPreferences.reset': 'Reset all',
+
+  'providers.title': 'Providers',
+  'providers.backToProviders': '← Back to providers',
+  'providers.health': 'Provider health',
+  'providers.add': 'Add provider',
+  'providers.note': 'Changes reach the movie list on the next price refresh.',
+  'providers.loading': 'Loading providers...',
+  'providers.loadFailed': 'Failed to load providers',
+  'providers.none': 'No providers are configured.',
+  'providers.provider': 'Provider',
+  'providers.baseUrl': 'Base URL',
+  'providers.priority': 'Priority',
+  'providers.timeout': 'Timeout',
+  'providers.timeoutSeconds': '{seconds}s',
+  'providers.apiToken': 'API token',
+  'providers.status': 'Status',
+  'providers.lastUpdated': 'Last updated',
+  'providers.actions': 'Actions',
+  'providers.tokenSet': 'Set',
+  'providers.tokenNotSet': 'Not set',
+  'providers.enabled': 'Enabled',
+  'providers.disabled': 'Disabled',
+  'providers.edit': 'Edit',
+  'providers.enable': 'Enable',
+  'providers.disable': 'Disable',
+  'providers.updateFailed': 'Failed to update {provider}',
+  'providers.loadingOne': 'Loading provider...',
+  'providers.loadOneFailed': 'Failed to load provider',
+  'providers.notFound': 'Provider not found.',
+  'providers.gone': 'This provider no longer exists.',
+  'providers.editTitle': 'Edit {provider}',
+  'providers.saveChanges': 'Save changes',
+
+  'adminKey.label': 'Admin key',
+  'adminKey.hint': 'Needed to add or change providers. Kept until this tab is closed.',
+
+  'providerForm.id': 'Id',
+  'providerForm.idHint': 'Lowercase letters, digits and dashes; cannot be changed later.',
+  'providerForm.displayName': 'Display name',
+  'providerForm.baseUrl': 'Base URL',
+  'providerForm.apiToken': 'API token',
+  'providerForm.tokenSet': 'A token is set. Leave blank to keep it, unless the base URL changes.',
+  'providerForm.tokenNotSet': 'No token is set.',
+  'providerForm.priority': 'Priority',
+  'providerForm.priorityHint': '1 is queried first.',
+  'providerForm.timeoutSeconds': 'Timeout (seconds)',
+  'providerForm.moviesEndpoint': 'Movie list path',
+  'providerForm.movieDetailEndpoint': 'Movie detail path',
+  'providerForm.movieDetailEndpointHint': '{id} is replaced with the movie id.',
+  'providerForm.enabled': 'Enabled',
+  'providerForm.saving': 'Saving...',
+  'providerForm.cancel': 'Cancel',
+  'providerForm.saveFailed': 'The provider could not be saved.',
+  'providerForm.invalidId': 'Use lowercase letters, digits and dashes only.',
+  'providerForm.missingDisplayName': 'Enter a display name.',
+  'providerForm.invalidBaseUrl': 'Enter a full http(s) URL.',
+  'providerForm.newTokenNeeded': 'Enter a new token for the new base URL.',
+  'providerForm.invalidPriority': 'Enter a whole number from 1 to 100.',
+  'providerForm.invalidTimeout': 'Enter a whole number of seconds from 1 to 300.',
+  'providerForm.missingMoviesEndpoint': 'Enter the movie list path.',
+  'providerForm.invalidMovieDetailEndpoint': 'The path must contain {id}.',
+
+  'providerStatus.title': 'Provider health',
+  'providerStatus.loading': 'Loading provider health...',
+  'providerStatus.loadFailed': 'Failed to load provider health',
+  'providerStatus.checking': 'Checking...',
+  'providerStatus.checkNow': 'Check now',
+  'providerStatus.note': 'Checked {time}. Prices older than {minutes} minutes are marked stale; prices kept from an earlier refresh while a provider was down are marked from cache.',
+  'providerStatus.servedFromCache': 'Serving cached prices from the last successful refresh',
+  'providerStatus.latency': 'Latency',
+  'providerStatus.lastSuccess': 'Last success',
+  'providerStatus.lastError': 'Last error',
+  'providerStatus.never': 'Never',
+  'providerStatus.noError': 'None',
+  'providerStatus.healthy': 'Healthy',
+  'providerStatus.failing': 'Failing',
+  'providerStatus.disabled': 'Disabled',
+  'providerStatus.unknown': 'Not called yet',
+  'providerStatus.noCalls': 'No calls yet',
+  'providerStatus.chart': {
+    one: 'Last call: slowest {latency}, {failures} failed',
+    other: 'Last {count} calls: slowest {latency}, {failures} failed',
+  },
+
+  'command.group.general': 'General',
+  'command.group.navigation': 'Go to',
+  'command.group.list': 'Movie list',
+  'command.group.currency': 'Display currency',
+  'command.openPalette': 'Open the command palette',
+  'command.showShortcuts': 'Show keyboard shortcuts',
+  'command.refresh': 'Refresh prices',
+  'command.goToMovies': 'Go to movies',
+  'command.goToWatchlist': 'Go to the watchlist',
+  'command.goToProviderPreferences': 'Go to my providers',
+  'command.currency': 'Show prices in {currency}',
+  'command.focusSearch': 'Search movies',
+  'command.clearFilters': 'Clear filters',
+  'command.filterGenre': 'Filter by genre: {genre}',
+  'command.unfilterGenre': 'Stop filtering by genre: {genre}',
+  'command.sortBy': 'Sort by: {sort}',
+  'command.nextMovie': 'Next movie',
+  'command.previousMovie': 'Previous movie',
+
+  'palette.label': 'Command palette',
+  'palette.placeholder': 'Search movies and commands…',
+  'palette.results': 'Matching movies and commands',
+  'palette.noResults': 'No movies or commands match.',
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.key': 'Key',
+  'shortcuts.action': 'Action',
+  'shortcuts.gridKeys': 'Arrow keys, Home, End',
+  'shortcuts.gridAction': 'Move between movies in the grid',
+  'shortcuts.close': 'Close',
+};
@@ -0,0 +1,310 @@
+import { Messages } from '../translate';
+
+export const fr: Messages = {
+  'app.title': '🎬 Comparateur de prix de films',
+  'app.refresh': '🔄 Actualiser les données',
+  'app.refreshing': '🔄 Actualisation...',
+  'app.refreshQueued': '🔄 Actualisation en attente',
+  'app.watchlistLink': '★ Liste de suivi ({count})',
+  'app.providersLink': '⚙ Fournisseurs',
+  'app.providerPreferencesLink': '🛒 Mes fournisseurs',
+  'app.loadMoviesFailed': 'Impossible de charger les films',
+  'app.pageNotFound': 'Page introuvable.',
+  'app.backToMovies': 'Retour à tous les films',
+  'app.skipToContent': 'Aller au contenu principal',
+
+  'locale.language': 'Langue',
+  'locale.currency': 'Devise d’affichage',
+
+  'common.backToMovies': '← Retour à tous les films',
+  'common.loadingMovies': 'Chargement des films...',
+  'common.loading': 'Chargement...',
+  'common.error': 'Erreur : {message}',
+  'common.tryAgain': 'Réessayer',
+  'common.notAvailable': 'N/D',
+  'common.priceUnavailable': 'Prix indisponible',
+  'common.prices': 'Prix',
+  'common.movie': 'Film',
+
+  'error.notFound': 'Film introuvable. Il a peut-être été retiré par tous les fournisseurs.',
+  'error.timeout': 'Le service de films a mis trop de temps à répondre. Veuillez réessayer.',
+  'error.network': 'Le service de films est injoignable. Vérifiez votre connexion et réessayez.',
+  'error.invalidResponse': 'Le service de films a renvoyé des données dans un format inattendu.',
+  'error.adminKey': 'L’API a refusé la modification. Saisissez une clé d’administration valide et réessayez.',
+  'error.cardFailed': 'Ce film n’a pas pu être affiché.',
+  'error.gridFailed': 'Un problème est survenu lors de l’affichage des films.',
+  'error.pageFailed': 'Un problème est survenu sur cette page.',
+  'error.startupTitle': 'Movie Price Comparison n’a pas pu démarrer',
+  'error.startupConfig': 'Sa configuration est absente ou invalide. Si le problème persiste, prévenez l’administrateur du site.',
+
+  'refresh.refreshing': 'Actualisation des prix auprès des fournisseurs...',
+  'refresh.reloading': 'Chargement des prix mis à jour...',
+  'refresh.providerMovies': { one: '{provider} ({count} film)', other: '{provider} ({count} films)' },
+  'refresh.refreshed': 'Actualisé : {providers}',
+  'refresh.noProviders': 'Aucun fournisseur n’est activé',
+  'refresh.failed': 'Impossible de joindre {providers}',
+  'refresh.pricesChanged': { one: '{count} prix modifié', other: '{count} prix modifiés' },
+  'refresh.bestPricesMoved': {
+    one: '{count} meilleur prix a changé',
+    other: '{count} meilleurs prix ont changé',
+  },
+  'refresh.lastRefreshed': 'Dernière actualisation le {time}',
+  'refresh.loadedAt': 'Prix chargés le {time}',
+
+  'offline.title': 'Vous êtes hors ligne.',
+  'offline.pricesAge': 'Les prix affichés ont été mis à jour {age} ({time}).',
+  'offline.noPrices': 'Les prix se chargeront dès votre reconnexion.',
+  'offline.refreshQueued': 'L’actualisation se lancera dès votre retour en ligne.',
+
+  'list.showing': '{visible} films affichés sur {total}',
+  'list.found': { one: '{count} film trouvé', other: '{count} films trouvés' },
+  'list.loadingMore': 'Chargement d’autres films...',
+  'list.comparedCount': '{count} sur {max} sélectionnés pour la comparaison',
+  'list.compareSelected': 'Comparer la sélection',
+  'list.clearSelection': 'Effacer la sélection',
+  'list.noMovies': 'Aucun film trouvé. Actualisez les données ou vérifiez votre recherche.',
+  'list.title': 'Films',
+  'list.totalSaving': { one: 'Choisir l’offre la moins chère fait économiser {saving} par rapport à la plus chère', other: 'Choisir l’offre la moins chère pour les {count} films fait économiser {saving} par rapport aux plus chères' },
+
+  'toolbar.searchPlaceholder': 'Titre, acteur ou réalisateur',
+  'toolbar.search': 'Rechercher des films',
+  'toolbar.genre': 'Genre',
+  'toolbar.allGenres': 'Tous les genres',
+  'toolbar.fromYear': 'À partir de',
+  'toolbar.toYear': 'Jusqu’à',
+  'toolbar.minRating': 'Note minimale',
+  'toolbar.anyRating': 'Toutes les notes',
+  'toolbar.sortBy': 'Trier par',
+  'toolbar.clear': 'Effacer',
+
+  'sort.default': 'Ordre par défaut',
+  'sort.title': 'Titre (A-Z)',
+  'sort.year': 'Année (plus récent)',
+  'sort.rating': 'Note (plus haute)',
+  'sort.price': 'Prix le plus bas',
+  'sort.deal': 'Meilleure affaire',
+
+  'card.bestPrice': 'Meilleur prix :',
+  'card.priceDown': '▼ En baisse, était {price}',
+  'card.priceUp': '▲ En hausse, était {price}',
+  'card.watch': 'Suivre {title}',
+  'card.compare': 'Comparer',
+  'card.compareMovie': 'Comparer {title}',
+  'card.viewDetails': 'Voir les détails',
+  'card.dealSaving': 'Économisez {saving} ({percent} %)',
+  'card.dealScore': 'Score d’affaire {score}/100',
+  'card.priceSummary': { one: 'Le moins cher : {provider} {price} sur {count} fournisseur', other: 'Le moins cher : {provider} {price} sur {count} fournisseurs' },
+  'card.noPriceSummary': { one: 'Aucun prix chez {count} fournisseur', other: 'Aucun prix chez {count} fournisseurs' },
+
+  'freshness.stale': 'Ancien',
+  'freshness.cached': 'En cache',
+  'freshness.staleDescription': '{provider} a mis à jour ce prix le {time}',
+  'freshness.cachedDescription': '{provider} est injoignable ; prix affiché du {time}',
+
+  'insight.lowestSeen': 'Prix le plus bas observé',
+  'insight.droppedSinceVisit': 'En baisse depuis votre dernière visite (était {price})',
+  'insight.sparkline': 'Historique du meilleur prix : de {first} à {last}, minimum {lowest}',
+
+  'history.empty': 'Aucun historique de prix enregistré pour l’instant.',
+  'history.chart': 'Historique des prix du {from} au {to}',
+  'history.legend': {
+    one: '{provider} : minimum {price}, {count} prix enregistré',
+    other: '{provider} : minimum {price}, {count} prix enregistrés',
+  },
+
+  'detail.loading': 'Chargement du film...',
+  'detail.loadFailed': 'Impossible de charger le film',
+  'detail.noProviders': 'Aucun fournisseur ne propose actuellement ce film.',
+  'detail.provider': 'Fournisseur',
+  'detail.price': 'Prix',
+  'detail.lastUpdated': 'Dernière mise à jour',
+  'detail.bestPrice': 'Meilleur prix : {provider} - {price}',
+  'detail.deal': 'Économise {saving} ({percent} %) par rapport au fournisseur le plus cher. Les prix varient de ±{spread}. Score d’affaire {score}/100.',
+  'detail.priceHistory': 'Historique des prix',
+  'detail.updated': 'Mis à jour le {time}',
+
+  'field.year': 'Année',
+  'field.type': 'Type',
+  'field.rated': 'Classification',
+  'field.released': 'Sortie',
+  'field.runtime': 'Durée',
+  'field.genre': 'Genre',
+  'field.director': 'Réalisateur',
+  'field.writer': 'Scénariste',
+  'field.actors': 'Acteurs',
+  'field.language': 'Langue',
+  'field.country': 'Pays',
+  'field.awards': 'Récompenses',
+  'field.metascore': 'Metascore',
+  'field.rating': 'Note',
+  'field.votes': 'Votes',
+
+  'watchlist.title': 'Liste de suivi',
+  'watchlist.export': 'Exporter en JSON',
+  'watchlist.import': 'Importer un JSON',
+  'watchlist.imported': { one: '{count} film importé.', other: '{count} films importés.' },
+  'watchlist.importFailed': 'L’importation a échoué.',
+  'watchlist.readFailed': 'Le fichier n’a pas pu être lu.',
+  'watchlist.enableNotifications': 'Activer les notifications du navigateur',
+  'watchlist.empty': 'Votre liste de suivi est vide. Ajoutez un film en étoile pour suivre son prix.',
+  'watchlist.bestPriceNow': 'Meilleur prix actuel',
+  'watchlist.alertBelow': 'M’alerter en dessous de ({currency})',
+  'watchlist.actions': 'Actions',
+  'watchlist.notListed': 'Actuellement non proposé',
+  'watchlist.targetPrice': 'Prix cible pour {title}',
+  'watchlist.remove': 'Retirer',
+  'watchlist.alertTitle': 'Baisse de prix dans votre liste de suivi',
+  'watchlist.alert': '{title} est à {price} chez {provider}, sous votre objectif de {target}',
+
+  'compare.title': 'Comparer des films',
+  'compare.selectTwo': 'Sélectionnez au moins deux films dans la liste pour les comparer.',
+  'compare.field': 'Champ',
+  'compare.remove': 'Retirer {title} de la comparaison',
+  'compare.totalBasket': 'Panier total',
+  'compare.missing': '{count} manquant(s)',
+  'compare.cheapestInRow': 'Le moins cher pour ce film',
+  'compare.cheapestInColumn': 'Le moins cher chez ce fournisseur',
+  'compare.cheapestBasket': 'Fournisseur unique le moins cher pour les {count} films : {provider} ({price})',
+  'compare.noBasket': 'Aucun fournisseur ne propose tous ces films.',
+  'compare.bestMix': 'En achetant chaque film au meilleur prix : {price}',
+
+  'export.label': 'Exporter',
+  'export.csv': 'Télécharger en CSV',
+  'export.json': 'Télécharger en JSON',
+  'export.print': 'Imprimer',
+  'export.report': 'Imprimer le rapport',
+  'export.copyLink': 'Copier le lien de partage',
+  'export.linkCopied': 'Lien copié. Toute personne qui l’ouvre verra ces films.',
+  'export.copyFailed': 'Impossible de copier le lien. Partagez plutôt cette adresse : {url}',
+
+  'report.title': 'Rapport de prix',
+  'report.summary': { one: '{count} film, prix au {time}', other: '{count} films, prix au {time}' },
+  'report.empty': 'Aucun film ne correspond à ce rapport.',
+  'report.cheapest': 'Le moins cher',
+  'report.backToCompare': '← Retour à la comparaison',
+
+  'providerPreferences.title': 'Mes fournisseurs',
+  'providerPreferences.intro': 'Choisissez les fournisseurs qui comptent pour vous. Meilleurs prix, tri, scores d’affaire, comparaisons, alertes et exports n’utilisent que les fournisseurs conservés. Le prix d’un fournisseur épinglé est le meilleur prix dès qu’il en a un ; celui d’un fournisseur rétrogradé seulement si aucun autre n’a de prix. Enregistré sur cet appareil.',
+  'providerPreferences.rank': 'Préférence',
+  'providerPreferences.rankFor': 'Préférence pour {provider}',
+  'providerPreferences.pinned': 'Épinglé',
+  'providerPreferences.normal': 'Normal',
+  'providerPreferences.downRanked': 'Rétrogradé',
+  'providerPreferences.hidden': 'Masqué',
+  'providerPreferences.none': 'Aucun fournisseur à choisir pour le moment.',
+  'providerPreferences.reset': 'Tout réinitialiser',
+
+  'providers.title': 'Fournisseurs',
+  'providers.backToProviders': '← Retour aux fournisseurs',
+  'providers.health': 'État des fournisseurs',
+  'providers.add': 'Ajouter un fournisseur',
+  'providers.note': 'Les modifications apparaissent dans la liste des films à la prochaine actualisation des prix.',
+  'providers.loading': 'Chargement des fournisseurs...',
+  'providers.loadFailed': 'Impossible de charger les fournisseurs',
+  'providers.none': 'Aucun fournisseur n’est configuré.',
+  'providers.provider': 'Fournisseur',
+  'providers.baseUrl': 'URL de base',
+  'providers.priority': 'Priorité',
+  'providers.timeout': 'Délai',
+  'providers.timeoutSeconds': '{seconds} s',
+  'providers.apiToken': 'Jeton d’API',
+  'providers.status': 'Statut',
+  'providers.lastUpdated': 'Dernière mise à jour',
+  'providers.actions': 'Actions',
+  'providers.tokenSet': 'Défini',
+  'providers.tokenNotSet': 'Non défini',
+  'providers.enabled': 'Activé',
+  'providers.disabled': 'Désactivé',
+  'providers.edit': 'Modifier',
+  'providers.enable': 'Activer',
+  'providers.disable': 'Désactiver',
+  'providers.updateFailed': 'Impossible de mettre à jour {provider}',
+  'providers.loadingOne': 'Chargement du fournisseur...',
+  'providers.loadOneFailed': 'Impossible de charger le fournisseur',
+  'providers.notFound': 'Fournisseur introuvable.',
+  'providers.gone': 'Ce fournisseur n’existe plus.',
+  'providers.editTitle': 'Modifier {provider}',
+  'providers.saveChanges': 'Enregistrer',
+
+  'adminKey.label': 'Clé d’administration',
+  'adminKey.hint': 'Nécessaire pour ajouter ou modifier des fournisseurs. Conservée jusqu’à la fermeture de cet onglet.',
+
+  'providerForm.id': 'Identifiant',
+  'providerForm.idHint': 'Lettres minuscules, chiffres et tirets ; ne peut plus être modifié ensuite.',
+  'providerForm.displayName': 'Nom affiché',
+  'providerForm.baseUrl': 'URL de base',
+  'providerForm.apiToken': 'Jeton d’API',
+  'providerForm.tokenSet': 'Un jeton est défini. Laissez vide pour le conserver, sauf si l’URL de base change.',
+  'providerForm.tokenNotSet': 'Aucun jeton n’est défini.',
+  'providerForm.priority': 'Priorité',
+  'providerForm.priorityHint': '1 est interrogé en premier.',
+  'providerForm.timeoutSeconds': 'Délai (secondes)',
+  'providerForm.moviesEndpoint': 'Chemin de la liste des films',
+  'providerForm.movieDetailEndpoint': 'Chemin du détail d’un film',
+  'providerForm.movieDetailEndpointHint': '{id} est remplacé par l’identifiant du film.',
+  'providerForm.enabled': 'Activé',
+  'providerForm.saving': 'Enregistrement...',
+  'providerForm.cancel': 'Annuler',
+  'providerForm.saveFailed': 'Le fournisseur n’a pas pu être enregistré.',
+  'providerForm.invalidId': 'Utilisez uniquement des lettres minuscules, des chiffres et des tirets.',
+  'providerForm.missingDisplayName': 'Saisissez un nom affiché.',
+  'providerForm.invalidBaseUrl': 'Saisissez une URL http(s) complète.',
+  'providerForm.newTokenNeeded': 'Saisissez un nouveau jeton pour la nouvelle URL de base.',
+  'providerForm.invalidPriority': 'Saisissez un nombre entier de 1 à 100.',
+  'providerForm.invalidTimeout': 'Saisissez un nombre entier de secondes de 1 à 300.',
+  'providerForm.missingMoviesEndpoint': 'Saisissez le chemin de la liste des films.',
+  'providerForm.invalidMovieDetailEndpoint': 'Le chemin doit contenir {id}.',
+
+  'providerStatus.title': 'État des fournisseurs',
+  'providerStatus.loading': 'Chargement de l’état des fournisseurs...',
+  'providerStatus.loadFailed': 'Impossible de charger l’état des fournisseurs',
+  'providerStatus.checking': 'Vérification...',
+  'providerStatus.checkNow': 'Vérifier maintenant',
+  'providerStatus.note': 'Vérifié le {time}. Les prix de plus de {minutes} minutes sont marqués comme anciens ; ceux conservés d’une actualisation précédente pendant la panne d’un fournisseur sont marqués comme issus du cache.',
+  'providerStatus.servedFromCache': 'Prix en cache de la dernière actualisation réussie',
+  'providerStatus.latency': 'Latence',
+  'providerStatus.lastSuccess': 'Dernier succès',
+  'providerStatus.lastError': 'Dernière erreur',
+  'providerStatus.never': 'Jamais',
+  'providerStatus.noError': 'Aucune',
+  'providerStatus.healthy': 'Opérationnel',
+  'providerStatus.failing': 'En échec',
+  'providerStatus.disabled': 'Désactivé',
+  'providerStatus.unknown': 'Pas encore appelé',
+  'providerStatus.noCalls': 'Aucun appel pour l’instant',
+  'providerStatus.chart': {
+    one: 'Dernier appel : plus lent {latency}, {failures} en échec',
+    other: '{count} derniers appels : plus lent {latency}, {failures} en échec',
+  },
+
+  'command.group.general': 'Général',
+  'command.group.navigation': 'Aller à',
+  'command.group.list': 'Liste des films',
+  'command.group.currency': 'Devise d’affichage',
+  'command.openPalette': 'Ouvrir la palette de commandes',
+  'command.showShortcuts': 'Afficher les raccourcis clavier',
+  'command.refresh': 'Actualiser les prix',
+  'command.goToMovies': 'Aller aux films',
+  'command.goToWatchlist': 'Aller à la liste de suivi',
+  'command.goToProviderPreferences': 'Aller à mes fournisseurs',
+  'command.currency': 'Afficher les prix en {currency}',
+  'command.focusSearch': 'Rechercher des films',
+  'command.clearFilters': 'Effacer les filtres',
+  'command.filterGenre': 'Filtrer par genre : {genre}',
+  'command.unfilterGenre': 'Ne plus filtrer par genre : {genre}',
+  'command.sortBy': 'Trier par : {sort}',
+  'command.nextMovie': 'Film suivant',
+  'command.previousMovie': 'Film précédent',
+
+  'palette.label': 'Palette de commandes',
+  'palette.placeholder': 'Rechercher des films et des commandes…',
+  'palette.results': 'Films et commandes correspondants',
+  'palette.noResults': 'Aucun film ni aucune commande ne correspond.',
+
+  'shortcuts.title': 'Raccourcis clavier',
+  'shortcuts.key': 'Touche',
+  'shortcuts.action': 'Action',
+  'shortcuts.gridKeys': 'Flèches, Début, Fin',
+  'shortcuts.gridAction': 'Passer d’un film à l’autre dans la grille',
+  'shortcuts.close': 'Fermer',
+};
@@ -0,0 +1,52 @@
+import { de } from './messages/de';
+import { en } from './messages/en';
+import { fr } from './messages/fr';
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type MessageKey = keyof typeof en;
+
+/** A full catalog; the compiler rejects a translation missing any English key. */
+export type Messages = Record<MessageKey, string | PluralMessage>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const LOCALES = ['en-AU', 'en-NZ', 'en-US', 'en-GB', 'fr-FR', 'de-DE'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en-AU';
+
+/** Each locale's name in its own language, for the language picker. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'en-AU': 'English (Australia)',
+  'en-NZ': 'English (New Zealand)',
+  'en-US': 'English (United States)',
+  'en-GB': 'English (United Kingdom)',
+  'fr-FR': 'Français (France)',
+  'de-DE': 'Deutsch (Deutschland)',
+};
+
+// Catalogs are per language; the region only changes number and date formats.
+const catalogs: Record<string, Messages> = { en, fr, de };
+
+export const isSupportedLocale = (value: unknown): value is Locale =>
+  LOCALES.includes(value as Locale);
+
+const interpolate = (message: string, params: MessageParams) =>
+  message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const catalog = catalogs[locale.split('-')[0]] ?? en;
+  const message: string | PluralMessage = catalog[key] ?? en[key];
+  if (typeof message === 'string') {
+    return interpolate(message, params);
+  }
+  const count = Number(params.count ?? 0);
+  const form = new Intl.PluralRules(locale).select(count);
+  return interpolate(message[form] ?? message.other, params);
+};
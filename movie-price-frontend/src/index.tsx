@@ -1,13 +1,55 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import StartupError from './components/StartupError';
+import { diagnostics } from './services/diagnostics';
+import { movieApi } from './services/movieApi';
+import { preferences } from './services/preferences';
+import { loadRuntimeConfig, setRuntimeConfig } from './services/runtimeConfig';
+import * as serviceWorkerRegistration from './serviceWorkerRegistration';
 import './index.css';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// The API address, timeouts, features and default locale come from
+// /config.json, so the same build runs in every environment.
+const start = async () => {
+  const config = await loadRuntimeConfig();
+  setRuntimeConfig(config);
+  movieApi.configure({
+    baseUrl: config.apiBaseUrl,
+    timeoutMs: config.timeouts.requestMs,
+    refreshTimeoutMs: config.timeouts.refreshMs,
+  });
+  preferences.setDefaults({ locale: config.defaultLocale, currency: config.defaultCurrency });
+
+  // REACT_APP_MOCK_API=<scenario> serves the API from local fixtures. The
+  // variable is inlined at build time, so normal builds never load them.
+  const mockApi = process.env.REACT_APP_MOCK_API;
+  if (mockApi) {
+    const { installMockBackend } = await import('./mocks/mockBackend');
+    installMockBackend(mockApi);
+  }
+
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+
+  // Render errors, failed API calls and Web Vitals go to the API's log.
+  if (config.features.diagnostics) {
+    diagnostics.install(movieApi.getDiagnosticsUrl());
+  }
+};
+
+// Diagnostics are not installed yet (their URL comes from the config), so the
+// failure is shown on the page rather than reported.
+start().catch((error) => {
+  root.render(<StartupError error={error} />);
+});
+
+// Precaches the app shell and caches prices and posters for offline use.
+serviceWorkerRegistration.register();
@@ -0,0 +1,119 @@
+import { NotFoundError, ServerError, TimeoutError } from '../../services/apiErrors';
+import { MovieApiService } from '../../services/movieApi';
+import { fixtureMovieDetails, fixtureMovies, fixtureProviders, fixtureRefreshResult } from '../fixtures';
+import { createMockBackend, isMockScenario, MockBackendOptions } from '../mockBackend';
+
+// Exercises the mock backend through the real client, the same way `npm start` uses it.
+const movieApi = new MovieApiService({ retries: 0 });
+const originalFetch = global.fetch;
+const firstPage = { page: 1, pageSize: 100 };
+
+const useMockBackend = (options: MockBackendOptions = {}) => {
+    global.fetch = createMockBackend(options);
+};
+
+describe('mock backend', () => {
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    describe('default scenario', () => {
+        beforeEach(() => {
+            useMockBackend();
+        });
+
+        test('serves the fixture catalogue in pages', async () => {
+            const page = await movieApi.getMovies({ page: 2, pageSize: 2 });
+
+            expect(page.items).toEqual(fixtureMovies.slice(2, 4));
+            expect(page).toMatchObject({ page: 2, pageSize: 2, totalCount: fixtureMovies.length, totalPages: 3 });
+        });
+
+        test('rejects invalid paging like the API', async () => {
+            const error = await movieApi.getMovies({ page: 1, pageSize: 500 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(ServerError);
+            expect(error.status).toBe(400);
+            expect(error.serverMessage).toBe('pageSize must be between 1 and 200');
+        });
+
+        test('finds details by canonical id or provider movie id', async () => {
+            const [detail] = fixtureMovieDetails;
+
+            await expect(movieApi.getMovieDetail(detail.id)).resolves.toEqual(detail);
+            await expect(movieApi.getMovieDetail(detail.prices[1].movieId)).resolves.toEqual(detail);
+        });
+
+        test('answers 404 with the API message for unknown movies', async () => {
+            const error = await movieApi.getMovieDetail('cw9999999').catch(e => e);
+
+            expect(error).toBeInstanceOf(NotFoundError);
+            expect(error.serverMessage).toBe('Movie with ID cw9999999 not found');
+        });
+
+        test('refreshes and keeps provider writes for the life of the backend', async () => {
+            await expect(movieApi.refreshMovieData()).resolves.toEqual(fixtureRefreshResult);
+
+            const { hasApiToken, lastUpdated, name, ...input } = fixtureProviders[0];
+            const created = await movieApi.createProvider({ ...input, id: 'moviemax', displayName: 'MovieMax', apiToken: 'secret' });
+            const conflict = await movieApi.createProvider({ ...input, id: 'moviemax' }).catch(e => e);
+
+            expect(created).toMatchObject({ id: 'moviemax', displayName: 'MovieMax', hasApiToken: true });
+            expect(conflict.status).toBe(409);
+            expect((await movieApi.getProviders()).map(provider => provider.id)).toEqual(['cinemaworld', 'filmworld', 'moviemax']);
+        });
+    });
+
+    test('slow-provider delays movie responses past a short client timeout', async () => {
+        useMockBackend({ scenario: 'slow-provider', slowProviderDelayMs: 50 });
+
+        await expect(movieApi.getMovies(firstPage, { timeoutMs: 10 })).rejects.toBeInstanceOf(TimeoutError);
+        await expect(movieApi.getMovies(firstPage)).resolves.toMatchObject({ items: fixtureMovies });
+        expect((await movieApi.getProviderStatus()).providers[1].latencyMs).toBe(50);
+    });
+
+    test('provider-missing drops the provider from prices, refreshes and status', async () => {
+        useMockBackend({ scenario: 'provider-missing' });
+
+        const { items: movies } = await movieApi.getMovies(firstPage);
+        const refresh = await movieApi.refreshMovieData();
+        const status = await movieApi.getProviderStatus();
+
+        expect(movies.flatMap(movie => movie.prices).every(price => price.providerId === 'cinemaworld')).toBe(true);
+        expect(movies[1].cheapestPrice?.provider).toBe('Cinemaworld');
+        expect(refresh.providers.map(provider => [provider.providerId, provider.succeeded])).toEqual([['cinemaworld', true], ['filmworld', false]]);
+        expect(status.providers[1]).toMatchObject({ providerId: 'filmworld', state: 'failing' });
+    });
+
+    test('null-prices keeps the listing but without a price', async () => {
+        useMockBackend({ scenario: 'null-prices' });
+
+        const detail = await movieApi.getMovieDetail(fixtureMovieDetails[1].id);
+
+        expect(detail.prices.find(price => price.providerId === 'filmworld')?.price).toBeNull();
+        expect(detail.cheapestPrice?.providerId).toBe('cinemaworld');
+    });
+
+    test('not-found answers 404 for every movie detail', async () => {
+        useMockBackend({ scenario: 'not-found' });
+
+        await expect(movieApi.getMovieDetail(fixtureMovieDetails[0].id)).rejects.toBeInstanceOf(NotFoundError);
+        await expect(movieApi.getMovies(firstPage)).resolves.toMatchObject({ totalCount: fixtureMovies.length });
+    });
+
+    test('server-error fails every endpoint with its API message', async () => {
+        useMockBackend({ scenario: 'server-error' });
+
+        const error = await movieApi.getMovies(firstPage).catch(e => e);
+
+        expect(error).toBeInstanceOf(ServerError);
+        expect(error.status).toBe(500);
+        expect(error.serverMessage).toBe('An error occurred while retrieving movies');
+        await expect(movieApi.refreshMovieData()).rejects.toThrow('Failed to refresh movie data');
+    });
+
+    test('recognises scenario names', () => {
+        expect(isMockScenario('null-prices')).toBe(true);
+        expect(isMockScenario('true')).toBe(false);
+    });
+});
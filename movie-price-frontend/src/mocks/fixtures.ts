@@ -0,0 +1,220 @@
+import { MovieComparison, MovieDetail, PriceInfo, RefreshResult } from '../types/Movie';
+import { ApiProvider, ProviderStatusReport } from '../types/Provider';
+import { getCheapestPrice } from '../utils/priceChanges';
+
+// A small catalogue in the shape the .NET API returns, modelled on what
+// Cinemaworld and Filmworld actually list. Shared by the mock backend and by
+// tests, so keep values stable: tests assert on them.
+
+export const FIXTURE_UPDATED_AT = '2024-03-01T09:30:00Z';
+
+interface FixtureMovie extends Omit<MovieDetail, 'prices' | 'cheapestPrice' | 'updatedAt'> {
+  /** Provider movie ids and prices; a provider missing here does not list the movie. */
+  listings: { cinemaworld?: number | null; filmworld?: number | null };
+  /** The providers' id for the movie, without their cw/fw prefix. */
+  imdbId: string;
+}
+
+const PROVIDER_NAMES = { cinemaworld: 'Cinemaworld', filmworld: 'Filmworld' };
+const PROVIDER_PREFIXES = { cinemaworld: 'cw', filmworld: 'fw' };
+
+const catalogue: FixtureMovie[] = [
+  {
+    id: 'star-wars-episode-iv-a-new-hope-1977',
+    imdbId: '0076759',
+    title: 'Star Wars: Episode IV - A New Hope',
+    year: '1977',
+    type: 'movie',
+    rated: 'PG',
+    released: '25 May 1977',
+    runtime: '121 min',
+    genre: 'Action, Adventure, Fantasy',
+    director: 'George Lucas',
+    writer: 'George Lucas',
+    actors: 'Mark Hamill, Harrison Ford, Carrie Fisher, Peter Cushing',
+    plot: 'Luke Skywalker joins forces with a Jedi Knight, a cocky pilot, a Wookiee and two droids to save the galaxy from the Empire\'s world-destroying battle station.',
+    language: 'English',
+    country: 'USA',
+    awards: 'Won 6 Oscars. Another 48 wins & 28 nominations.',
+    poster: 'https://m.media-amazon.com/images/M/MV5BOTA5NjhiOTAtZWM0ZC00MWNhLThiMzEtZDFkOTk2OTU1ZDJkXkEyXkFqcGdeQXVyMTA4NDI1NTQx._V1_SX300.jpg',
+    metascore: '92',
+    rating: '8.7',
+    votes: '915,459',
+    listings: { cinemaworld: 123.5, filmworld: 129.9 },
+  },
+  {
+    id: 'star-wars-episode-v-the-empire-strikes-back-1980',
+    imdbId: '0080684',
+    title: 'Star Wars: Episode V - The Empire Strikes Back',
+    year: '1980',
+    type: 'movie',
+    rated: 'PG',
+    released: '20 Jun 1980',
+    runtime: '124 min',
+    genre: 'Action, Adventure, Fantasy',
+    director: 'Irvin Kershner',
+    writer: 'Leigh Brackett, Lawrence Kasdan, George Lucas',
+    actors: 'Mark Hamill, Harrison Ford, Carrie Fisher, Billy Dee Williams',
+    plot: 'After the Rebels are overpowered by the Empire, Luke Skywalker begins Jedi training with Yoda, while his friends are pursued across the galaxy by Darth Vader.',
+    language: 'English',
+    country: 'USA',
+    awards: 'Won 1 Oscar. Another 19 wins & 19 nominations.',
+    poster: 'https://m.media-amazon.com/images/M/MV5BMjE2MzQwMTgxN15BMl5BanBnXkFtZTcwMDQzNjk2OQ@@._V1_SX300.jpg',
+    metascore: '82',
+    rating: '8.7',
+    votes: '842,451',
+    listings: { cinemaworld: 13.5, filmworld: 12.5 },
+  },
+  {
+    id: 'star-wars-episode-vi-return-of-the-jedi-1983',
+    imdbId: '0086190',
+    title: 'Star Wars: Episode VI - Return of the Jedi',
+    year: '1983',
+    type: 'movie',
+    rated: 'PG',
+    released: '25 May 1983',
+    runtime: '131 min',
+    genre: 'Action, Adventure, Fantasy',
+    director: 'Richard Marquand',
+    writer: 'Lawrence Kasdan, George Lucas',
+    actors: 'Mark Hamill, Harrison Ford, Carrie Fisher, Billy Dee Williams',
+    plot: 'The Rebels dispatch to Endor to destroy the second Death Star, while Luke struggles to help Darth Vader back from the dark side.',
+    language: 'English',
+    country: 'USA',
+    awards: 'Nominated for 4 Oscars. Another 22 wins & 16 nominations.',
+    poster: 'https://m.media-amazon.com/images/M/MV5BMTQ0MzI1NjYwOF5BMl5BanBnXkFtZTgwODU3NDU2MTE@._V1._CR93,97,1209,1861_SX89_AL_.jpg_V1_SX300.jpg',
+    metascore: '58',
+    rating: '8.4',
+    votes: '686,479',
+    listings: { cinemaworld: 253.5, filmworld: 69.5 },
+  },
+  {
+    id: 'star-wars-episode-vii-the-force-awakens-2015',
+    imdbId: '2488496',
+    title: 'Star Wars: Episode VII - The Force Awakens',
+    year: '2015',
+    type: 'movie',
+    rated: 'PG-13',
+    released: '18 Dec 2015',
+    runtime: '138 min',
+    genre: 'Action, Adventure, Fantasy',
+    director: 'J.J. Abrams',
+    writer: 'Lawrence Kasdan, J.J. Abrams, Michael Arndt',
+    actors: 'Harrison Ford, Mark Hamill, Carrie Fisher, Adam Driver',
+    plot: 'Three decades after the Empire\'s defeat, a new threat arises in the militant First Order.',
+    language: 'English',
+    country: 'USA',
+    awards: 'Nominated for 5 Oscars. Another 57 wins & 119 nominations.',
+    poster: 'https://m.media-amazon.com/images/M/MV5BOTAzODEzNDAzMl5BMl5BanBnXkFtZTgwMDU1MTgzNzE@._V1_SX300.jpg',
+    metascore: '81',
+    rating: '7.9',
+    votes: '902,618',
+    // Filmworld has never listed this one.
+    listings: { cinemaworld: 25 },
+  },
+  {
+    id: 'star-wars-episode-i-the-phantom-menace-1999',
+    imdbId: '0120915',
+    title: 'Star Wars: Episode I - The Phantom Menace',
+    year: '1999',
+    type: 'movie',
+    rated: 'PG',
+    released: '19 May 1999',
+    runtime: '136 min',
+    genre: 'Action, Adventure, Fantasy',
+    director: 'George Lucas',
+    writer: 'George Lucas',
+    actors: 'Liam Neeson, Ewan McGregor, Natalie Portman, Jake Lloyd',
+    plot: 'Two Jedi escape a hostile blockade to find allies and come across a young boy who may bring balance to the Force.',
+    language: 'English',
+    country: 'USA',
+    awards: 'Nominated for 3 Oscars. Another 13 wins & 14 nominations.',
+    poster: 'https://m.media-amazon.com/images/M/MV5BMTQ4NjEwNDA2Nl5BMl5BanBnXkFtZTcwNDUyNDQzNw@@._V1_SX300.jpg',
+    metascore: '51',
+    rating: '6.5',
+    votes: '588,726',
+    listings: { cinemaworld: 900.5, filmworld: 900 },
+  },
+];
+
+type FixtureProviderId = keyof typeof PROVIDER_NAMES;
+
+const toPrice = (imdbId: string, providerId: FixtureProviderId, price: number | null): PriceInfo => ({
+  providerId,
+  provider: PROVIDER_NAMES[providerId],
+  movieId: `${PROVIDER_PREFIXES[providerId]}${imdbId}`,
+  price,
+  lastUpdated: FIXTURE_UPDATED_AT,
+});
+
+const toDetail = ({ listings, imdbId, ...movie }: FixtureMovie): MovieDetail => {
+  const prices = (Object.keys(listings) as FixtureProviderId[])
+    .map(providerId => toPrice(imdbId, providerId, listings[providerId] ?? null));
+  const cheapestPrice = getCheapestPrice(prices);
+  return { ...movie, prices, ...(cheapestPrice && { cheapestPrice }), updatedAt: FIXTURE_UPDATED_AT };
+};
+
+export const fixtureMovieDetails: MovieDetail[] = catalogue.map(toDetail);
+
+/** What GET /api/movies returns for the catalogue: the summary fields of each detail. */
+export const fixtureMovies: MovieComparison[] = fixtureMovieDetails.map(
+  ({ id, title, year, genre, director, actors, plot, poster, rating, prices, cheapestPrice }) => ({
+    id, title, year, genre, director, actors, plot, poster, rating, prices, ...(cheapestPrice && { cheapestPrice }),
+  })
+);
+
+export const fixtureRefreshResult: RefreshResult = {
+  refreshedAt: FIXTURE_UPDATED_AT,
+  providers: [
+    { providerId: 'cinemaworld', provider: 'Cinemaworld', movieCount: 5, succeeded: true },
+    { providerId: 'filmworld', provider: 'Filmworld', movieCount: 4, succeeded: true },
+  ],
+  movieCount: 5,
+  pricesChanged: 0,
+};
+
+export const fixtureProviders: ApiProvider[] = [
+  {
+    id: 'cinemaworld',
+    name: 'cinemaworld',
+    displayName: 'Cinemaworld',
+    baseUrl: 'https://webjetapitest.azurewebsites.net/api/cinemaworld',
+    hasApiToken: true,
+    isEnabled: true,
+    priority: 1,
+    timeoutSeconds: 30,
+    endpoints: { movies: '/movies', movieDetail: '/movie/{id}' },
+    lastUpdated: FIXTURE_UPDATED_AT,
+  },
+  {
+    id: 'filmworld',
+    name: 'filmworld',
+    displayName: 'Filmworld',
+    baseUrl: 'https://webjetapitest.azurewebsites.net/api/filmworld',
+    hasApiToken: true,
+    isEnabled: true,
+    priority: 2,
+    timeoutSeconds: 30,
+    endpoints: { movies: '/movies', movieDetail: '/movie/{id}' },
+    lastUpdated: FIXTURE_UPDATED_AT,
+  },
+];
+
+export const fixtureProviderStatus: ProviderStatusReport = {
+  checkedAt: FIXTURE_UPDATED_AT,
+  staleAfterMinutes: 10,
+  providers: fixtureProviders.map(provider => ({
+    providerId: provider.id,
+    provider: provider.displayName,
+    isEnabled: provider.isEnabled,
+    state: 'healthy',
+    lastSuccessAt: FIXTURE_UPDATED_AT,
+    latencyMs: provider.id === 'cinemaworld' ? 180 : 240,
+    servedFromCache: false,
+    recentLatencies: [
+      { at: '2024-03-01T09:10:00Z', latencyMs: 210, succeeded: true },
+      { at: '2024-03-01T09:20:00Z', latencyMs: 195, succeeded: true },
+      { at: FIXTURE_UPDATED_AT, latencyMs: provider.id === 'cinemaworld' ? 180 : 240, succeeded: true },
+    ],
+  })),
+};
@@ -0,0 +1,310 @@
+import { MovieComparison, MovieDetail, PriceInfo } from '../types/Movie';
+import { ApiProvider, ApiProviderInput, NewApiProviderInput, ProviderStatusReport } from '../types/Provider';
+import { getCheapestPrice } from '../utils/priceChanges';
+import {
+  fixtureMovieDetails,
+  fixtureMovies,
+  fixtureProviders,
+  fixtureProviderStatus,
+  fixtureRefreshResult,
+} from './fixtures';
+
+/**
+ * - `slow-provider`: Filmworld takes `slowProviderDelayMs` to answer, so every movie request waits for it.
+ * - `provider-missing`: Filmworld is down and none of its prices are available.
+ * - `null-prices`: Filmworld lists every movie without a usable price.
+ * - `not-found`: every movie detail is a 404.
+ * - `server-error`: every endpoint fails with the API's 500 body.
+ */
+export const MOCK_SCENARIOS = ['default', 'slow-provider', 'provider-missing', 'null-prices', 'not-found', 'server-error'] as const;
+
+export type MockScenario = typeof MOCK_SCENARIOS[number];
+
+export const isMockScenario = (value: unknown): value is MockScenario =>
+  typeof value === 'string' && (MOCK_SCENARIOS as readonly string[]).includes(value);
+
+export interface MockBackendOptions {
+  scenario?: MockScenario;
+  /** How long the slow provider takes in the 'slow-provider' scenario. */
+  slowProviderDelayMs?: number;
+  /** Handles requests outside /api; without it they get a 404 like any unknown route. */
+  passthrough?: typeof fetch;
+}
+
+interface MockRequest {
+  method: string;
+  url: URL;
+  body: unknown;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  delayMs?: number;
+}
+
+interface Route {
+  method: string;
+  path: RegExp;
+  /** The API's 500 message for this endpoint, used by the 'server-error' scenario. */
+  failure: string;
+  handle: (request: MockRequest, params: string[]) => MockResponse;
+}
+
+const SLOW_PROVIDER_ID = 'filmworld';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const ok = (body: unknown, delayMs?: number): MockResponse => ({ status: 200, body, delayMs });
+const error = (status: number, message: string): MockResponse => ({ status, body: { error: message } });
+
+const withPrices = <T extends MovieComparison | MovieDetail>(movie: T, mapPrices: (prices: PriceInfo[]) => PriceInfo[]): T => {
+  const { cheapestPrice: _previous, ...rest } = movie;
+  const prices = mapPrices(movie.prices);
+  const cheapestPrice = getCheapestPrice(prices);
+  return { ...rest, prices, ...(cheapestPrice && { cheapestPrice }) } as T;
+};
+
+// Applies the scenario's provider behaviour to a movie, the way the API would have merged it.
+const applyScenario = <T extends MovieComparison | MovieDetail>(movie: T, scenario: MockScenario): T => {
+  switch (scenario) {
+    case 'provider-missing':
+      return withPrices(movie, prices => prices.filter(price => price.providerId !== SLOW_PROVIDER_ID));
+    case 'null-prices':
+      return withPrices(movie, prices => prices.map(price => (price.providerId === SLOW_PROVIDER_ID ? { ...price, price: null } : price)));
+    default:
+      return movie;
+  }
+};
+
+const getProviderStatus = (scenario: MockScenario, slowProviderDelayMs: number): ProviderStatusReport => ({
+  ...fixtureProviderStatus,
+  providers: fixtureProviderStatus.providers.map(status => {
+    if (status.providerId !== SLOW_PROVIDER_ID) {
+      return status;
+    }
+    switch (scenario) {
+      case 'slow-provider':
+        return { ...status, latencyMs: slowProviderDelayMs };
+      case 'provider-missing':
+        return {
+          ...status,
+          state: 'failing',
+          lastErrorAt: fixtureProviderStatus.checkedAt,
+          lastError: 'Connection refused',
+          latencyMs: undefined,
+        };
+      default:
+        return status;
+    }
+  }),
+});
+
+const readBody = (init?: RequestInit): unknown => {
+  if (typeof init?.body !== 'string') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(init.body);
+  } catch {
+    return undefined;
+  }
+};
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      abort();
+    }, { once: true });
+  });
+
+/**
+ * A `fetch` that answers the movie API from the shared fixtures instead of
+ * the network. Installed over `window.fetch` by `npm start` when
+ * REACT_APP_MOCK_API is set, and used directly by tests. Provider writes are
+ * kept in memory for the life of the returned function.
+ */
+export const createMockBackend = ({
+  scenario = 'default',
+  slowProviderDelayMs = 4000,
+  passthrough,
+}: MockBackendOptions = {}): typeof fetch => {
+  let providers: ApiProvider[] = fixtureProviders.map(provider => ({ ...provider }));
+  const movieDelayMs = scenario === 'slow-provider' ? slowProviderDelayMs : 0;
+
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      path: /^\/api\/movies$/,
+      failure: 'An error occurred while retrieving movies',
+      handle: ({ url }) => {
+        const movies = fixtureMovies.map(movie => applyScenario(movie, scenario));
+        const page = url.searchParams.get('page');
+        const pageSize = url.searchParams.get('pageSize');
+        if (page === null && pageSize === null) {
+          return ok(movies, movieDelayMs);
+        }
+        const pageNumber = page === null ? 1 : Number(page);
+        const size = pageSize === null ? DEFAULT_PAGE_SIZE : Number(pageSize);
+        if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+          return error(400, 'page must be 1 or greater');
+        }
+        if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+          return error(400, `pageSize must be between 1 and ${MAX_PAGE_SIZE}`);
+        }
+        return ok({
+          items: movies.slice((pageNumber - 1) * size, pageNumber * size),
+          page: pageNumber,
+          pageSize: size,
+          totalCount: movies.length,
+          totalPages: Math.ceil(movies.length / size),
+        }, movieDelayMs);
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/api\/movies\/refresh$/,
+      failure: 'An error occurred while refreshing movie data',
+      handle: () => {
+        if (scenario !== 'provider-missing') {
+          return ok(fixtureRefreshResult, movieDelayMs);
+        }
+        return ok({
+          ...fixtureRefreshResult,
+          providers: fixtureRefreshResult.providers.map(provider => provider.providerId === SLOW_PROVIDER_ID
+            ? { ...provider, movieCount: 0, succeeded: false, error: 'Connection refused' }
+            : provider),
+        });
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/api\/movies\/([^/]+)$/,
+      failure: 'An error occurred while retrieving the movie',
+      handle: (_request, [id]) => {
+        const movie = fixtureMovieDetails.find(detail =>
+          detail.id.toLowerCase() === id.toLowerCase() || detail.prices.some(price => price.movieId === id));
+        if (!movie || scenario === 'not-found') {
+          return error(404, `Movie with ID ${id} not found`);
+        }
+        return ok(applyScenario(movie, scenario), movieDelayMs);
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/api\/diagnostics$/,
+      failure: 'An error occurred while recording diagnostics',
+      handle: ({ body }) => {
+        console.info('Diagnostics report', body);
+        return { status: 202, body: null };
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/api\/providers$/,
+      failure: 'An error occurred while retrieving providers',
+      handle: () => ok(providers),
+    },
+    {
+      method: 'GET',
+      path: /^\/api\/providers\/status$/,
+      failure: 'An error occurred while retrieving provider status',
+      handle: () => ok(getProviderStatus(scenario, slowProviderDelayMs)),
+    },
+    {
+      method: 'GET',
+      path: /^\/api\/providers\/([^/]+)$/,
+      failure: 'An error occurred while retrieving the provider',
+      handle: (_request, [id]) => {
+        const provider = providers.find(candidate => candidate.id === id);
+        return provider ? ok(provider) : error(404, `Provider with ID ${id} not found`);
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/api\/providers$/,
+      failure: 'An error occurred while creating the provider',
+      handle: ({ body }) => {
+        const { apiToken, ...input } = body as NewApiProviderInput;
+        if (providers.some(provider => provider.id === input.id)) {
+          return error(409, `Provider with ID ${input.id} already exists`);
+        }
+        const created: ApiProvider = {
+          ...input,
+          name: input.id,
+          hasApiToken: Boolean(apiToken),
+          lastUpdated: new Date().toISOString(),
+        };
+        providers = [...providers, created];
+        return { status: 201, body: created };
+      },
+    },
+    {
+      method: 'PUT',
+      path: /^\/api\/providers\/([^/]+)$/,
+      failure: 'An error occurred while updating the provider',
+      handle: ({ body }, [id]) => {
+        const existing = providers.find(provider => provider.id === id);
+        if (!existing) {
+          return error(404, `Provider with ID ${id} not found`);
+        }
+        const { apiToken, ...input } = body as ApiProviderInput;
+        const updated: ApiProvider = {
+          ...existing,
+          ...input,
+          hasApiToken: apiToken ? true : existing.hasApiToken,
+          lastUpdated: new Date().toISOString(),
+        };
+        providers = providers.map(provider => (provider.id === id ? updated : provider));
+        return ok(updated);
+      },
+    },
+  ];
+
+  const respond = (request: MockRequest): MockResponse => {
+    for (const route of routes) {
+      const match = route.path.exec(request.url.pathname);
+      if (match && route.method === request.method) {
+        return scenario === 'server-error'
+          ? error(500, route.failure)
+          : route.handle(request, match.slice(1).map(decodeURIComponent));
+      }
+    }
+    return error(404, `No mock for ${request.method} ${request.url.pathname}`);
+  };
+
+  return async (input, init) => {
+    const url = new URL(typeof input === 'string' ? input : 'url' in input ? input.url : input.href, window.location.href);
+    if (!url.pathname.startsWith('/api/') && passthrough) {
+      return passthrough(input, init);
+    }
+
+    const { status, body, delayMs = 0 } = respond({ method: init?.method ?? 'GET', url, body: readBody(init) });
+    await delay(delayMs, init?.signal);
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  };
+};
+
+/**
+ * Routes the app's API calls to the mock backend. `setting` is the
+ * REACT_APP_MOCK_API value: a scenario name, or "true" for the default one.
+ */
+export const installMockBackend = (setting: string) => {
+  if (!isMockScenario(setting) && setting !== 'true') {
+    console.warn(`Unknown mock API scenario "${setting}"; expected one of ${MOCK_SCENARIOS.join(', ')}`);
+  }
+  const scenario = isMockScenario(setting) ? setting : 'default';
+  window.fetch = createMockBackend({ scenario, passthrough: window.fetch.bind(window) });
+  console.info(`Movie API mocked with the "${scenario}" scenario`);
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import ExportActions from '../components/ExportActions';
+import { useI18n } from '../hooks/useI18n';
+import { useMovieDetails } from '../hooks/useMovieQueries';
+import { MessageKey } from '../i18n/translate';
+import { MovieComparison } from '../types/Movie';
+import {
+  buildPriceMatrix,
+  comparedKeysToSearchParams,
+  MIN_COMPARED_MOVIES,
+  parseComparedKeys,
+} from '../utils/comparison';
+import { getMovieKey } from '../utils/priceChanges';
+import { getMovieDetailPath, HOME_PATH, REPORT_PATH } from '../utils/routes';
+import './ComparePage.css';
+
+interface ComparePageProps {
+  movies: MovieComparison[];
+  loading: boolean;
+  /** Keeps the grid's selection in step with the movies in the URL. */
+  onComparedKeysChange: (keys: string[]) => void;
+}
+
+type DetailRow = [label: MessageKey, values: (string | undefined)[]];
+
+const ComparePage: React.FC<ComparePageProps> = ({ movies, loading, onComparedKeysChange }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t, formatPrice } = useI18n();
+  const keys = useMemo(() => parseComparedKeys(searchParams), [searchParams]);
+
+  const compared = useMemo(
+    () => keys
+      .map(key => movies.find(movie => getMovieKey(movie) === key))
+      .filter((movie): movie is MovieComparison => movie !== undefined),
+    [keys, movies]
+  );
+  const detailIds = useMemo(() => compared.map(movie => movie.id), [compared]);
+  const { data: details, loading: detailsLoading } = useMovieDetails(detailIds);
+  const matrix = useMemo(() => buildPriceMatrix(compared), [compared]);
+
+  useEffect(() => {
+    onComparedKeysChange(keys);
+  }, [keys, onComparedKeysChange]);
+
+  const handleRemove = (movie: MovieComparison) => {
+    const remaining = keys.filter(key => key !== getMovieKey(movie));
+    setSearchParams(comparedKeysToSearchParams(remaining), { replace: true });
+  };
+
+  const backLink = (
+    <Link to={HOME_PATH} className="back-link">
+      {t('common.backToMovies')}
+    </Link>
+  );
+
+  if (loading) {
+    return <div className="loading" role="status">{t('common.loadingMovies')}</div>;
+  }
+
+  if (compared.length < MIN_COMPARED_MOVIES) {
+    return (
+      <section className="compare">
+        {backLink}
+        <h2>{t('compare.title')}</h2>
+        <p className="no-movies">{t('compare.selectTwo')}</p>
+      </section>
+    );
+  }
+
+  const detailValue = (index: number, field: 'runtime' | 'rating' | 'metascore') =>
+    details?.[index]?.[field] ?? (detailsLoading ? t('common.loading') : undefined);
+
+  const detailRows: DetailRow[] = [
+    ['field.year', compared.map(movie => movie.year)],
+    ['field.runtime', compared.map((_, index) => detailValue(index, 'runtime'))],
+    ['field.rating', compared.map((movie, index) => details?.[index]?.rating ?? movie.rating)],
+    ['field.metascore', compared.map((_, index) => detailValue(index, 'metascore'))],
+  ];
+
+  const cellClassName = (movieIndex: number, providerIndex: number) => [
+    matrix.isCheapestInRow(movieIndex, providerIndex) && 'cheapest-in-row',
+    matrix.isCheapestInColumn(movieIndex, providerIndex) && 'cheapest-in-column',
+  ].filter(Boolean).join(' ') || undefined;
+
+  return (
+    <section className="compare">
+      {backLink}
+      <h2>{t('compare.title')}</h2>
+      <ExportActions
+        data={compared}
+        fileName="movie-comparison"
+        reportTo={{ pathname: REPORT_PATH, search: comparedKeysToSearchParams(keys).toString() }}
+      />
+
+      <div className="compare-scroll">
+        <table className="compare-table compare-details">
+          <thead>
+            <tr>
+              <th scope="col">
+                <span className="visually-hidden">{t('compare.field')}</span>
+              </th>
+              {compared.map(movie => (
+                <th scope="col" key={getMovieKey(movie)}>
+                  <Link to={getMovieDetailPath(movie)}>{movie.title}</Link>
+                  <button
+                    type="button"
+                    className="compare-remove"
+                    aria-label={t('compare.remove', { title: movie.title })}
+                    onClick={() => handleRemove(movie)}
+                  >
+                    ×
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {detailRows.map(([label, values]) => (
+              <tr key={label}>
+                <th scope="row">{t(label)}</th>
+                {values.map((value, index) => (
+                  <td key={index}>{value || t('common.notAvailable')}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h3>{t('common.prices')}</h3>
+      <div className="compare-scroll">
+        <table className="compare-table compare-prices">
+          <thead>
+            <tr>
+              <th scope="col">{t('common.movie')}</th>
+              {matrix.providers.map(provider => (
+                <th scope="col" key={provider.providerId}>{provider.provider}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {compared.map((movie, movieIndex) => (
+              <tr key={getMovieKey(movie)}>
+                <th scope="row">{movie.title}</th>
+                {matrix.providers.map((provider, providerIndex) => {
+                  const price = matrix.prices[movieIndex][providerIndex];
+                  return (
+                    <td key={provider.providerId} className={cellClassName(movieIndex, providerIndex)}>
+                      {price === undefined ? '—' : formatPrice(price)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <th scope="row">{t('compare.totalBasket')}</th>
+              {matrix.baskets.map(basket => (
+                <td
+                  key={basket.providerId}
+                  className={basket === matrix.cheapestBasket ? 'cheapest-basket' : undefined}
+                >
+                  {basket.total !== undefined ? formatPrice(basket.total) : t('compare.missing', { count: basket.missing })}
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <p className="compare-legend">
+        <span className="cheapest-in-row">{t('compare.cheapestInRow')}</span>
+        <span className="cheapest-in-column">{t('compare.cheapestInColumn')}</span>
+      </p>
+
+      <p className="compare-basket">
+        {matrix.cheapestBasket
+          ? t('compare.cheapestBasket', {
+            count: compared.length,
+            provider: matrix.cheapestBasket.provider,
+            price: formatPrice(matrix.cheapestBasket.total),
+          })
+          : t('compare.noBasket')}
+      </p>
+      {matrix.bestMixTotal !== undefined && (
+        <p className="compare-mix">
+          {t('compare.bestMix', { price: formatPrice(matrix.bestMixTotal) })}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default ComparePage;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import ExportActions from '../components/ExportActions';
+import Poster from '../components/Poster';
+import PriceFreshnessBadge from '../components/PriceFreshnessBadge';
+import PriceHistoryChart from '../components/PriceHistoryChart';
+import PriceInsightBadges from '../components/PriceInsightBadges';
+import { useI18n } from '../hooks/useI18n';
+import { useMovieDetail } from '../hooks/useMovieQueries';
+import { usePriceHistory } from '../hooks/usePriceHistory';
+import { useProviderStatus } from '../hooks/useProviderQueries';
+import { MessageKey } from '../i18n/translate';
+import { getErrorMessage, NotFoundError } from '../services/apiErrors';
+import { getDeal } from '../utils/deals';
+import { getPosterSources, getPosterWidth } from '../utils/posters';
+import { getMovieKey } from '../utils/priceChanges';
+import { getPriceInsights } from '../utils/priceInsights';
+import { toStaleAfterMs } from '../utils/providerHealth';
+import { HOME_PATH } from '../utils/routes';
+import './MovieDetailPage.css';
+
+type DetailField = [label: MessageKey, value: string | undefined];
+
+const POSTER_WIDTH = 240;
+
+const MovieDetailPage: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const { t, formatPrice, formatDateTime } = useI18n();
+  const { data: movie, loading, error, refetch } = useMovieDetail(id);
+  const { histories, previousVisitAt } = usePriceHistory();
+  const staleAfterMs = toStaleAfterMs(useProviderStatus().data?.staleAfterMinutes);
+
+  const backLink = (
+    <Link to={HOME_PATH} className="back-link">
+      {t('common.backToMovies')}
+    </Link>
+  );
+
+  if (loading) {
+    return <div className="loading" role="status">{t('detail.loading')}</div>;
+  }
+
+  if (error instanceof NotFoundError) {
+    return (
+      <div className="movie-detail-message">
+        <p>{t('error.notFound')}</p>
+        {backLink}
+      </div>
+    );
+  }
+
+  if (!movie) {
+    return (
+      <div className="error" role="alert">
+        <p>{t('common.error', { message: getErrorMessage(error, t('detail.loadFailed')) })}</p>
+        <button onClick={refetch}>{t('common.tryAgain')}</button>
+        {backLink}
+      </div>
+    );
+  }
+
+  const history = histories.get(getMovieKey(movie)) ?? [];
+  const deal = getDeal(movie.prices);
+
+  const fields: DetailField[] = [
+    ['field.year', movie.year],
+    ['field.type', movie.type],
+    ['field.rated', movie.rated],
+    ['field.released', movie.released],
+    ['field.runtime', movie.runtime],
+    ['field.genre', movie.genre],
+    ['field.director', movie.director],
+    ['field.writer', movie.writer],
+    ['field.actors', movie.actors],
+    ['field.language', movie.language],
+    ['field.country', movie.country],
+    ['field.awards', movie.awards],
+    ['field.metascore', movie.metascore],
+    ['field.rating', movie.rating],
+    ['field.votes', movie.votes],
+  ];
+
+  return (
+    <article className="movie-detail">
+      {backLink}
+      <ExportActions data={movie} fileName={`movie-${movie.id}`} />
+
+      <div className="movie-detail-body">
+        <Poster
+          className="movie-detail-poster"
+          sources={getPosterSources(movie, getPosterWidth(POSTER_WIDTH))}
+          alt={movie.title}
+        />
+
+        <div className="movie-detail-info">
+          <h2 className="movie-detail-title">{movie.title}</h2>
+          {movie.plot && <p className="movie-detail-plot">{movie.plot}</p>}
+
+          <dl className="movie-detail-fields">
+            {fields.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt>{t(label)}</dt>
+                <dd>{value || t('common.notAvailable')}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+
+          <h3>{t('common.prices')}</h3>
+          {movie.prices.length === 0 ? (
+            <p>{t('detail.noProviders')}</p>
+          ) : (
+            <table className="movie-detail-prices">
+              <thead>
+                <tr>
+                  <th scope="col">{t('detail.provider')}</th>
+                  <th scope="col">{t('detail.price')}</th>
+                  <th scope="col">{t('detail.lastUpdated')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movie.prices.map((price) => (
+                  <tr
+                    key={price.providerId}
+                    className={price.providerId === movie.cheapestPrice?.providerId ? 'cheapest' : undefined}
+                  >
+                    <td>{price.provider}</td>
+                    <td>{formatPrice(price.price)}</td>
+                    <td>
+                      {formatDateTime(price.lastUpdated)}
+                      <PriceFreshnessBadge price={price} staleAfterMs={staleAfterMs} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {movie.cheapestPrice && (
+            <p className="movie-detail-best">
+              {t('detail.bestPrice', {
+                provider: movie.cheapestPrice.provider,
+                price: formatPrice(movie.cheapestPrice.price),
+              })}
+            </p>
+          )}
+
+          {deal && deal.saving > 0 && (
+            <p className="movie-detail-deal">
+              {t('detail.deal', {
+                saving: formatPrice(deal.saving),
+                percent: Math.round(deal.savingPercent),
+                spread: formatPrice(deal.spread),
+                score: deal.score,
+              })}
+            </p>
+          )}
+
+          <PriceInsightBadges insights={getPriceInsights(history, movie.cheapestPrice?.price, previousVisitAt)} />
+
+          <h3>{t('detail.priceHistory')}</h3>
+          <PriceHistoryChart histories={history} />
+
+          <p className="movie-detail-updated">{t('detail.updated', { time: formatDateTime(movie.updatedAt) })}</p>
+        </div>
+      </div>
+    </article>
+  );
+};
+
+export default MovieDetailPage;
@@ -0,0 +1,245 @@
+import React, { useMemo, useRef } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import ErrorBoundary from '../components/ErrorBoundary';
+import ExportActions from '../components/ExportActions';
+import MovieCard from '../components/MovieCard';
+import MovieToolbar from '../components/MovieToolbar';
+import VirtualGrid, { VirtualGridController } from '../components/VirtualGrid';
+import { useCommands } from '../hooks/useCommands';
+import { useI18n } from '../hooks/useI18n';
+import { usePriceHistory } from '../hooks/usePriceHistory';
+import { useProviderStatus } from '../hooks/useProviderQueries';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { Command } from '../services/commands';
+import { watchlist } from '../services/watchlist';
+import { MovieComparison } from '../types/Movie';
+import {
+  comparedKeysToSearchParams,
+  MAX_COMPARED_MOVIES,
+  MIN_COMPARED_MOVIES,
+} from '../utils/comparison';
+import { getTotalSaving } from '../utils/deals';
+import {
+  applyFilters,
+  filtersToSearchParams,
+  getGenres,
+  hasActiveFilters,
+  MovieFilters,
+  parseFilters,
+} from '../utils/movieFilters';
+import { getMovieKey, PriceChanges, PriceFlashes } from '../utils/priceChanges';
+import { toStaleAfterMs } from '../utils/providerHealth';
+import { COMPARE_PATH, getMovieDetailPath, REPORT_PATH } from '../utils/routes';
+
+interface MovieListPageProps {
+  /** The movies loaded so far. */
+  movies: MovieComparison[];
+  /** Size of the whole catalogue; defaults to the movies loaded. */
+  totalCount?: number;
+  /** More pages are waiting; onLoadMore is called as the grid nears the end of the loaded ones. */
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  priceChanges?: PriceChanges;
+  /** Provider prices that just changed live, highlighted on their cards. */
+  priceFlashes?: PriceFlashes;
+  /** Movies picked for the comparison view, by getMovieKey. */
+  comparedKeys?: string[];
+  onComparedKeysChange?: (keys: string[]) => void;
+}
+
+const NO_PRICE_CHANGES: PriceChanges = {};
+const NO_PRICE_FLASHES: PriceFlashes = {};
+const NO_KEYS: string[] = [];
+
+// A card is at most 300px wide plus 16px margins, and rows sit 20px apart.
+const CARD_COLUMN_WIDTH = 352;
+const ESTIMATED_CARD_ROW_HEIGHT = 560;
+
+const MovieListPage: React.FC<MovieListPageProps> = ({
+  movies,
+  totalCount = movies.length,
+  hasMore = false,
+  onLoadMore,
+  loading,
+  error,
+  onRetry,
+  priceChanges = NO_PRICE_CHANGES,
+  priceFlashes = NO_PRICE_FLASHES,
+  comparedKeys = NO_KEYS,
+  onComparedKeysChange,
+}) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { t, formatPrice } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { histories, previousVisitAt } = usePriceHistory();
+  const staleAfterMs = toStaleAfterMs(useProviderStatus().data?.staleAfterMinutes);
+  const watchedItems = useWatchlist();
+  const watchedKeys = useMemo(() => new Set(watchedItems.map(item => item.movieKey)), [watchedItems]);
+
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+  const genres = useMemo(() => getGenres(movies), [movies]);
+  const visibleMovies = useMemo(() => applyFilters(movies, filters), [movies, filters]);
+  const totalSaving = useMemo(() => getTotalSaving(visibleMovies.map(movie => movie.prices)), [visibleMovies]);
+
+  const gridRef = useRef<VirtualGridController>(null);
+  const gridCommands = useMemo((): Command[] => [
+    {
+      id: 'next-movie',
+      title: t('command.nextMovie'),
+      group: t('command.group.list'),
+      shortcut: 'j',
+      run: () => gridRef.current?.moveFocus(1),
+    },
+    {
+      id: 'previous-movie',
+      title: t('command.previousMovie'),
+      group: t('command.group.list'),
+      shortcut: 'k',
+      run: () => gridRef.current?.moveFocus(-1),
+    },
+  ], [t]);
+
+  useCommands(gridCommands);
+
+  // Coming back from a detail page lands where the user left the same filtered list.
+  useScrollRestoration(location.pathname + location.search, !loading && movies.length > 0);
+
+  // Replace rather than push so typing in the search box does not flood the history.
+  const handleFiltersChange = (next: MovieFilters) => {
+    setSearchParams(filtersToSearchParams(next), { replace: true });
+  };
+
+  const handleMovieClick = (movie: MovieComparison) => {
+    navigate(getMovieDetailPath(movie));
+  };
+
+  const handleToggleWatch = (movie: MovieComparison) => {
+    watchlist.toggle(movie);
+  };
+
+  const handleToggleCompare = (movie: MovieComparison) => {
+    const key = getMovieKey(movie);
+    onComparedKeysChange?.(comparedKeys.includes(key)
+      ? comparedKeys.filter(comparedKey => comparedKey !== key)
+      : [...comparedKeys, key]);
+  };
+
+  const handleCompare = () => {
+    navigate({ pathname: COMPARE_PATH, search: comparedKeysToSearchParams(comparedKeys).toString() });
+  };
+
+  return (
+    <>
+      <h2 className="visually-hidden">{t('list.title')}</h2>
+
+      {loading && <div className="loading" role="status">{t('common.loadingMovies')}</div>}
+
+      {error && (
+        <div className="error" role="alert">
+          <p>{t('common.error', { message: error })}</p>
+          <button onClick={onRetry}>{t('common.tryAgain')}</button>
+        </div>
+      )}
+
+      {!loading && !error && (
+        <>
+          <MovieToolbar filters={filters} genres={genres} onChange={handleFiltersChange} />
+
+          <div className="movies-count" role="status">
+            {hasActiveFilters(filters)
+              ? t('list.showing', { visible: visibleMovies.length, total: totalCount })
+              : t('list.found', { count: totalCount })}
+          </div>
+
+          {totalSaving > 0 && (
+            <p className="total-saving">
+              {t('list.totalSaving', { count: visibleMovies.length, saving: formatPrice(totalSaving) })}
+            </p>
+          )}
+
+          <ExportActions
+            data={visibleMovies}
+            fileName="movie-prices"
+            reportTo={{ pathname: REPORT_PATH, search: filtersToSearchParams(filters).toString() }}
+          />
+
+          {comparedKeys.length > 0 && (
+            <div className="compare-bar">
+              <span>{t('list.comparedCount', { count: comparedKeys.length, max: MAX_COMPARED_MOVIES })}</span>
+              <button type="button" onClick={handleCompare} disabled={comparedKeys.length < MIN_COMPARED_MOVIES}>
+                {t('list.compareSelected')}
+              </button>
+              <button type="button" onClick={() => onComparedKeysChange?.([])}>
+                {t('list.clearSelection')}
+              </button>
+            </div>
+          )}
+
+          <ErrorBoundary
+            resetKeys={[visibleMovies]}
+            fallback={reset => (
+              <div className="error" role="alert">
+                <p>{t('error.gridFailed')}</p>
+                <button onClick={reset}>{t('common.tryAgain')}</button>
+              </div>
+            )}
+          >
+            <VirtualGrid
+              controllerRef={gridRef}
+              className="movies-grid"
+              label={t('list.title')}
+              items={visibleMovies}
+              getKey={getMovieKey}
+              columnWidth={CARD_COLUMN_WIDTH}
+              estimatedRowHeight={ESTIMATED_CARD_ROW_HEIGHT}
+              onNearEnd={hasMore ? onLoadMore : undefined}
+              renderItem={(movie) => (
+                <ErrorBoundary
+                  resetKeys={[movie]}
+                  fallback={() => (
+                    <div className="movie-card-container">
+                      <div className="movie-card movie-card-error" role="alert">
+                        <h3 className="movie-title">{movie.title}</h3>
+                        <p>{t('error.cardFailed')}</p>
+                      </div>
+                    </div>
+                  )}
+                >
+                  <MovieCard
+                    movie={movie}
+                    onClick={handleMovieClick}
+                    priceChange={priceChanges[getMovieKey(movie)]}
+                    flashedPrices={priceFlashes[getMovieKey(movie)]}
+                    history={histories.get(getMovieKey(movie))}
+                    previousVisitAt={previousVisitAt}
+                    staleAfterMs={staleAfterMs}
+                    watched={watchedKeys.has(getMovieKey(movie))}
+                    onToggleWatch={handleToggleWatch}
+                    compared={comparedKeys.includes(getMovieKey(movie))}
+                    compareDisabled={comparedKeys.length >= MAX_COMPARED_MOVIES}
+                    onToggleCompare={onComparedKeysChange && handleToggleCompare}
+                  />
+                </ErrorBoundary>
+              )}
+            />
+          </ErrorBoundary>
+
+          {hasMore && <div className="loading" role="status">{t('list.loadingMore')}</div>}
+
+          {!hasMore && visibleMovies.length === 0 && (
+            <div className="no-movies">
+              {t('list.noMovies')}
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+export default MovieListPage;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import AdminKeyField from '../components/AdminKeyField';
+import ProviderForm from '../components/ProviderForm';
+import { useI18n } from '../hooks/useI18n';
+import { createProvider, updateProvider, useProvider } from '../hooks/useProviderQueries';
+import { getErrorMessage, NotFoundError } from '../services/apiErrors';
+import { NewApiProviderInput } from '../types/Provider';
+import { EMPTY_PROVIDER_FORM, toProviderFormValues } from '../utils/providerForm';
+import { PROVIDERS_PATH } from '../utils/routes';
+import './ProvidersPage.css';
+
+const BackLink: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <Link to={PROVIDERS_PATH} className="back-link">
+      {t('providers.backToProviders')}
+    </Link>
+  );
+};
+
+const NewProviderPage: React.FC = () => {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (input: NewApiProviderInput) => {
+    await createProvider(input);
+    navigate(PROVIDERS_PATH);
+  };
+
+  return (
+    <section className="provider-editor">
+      <BackLink />
+      <h2>{t('providers.add')}</h2>
+      <AdminKeyField />
+      <ProviderForm
+        initialValues={EMPTY_PROVIDER_FORM}
+        isNew
+        submitLabel={t('providers.add')}
+        onSubmit={handleSubmit}
+        onCancel={() => navigate(PROVIDERS_PATH)}
+      />
+    </section>
+  );
+};
+
+const EditProviderPage: React.FC<{ id: string }> = ({ id }) => {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const { data: provider, loading, error, refetch } = useProvider(id);
+
+  const handleSubmit = async ({ id: _id, ...input }: NewApiProviderInput) => {
+    try {
+      await updateProvider(id, input);
+    } catch (saveError) {
+      throw saveError instanceof NotFoundError ? new Error(t('providers.gone')) : saveError;
+    }
+    navigate(PROVIDERS_PATH);
+  };
+
+  if (loading) {
+    return <div className="loading" role="status">{t('providers.loadingOne')}</div>;
+  }
+
+  if (error instanceof NotFoundError) {
+    return (
+      <div className="movie-detail-message">
+        <p>{t('providers.notFound')}</p>
+        <BackLink />
+      </div>
+    );
+  }
+
+  if (!provider) {
+    return (
+      <div className="error" role="alert">
+        <p>{t('common.error', { message: getErrorMessage(error, t('providers.loadOneFailed')) })}</p>
+        <button onClick={refetch}>{t('common.tryAgain')}</button>
+        <BackLink />
+      </div>
+    );
+  }
+
+  return (
+    <section className="provider-editor">
+      <BackLink />
+      <h2>{t('providers.editTitle', { provider: provider.displayName })}</h2>
+      <AdminKeyField />
+      <ProviderForm
+        // Remount when the cached provider changes so the form starts from it.
+        key={provider.lastUpdated}
+        initialValues={toProviderFormValues(provider)}
+        isNew={false}
+        hasApiToken={provider.hasApiToken}
+        submitLabel={t('providers.saveChanges')}
+        onSubmit={handleSubmit}
+        onCancel={() => navigate(PROVIDERS_PATH)}
+      />
+    </section>
+  );
+};
+
+/** Create and edit screens for a provider; the route decides which. */
+const ProviderFormPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  return id === undefined ? <NewProviderPage /> : <EditProviderPage id={id} />;
+};
+
+export default ProviderFormPage;
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useI18n } from '../hooks/useI18n';
+import { useProviderPreferences } from '../hooks/useProviderPreferences';
+import { useProviderStatus } from '../hooks/useProviderQueries';
+import { MessageKey } from '../i18n/translate';
+import { providerPreferences } from '../services/providerPreferences';
+import { MovieComparison } from '../types/Movie';
+import { getProviderRank, PROVIDER_RANKS, ProviderRank } from '../utils/providerPreferences';
+import { HOME_PATH } from '../utils/routes';
+import './ProviderPreferencesPage.css';
+
+interface ProviderPreferencesPageProps {
+  movies: MovieComparison[];
+}
+
+const RANK_LABELS: Record<ProviderRank, MessageKey> = {
+  pinned: 'providerPreferences.pinned',
+  normal: 'providerPreferences.normal',
+  downRanked: 'providerPreferences.downRanked',
+  hidden: 'providerPreferences.hidden',
+};
+
+/**
+ * Lets the user pin, down-rank or hide providers. Providers come from the
+ * status report and the movie list, plus any already ranked, so a hidden
+ * provider can be brought back even once it no longer shows up elsewhere.
+ */
+const ProviderPreferencesPage: React.FC<ProviderPreferencesPageProps> = ({ movies }) => {
+  const { t } = useI18n();
+  const preferences = useProviderPreferences();
+  const { data: status } = useProviderStatus();
+
+  const providers = useMemo(() => {
+    const names = new Map<string, string>();
+    status?.providers.forEach(provider => names.set(provider.providerId, provider.provider));
+    movies.forEach(movie => movie.prices.forEach(price => {
+      if (!names.has(price.providerId)) {
+        names.set(price.providerId, price.provider);
+      }
+    }));
+    Object.keys(preferences).forEach(providerId => {
+      if (!names.has(providerId)) {
+        names.set(providerId, providerId);
+      }
+    });
+    return Array.from(names, ([providerId, provider]) => ({ providerId, provider }))
+      .sort((a, b) => a.provider.localeCompare(b.provider));
+  }, [status, movies, preferences]);
+
+  return (
+    <section className="provider-preferences">
+      <Link to={HOME_PATH} className="back-link">
+        {t('common.backToMovies')}
+      </Link>
+      <h2>{t('providerPreferences.title')}</h2>
+      <p className="provider-preferences-note">{t('providerPreferences.intro')}</p>
+
+      {providers.length === 0 ? (
+        <p className="no-movies">{t('providerPreferences.none')}</p>
+      ) : (
+        <table className="provider-preferences-table">
+          <thead>
+            <tr>
+              <th scope="col">{t('detail.provider')}</th>
+              <th scope="col">{t('providerPreferences.rank')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {providers.map(({ providerId, provider }) => (
+              <tr key={providerId} className={`provider-rank-${getProviderRank(preferences, providerId)}`}>
+                <th scope="row">{provider}</th>
+                <td>
+                  <select
+                    aria-label={t('providerPreferences.rankFor', { provider })}
+                    value={getProviderRank(preferences, providerId)}
+                    onChange={(event) => providerPreferences.setRank(providerId, event.target.value as ProviderRank)}
+                  >
+                    {PROVIDER_RANKS.map(rank => (
+                      <option key={rank} value={rank}>{t(RANK_LABELS[rank])}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <button
+        type="button"
+        className="provider-preferences-reset"
+        onClick={() => providerPreferences.reset()}
+        disabled={Object.keys(preferences).length === 0}
+      >
+        {t('providerPreferences.reset')}
+      </button>
+    </section>
+  );
+};
+
+export default ProviderPreferencesPage;
@@ -0,0 +1,99 @@
+import React, { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import LatencyChart from '../components/LatencyChart';
+import { useI18n } from '../hooks/useI18n';
+import { useProviderStatus } from '../hooks/useProviderQueries';
+import { getErrorMessage } from '../services/apiErrors';
+import { formatLatency, HEALTH_STATE_LABELS } from '../utils/providerHealth';
+import { PROVIDERS_PATH } from '../utils/routes';
+import './ProviderStatusPage.css';
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+const ProviderStatusPage: React.FC = () => {
+  const { t, formatDateTime } = useI18n();
+  const { data: report, loading, error, isFetching, refetch } = useProviderStatus();
+
+  useEffect(() => {
+    const timer = setInterval(refetch, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refetch]);
+
+  const backLink = (
+    <Link to={PROVIDERS_PATH} className="back-link">
+      {t('providers.backToProviders')}
+    </Link>
+  );
+
+  if (loading) {
+    return <div className="loading" role="status">{t('providerStatus.loading')}</div>;
+  }
+
+  if (!report) {
+    return (
+      <div className="error" role="alert">
+        <p>{t('common.error', { message: getErrorMessage(error, t('providerStatus.loadFailed')) })}</p>
+        <button onClick={refetch}>{t('common.tryAgain')}</button>
+        {backLink}
+      </div>
+    );
+  }
+
+  return (
+    <section className="provider-status">
+      {backLink}
+      <div className="provider-status-heading">
+        <h2>{t('providerStatus.title')}</h2>
+        <button type="button" onClick={refetch} disabled={isFetching}>
+          {t(isFetching ? 'providerStatus.checking' : 'providerStatus.checkNow')}
+        </button>
+      </div>
+      <p className="provider-status-note">
+        {t('providerStatus.note', { time: formatDateTime(report.checkedAt), minutes: report.staleAfterMinutes })}
+      </p>
+
+      {report.providers.length === 0 ? (
+        <p className="no-movies">{t('providers.none')}</p>
+      ) : (
+        <ul className="provider-status-list">
+          {report.providers.map((status) => (
+            <li
+              key={status.providerId}
+              className={`provider-status-card provider-status-${status.state}`}
+              aria-labelledby={`provider-status-${status.providerId}`}
+            >
+              <div className="provider-status-title">
+                <h3 id={`provider-status-${status.providerId}`}>{status.provider}</h3>
+                <span className="provider-status-state">{t(HEALTH_STATE_LABELS[status.state])}</span>
+              </div>
+
+              {status.servedFromCache && (
+                <p className="provider-status-cached">{t('providerStatus.servedFromCache')}</p>
+              )}
+
+              <dl className="provider-status-fields">
+                <dt>{t('providerStatus.latency')}</dt>
+                <dd>{status.latencyMs === undefined ? t('common.notAvailable') : formatLatency(status.latencyMs)}</dd>
+                <dt>{t('providerStatus.lastSuccess')}</dt>
+                <dd>{status.lastSuccessAt ? formatDateTime(status.lastSuccessAt) : t('providerStatus.never')}</dd>
+                <dt>{t('providerStatus.lastError')}</dt>
+                <dd>
+                  {status.lastErrorAt ? (
+                    <>
+                      {formatDateTime(status.lastErrorAt)}
+                      {status.lastError && <span className="provider-status-error">{status.lastError}</span>}
+                    </>
+                  ) : t('providerStatus.noError')}
+                </dd>
+              </dl>
+
+              <LatencyChart samples={status.recentLatencies} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ProviderStatusPage;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import AdminKeyField from '../components/AdminKeyField';
+import { useI18n } from '../hooks/useI18n';
+import { updateProvider, useProviders } from '../hooks/useProviderQueries';
+import { getErrorMessage } from '../services/apiErrors';
+import { ApiProvider } from '../types/Provider';
+import { toProviderInput } from '../utils/providerForm';
+import { getProviderEditPath, HOME_PATH, NEW_PROVIDER_PATH, PROVIDER_STATUS_PATH } from '../utils/routes';
+import './ProvidersPage.css';
+
+const ProvidersPage: React.FC = () => {
+  const { t, formatDateTime } = useI18n();
+  const { data: providers, loading, error, refetch } = useProviders();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleToggleEnabled = async (provider: ApiProvider) => {
+    setPendingId(provider.id);
+    setActionError(null);
+    try {
+      await updateProvider(provider.id, { ...toProviderInput(provider), isEnabled: !provider.isEnabled });
+    } catch (toggleError) {
+      setActionError(getErrorMessage(toggleError, t('providers.updateFailed', { provider: provider.displayName })));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const backLink = (
+    <Link to={HOME_PATH} className="back-link">
+      {t('common.backToMovies')}
+    </Link>
+  );
+
+  if (loading) {
+    return <div className="loading" role="status">{t('providers.loading')}</div>;
+  }
+
+  if (!providers) {
+    return (
+      <div className="error" role="alert">
+        <p>{t('common.error', { message: getErrorMessage(error, t('providers.loadFailed')) })}</p>
+        <button onClick={refetch}>{t('common.tryAgain')}</button>
+        {backLink}
+      </div>
+    );
+  }
+
+  return (
+    <section className="providers">
+      {backLink}
+      <div className="providers-heading">
+        <h2>{t('providers.title')}</h2>
+        <div className="providers-links">
+          <Link to={PROVIDER_STATUS_PATH} className="providers-add">
+            {t('providers.health')}
+          </Link>
+          <Link to={NEW_PROVIDER_PATH} className="providers-add">
+            {t('providers.add')}
+          </Link>
+        </div>
+      </div>
+      <p className="providers-note">{t('providers.note')}</p>
+      <AdminKeyField />
+
+      {actionError && <p className="providers-error" role="alert">{actionError}</p>}
+
+      {providers.length === 0 ? (
+        <p className="no-movies">{t('providers.none')}</p>
+      ) : (
+        <table className="providers-table">
+          <thead>
+            <tr>
+              <th scope="col">{t('providers.provider')}</th>
+              <th scope="col">{t('providers.baseUrl')}</th>
+              <th scope="col">{t('providers.priority')}</th>
+              <th scope="col">{t('providers.timeout')}</th>
+              <th scope="col">{t('providers.apiToken')}</th>
+              <th scope="col">{t('providers.status')}</th>
+              <th scope="col">{t('providers.lastUpdated')}</th>
+              <th scope="col">
+                <span className="visually-hidden">{t('providers.actions')}</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {providers.map((provider) => (
+              <tr key={provider.id} className={provider.isEnabled ? undefined : 'provider-disabled'}>
+                <td>
+                  {provider.displayName}
+                  <small className="provider-id">{provider.id}</small>
+                </td>
+                <td className="provider-url">{provider.baseUrl}</td>
+                <td>{provider.priority}</td>
+                <td>{t('providers.timeoutSeconds', { seconds: provider.timeoutSeconds })}</td>
+                <td>{t(provider.hasApiToken ? 'providers.tokenSet' : 'providers.tokenNotSet')}</td>
+                <td>{t(provider.isEnabled ? 'providers.enabled' : 'providers.disabled')}</td>
+                <td>{formatDateTime(provider.lastUpdated)}</td>
+                <td className="provider-actions">
+                  <Link to={getProviderEditPath(provider.id)}>
+                    {t('providers.edit')}<span className="visually-hidden"> {provider.displayName}</span>
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => handleToggleEnabled(provider)}
+                    disabled={pendingId === provider.id}
+                  >
+                    {t(provider.isEnabled ? 'providers.disable' : 'providers.enable')}
+                    <span className="visually-hidden"> {provider.displayName}</span>
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+export default ProvidersPage;
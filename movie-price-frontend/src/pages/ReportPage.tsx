@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import ExportActions from '../components/ExportActions';
+import { useI18n } from '../hooks/useI18n';
+import { MovieComparison } from '../types/Movie';
+import { buildPriceMatrix, comparedKeysToSearchParams, parseComparedKeys } from '../utils/comparison';
+import { applyFilters, filtersToSearchParams, parseFilters } from '../utils/movieFilters';
+import { getMovieKey } from '../utils/priceChanges';
+import { COMPARE_PATH, HOME_PATH } from '../utils/routes';
+import './ReportPage.css';
+
+interface ReportPageProps {
+  movies: MovieComparison[];
+  loading: boolean;
+}
+
+/**
+ * A print-ready table of every provider's price for the compared movies in the
+ * URL, or, without any, for the movies the list filters in the URL select.
+ */
+const ReportPage: React.FC<ReportPageProps> = ({ movies, loading }) => {
+  const [searchParams] = useSearchParams();
+  const { t, formatPrice, formatDateTime } = useI18n();
+  const [generatedAt] = useState(() => new Date().toISOString());
+  const keys = useMemo(() => parseComparedKeys(searchParams), [searchParams]);
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+
+  const reported = useMemo(() => {
+    if (keys.length === 0) {
+      return applyFilters(movies, filters);
+    }
+    return keys
+      .map(key => movies.find(movie => getMovieKey(movie) === key))
+      .filter((movie): movie is MovieComparison => movie !== undefined);
+  }, [keys, filters, movies]);
+  const matrix = useMemo(() => buildPriceMatrix(reported), [reported]);
+
+  const backLink = keys.length > 0 ? (
+    <Link to={{ pathname: COMPARE_PATH, search: comparedKeysToSearchParams(keys).toString() }} className="back-link">
+      {t('report.backToCompare')}
+    </Link>
+  ) : (
+    <Link to={{ pathname: HOME_PATH, search: filtersToSearchParams(filters).toString() }} className="back-link">
+      {t('common.backToMovies')}
+    </Link>
+  );
+
+  if (loading) {
+    return <div className="loading" role="status">{t('common.loadingMovies')}</div>;
+  }
+
+  return (
+    <section className="report">
+      {backLink}
+      <ExportActions data={reported} fileName="movie-prices" />
+
+      <h2>{t('report.title')}</h2>
+      <p className="report-meta">
+        {t('report.summary', { count: reported.length, time: formatDateTime(generatedAt) })}
+      </p>
+
+      {reported.length === 0 ? (
+        <p className="no-movies">{t('report.empty')}</p>
+      ) : (
+        <table className="report-table">
+          <thead>
+            <tr>
+              <th scope="col">{t('common.movie')}</th>
+              <th scope="col">{t('field.year')}</th>
+              {matrix.providers.map(provider => (
+                <th scope="col" key={provider.providerId}>{provider.provider}</th>
+              ))}
+              <th scope="col">{t('report.cheapest')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reported.map((movie, movieIndex) => (
+              <tr key={getMovieKey(movie)}>
+                <th scope="row">{movie.title}</th>
+                <td>{movie.year || t('common.notAvailable')}</td>
+                {matrix.providers.map((provider, providerIndex) => {
+                  const price = matrix.prices[movieIndex][providerIndex];
+                  return (
+                    <td
+                      key={provider.providerId}
+                      className={matrix.isCheapestInRow(movieIndex, providerIndex) ? 'cheapest-in-row' : undefined}
+                    >
+                      {price === undefined ? '—' : formatPrice(price)}
+                    </td>
+                  );
+                })}
+                <td>
+                  {movie.cheapestPrice
+                    ? `${formatPrice(movie.cheapestPrice.price)} (${movie.cheapestPrice.provider})`
+                    : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+export default ReportPage;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useI18n } from '../hooks/useI18n';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { browserNotificationsSupported, requestNotificationPermission } from '../services/notifications';
+import { getExchangeRates } from '../services/runtimeConfig';
+import { watchlist } from '../services/watchlist';
+import { MovieComparison } from '../types/Movie';
+import { convertFromBase, convertToBase } from '../utils/currency';
+import { downloadFile } from '../utils/export';
+import { getMovieKey } from '../utils/priceChanges';
+import { getMovieDetailPath } from '../utils/routes';
+import './WatchlistPage.css';
+
+interface WatchlistPageProps {
+  movies: MovieComparison[];
+}
+
+const EXPORT_FILE_NAME = 'movie-watchlist.json';
+
+const WatchlistPage: React.FC<WatchlistPageProps> = ({ movies }) => {
+  const items = useWatchlist();
+  const { t, currency, formatPrice } = useI18n();
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission>(() =>
+    browserNotificationsSupported() ? Notification.permission : 'denied'
+  );
+  const moviesByKey = useMemo(() => new Map(movies.map(movie => [getMovieKey(movie), movie])), [movies]);
+
+  // Targets are typed in the display currency but stored in the base currency the alerts compare in.
+  const handleTargetChange = (movieKey: string, value: string) => {
+    watchlist.setTargetPrice(movieKey, value === '' ? null : convertToBase(Number(value), currency, getExchangeRates()));
+  };
+
+  const toDisplayTarget = (targetPrice: number | null) =>
+    targetPrice === null ? '' : Math.round(convertFromBase(targetPrice, currency, getExchangeRates()) * 100) / 100;
+
+  const handleExport = () => {
+    downloadFile(EXPORT_FILE_NAME, watchlist.toJson(), 'application/json');
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change.
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const count = watchlist.importJson(String(reader.result));
+        setImportMessage(t('watchlist.imported', { count }));
+      } catch (error) {
+        setImportMessage(error instanceof Error ? error.message : t('watchlist.importFailed'));
+      }
+    };
+    reader.onerror = () => setImportMessage(t('watchlist.readFailed'));
+    reader.readAsText(file);
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  return (
+    <section className="watchlist">
+      <h2>{t('watchlist.title')}</h2>
+
+      <div className="watchlist-actions">
+        <button type="button" onClick={handleExport} disabled={items.length === 0}>
+          {t('watchlist.export')}
+        </button>
+        <label className="watchlist-import">
+          {t('watchlist.import')}
+          <input type="file" className="visually-hidden" accept="application/json,.json" onChange={handleImport} />
+        </label>
+        {permission === 'default' && (
+          <button type="button" onClick={handleEnableNotifications}>
+            {t('watchlist.enableNotifications')}
+          </button>
+        )}
+      </div>
+
+      {importMessage && <p className="watchlist-import-message" role="status">{importMessage}</p>}
+
+      {items.length === 0 ? (
+        <p className="no-movies">{t('watchlist.empty')}</p>
+      ) : (
+        <table className="watchlist-table">
+          <thead>
+            <tr>
+              <th scope="col">{t('common.movie')}</th>
+              <th scope="col">{t('watchlist.bestPriceNow')}</th>
+              <th scope="col">{t('watchlist.alertBelow', { currency })}</th>
+              <th scope="col">
+                <span className="visually-hidden">{t('watchlist.actions')}</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => {
+              const movie = moviesByKey.get(item.movieKey);
+              const bestPrice = movie?.cheapestPrice?.price;
+              const belowTarget = typeof bestPrice === 'number' && item.targetPrice !== null && bestPrice < item.targetPrice;
+              return (
+                <tr key={item.movieKey} className={belowTarget ? 'below-target' : undefined}>
+                  <td>{movie ? <Link to={getMovieDetailPath(movie)}>{item.title}</Link> : item.title}</td>
+                  <td>{movie ? formatPrice(bestPrice) : t('watchlist.notListed')}</td>
+                  <td>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      aria-label={t('watchlist.targetPrice', { title: item.title })}
+                      value={toDisplayTarget(item.targetPrice)}
+                      onChange={(event) => handleTargetChange(item.movieKey, event.target.value)}
+                    />
+                  </td>
+                  <td>
+                    <button type="button" onClick={() => watchlist.remove(item.movieKey)}>
+                      {t('watchlist.remove')}<span className="visually-hidden"> {item.title}</span>
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+export default WatchlistPage;
@@ -0,0 +1,136 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { movieApi } from '../../services/movieApi';
+import { queryCache } from '../../services/queryCache';
+import { MovieComparison, MovieDetail, PriceInfo } from '../../types/Movie';
+import ComparePage from '../ComparePage';
+
+// Mock the movieApi service
+jest.mock('../../services/movieApi');
+const mockMovieApi = movieApi as jest.Mocked<typeof movieApi>;
+
+const price = (providerId: string, provider: string, value: number): PriceInfo => ({
+    providerId,
+    provider,
+    movieId: `${providerId}-id`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const movies: MovieComparison[] = [
+    {
+        id: '1',
+        title: 'The Matrix',
+        year: '1999',
+        rating: '8.7',
+        prices: [price('cinemaworld', 'Cinemaworld', 15.99), price('filmworld', 'Filmworld', 14.99)],
+        cheapestPrice: price('filmworld', 'Filmworld', 14.99)
+    },
+    {
+        id: '2',
+        title: 'Inception',
+        year: '2010',
+        rating: '8.8',
+        prices: [price('cinemaworld', 'Cinemaworld', 9.5)],
+        cheapestPrice: price('cinemaworld', 'Cinemaworld', 9.5)
+    }
+];
+
+const detail = (movie: MovieComparison, runtime: string): MovieDetail => ({
+    id: movie.id,
+    title: movie.title,
+    year: movie.year,
+    runtime,
+    metascore: '73',
+    prices: movie.prices,
+    cheapestPrice: movie.cheapestPrice,
+    updatedAt: '2023-01-01T00:00:00Z'
+});
+
+const renderPage = (url: string, onComparedKeysChange = jest.fn()) =>
+    render(
+        <MemoryRouter initialEntries={[url]}>
+            <ComparePage movies={movies} loading={false} onComparedKeysChange={onComparedKeysChange} />
+        </MemoryRouter>
+    );
+
+describe('ComparePage', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        queryCache.clear();
+        mockMovieApi.getMovieDetail.mockImplementation(async id =>
+            id === '1' ? detail(movies[0], '136 min') : detail(movies[1], '148 min')
+        );
+    });
+
+    test('asks for more movies when fewer than two are selected', () => {
+        renderPage('/compare?movie=1');
+
+        expect(screen.getByText('Select at least two movies on the list to compare them.')).toBeInTheDocument();
+    });
+
+    test('shows details side by side once they load', async () => {
+        renderPage('/compare?movie=1&movie=2');
+
+        expect(screen.getAllByText('Loading...')).not.toHaveLength(0);
+
+        await waitFor(() => {
+            expect(screen.getByText('136 min')).toBeInTheDocument();
+        });
+
+        expect(screen.getByText('148 min')).toBeInTheDocument();
+        expect(screen.getByRole('link', { name: 'The Matrix' })).toHaveAttribute('href', '/movies/1');
+        expect(mockMovieApi.getMovieDetail).toHaveBeenCalledWith('1');
+        expect(mockMovieApi.getMovieDetail).toHaveBeenCalledWith('2');
+    });
+
+    test('highlights the cheapest prices and totals each provider basket', async () => {
+        renderPage('/compare?movie=1&movie=2');
+
+        expect(screen.getByText('$14.99')).toHaveClass('cheapest-in-row');
+        expect(screen.getByText('$9.50')).toHaveClass('cheapest-in-row', 'cheapest-in-column');
+        expect(screen.getByText('—')).toBeInTheDocument();
+        expect(screen.getByText('$25.49')).toHaveClass('cheapest-basket');
+        expect(screen.getByText('Missing 1')).toBeInTheDocument();
+        expect(screen.getByText('Cheapest single provider for all 2 movies: Cinemaworld ($25.49)')).toBeInTheDocument();
+        expect(screen.getByText('Buying each movie from its cheapest provider: $24.49')).toBeInTheDocument();
+
+        await waitFor(() => {
+            expect(screen.getByText('136 min')).toBeInTheDocument();
+        });
+    });
+
+    test('reports the selection from the URL and drops removed movies', async () => {
+        const onComparedKeysChange = jest.fn();
+        renderPage('/compare?movie=1&movie=2', onComparedKeysChange);
+
+        expect(onComparedKeysChange).toHaveBeenLastCalledWith(['1', '2']);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Remove Inception from comparison' }));
+
+        expect(onComparedKeysChange).toHaveBeenLastCalledWith(['1']);
+        expect(screen.getByText('Select at least two movies on the list to compare them.')).toBeInTheDocument();
+
+        await waitFor(() => {
+            expect(mockMovieApi.getMovieDetail).toHaveBeenCalled();
+        });
+    });
+
+    test('falls back to N/A when a movie detail fails to load', async () => {
+        mockMovieApi.getMovieDetail.mockImplementation(async id => {
+            if (id === '2') {
+                throw new Error('Not available');
+            }
+            return detail(movies[0], '136 min');
+        });
+
+        renderPage('/compare?movie=1&movie=2');
+
+        await waitFor(() => {
+            expect(screen.getByText('136 min')).toBeInTheDocument();
+        });
+
+        expect(screen.getAllByText('N/A')).toHaveLength(2);
+    });
+});
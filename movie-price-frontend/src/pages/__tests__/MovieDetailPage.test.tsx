@@ -0,0 +1,247 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { NetworkError, NotFoundError } from '../../services/apiErrors';
+import { movieApi } from '../../services/movieApi';
+import { priceHistory } from '../../services/priceHistory';
+import { queryCache } from '../../services/queryCache';
+import { MovieDetail } from '../../types/Movie';
+import { ProviderStatusReport } from '../../types/Provider';
+import MovieDetailPage from '../MovieDetailPage';
+
+// Mock the movieApi service
+jest.mock('../../services/movieApi');
+const mockMovieApi = movieApi as jest.Mocked<typeof movieApi>;
+
+const mockMovieDetail: MovieDetail = {
+    id: 'the-matrix-1999',
+    title: 'The Matrix',
+    year: '1999',
+    type: 'movie',
+    rated: 'R',
+    released: '31 Mar 1999',
+    runtime: '136 min',
+    genre: 'Action, Sci-Fi',
+    director: 'Lana Wachowski, Lilly Wachowski',
+    writer: 'Lilly Wachowski, Lana Wachowski',
+    actors: 'Keanu Reeves, Laurence Fishburne',
+    plot: 'A computer hacker learns about the true nature of reality.',
+    language: 'English',
+    country: 'USA',
+    awards: 'Won 4 Oscars.',
+    poster: 'https://example.com/matrix.jpg',
+    metascore: '73',
+    rating: '8.7',
+    votes: '1,496,538',
+    cheapestPrice: {
+        providerId: 'filmworld',
+        provider: 'Filmworld',
+        movieId: 'fw0133093',
+        price: 14.99,
+        lastUpdated: '2023-01-01T00:00:00Z'
+    },
+    prices: [
+        {
+            providerId: 'cinemaworld',
+            provider: 'Cinemaworld',
+            movieId: 'cw0133093',
+            price: 15.99,
+            lastUpdated: '2023-01-01T00:00:00Z'
+        },
+        {
+            providerId: 'filmworld',
+            provider: 'Filmworld',
+            movieId: 'fw0133093',
+            price: 14.99,
+            lastUpdated: '2023-01-01T00:00:00Z'
+        }
+    ],
+    updatedAt: '2023-01-02T00:00:00Z'
+};
+
+const mockProviderStatus: ProviderStatusReport = {
+    checkedAt: '2023-01-02T00:00:00Z',
+    staleAfterMinutes: 10,
+    providers: []
+};
+
+const renderAt = (path: string) =>
+    render(
+        <MemoryRouter initialEntries={[path]}>
+            <Routes>
+                <Route path="/" element={<div>Movie list</div>} />
+                <Route path="/movies/:id" element={<MovieDetailPage />} />
+            </Routes>
+        </MemoryRouter>
+    );
+
+describe('MovieDetailPage', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        queryCache.clear();
+        priceHistory.clear();
+        mockMovieApi.getProviderStatus.mockResolvedValue(mockProviderStatus);
+    });
+
+    test('shows loading state while fetching', () => {
+        mockMovieApi.getMovieDetail.mockImplementation(() => new Promise(() => { }));
+
+        renderAt('/movies/cw0133093');
+
+        expect(screen.getByRole('status')).toHaveTextContent('Loading movie...');
+        expect(mockMovieApi.getMovieDetail).toHaveBeenCalledWith('cw0133093');
+    });
+
+    test('has no axe violations once loaded', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+
+        const { container } = renderAt('/movies/cw0133093');
+
+        await waitFor(() => {
+            expect(screen.getByRole('heading', { name: 'The Matrix' })).toBeInTheDocument();
+        });
+
+        await expect(container).toHaveNoAxeViolations();
+    });
+
+    test('renders every detail field', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+
+        renderAt('/movies/cw0133093');
+
+        await waitFor(() => {
+            expect(screen.getByRole('heading', { name: 'The Matrix' })).toBeInTheDocument();
+        });
+
+        expect(screen.getByText('136 min')).toBeInTheDocument();
+        expect(screen.getByText('Lilly Wachowski, Lana Wachowski')).toBeInTheDocument();
+        expect(screen.getByText('Won 4 Oscars.')).toBeInTheDocument();
+        expect(screen.getByText('73')).toBeInTheDocument();
+        expect(screen.getByText('1,496,538')).toBeInTheDocument();
+        expect(screen.getByText('Cinemaworld')).toBeInTheDocument();
+        expect(screen.getByText('$15.99')).toBeInTheDocument();
+        expect(screen.getByText('Best Price: Filmworld - $14.99')).toBeInTheDocument();
+        expect(screen.getByText('Saves $1.00 (6%) over the most expensive provider. Prices vary by ±$0.50. Deal score 13/100.')).toBeInTheDocument();
+        expect(screen.getByText(/^Updated /)).toBeInTheDocument();
+        expect(screen.getByAltText('The Matrix')).toHaveAttribute('src', 'https://example.com/matrix.jpg');
+    });
+
+    test('downloads the movie as JSON in the shape the API returned', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+        const blobs: Blob[] = [];
+        URL.createObjectURL = jest.fn((blob: Blob) => {
+            blobs.push(blob);
+            return 'blob:movie';
+        });
+        URL.revokeObjectURL = jest.fn();
+        const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+        renderAt('/movies/cw0133093');
+
+        await waitFor(() => {
+            expect(screen.getByRole('heading', { name: 'The Matrix' })).toBeInTheDocument();
+        });
+        fireEvent.click(screen.getByRole('button', { name: 'Download JSON' }));
+
+        expect(click).toHaveBeenCalled();
+        const text = await new Promise<string>(resolve => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(String(reader.result));
+            reader.readAsText(blobs[0]);
+        });
+        expect(JSON.parse(text)).toEqual(mockMovieDetail);
+        click.mockRestore();
+    });
+
+    test('marks prices served from cache and stale prices', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue({
+            ...mockMovieDetail,
+            prices: [
+                { ...mockMovieDetail.prices[0], fromCache: true },
+                mockMovieDetail.prices[1]
+            ]
+        });
+
+        renderAt('/movies/cw0133093');
+
+        expect(await screen.findByText('From cache')).toHaveAttribute(
+            'title',
+            expect.stringContaining('Cinemaworld could not be reached')
+        );
+        expect(screen.getByText('Stale')).toBeInTheDocument();
+    });
+
+    test('charts the recorded price history', async () => {
+        await priceHistory.record([{ ...mockMovieDetail, prices: [{ ...mockMovieDetail.prices[1], price: 19.99 }] }], 1000);
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+
+        renderAt('/movies/cw0133093');
+
+        await waitFor(() => {
+            expect(screen.getByText('Filmworld: lowest $14.99, 2 prices recorded')).toBeInTheDocument();
+        });
+
+        expect(screen.getByRole('img', { name: /^Price history from/ })).toBeInTheDocument();
+        expect(screen.getByText('Cinemaworld: lowest $15.99, 1 price recorded')).toBeInTheDocument();
+        expect(screen.getByText('Lowest price seen')).toBeInTheDocument();
+    });
+
+    test('shows N/A for missing fields', async () => {
+        mockMovieApi.getMovieDetail.mockResolvedValue({
+            id: 'minimal-movie',
+            title: 'Minimal Movie',
+            prices: [],
+            updatedAt: '2023-01-01T00:00:00Z'
+        });
+
+        renderAt('/movies/cw1');
+
+        await waitFor(() => {
+            expect(screen.getByText('No provider currently lists this movie.')).toBeInTheDocument();
+        });
+
+        expect(screen.getAllByText('N/A').length).toBeGreaterThan(0);
+    });
+
+    test('shows not found state for unknown movies', async () => {
+        mockMovieApi.getMovieDetail.mockRejectedValue(new NotFoundError('Failed to fetch movie detail', '/api/movies/unknown'));
+
+        renderAt('/movies/unknown');
+
+        await waitFor(() => {
+            expect(screen.getByText(/Movie not found/)).toBeInTheDocument();
+        });
+
+        fireEvent.click(screen.getByText('← Back to all movies'));
+        expect(screen.getByText('Movie list')).toBeInTheDocument();
+    });
+
+    test('shows error state and retries', async () => {
+        mockMovieApi.getMovieDetail.mockRejectedValueOnce(new Error('Failed to fetch movie detail'));
+
+        renderAt('/movies/cw0133093');
+
+        await waitFor(() => {
+            expect(screen.getByRole('alert')).toHaveTextContent('Error: Failed to fetch movie detail');
+        });
+
+        mockMovieApi.getMovieDetail.mockResolvedValue(mockMovieDetail);
+        fireEvent.click(screen.getByText('Try Again'));
+
+        await waitFor(() => {
+            expect(screen.getByText('136 min')).toBeInTheDocument();
+        });
+
+        expect(mockMovieApi.getMovieDetail).toHaveBeenCalledTimes(2);
+    });
+
+    test('tells the user when the backend is unreachable', async () => {
+        mockMovieApi.getMovieDetail.mockRejectedValue(new NetworkError('Failed to fetch movie detail', '/api/movies/cw1'));
+
+        renderAt('/movies/cw1');
+
+        await waitFor(() => {
+            expect(screen.getByText('Error: The movie service is unreachable. Check your connection and try again.')).toBeInTheDocument();
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { ServerError } from '../../services/apiErrors';
+import { movieApi } from '../../services/movieApi';
+import { preferences } from '../../services/preferences';
+import { queryCache } from '../../services/queryCache';
+import { ProviderStatusReport } from '../../types/Provider';
+import { PROVIDER_STATUS_PATH } from '../../utils/routes';
+import ProviderStatusPage from '../ProviderStatusPage';
+
+// Mock the movieApi service
+jest.mock('../../services/movieApi');
+const mockMovieApi = movieApi as jest.Mocked<typeof movieApi>;
+
+const report: ProviderStatusReport = {
+    checkedAt: '2023-01-01T10:05:00Z',
+    staleAfterMinutes: 10,
+    providers: [
+        {
+            providerId: 'cinemaworld',
+            provider: 'Cinemaworld',
+            isEnabled: true,
+            state: 'healthy',
+            lastSuccessAt: '2023-01-01T10:00:00Z',
+            latencyMs: 180,
+            servedFromCache: false,
+            recentLatencies: [
+                { at: '2023-01-01T09:55:00Z', latencyMs: 150, succeeded: true },
+                { at: '2023-01-01T10:00:00Z', latencyMs: 180, succeeded: true }
+            ]
+        },
+        {
+            providerId: 'filmworld',
+            provider: 'Filmworld',
+            isEnabled: true,
+            state: 'failing',
+            lastSuccessAt: '2023-01-01T09:55:00Z',
+            lastErrorAt: '2023-01-01T10:00:00Z',
+            lastError: 'HTTP 503 Service Unavailable',
+            latencyMs: 30000,
+            servedFromCache: true,
+            recentLatencies: [{ at: '2023-01-01T10:00:00Z', latencyMs: 30000, succeeded: false }]
+        },
+        {
+            providerId: 'moviemax',
+            provider: 'MovieMax',
+            isEnabled: false,
+            state: 'disabled',
+            servedFromCache: false,
+            recentLatencies: []
+        }
+    ]
+};
+
+const renderPage = () =>
+    render(
+        <MemoryRouter initialEntries={[PROVIDER_STATUS_PATH]}>
+            <Routes>
+                <Route path={PROVIDER_STATUS_PATH} element={<ProviderStatusPage />} />
+            </Routes>
+        </MemoryRouter>
+    );
+
+describe('ProviderStatusPage', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        queryCache.clear();
+        preferences.reset();
+        mockMovieApi.getProviderStatus.mockResolvedValue(report);
+    });
+
+    test('shows the health of every provider', async () => {
+        renderPage();
+
+        const filmworld = await screen.findByRole('listitem', { name: 'Filmworld' });
+        expect(within(filmworld).getByText('Failing')).toBeInTheDocument();
+        expect(within(filmworld).getByText('HTTP 503 Service Unavailable')).toBeInTheDocument();
+        expect(within(filmworld).getByText('30.0 s')).toBeInTheDocument();
+        expect(within(filmworld).getByText(/Serving cached prices/)).toBeInTheDocument();
+        expect(within(filmworld).getByRole('img', { name: 'Last call: slowest 30.0 s, 1 failed' })).toBeInTheDocument();
+
+        const cinemaworld = screen.getByRole('listitem', { name: 'Cinemaworld' });
+        expect(within(cinemaworld).getByText('Healthy')).toBeInTheDocument();
+        expect(within(cinemaworld).getByText('180 ms')).toBeInTheDocument();
+        expect(within(cinemaworld).getByText('None')).toBeInTheDocument();
+        expect(within(cinemaworld).queryByText(/Serving cached prices/)).not.toBeInTheDocument();
+
+        const moviemax = screen.getByRole('listitem', { name: 'MovieMax' });
+        expect(within(moviemax).getByText('Disabled')).toBeInTheDocument();
+        expect(within(moviemax).getByText('Never')).toBeInTheDocument();
+        expect(within(moviemax).getByText('N/A')).toBeInTheDocument();
+        expect(within(moviemax).getByText('No calls yet')).toBeInTheDocument();
+
+        expect(screen.getByText(/older than 10 minutes are marked stale/)).toBeInTheDocument();
+    });
+
+    test('shows the health in the chosen language', async () => {
+        preferences.setLocale('fr-FR');
+        renderPage();
+
+        const filmworld = await screen.findByRole('listitem', { name: 'Filmworld' });
+        expect(within(filmworld).getByText('En échec')).toBeInTheDocument();
+        expect(screen.getByRole('heading', { name: 'État des fournisseurs' })).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Vérifier maintenant' })).toBeInTheDocument();
+    });
+
+    test('checks again on demand', async () => {
+        renderPage();
+        await screen.findByRole('heading', { name: 'Filmworld' });
+
+        mockMovieApi.getProviderStatus.mockResolvedValue({
+            ...report,
+            providers: [{ ...report.providers[1], state: 'healthy', servedFromCache: false }]
+        });
+        fireEvent.click(screen.getByRole('button', { name: 'Check now' }));
+
+        await waitFor(() => {
+            expect(screen.queryByRole('heading', { name: 'Cinemaworld' })).not.toBeInTheDocument();
+        });
+        expect(screen.getByText('Healthy')).toBeInTheDocument();
+        expect(screen.queryByText(/Serving cached prices/)).not.toBeInTheDocument();
+        expect(mockMovieApi.getProviderStatus).toHaveBeenCalledTimes(2);
+    });
+
+    test('reports a failure to load', async () => {
+        mockMovieApi.getProviderStatus.mockRejectedValue(
+            new ServerError('Failed to fetch provider status', 'http://api/providers/status', 500, 'An error occurred while retrieving provider status')
+        );
+
+        renderPage();
+
+        expect(await screen.findByText('Error: An error occurred while retrieving provider status')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Try Again' })).toBeInTheDocument();
+    });
+});
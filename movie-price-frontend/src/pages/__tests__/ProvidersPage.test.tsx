@@ -0,0 +1,239 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { ServerError } from '../../services/apiErrors';
+import { movieApi } from '../../services/movieApi';
+import { queryCache } from '../../services/queryCache';
+import { ApiProvider } from '../../types/Provider';
+import { NEW_PROVIDER_PATH, PROVIDER_EDIT_PATH, PROVIDERS_PATH } from '../../utils/routes';
+import ProviderFormPage from '../ProviderFormPage';
+import ProvidersPage from '../ProvidersPage';
+
+// Mock the movieApi service
+jest.mock('../../services/movieApi');
+const mockMovieApi = movieApi as jest.Mocked<typeof movieApi>;
+
+const cinemaworld: ApiProvider = {
+    id: 'cinemaworld',
+    name: 'cinemaworld',
+    displayName: 'Cinemaworld',
+    baseUrl: 'https://example.com/api/cinemaworld',
+    hasApiToken: true,
+    isEnabled: true,
+    priority: 1,
+    timeoutSeconds: 30,
+    endpoints: { movies: '/movies', movieDetail: '/movie/{id}' },
+    lastUpdated: '2023-01-01T00:00:00Z'
+};
+
+const filmworld: ApiProvider = {
+    ...cinemaworld,
+    id: 'filmworld',
+    name: 'filmworld',
+    displayName: 'Filmworld',
+    baseUrl: 'https://example.com/api/filmworld',
+    hasApiToken: false,
+    isEnabled: false,
+    priority: 2
+};
+
+const renderAt = (url: string) =>
+    render(
+        <MemoryRouter initialEntries={[url]}>
+            <Routes>
+                <Route path={PROVIDERS_PATH} element={<ProvidersPage />} />
+                <Route path={NEW_PROVIDER_PATH} element={<ProviderFormPage />} />
+                <Route path={PROVIDER_EDIT_PATH} element={<ProviderFormPage />} />
+            </Routes>
+        </MemoryRouter>
+    );
+
+describe('provider console', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        queryCache.clear();
+        mockMovieApi.getProviders.mockResolvedValue([cinemaworld, filmworld]);
+    });
+
+    describe('ProvidersPage', () => {
+        test('lists providers without revealing tokens', async () => {
+            renderAt(PROVIDERS_PATH);
+
+            await waitFor(() => {
+                expect(screen.getByRole('link', { name: 'Edit Cinemaworld' })).toBeInTheDocument();
+            });
+
+            expect(screen.getByText('https://example.com/api/filmworld')).toBeInTheDocument();
+            expect(screen.getByText('Set')).toBeInTheDocument();
+            expect(screen.getByText('Not set')).toBeInTheDocument();
+            expect(screen.getByText('Disabled')).toBeInTheDocument();
+            expect(screen.getByRole('link', { name: 'Edit Cinemaworld' })).toHaveAttribute('href', '/admin/providers/cinemaworld/edit');
+        });
+
+        test('disables a provider without sending a token', async () => {
+            mockMovieApi.updateProvider.mockResolvedValue({ ...cinemaworld, isEnabled: false });
+            renderAt(PROVIDERS_PATH);
+
+            await waitFor(() => {
+                expect(screen.getByRole('button', { name: 'Disable Cinemaworld' })).toBeInTheDocument();
+            });
+
+            fireEvent.click(screen.getByRole('button', { name: 'Disable Cinemaworld' }));
+
+            await waitFor(() => {
+                expect(screen.getByRole('button', { name: 'Enable Cinemaworld' })).toBeInTheDocument();
+            });
+
+            const [id, input] = mockMovieApi.updateProvider.mock.calls[0];
+            expect(id).toBe('cinemaworld');
+            expect(input.isEnabled).toBe(false);
+            expect(input).not.toHaveProperty('apiToken');
+        });
+
+        test('reports a failed toggle', async () => {
+            mockMovieApi.updateProvider.mockRejectedValue(
+                new ServerError('Failed to update provider', '/api/providers/filmworld', 500, 'An error occurred while updating the provider')
+            );
+            renderAt(PROVIDERS_PATH);
+
+            await waitFor(() => {
+                expect(screen.getByRole('button', { name: 'Enable Filmworld' })).toBeInTheDocument();
+            });
+
+            fireEvent.click(screen.getByRole('button', { name: 'Enable Filmworld' }));
+
+            await waitFor(() => {
+                expect(screen.getByRole('alert')).toHaveTextContent('An error occurred while updating the provider');
+            });
+        });
+
+        test('asks for the admin key when the API refuses a change', async () => {
+            mockMovieApi.updateProvider.mockRejectedValue(
+                new ServerError('Failed to update provider', '/api/providers/filmworld', 401)
+            );
+            renderAt(PROVIDERS_PATH);
+
+            await waitFor(() => {
+                expect(screen.getByRole('button', { name: 'Enable Filmworld' })).toBeInTheDocument();
+            });
+
+            fireEvent.click(screen.getByRole('button', { name: 'Enable Filmworld' }));
+
+            await waitFor(() => {
+                expect(screen.getByRole('alert')).toHaveTextContent('Enter a valid admin key');
+            });
+            expect(screen.getByLabelText('Admin key')).toHaveAttribute('type', 'password');
+        });
+
+        test('shows an error with a retry when providers fail to load', async () => {
+            mockMovieApi.getProviders.mockRejectedValueOnce(new Error('Failed to fetch providers'));
+            renderAt(PROVIDERS_PATH);
+
+            await waitFor(() => {
+                expect(screen.getByText('Error: Failed to fetch providers')).toBeInTheDocument();
+            });
+
+            fireEvent.click(screen.getByText('Try Again'));
+
+            await waitFor(() => {
+                expect(screen.getByRole('link', { name: 'Edit Cinemaworld' })).toBeInTheDocument();
+            });
+        });
+    });
+
+    describe('ProviderFormPage', () => {
+        test('creates a provider and returns to the list', async () => {
+            const moviemax: ApiProvider = { ...cinemaworld, id: 'moviemax', name: 'moviemax', displayName: 'MovieMax', priority: 3 };
+            mockMovieApi.createProvider.mockResolvedValue(moviemax);
+            mockMovieApi.getProviders.mockResolvedValue([cinemaworld, filmworld, moviemax]);
+            renderAt(NEW_PROVIDER_PATH);
+
+            fireEvent.change(screen.getByLabelText('Id'), { target: { value: 'moviemax' } });
+            fireEvent.change(screen.getByLabelText('Display name'), { target: { value: 'MovieMax' } });
+            fireEvent.change(screen.getByLabelText('Base URL'), { target: { value: 'https://example.com/api/moviemax' } });
+            fireEvent.change(screen.getByLabelText('API token'), { target: { value: 'secret' } });
+            fireEvent.change(screen.getByLabelText('Priority'), { target: { value: '3' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Add provider' }));
+
+            await waitFor(() => {
+                expect(screen.getByRole('heading', { name: 'Providers' })).toBeInTheDocument();
+            });
+
+            expect(mockMovieApi.createProvider).toHaveBeenCalledWith(expect.objectContaining({
+                id: 'moviemax',
+                displayName: 'MovieMax',
+                apiToken: 'secret',
+                priority: 3
+            }));
+        });
+
+        test('shows validation errors without saving', () => {
+            renderAt(NEW_PROVIDER_PATH);
+
+            fireEvent.change(screen.getByLabelText('Id'), { target: { value: 'Movie Max' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Add provider' }));
+
+            expect(screen.getByLabelText('Id')).toHaveAttribute('aria-invalid', 'true');
+            expect(screen.getByText('Use lowercase letters, digits and dashes only.')).toBeInTheDocument();
+            expect(screen.getByText('Enter a full http(s) URL.')).toBeInTheDocument();
+            expect(mockMovieApi.createProvider).not.toHaveBeenCalled();
+        });
+
+        test('shows the server message when the id is taken', async () => {
+            mockMovieApi.createProvider.mockRejectedValue(
+                new ServerError('Failed to create provider', '/api/providers', 409, 'Provider with ID cinemaworld already exists')
+            );
+            renderAt(NEW_PROVIDER_PATH);
+
+            fireEvent.change(screen.getByLabelText('Id'), { target: { value: 'cinemaworld' } });
+            fireEvent.change(screen.getByLabelText('Display name'), { target: { value: 'Cinemaworld' } });
+            fireEvent.change(screen.getByLabelText('Base URL'), { target: { value: 'https://example.com' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Add provider' }));
+
+            await waitFor(() => {
+                expect(screen.getByRole('alert')).toHaveTextContent('Provider with ID cinemaworld already exists');
+            });
+        });
+
+        test('edits a provider with the token left blank', async () => {
+            mockMovieApi.getProvider.mockResolvedValue(cinemaworld);
+            mockMovieApi.updateProvider.mockResolvedValue({ ...cinemaworld, displayName: 'Cinema World' });
+            renderAt('/admin/providers/cinemaworld/edit');
+
+            await waitFor(() => {
+                expect(screen.getByLabelText('Display name')).toHaveValue('Cinemaworld');
+            });
+
+            expect(screen.queryByLabelText('Id')).not.toBeInTheDocument();
+            expect(screen.getByLabelText('API token')).toHaveValue('');
+            expect(screen.getByText('A token is set. Leave blank to keep it, unless the base URL changes.')).toBeInTheDocument();
+
+            fireEvent.change(screen.getByLabelText('Display name'), { target: { value: 'Cinema World' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+
+            await waitFor(() => {
+                expect(screen.getByRole('heading', { name: 'Providers' })).toBeInTheDocument();
+            });
+
+            const [id, input] = mockMovieApi.updateProvider.mock.calls[0];
+            expect(id).toBe('cinemaworld');
+            expect(input).toMatchObject({ displayName: 'Cinema World', apiToken: undefined });
+            expect(input).not.toHaveProperty('id');
+        });
+
+        test('asks for a new token before moving a stored token to a new base URL', async () => {
+            mockMovieApi.getProvider.mockResolvedValue(cinemaworld);
+            renderAt('/admin/providers/cinemaworld/edit');
+
+            await waitFor(() => {
+                expect(screen.getByLabelText('Base URL')).toHaveValue('https://example.com/api/cinemaworld');
+            });
+
+            fireEvent.change(screen.getByLabelText('Base URL'), { target: { value: 'https://elsewhere.example' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+
+            expect(screen.getByText('Enter a new token for the new base URL.')).toBeInTheDocument();
+            expect(mockMovieApi.updateProvider).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { toasts } from '../../services/notifications';
+import { MovieComparison, PriceInfo } from '../../types/Movie';
+import ReportPage from '../ReportPage';
+
+const price = (providerId: string, provider: string, value: number): PriceInfo => ({
+    providerId,
+    provider,
+    movieId: `${providerId}-id`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const movies: MovieComparison[] = [
+    {
+        id: '1',
+        title: 'The Matrix',
+        year: '1999',
+        genre: 'Action, Sci-Fi',
+        prices: [price('cinemaworld', 'Cinemaworld', 15.99), price('filmworld', 'Filmworld', 14.99)],
+        cheapestPrice: price('filmworld', 'Filmworld', 14.99)
+    },
+    {
+        id: '2',
+        title: 'Inception',
+        year: '2010',
+        genre: 'Action, Sci-Fi',
+        prices: [price('cinemaworld', 'Cinemaworld', 9.5)],
+        cheapestPrice: price('cinemaworld', 'Cinemaworld', 9.5)
+    },
+    {
+        id: '3',
+        title: 'Amélie',
+        year: '2001',
+        genre: 'Comedy, Romance',
+        prices: []
+    }
+];
+
+const renderPage = (url: string) =>
+    render(
+        <MemoryRouter initialEntries={[url]}>
+            <ReportPage movies={movies} loading={false} />
+        </MemoryRouter>
+    );
+
+const reportedTitles = () =>
+    screen.getAllByRole('rowheader').map(header => header.textContent);
+
+describe('ReportPage', () => {
+    afterEach(() => {
+        toasts.clear();
+    });
+
+    test('reports the movies the list filters select', () => {
+        renderPage('/report?genre=Action&sort=title');
+
+        expect(reportedTitles()).toEqual(['Inception', 'The Matrix']);
+        expect(screen.getByText(/^2 movies, prices as of/)).toBeInTheDocument();
+        expect(screen.getByRole('link', { name: '← Back to all movies' })).toHaveAttribute('href', '/?genre=Action&sort=title');
+    });
+
+    test('reports the compared movies when the link names them', () => {
+        renderPage('/report?movie=3&movie=1');
+
+        expect(reportedTitles()).toEqual(['Amélie', 'The Matrix']);
+        expect(screen.getByRole('link', { name: '← Back to comparison' })).toHaveAttribute('href', '/compare?movie=3&movie=1');
+    });
+
+    test('shows every provider price and marks the cheapest', () => {
+        renderPage('/report');
+
+        const matrixRow = screen.getByRole('row', { name: /The Matrix/ });
+        expect(within(matrixRow).getByText('$14.99')).toHaveClass('cheapest-in-row');
+        expect(within(matrixRow).getByText('$14.99 (Filmworld)')).toBeInTheDocument();
+        expect(within(screen.getByRole('row', { name: /Amélie/ })).getAllByText('—')).toHaveLength(3);
+    });
+
+    test('prints the page itself', () => {
+        const print = jest.spyOn(window, 'print').mockImplementation(() => {});
+        renderPage('/report');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Print' }));
+
+        expect(print).toHaveBeenCalled();
+        print.mockRestore();
+    });
+
+    test('copies a link that brings back the same movies', async () => {
+        const writeText = jest.fn().mockResolvedValue(undefined);
+        Object.assign(navigator, { clipboard: { writeText } });
+        renderPage('/report?genre=Action');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Copy share link' }));
+
+        await waitFor(() => {
+            expect(toasts.getSnapshot()).toEqual([expect.objectContaining({ message: expect.stringMatching(/^Link copied/) })]);
+        });
+        expect(writeText).toHaveBeenCalledWith('http://localhost/report?genre=Action');
+    });
+
+    test('shows the link when the clipboard is unavailable', async () => {
+        Object.assign(navigator, { clipboard: undefined });
+        renderPage('/report?movie=1&movie=2');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Copy share link' }));
+
+        await waitFor(() => {
+            expect(toasts.getSnapshot()[0].message).toContain('http://localhost/report?movie=1&movie=2');
+        });
+    });
+
+    test('says so when nothing matches', () => {
+        renderPage('/report?q=nothing');
+
+        expect(screen.getByText('No movies match this report.')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Download CSV' })).toBeDisabled();
+    });
+});
@@ -0,0 +1,125 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { preferences } from '../../services/preferences';
+import { watchlist } from '../../services/watchlist';
+import { MovieComparison } from '../../types/Movie';
+import WatchlistPage from '../WatchlistPage';
+
+const matrix: MovieComparison = {
+    id: '1',
+    title: 'The Matrix',
+    prices: [
+        {
+            providerId: 'filmworld',
+            provider: 'Filmworld',
+            movieId: 'fw001',
+            price: 14.99,
+            lastUpdated: '2023-01-01T00:00:00Z'
+        }
+    ],
+    cheapestPrice: {
+        providerId: 'filmworld',
+        provider: 'Filmworld',
+        movieId: 'fw001',
+        price: 14.99,
+        lastUpdated: '2023-01-01T00:00:00Z'
+    }
+};
+
+const renderPage = (movies: MovieComparison[] = [matrix]) =>
+    render(
+        <MemoryRouter>
+            <WatchlistPage movies={movies} />
+        </MemoryRouter>
+    );
+
+describe('WatchlistPage', () => {
+    beforeEach(() => {
+        watchlist.clear();
+        preferences.reset();
+    });
+
+    test('shows an empty state', () => {
+        renderPage();
+
+        expect(screen.getByText('Your watchlist is empty. Star a movie to watch its price.')).toBeInTheDocument();
+        expect(screen.getByText('Export JSON')).toBeDisabled();
+    });
+
+    test('lists watched movies with their current best price and target', () => {
+        watchlist.add(matrix);
+
+        renderPage();
+
+        expect(screen.getByRole('link', { name: 'The Matrix' })).toHaveAttribute('href', '/movies/1');
+        expect(screen.getByText('$14.99')).toBeInTheDocument();
+        expect(screen.getByLabelText('Target price for The Matrix')).toHaveValue(14.99);
+    });
+
+    test('marks movies that are no longer listed', () => {
+        watchlist.add(matrix);
+
+        renderPage([]);
+
+        expect(screen.getByText('Not currently listed')).toBeInTheDocument();
+    });
+
+    test('updates the target price', () => {
+        watchlist.add(matrix);
+        renderPage();
+
+        fireEvent.change(screen.getByLabelText('Target price for The Matrix'), { target: { value: '9.5' } });
+
+        expect(watchlist.getSnapshot()[0].targetPrice).toBe(9.5);
+    });
+
+    test('takes targets in the display currency and stores them in the base currency', () => {
+        preferences.setCurrency('USD');
+        watchlist.add(matrix);
+        renderPage();
+
+        expect(screen.getByText('Alert me below (USD)')).toBeInTheDocument();
+        expect(screen.getByLabelText('Target price for The Matrix')).toHaveValue(9.89);
+
+        fireEvent.change(screen.getByLabelText('Target price for The Matrix'), { target: { value: '6.6' } });
+
+        expect(watchlist.getSnapshot()[0].targetPrice).toBeCloseTo(10);
+    });
+
+    test('removes a movie', () => {
+        watchlist.add(matrix);
+        renderPage();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Remove The Matrix' }));
+
+        expect(screen.getByText('Your watchlist is empty. Star a movie to watch its price.')).toBeInTheDocument();
+    });
+
+    test('imports a watchlist file', async () => {
+        renderPage();
+        const file = new File(
+            [JSON.stringify({ version: 1, items: [{ movieKey: '1', title: 'The Matrix', targetPrice: 10, addedAt: '2023-01-01T00:00:00Z' }] })],
+            'watchlist.json',
+            { type: 'application/json' }
+        );
+
+        fireEvent.change(screen.getByLabelText('Import JSON'), { target: { files: [file] } });
+
+        await waitFor(() => {
+            expect(screen.getByText('Imported 1 movie.')).toBeInTheDocument();
+        });
+        expect(screen.getByLabelText('Target price for The Matrix')).toHaveValue(10);
+    });
+
+    test('reports a file that is not a watchlist', async () => {
+        renderPage();
+        const file = new File(['nope'], 'watchlist.json', { type: 'application/json' });
+
+        fireEvent.change(screen.getByLabelText('Import JSON'), { target: { files: [file] } });
+
+        await waitFor(() => {
+            expect(screen.getByText('The file is not valid JSON.')).toBeInTheDocument();
+        });
+    });
+});
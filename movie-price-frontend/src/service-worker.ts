@@ -0,0 +1,81 @@
+/// <reference lib="webworker" />
+
+// Built by react-scripts (Workbox InjectManifest) into /service-worker.js for
+// production builds only; serviceWorkerRegistration.ts registers it.
+
+import { clientsClaim } from 'workbox-core';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { CacheFirst, NetworkFirst } from 'workbox-strategies';
+import { isMovieDetailPath, isMovieListPath } from './utils/serviceWorkerRoutes';
+
+declare const self: ServiceWorkerGlobalScope;
+
+const DAY_SECONDS = 24 * 60 * 60;
+const FILE_EXTENSION = /\/[^/?]+\.[^/]+$/;
+const POSTER_PATH = /\/api\/movies\/[^/]+\/posters\/[^/]+$/;
+
+clientsClaim();
+
+// App shell: the build's HTML, JS and CSS, versioned by the injected manifest.
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Client-side routes (/movies/:id, /watchlist, ...) all boot from index.html.
+registerRoute(
+  ({ request, url }) =>
+    request.mode === 'navigate' && !url.pathname.startsWith('/_') && !FILE_EXTENSION.test(url.pathname),
+  createHandlerBoundToURL(`${process.env.PUBLIC_URL}/index.html`)
+);
+
+// The runtime config can change without a new build, so it is revalidated on
+// every start; the cached copy lets the app start offline.
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && url.pathname === `${process.env.PUBLIC_URL}/config.json`,
+  new NetworkFirst({
+    cacheName: 'runtime-config',
+    plugins: [new CacheableResponsePlugin({ statuses: [200] })],
+  })
+);
+
+// Prices change, so lists and details always try the network first and fall
+// back to the last good response only when it fails. The page's banner says
+// how old those prices are.
+registerRoute(
+  ({ url }) => isMovieListPath(url.pathname),
+  new NetworkFirst({
+    cacheName: 'movie-lists',
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [200] }),
+      // One entry per page of the list, kept for a week of offline use.
+      new ExpirationPlugin({ maxEntries: 100, maxAgeSeconds: 7 * DAY_SECONDS }),
+    ],
+  })
+);
+
+registerRoute(
+  ({ url }) => isMovieDetailPath(url.pathname),
+  new NetworkFirst({
+    cacheName: 'movie-details',
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [200] }),
+      new ExpirationPlugin({ maxEntries: 200, maxAgeSeconds: 7 * DAY_SECONDS }),
+    ],
+  })
+);
+
+// Posters never change for a given URL. The proxy's posters load in CORS mode
+// (see getPosterCrossOrigin), so only real 200s are kept and a missing poster is
+// asked for again next time. Provider URLs linked directly by old servers are
+// opaque, so their status is unknown; they are left to the browser's HTTP cache.
+registerRoute(
+  ({ request, url }) => request.destination === 'image' && POSTER_PATH.test(url.pathname),
+  new CacheFirst({
+    cacheName: 'movie-posters',
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [200] }),
+      new ExpirationPlugin({ maxEntries: 300, maxAgeSeconds: 30 * DAY_SECONDS, purgeOnQuotaError: true }),
+    ],
+  })
+);
@@ -0,0 +1,22 @@
+import { diagnostics } from './services/diagnostics';
+
+// The service worker only exists in production builds; in development it
+// would serve stale bundles over the dev server's hot reloads.
+
+/** Registers /service-worker.js once the page has loaded, so it does not compete with the first render. */
+export function register() {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+  // A PUBLIC_URL on another origin (a CDN) cannot host the worker for this page.
+  const publicUrl = new URL(process.env.PUBLIC_URL, window.location.href);
+  if (publicUrl.origin !== window.location.origin) {
+    return;
+  }
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      // The app works without it, only not offline, so this is reported rather than shown.
+      .catch(error => diagnostics.reportError(error));
+  });
+}
@@ -0,0 +1,36 @@
+import { AdminKeyStore } from '../adminKey';
+
+const STORAGE_KEY = 'test-admin-key';
+
+const createStore = () => new AdminKeyStore({ storageKey: STORAGE_KEY, storage: window.sessionStorage });
+
+describe('AdminKeyStore', () => {
+    beforeEach(() => {
+        window.sessionStorage.clear();
+    });
+
+    test('starts without a key', () => {
+        expect(createStore().getSnapshot()).toBe('');
+    });
+
+    test('keeps the key for the session and notifies subscribers', () => {
+        const store = createStore();
+        const listener = jest.fn();
+        store.subscribe(listener);
+
+        store.set('admin-secret');
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(createStore().getSnapshot()).toBe('admin-secret');
+    });
+
+    test('forgets the key when cleared', () => {
+        const store = createStore();
+        store.set('admin-secret');
+
+        store.clear();
+
+        expect(store.getSnapshot()).toBe('');
+        expect(window.sessionStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+});
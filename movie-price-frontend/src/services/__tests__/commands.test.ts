@@ -0,0 +1,91 @@
+import { Command, CommandRegistry, formatShortcut, matchesShortcut } from '../commands';
+
+const command = (id: string, shortcut?: string): Command => ({
+    id,
+    title: id,
+    group: 'General',
+    shortcut,
+    run: jest.fn()
+});
+
+const keyDown = (key: string, init: KeyboardEventInit = {}, target: EventTarget = document.body) => {
+    const event = new KeyboardEvent('keydown', { key, bubbles: true, ...init });
+    Object.defineProperty(event, 'target', { value: target });
+    return event;
+};
+
+describe('commands', () => {
+    describe('matchesShortcut', () => {
+        test('matches a single key outside text fields only', () => {
+            const input = document.createElement('input');
+
+            expect(matchesShortcut('r', keyDown('r'))).toBe(true);
+            expect(matchesShortcut('r', keyDown('r', {}, input))).toBe(false);
+            expect(matchesShortcut('r', keyDown('r', { ctrlKey: true }))).toBe(false);
+            expect(matchesShortcut('?', keyDown('?', { shiftKey: true }))).toBe(true);
+        });
+
+        test('matches mod+ with Ctrl or Cmd, even in text fields', () => {
+            const input = document.createElement('input');
+
+            expect(matchesShortcut('mod+k', keyDown('k', { ctrlKey: true }))).toBe(true);
+            expect(matchesShortcut('mod+k', keyDown('K', { metaKey: true }, input))).toBe(true);
+            expect(matchesShortcut('mod+k', keyDown('k'))).toBe(false);
+            expect(matchesShortcut('mod+k', keyDown('k', { ctrlKey: true, altKey: true }))).toBe(false);
+        });
+    });
+
+    test('formats mod+ for the platform', () => {
+        const platform = jest.spyOn(navigator, 'platform', 'get');
+
+        platform.mockReturnValue('Win32');
+        expect(formatShortcut('mod+k')).toBe('Ctrl+K');
+        platform.mockReturnValue('MacIntel');
+        expect(formatShortcut('mod+k')).toBe('⌘K');
+        expect(formatShortcut('/')).toBe('/');
+
+        platform.mockRestore();
+    });
+
+    describe('CommandRegistry', () => {
+        test('lists commands while registered and notifies subscribers', () => {
+            const registry = new CommandRegistry();
+            const listener = jest.fn();
+            registry.subscribe(listener);
+
+            const unregister = registry.register([command('refresh'), command('search')]);
+            expect(registry.getSnapshot().map(({ id }) => id)).toEqual(['refresh', 'search']);
+
+            unregister();
+            expect(registry.getSnapshot()).toEqual([]);
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+
+        test('a later registration replaces a command with the same id', () => {
+            const registry = new CommandRegistry();
+            const first = command('refresh');
+            const second = command('refresh');
+
+            registry.register([first, command('search')]);
+            const unregister = registry.register([second]);
+            expect(registry.getSnapshot()).toEqual([expect.objectContaining({ id: 'search' }), second]);
+
+            unregister();
+            expect(registry.getSnapshot()).toEqual([first, expect.objectContaining({ id: 'search' })]);
+        });
+
+        test('finds the most recently registered command for a key', () => {
+            const registry = new CommandRegistry();
+            const global = command('refresh', 'r');
+            const local = command('reload-view', 'r');
+
+            registry.register([global]);
+            const unregister = registry.register([local]);
+            expect(registry.commandFor(keyDown('r'))).toBe(local);
+
+            unregister();
+            expect(registry.commandFor(keyDown('r'))).toBe(global);
+            expect(registry.commandFor(keyDown('x'))).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,50 @@
+import { ConnectivityStore } from '../connectivity';
+
+describe('ConnectivityStore', () => {
+    let online: boolean;
+
+    const goOnline = (value: boolean) => {
+        online = value;
+        window.dispatchEvent(new Event(value ? 'online' : 'offline'));
+    };
+
+    beforeEach(() => {
+        online = true;
+        jest.spyOn(window.navigator, 'onLine', 'get').mockImplementation(() => online);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('starts from navigator.onLine', () => {
+        online = false;
+
+        expect(new ConnectivityStore().getSnapshot()).toBe(false);
+    });
+
+    test('follows online and offline events and notifies subscribers', () => {
+        const store = new ConnectivityStore();
+        const listener = jest.fn();
+        store.subscribe(listener);
+
+        goOnline(false);
+        expect(store.getSnapshot()).toBe(false);
+        goOnline(true);
+        expect(store.getSnapshot()).toBe(true);
+
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    test('ignores events that do not change the state', () => {
+        const store = new ConnectivityStore();
+        const listener = jest.fn();
+        const unsubscribe = store.subscribe(listener);
+
+        goOnline(true);
+        unsubscribe();
+        goOnline(false);
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,114 @@
+import { InvalidResponseError, ServerError } from '../apiErrors';
+import { DiagnosticsOptions, DiagnosticsReporter } from '../diagnostics';
+
+describe('DiagnosticsReporter', () => {
+    let send: jest.Mock;
+
+    const createReporter = (options: Partial<DiagnosticsOptions> = {}) => new DiagnosticsReporter({
+        appVersion: '1.2.3',
+        batchSize: 3,
+        flushIntervalMs: 1000,
+        maxQueued: 5,
+        send,
+        ...options
+    });
+
+    const sentEvents = () => send.mock.calls.flatMap(([, report]) => report.events);
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        send = jest.fn().mockResolvedValue(undefined);
+        window.history.pushState({}, '', '/movies/the-matrix-1999?q=private');
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        window.history.pushState({}, '', '/');
+    });
+
+    test('sends nothing until installed, then batches what was queued', async () => {
+        const reporter = createReporter();
+        reporter.reportError(new TypeError('price is null'));
+
+        jest.advanceTimersByTime(5000);
+        expect(send).not.toHaveBeenCalled();
+
+        reporter.install('http://api/api/diagnostics');
+        jest.advanceTimersByTime(1000);
+
+        expect(send).toHaveBeenCalledWith('http://api/api/diagnostics', {
+            appVersion: '1.2.3',
+            route: '/movies/the-matrix-1999',
+            events: [expect.objectContaining({ type: 'error', name: 'TypeError', message: 'price is null', route: '/movies/the-matrix-1999' })]
+        });
+    });
+
+    test('sends a full batch straight away', async () => {
+        const reporter = createReporter();
+        reporter.install('http://api/api/diagnostics');
+
+        reporter.reportWebVital('LCP', 1830.4567);
+        reporter.reportWebVital('FCP', 900);
+        expect(send).not.toHaveBeenCalled();
+        reporter.reportWebVital('CLS', 0.01234);
+        await Promise.resolve();
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(sentEvents().map(event => [event.name, event.value])).toEqual([['LCP', 1830.457], ['FCP', 900], ['CLS', 0.012]]);
+    });
+
+    test('reports failed API calls by path and status only', async () => {
+        const reporter = createReporter();
+        reporter.install('http://api/api/diagnostics');
+
+        reporter.reportApiFailure(new ServerError('Failed to update provider', 'http://api/api/providers/x?token=1', 400, 'Token abc is invalid'));
+        reporter.reportApiFailure(new InvalidResponseError('Failed to fetch movies', 'http://api/api/movies', 'data/0 must have required property \'title\''));
+        jest.advanceTimersByTime(1000);
+
+        expect(sentEvents()).toEqual([
+            expect.objectContaining({ type: 'api-failure', name: 'ServerError', message: 'Failed to update provider', endpoint: '/api/providers/x', status: 400 }),
+            expect.objectContaining({ type: 'api-failure', name: 'InvalidResponseError', message: 'data/0 must have required property \'title\'', endpoint: '/api/movies' })
+        ]);
+        expect(JSON.stringify(sentEvents())).not.toContain('abc');
+    });
+
+    test('reports the same error on the same route once', async () => {
+        const reporter = createReporter();
+        reporter.install('http://api/api/diagnostics');
+
+        reporter.reportError(new TypeError('price is null'), 'at MovieCard');
+        reporter.reportError(new TypeError('price is null'), 'at MovieCard');
+        jest.advanceTimersByTime(1000);
+
+        expect(sentEvents()).toHaveLength(1);
+        expect(sentEvents()[0].stack).toBe('at MovieCard');
+    });
+
+    test('keeps only the newest events and drops failed sends', async () => {
+        send.mockRejectedValue(new Error('offline'));
+        const reporter = createReporter({ batchSize: 10 });
+        for (let index = 0; index < 7; index++) {
+            reporter.reportWebVital('FCP', index);
+        }
+
+        reporter.install('http://api/api/diagnostics');
+        await reporter.flush();
+        await reporter.flush();
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(sentEvents().map(event => event.value)).toEqual([2, 3, 4, 5, 6]);
+    });
+
+    test('flushes when the page is hidden', async () => {
+        const reporter = createReporter();
+        reporter.install('http://api/api/diagnostics');
+        reporter.reportError('Unexpected token');
+
+        jest.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+        document.dispatchEvent(new Event('visibilitychange'));
+        await Promise.resolve();
+
+        expect(sentEvents()).toEqual([expect.objectContaining({ type: 'error', name: 'Error', message: 'Unexpected token' })]);
+        jest.restoreAllMocks();
+    });
+});
@@ -1,10 +1,21 @@
-import { MovieComparison, MovieDetail } from '../../types/Movie';
-import { movieApi } from '../movieApi';
+import { fixtureMovieDetails, fixtureMovies, fixtureProviders, fixtureRefreshResult } from '../../mocks/fixtures';
+import { MovieDetail, MoviePage } from '../../types/Movie';
+import { NewApiProviderInput, ProviderStatusReport } from '../../types/Provider';
+import { AbortedError, InvalidResponseError, NetworkError, NotFoundError, ServerError, TimeoutError } from '../apiErrors';
+import { diagnostics } from '../diagnostics';
+import { MovieApiService } from '../movieApi';
 
 // Mock fetch globally
 global.fetch = jest.fn();
 const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
 
+// Retries are covered separately; the bulk of the suite checks single requests.
+const movieApi = new MovieApiService({ retries: 0 });
+const withSignal = expect.objectContaining({ signal: expect.any(AbortSignal) });
+
+const firstPage = { page: 1, pageSize: 100 };
+const asPage = (items: unknown[]) => ({ items, page: 1, pageSize: 100, totalCount: items.length, totalPages: 1 });
+
 describe('MovieApiService', () => {
     beforeEach(() => {
         jest.clearAllMocks();
@@ -16,24 +27,15 @@ describe('MovieApiService', () => {
 
     describe('getMovies', () => {
         test('should fetch movies successfully', async () => {
-            const mockMovies: MovieComparison[] = [
-                {
-                    id: '1',
-                    title: 'The Matrix',
-                    year: '1999',
-                    prices: []
-                }
-            ];
-
             mockFetch.mockResolvedValueOnce({
                 ok: true,
-                json: async () => mockMovies,
+                json: async () => asPage(fixtureMovies),
             } as any);
 
-            const result = await movieApi.getMovies();
+            const result = await movieApi.getMovies(firstPage);
 
-            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/movies');
-            expect(result).toEqual(mockMovies);
+            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/movies?page=1&pageSize=100', withSignal);
+            expect(result).toEqual(asPage(fixtureMovies));
         });
 
         test('should throw error when response is not ok', async () => {
@@ -43,37 +45,78 @@ describe('MovieApiService', () => {
                 statusText: 'Internal Server Error',
             } as any);
 
-            await expect(movieApi.getMovies()).rejects.toThrow('Failed to fetch movies');
+            await expect(movieApi.getMovies(firstPage)).rejects.toThrow('Failed to fetch movies');
         });
 
         test('should handle network errors', async () => {
             mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
-            await expect(movieApi.getMovies()).rejects.toThrow('Network error');
+            await expect(movieApi.getMovies(firstPage)).rejects.toThrow('Network error');
+        });
+
+        test('should request one page and return it with totals', async () => {
+            const mockPage: MoviePage = {
+                items: [{ id: '1', title: 'The Matrix', prices: [] }],
+                page: 2,
+                pageSize: 50,
+                totalCount: 51,
+                totalPages: 2
+            };
+
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => mockPage,
+            } as any);
+
+            const result = await movieApi.getMovies({ page: 2, pageSize: 50 });
+
+            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/movies?page=2&pageSize=50', withSignal);
+            expect(result).toEqual(mockPage);
+        });
+
+        test('should drop malformed movies but keep the page', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    items: [{ id: '1', title: 'The Matrix', prices: [] }, { title: 'No id' }],
+                    page: 1,
+                    pageSize: 2,
+                    totalCount: 2,
+                    totalPages: 1
+                }),
+            } as any);
+            const report = jest.spyOn(diagnostics, 'reportApiFailure').mockImplementation(() => undefined);
+
+            const result = await movieApi.getMovies({ page: 1, pageSize: 2 });
+
+            expect(result.items).toHaveLength(1);
+            expect(result.totalCount).toBe(2);
+            report.mockRestore();
+        });
+
+        test('should reject a plain array where a page was expected', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => [],
+            } as any);
+
+            await expect(movieApi.getMovies({ page: 1, pageSize: 50 })).rejects.toBeInstanceOf(InvalidResponseError);
         });
     });
 
     describe('getMovieDetail', () => {
         test('should fetch movie detail successfully', async () => {
-            const mockMovieDetail: MovieDetail = {
-                title: 'The Matrix',
-                year: '1999',
-                genre: 'Action, Sci-Fi',
-                director: 'Wachowski Sisters',
-                plot: 'A computer programmer discovers reality is a simulation.',
-                prices: [],
-                updatedAt: ''
-            };
+            const [movieDetail] = fixtureMovieDetails;
 
             mockFetch.mockResolvedValueOnce({
                 ok: true,
-                json: async () => mockMovieDetail,
+                json: async () => movieDetail,
             } as any);
 
-            const result = await movieApi.getMovieDetail(1);
+            const result = await movieApi.getMovieDetail(movieDetail.id);
 
-            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/movies/1');
-            expect(result).toEqual(mockMovieDetail);
+            expect(mockFetch).toHaveBeenCalledWith(`http://127.0.0.1:5091/api/movies/${movieDetail.id}`, withSignal);
+            expect(result).toEqual(movieDetail);
         });
 
         test('should throw error when movie not found', async () => {
@@ -83,11 +126,38 @@ describe('MovieApiService', () => {
                 statusText: 'Not Found',
             } as any);
 
-            await expect(movieApi.getMovieDetail(999)).rejects.toThrow('Failed to fetch movie detail');
+            await expect(movieApi.getMovieDetail('missing-movie')).rejects.toThrow('Failed to fetch movie detail');
+        });
+
+        test('should throw NotFoundError carrying the server message on 404', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 404,
+                statusText: 'Not Found',
+                json: async () => ({ error: 'Movie with ID cw999 not found' }),
+            } as any);
+
+            const error = await movieApi.getMovieDetail('cw999').catch(e => e);
+
+            expect(error).toBeInstanceOf(NotFoundError);
+            expect(error.status).toBe(404);
+            expect(error.serverMessage).toBe('Movie with ID cw999 not found');
+        });
+
+        test('should encode string movie IDs', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ id: 'test-movie', title: 'Test Movie', prices: [], updatedAt: '' }),
+            } as Response);
+
+            await movieApi.getMovieDetail('cw 001');
+
+            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/movies/cw%20001', withSignal);
         });
 
         test('should handle different movie IDs correctly', async () => {
             const mockMovieDetail: MovieDetail = {
+                id: 'test-movie-2023',
                 title: 'Test Movie',
                 prices: [],
                 updatedAt: ''
@@ -98,9 +168,9 @@ describe('MovieApiService', () => {
                 json: async () => mockMovieDetail,
             } as Response);
 
-            await movieApi.getMovieDetail(42);
+            await movieApi.getMovieDetail('test-movie-2023');
 
-            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/movies/42');
+            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/movies/test-movie-2023', withSignal);
         });
     });
 
@@ -108,13 +178,28 @@ describe('MovieApiService', () => {
         test('should refresh movie data successfully', async () => {
             mockFetch.mockResolvedValueOnce({
                 ok: true,
+                json: async () => fixtureRefreshResult,
             } as Response);
 
-            await movieApi.refreshMovieData();
+            const result = await movieApi.refreshMovieData();
 
             expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/movies/refresh', {
                 method: 'POST',
+                signal: expect.any(AbortSignal),
             });
+            expect(result).toEqual(fixtureRefreshResult);
+        });
+
+        test('should reject a refresh summary in an unexpected format', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ message: 'Movie data refreshed successfully' }),
+            } as Response);
+
+            const error = await movieApi.refreshMovieData().catch(e => e);
+
+            expect(error).toBeInstanceOf(InvalidResponseError);
+            expect((error as InvalidResponseError).details).toMatch(/refreshedAt/);
         });
 
         test('should throw error when refresh fails', async () => {
@@ -134,6 +219,141 @@ describe('MovieApiService', () => {
         });
     });
 
+    describe('providers', () => {
+        const newProvider: NewApiProviderInput = {
+            id: 'moviemax',
+            displayName: 'MovieMax',
+            baseUrl: 'https://example.com/api/moviemax',
+            apiToken: 'secret',
+            isEnabled: true,
+            priority: 3,
+            timeoutSeconds: 30,
+            endpoints: { movies: '/movies', movieDetail: '/movie/{id}' },
+        };
+
+        test('should fetch providers', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [fixtureProviders[0]] } as Response);
+
+            const result = await movieApi.getProviders();
+
+            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/providers', withSignal);
+            expect(result).toEqual([fixtureProviders[0]]);
+        });
+
+        test('should reject a provider list containing a malformed provider', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [fixtureProviders[0], { id: 'broken' }] } as Response);
+
+            await expect(movieApi.getProviders()).rejects.toBeInstanceOf(InvalidResponseError);
+        });
+
+        test('should create a provider with a JSON body', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...fixtureProviders[0], id: 'moviemax' }) } as Response);
+
+            await movieApi.createProvider(newProvider);
+
+            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/providers', {
+                method: 'POST',
+                signal: expect.any(AbortSignal),
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(newProvider),
+            });
+        });
+
+        test('should update a provider with PUT', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...fixtureProviders[0], isEnabled: false }) } as Response);
+            const { id, ...input } = newProvider;
+
+            const result = await movieApi.updateProvider('cinemaworld', { ...input, isEnabled: false });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'http://127.0.0.1:5091/api/providers/cinemaworld',
+                expect.objectContaining({ method: 'PUT' })
+            );
+            expect(result.isEnabled).toBe(false);
+        });
+
+        test('should send the admin key with provider changes', async () => {
+            const adminApi = new MovieApiService({ retries: 0, getAdminKey: () => 'admin-secret' });
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => fixtureProviders[0] } as Response);
+            const { id, ...input } = newProvider;
+
+            await adminApi.updateProvider('cinemaworld', input);
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'http://127.0.0.1:5091/api/providers/cinemaworld',
+                expect.objectContaining({ headers: { 'Content-Type': 'application/json', 'X-Admin-Key': 'admin-secret' } })
+            );
+        });
+
+        test('should fetch provider status and drop null fields', async () => {
+            const report: ProviderStatusReport = {
+                checkedAt: '2023-01-01T10:05:00Z',
+                staleAfterMinutes: 10,
+                providers: [{
+                    providerId: 'cinemaworld',
+                    provider: 'Cinemaworld',
+                    isEnabled: true,
+                    state: 'failing',
+                    lastErrorAt: '2023-01-01T10:00:00Z',
+                    lastError: 'HTTP 503 Service Unavailable',
+                    latencyMs: 250,
+                    servedFromCache: true,
+                    recentLatencies: [{ at: '2023-01-01T10:00:00Z', latencyMs: 250, succeeded: false }],
+                }],
+            };
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ ...report, providers: [{ ...report.providers[0], lastSuccessAt: null }] }),
+            } as Response);
+
+            const result = await movieApi.getProviderStatus();
+
+            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:5091/api/providers/status', withSignal);
+            expect(result).toEqual(report);
+        });
+
+        test('should reject provider status with an unknown state', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    checkedAt: '2023-01-01T10:05:00Z',
+                    staleAfterMinutes: 10,
+                    providers: [{ providerId: 'cinemaworld', provider: 'Cinemaworld', isEnabled: true, state: 'sleepy', servedFromCache: false, recentLatencies: [] }],
+                }),
+            } as Response);
+
+            await expect(movieApi.getProviderStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+        });
+
+        test('should surface the conflict message when the id is taken', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 409,
+                json: async () => ({ error: 'Provider with ID moviemax already exists' }),
+            } as Response);
+
+            const error = await movieApi.createProvider(newProvider).catch(e => e);
+
+            expect(error).toBeInstanceOf(ServerError);
+            expect(error.serverMessage).toBe('Provider with ID moviemax already exists');
+        });
+
+        test('should join field messages from validation problem details', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 400,
+                json: async () => ({
+                    title: 'One or more validation errors occurred.',
+                    errors: { BaseUrl: ['The BaseUrl field is not a valid fully-qualified http, https, or ftp URL.'], Priority: ['Too high.'] }
+                }),
+            } as Response);
+
+            const error = await movieApi.createProvider(newProvider).catch(e => e);
+
+            expect(error.serverMessage).toBe('The BaseUrl field is not a valid fully-qualified http, https, or ftp URL. Too high.');
+        });
+    });
+
     describe('error handling', () => {
         test('should handle JSON parsing errors', async () => {
             mockFetch.mockResolvedValueOnce({
@@ -143,61 +363,102 @@ describe('MovieApiService', () => {
                 },
             } as unknown as Response);
 
-            await expect(movieApi.getMovies()).rejects.toThrow('Invalid JSON');
+            await expect(movieApi.getMovies(firstPage)).rejects.toThrow('Invalid JSON');
         });
 
         test('should handle fetch rejection', async () => {
             mockFetch.mockRejectedValueOnce(new Error('Fetch failed'));
 
-            await expect(movieApi.getMovies()).rejects.toThrow('Fetch failed');
+            await expect(movieApi.getMovies(firstPage)).rejects.toThrow('Fetch failed');
         });
 
         test('should handle undefined response', async () => {
             mockFetch.mockResolvedValueOnce(undefined as any);
 
-            await expect(movieApi.getMovies()).rejects.toThrow();
+            await expect(movieApi.getMovies(firstPage)).rejects.toThrow();
+        });
+
+        test('should pass failed calls to onFailure, but not aborted ones', async () => {
+            const onFailure = jest.fn();
+            const reportingApi = new MovieApiService({ retries: 0, onFailure });
+            mockFetch.mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({}) } as unknown as Response);
+
+            await expect(reportingApi.getMovies(firstPage)).rejects.toThrow();
+            expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ name: 'ServerError', status: 500 }));
+
+            const controller = new AbortController();
+            controller.abort();
+            await expect(reportingApi.getMovies(firstPage, { signal: controller.signal })).rejects.toThrow();
+            expect(onFailure).toHaveBeenCalledTimes(1);
         });
     });
 
     describe('API endpoints', () => {
+        // One valid response each for getMovies, getMovieDetail and refreshMovieData.
+        const mockEndpointResponses = () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: true, json: async () => asPage([]) } as unknown as Response)
+                .mockResolvedValueOnce({
+                    ok: true,
+                    json: async () => ({ id: 'test-movie', title: 'Test Movie', prices: [], updatedAt: '' }),
+                } as Response)
+                .mockResolvedValueOnce({ ok: true, json: async () => fixtureRefreshResult } as Response);
+        };
+
         test('should use correct base URL for all endpoints', async () => {
             const baseUrl = 'http://127.0.0.1:5091/api';
 
-            // Mock all responses
-            mockFetch.mockResolvedValue({
-                ok: true,
-                json: async () => ({}),
-            } as Response);
+            mockEndpointResponses();
 
             // Test all endpoints
-            await movieApi.getMovies();
-            await movieApi.getMovieDetail(1);
+            await movieApi.getMovies(firstPage);
+            await movieApi.getMovieDetail('test-movie');
             await movieApi.refreshMovieData();
 
             const calls = mockFetch.mock.calls;
-            expect(calls[0][0]).toBe(`${baseUrl}/movies`);
-            expect(calls[1][0]).toBe(`${baseUrl}/movies/1`);
+            expect(calls[0][0]).toBe(`${baseUrl}/movies?page=1&pageSize=100`);
+            expect(calls[1][0]).toBe(`${baseUrl}/movies/test-movie`);
             expect(calls[2][0]).toBe(`${baseUrl}/movies/refresh`);
         });
 
+        test('should use the base URL and timeouts it is configured with at startup', async () => {
+            const configuredApi = new MovieApiService({ retries: 0 });
+            configuredApi.configure({ baseUrl: 'https://api.example.com', timeoutMs: 1000, refreshTimeoutMs: 3000 });
+            jest.useFakeTimers();
+            mockFetch.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+                init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+            }));
+
+            const movies = configuredApi.getMovies(firstPage).catch(e => e);
+            const refresh = configuredApi.refreshMovieData().catch(e => e);
+            jest.advanceTimersByTime(3000);
+
+            expect(mockFetch.mock.calls[0][0]).toBe('https://api.example.com/api/movies?page=1&pageSize=100');
+            expect(await movies).toMatchObject({ name: 'TimeoutError', timeoutMs: 1000 });
+            expect(await refresh).toMatchObject({ name: 'TimeoutError', timeoutMs: 3000 });
+            jest.useRealTimers();
+        });
+
+        test('should build poster proxy URLs with escaped ids', () => {
+            expect(movieApi.getPosterUrl('cw 001', 'film/world', 400))
+                .toBe('http://127.0.0.1:5091/api/movies/cw%20001/posters/film%2Fworld?width=400');
+        });
+
         test('should use correct HTTP methods', async () => {
-            mockFetch.mockResolvedValue({
-                ok: true,
-                json: async () => ({}),
-            } as Response);
+            mockEndpointResponses();
 
-            await movieApi.getMovies();
-            await movieApi.getMovieDetail(1);
+            await movieApi.getMovies(firstPage);
+            await movieApi.getMovieDetail('test-movie');
             await movieApi.refreshMovieData();
 
             const calls = mockFetch.mock.calls;
 
             // GET requests (default method)
-            expect(calls[0][1]).toBeUndefined(); // getMovies
-            expect(calls[1][1]).toBeUndefined(); // getMovieDetail
+            expect(calls[0][1]?.method).toBeUndefined(); // getMovies
+            expect(calls[1][1]?.method).toBeUndefined(); // getMovieDetail
 
             // POST request
-            expect(calls[2][1]).toEqual({ method: 'POST' }); // refreshMovieData
+            expect(calls[2][1]?.method).toBe('POST'); // refreshMovieData
         });
     });
 
@@ -217,7 +478,7 @@ describe('MovieApiService', () => {
                 statusText,
             } as Response);
 
-            await expect(movieApi.getMovies()).rejects.toThrow('Failed to fetch movies');
+            await expect(movieApi.getMovies(firstPage)).rejects.toThrow('Failed to fetch movies');
         });
 
         test.each([
@@ -230,11 +491,221 @@ describe('MovieApiService', () => {
                 ok: true,
                 status,
                 statusText,
-                json: async () => [],
+                json: async () => asPage([]),
             } as Response);
 
-            const result = await movieApi.getMovies();
-            expect(result).toEqual([]);
+            const result = await movieApi.getMovies(firstPage);
+            expect(result).toEqual(asPage([]));
+        });
+    });
+
+    describe('structured errors', () => {
+        test('should throw ServerError with status and server message', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 500,
+                json: async () => ({ error: 'An error occurred while retrieving movies' }),
+            } as Response);
+
+            const error = await movieApi.getMovies(firstPage).catch(e => e);
+
+            expect(error).toBeInstanceOf(ServerError);
+            expect(error.status).toBe(500);
+            expect(error.serverMessage).toBe('An error occurred while retrieving movies');
+            expect(error.url).toBe('http://127.0.0.1:5091/api/movies?page=1&pageSize=100');
+        });
+
+        test('should wrap fetch rejections in NetworkError', async () => {
+            const cause = new TypeError('Failed to fetch');
+            mockFetch.mockRejectedValueOnce(cause);
+
+            const error = await movieApi.getMovies(firstPage).catch(e => e);
+
+            expect(error).toBeInstanceOf(NetworkError);
+            expect(error.cause).toBe(cause);
+        });
+    });
+
+    describe('timeouts and cancellation', () => {
+        // Behaves like the real fetch: rejects once the request signal aborts.
+        const hangUntilAborted = (_input: RequestInfo | URL, init?: RequestInit) =>
+            new Promise<Response>((_resolve, reject) => {
+                init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+            });
+
+        test('should throw TimeoutError when the request exceeds the timeout', async () => {
+            mockFetch.mockImplementationOnce(hangUntilAborted);
+
+            const error = await movieApi.getMovies(firstPage, { timeoutMs: 5 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(error.timeoutMs).toBe(5);
+        });
+
+        test('should throw AbortedError when the caller aborts', async () => {
+            mockFetch.mockImplementationOnce(hangUntilAborted);
+            const controller = new AbortController();
+
+            const promise = movieApi.getMovies(firstPage, { signal: controller.signal });
+            controller.abort();
+
+            await expect(promise).rejects.toBeInstanceOf(AbortedError);
+        });
+
+        test('should not call fetch when the signal is already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(movieApi.getMovies(firstPage, { signal: controller.signal })).rejects.toBeInstanceOf(AbortedError);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('retries', () => {
+        const retryingApi = new MovieApiService({ retries: 2, retryDelayMs: 1 });
+        const failure = { ok: false, status: 503, json: async () => ({}) } as Response;
+        const success = { ok: true, json: async () => asPage([]) } as unknown as Response;
+
+        test('should retry GETs on server errors with backoff', async () => {
+            mockFetch
+                .mockResolvedValueOnce(failure)
+                .mockResolvedValueOnce(failure)
+                .mockResolvedValueOnce(success);
+
+            await expect(retryingApi.getMovies(firstPage)).resolves.toEqual(asPage([]));
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        test('should retry GETs on network errors', async () => {
+            mockFetch
+                .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+                .mockResolvedValueOnce(success);
+
+            await expect(retryingApi.getMovies(firstPage)).resolves.toEqual(asPage([]));
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        test('should give up after the configured number of retries', async () => {
+            mockFetch.mockResolvedValue(failure);
+
+            await expect(retryingApi.getMovies(firstPage)).rejects.toBeInstanceOf(ServerError);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        test('should not retry 404 responses', async () => {
+            mockFetch.mockResolvedValue({ ok: false, status: 404, json: async () => ({}) } as Response);
+
+            await expect(retryingApi.getMovieDetail('cw999')).rejects.toBeInstanceOf(NotFoundError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('should never retry POST requests', async () => {
+            mockFetch.mockResolvedValue(failure);
+
+            await expect(retryingApi.refreshMovieData()).rejects.toBeInstanceOf(ServerError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('should honour a per-request retry override', async () => {
+            mockFetch.mockResolvedValue(failure);
+
+            await expect(retryingApi.getMovies(firstPage, { retries: 0 })).rejects.toBeInstanceOf(ServerError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('response validation', () => {
+        const respondWith = (body: unknown) =>
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => body } as Response);
+
+        const validPrice = {
+            providerId: 'cinemaworld',
+            provider: 'Cinemaworld',
+            movieId: 'cw001',
+            price: 15.99,
+            lastUpdated: '2023-01-01T00:00:00Z'
+        };
+
+        beforeEach(() => {
+            jest.spyOn(diagnostics, 'reportApiFailure').mockImplementation(() => { });
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        test('should keep null prices and drop a cheapest price without an amount', async () => {
+            const nullPrice = { ...validPrice, price: null };
+            respondWith(asPage([{ id: '1', title: 'The Matrix', prices: [nullPrice], cheapestPrice: nullPrice }]));
+
+            const { items: [movie] } = await movieApi.getMovies(firstPage);
+
+            expect(movie.prices).toEqual([nullPrice]);
+            expect(movie.cheapestPrice).toBeUndefined();
+        });
+
+        test('should drop malformed price entries', async () => {
+            respondWith(asPage([{ id: '1', title: 'The Matrix', prices: [validPrice, { provider: 'Broken' }, null] }]));
+
+            const { items: [movie] } = await movieApi.getMovies(firstPage);
+
+            expect(movie.prices).toEqual([validPrice]);
+        });
+
+        test('should drop malformed poster candidates', async () => {
+            const poster = { providerId: 'cinemaworld', url: 'https://example.com/matrix.jpg' };
+            respondWith(asPage([{ id: '1', title: 'The Matrix', prices: [], posters: [poster, { providerId: 'filmworld' }, null] }]));
+
+            const { items: [movie] } = await movieApi.getMovies(firstPage);
+
+            expect(movie.posters).toEqual([poster]);
+        });
+
+        test('should turn null optional fields into absent ones', async () => {
+            respondWith(asPage([{ id: '1', title: 'The Matrix', year: null, poster: null, prices: [], cheapestPrice: null }]));
+
+            const { items: [movie] } = await movieApi.getMovies(firstPage);
+
+            expect(movie).toEqual({ id: '1', title: 'The Matrix', prices: [] });
+        });
+
+        test('should discard movies that do not match the contract', async () => {
+            respondWith(asPage([
+                { id: '1', title: 'The Matrix', prices: [] },
+                { id: '2', prices: [] },
+                { id: '', title: 'Inception', prices: [] },
+                'not a movie'
+            ]));
+
+            const { items: movies } = await movieApi.getMovies(firstPage);
+
+            expect(movies.map(movie => movie.id)).toEqual(['1']);
+            expect(diagnostics.reportApiFailure).toHaveBeenCalledWith(expect.objectContaining({
+                details: 'Discarded 3 malformed movie(s)'
+            }));
+        });
+
+        test('should reject a list response that is not a page', async () => {
+            respondWith({ movies: [] });
+
+            await expect(movieApi.getMovies(firstPage)).rejects.toBeInstanceOf(InvalidResponseError);
+        });
+
+        test('should reject a movie detail without required fields', async () => {
+            respondWith({ id: 'the-matrix-1999', title: 'The Matrix' });
+
+            const error = await movieApi.getMovieDetail('cw001').catch(e => e);
+
+            expect(error).toBeInstanceOf(InvalidResponseError);
+            expect(error.details).toMatch(/updatedAt/);
+        });
+
+        test('should sanitise prices in a movie detail', async () => {
+            respondWith({ id: 'the-matrix-1999', title: 'The Matrix', prices: [validPrice, { price: 'free' }], updatedAt: '2023-01-01T00:00:00Z' });
+
+            const detail = await movieApi.getMovieDetail('cw001');
+
+            expect(detail.prices).toEqual([validPrice]);
         });
     });
 });
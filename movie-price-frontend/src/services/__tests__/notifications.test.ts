@@ -0,0 +1,66 @@
+import { announcePriceAlerts, ToastStore, toasts } from '../notifications';
+
+const alert = { movieKey: '1', title: 'The Matrix', provider: 'Filmworld', price: 12.99, targetPrice: 14.99 };
+
+describe('notifications', () => {
+    // Toasts schedule their own dismissal.
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        toasts.clear();
+        delete (window as Partial<Window & { Notification: unknown }>).Notification;
+    });
+
+    test('toasts dismiss themselves after their duration', () => {
+        const store = new ToastStore(1000);
+
+        store.show('Hello');
+        expect(store.getSnapshot().map(toast => toast.message)).toEqual(['Hello']);
+
+        jest.advanceTimersByTime(1000);
+        expect(store.getSnapshot()).toEqual([]);
+    });
+
+    test('toasts can be dismissed early', () => {
+        const store = new ToastStore(1000);
+        const id = store.show('Hello');
+
+        store.dismiss(id);
+
+        expect(store.getSnapshot()).toEqual([]);
+    });
+
+    test('announces price alerts as toasts', () => {
+        announcePriceAlerts([alert]);
+
+        expect(toasts.getSnapshot().map(toast => toast.message)).toEqual([
+            'The Matrix is $12.99 at Filmworld, below your target of $14.99'
+        ]);
+    });
+
+    test('raises a browser notification once permission is granted', () => {
+        const NotificationMock = jest.fn();
+        Object.assign(NotificationMock, { permission: 'granted' });
+        Object.defineProperty(window, 'Notification', { value: NotificationMock, configurable: true });
+
+        announcePriceAlerts([alert]);
+
+        expect(NotificationMock).toHaveBeenCalledWith('Price drop on your watchlist', {
+            body: 'The Matrix is $12.99 at Filmworld, below your target of $14.99'
+        });
+    });
+
+    test('skips browser notifications without permission', () => {
+        const NotificationMock = jest.fn();
+        Object.assign(NotificationMock, { permission: 'default' });
+        Object.defineProperty(window, 'Notification', { value: NotificationMock, configurable: true });
+
+        announcePriceAlerts([alert]);
+
+        expect(NotificationMock).not.toHaveBeenCalled();
+        expect(toasts.getSnapshot()).toHaveLength(1);
+    });
+});
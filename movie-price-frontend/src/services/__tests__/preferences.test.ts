@@ -0,0 +1,59 @@
+import { DEFAULT_PREFERENCES, PreferencesStore } from '../preferences';
+
+const STORAGE_KEY = 'test-preferences';
+
+const createStore = () => new PreferencesStore({ storageKey: STORAGE_KEY, storage: window.localStorage });
+
+describe('PreferencesStore', () => {
+    beforeEach(() => {
+        window.localStorage.clear();
+    });
+
+    test('starts with the default locale and the base currency', () => {
+        expect(createStore().getSnapshot()).toEqual(DEFAULT_PREFERENCES);
+    });
+
+    test('persists changes and notifies subscribers', () => {
+        const store = createStore();
+        const listener = jest.fn();
+        store.subscribe(listener);
+
+        store.setLocale('fr-FR');
+        store.setCurrency('EUR');
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(createStore().getSnapshot()).toEqual({ locale: 'fr-FR', currency: 'EUR' });
+    });
+
+    test('ignores currencies without an exchange rate', () => {
+        const store = createStore();
+
+        store.setCurrency('XYZ');
+
+        expect(store.getSnapshot().currency).toBe(DEFAULT_PREFERENCES.currency);
+    });
+
+    test('falls back to the defaults for unknown or corrupt stored values', () => {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ locale: 'xx-XX', currency: 'EUR' }));
+        expect(createStore().getSnapshot()).toEqual({ locale: DEFAULT_PREFERENCES.locale, currency: 'EUR' });
+
+        window.localStorage.setItem(STORAGE_KEY, '{not json');
+        expect(createStore().getSnapshot()).toEqual(DEFAULT_PREFERENCES);
+        expect(window.localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    test('uses the deployment defaults until the shopper chooses', () => {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ currency: 'USD' }));
+        const store = createStore();
+        const listener = jest.fn();
+        store.subscribe(listener);
+
+        store.setDefaults({ locale: 'de-DE', currency: 'EUR' });
+        expect(store.getSnapshot()).toEqual({ locale: 'de-DE', currency: 'USD' });
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        store.setLocale('fr-FR');
+        store.reset();
+        expect(store.getSnapshot()).toEqual({ locale: 'de-DE', currency: 'EUR' });
+    });
+});
@@ -0,0 +1,189 @@
+import { PriceChangeEvent } from '../../types/Movie';
+import { diagnostics } from '../diagnostics';
+import { PriceEventsClient, PriceEventsOptions } from '../priceEvents';
+
+// jsdom has no EventSource; this one is driven by the test.
+class FakeEventSource extends EventTarget {
+    static instances: FakeEventSource[] = [];
+
+    readonly url: string;
+    closed = false;
+
+    constructor(url: string) {
+        super();
+        this.url = url;
+        FakeEventSource.instances.push(this);
+    }
+
+    static get latest() {
+        return FakeEventSource.instances[FakeEventSource.instances.length - 1];
+    }
+
+    open() {
+        this.dispatchEvent(new Event('open'));
+    }
+
+    fail() {
+        this.dispatchEvent(new Event('error'));
+    }
+
+    send(data: unknown) {
+        this.dispatchEvent(new MessageEvent('price-changed', { data: JSON.stringify(data) }));
+    }
+
+    close() {
+        this.closed = true;
+    }
+}
+
+const priceChange: PriceChangeEvent = {
+    movieId: 'the-matrix-1999',
+    providerId: 'filmworld',
+    provider: 'Filmworld',
+    providerMovieId: 'fw0133093',
+    previousPrice: 13.5,
+    price: 11.5,
+    removed: false,
+    fromCache: false,
+    lastUpdated: '2023-01-02T00:00:00Z'
+};
+
+describe('PriceEventsClient', () => {
+    let onChange: jest.Mock;
+    let onResync: jest.Mock;
+    let online: boolean;
+
+    const createClient = (options: Partial<PriceEventsOptions> = {}) => new PriceEventsClient({
+        url: 'http://api/api/movies/events',
+        onChange,
+        onResync,
+        createEventSource: url => new FakeEventSource(url) as unknown as EventSource,
+        isOnline: () => online,
+        ...options
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        FakeEventSource.instances = [];
+        onChange = jest.fn();
+        onResync = jest.fn();
+        online = true;
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('delivers validated price changes once the stream is open', () => {
+        const client = createClient();
+        const listener = jest.fn();
+        client.subscribe(listener);
+
+        client.start();
+        expect(client.getSnapshot()).toBe('connecting');
+        FakeEventSource.latest.open();
+        FakeEventSource.latest.send(priceChange);
+
+        expect(FakeEventSource.latest.url).toBe('http://api/api/movies/events');
+        expect(client.getSnapshot()).toBe('live');
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(onChange).toHaveBeenCalledWith(priceChange);
+        expect(onResync).not.toHaveBeenCalled();
+    });
+
+    test('skips malformed events without dropping the stream', () => {
+        const reportError = jest.spyOn(diagnostics, 'reportError').mockImplementation(() => undefined);
+        const client = createClient();
+        client.start();
+        FakeEventSource.latest.open();
+
+        FakeEventSource.latest.send({ movieId: 'the-matrix-1999' });
+        FakeEventSource.latest.send(priceChange);
+
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(reportError).toHaveBeenCalledTimes(1);
+        expect(client.getSnapshot()).toBe('live');
+        reportError.mockRestore();
+    });
+
+    test('reconnects with exponential backoff and resyncs once back', () => {
+        const client = createClient({ initialRetryMs: 1000, failuresBeforePolling: 10 });
+        client.start();
+
+        FakeEventSource.latest.fail();
+        expect(FakeEventSource.instances[0].closed).toBe(true);
+        expect(client.getSnapshot()).toBe('reconnecting');
+        jest.advanceTimersByTime(999);
+        expect(FakeEventSource.instances).toHaveLength(1);
+        jest.advanceTimersByTime(1);
+        expect(FakeEventSource.instances).toHaveLength(2);
+
+        FakeEventSource.latest.fail();
+        jest.advanceTimersByTime(1999);
+        expect(FakeEventSource.instances).toHaveLength(2);
+        jest.advanceTimersByTime(1);
+        expect(FakeEventSource.instances).toHaveLength(3);
+
+        FakeEventSource.latest.open();
+        expect(client.getSnapshot()).toBe('live');
+        expect(onResync).toHaveBeenCalledTimes(1);
+    });
+
+    test('caps the backoff at maxRetryMs', () => {
+        const client = createClient({ initialRetryMs: 1000, maxRetryMs: 3000, failuresBeforePolling: 10 });
+        client.start();
+
+        for (let attempt = 0; attempt < 4; attempt++) {
+            FakeEventSource.latest.fail();
+            jest.advanceTimersByTime(3000);
+        }
+
+        expect(FakeEventSource.instances).toHaveLength(5);
+    });
+
+    test('polls while the stream keeps failing and stops once it opens', () => {
+        const client = createClient({ initialRetryMs: 1000, maxRetryMs: 1000, failuresBeforePolling: 2, pollIntervalMs: 5000 });
+        client.start();
+
+        FakeEventSource.latest.fail();
+        jest.advanceTimersByTime(1000);
+        FakeEventSource.latest.fail();
+        expect(client.getSnapshot()).toBe('polling');
+
+        jest.advanceTimersByTime(5000);
+        expect(onResync).toHaveBeenCalledTimes(1);
+
+        FakeEventSource.latest.fail();
+        jest.advanceTimersByTime(1000);
+        FakeEventSource.latest.open();
+        expect(client.getSnapshot()).toBe('live');
+        // The reconnect resync, and no more polls after it
+        jest.advanceTimersByTime(20000);
+        expect(onResync).toHaveBeenCalledTimes(2);
+    });
+
+    test('only polls without EventSource, and skips polls while offline', () => {
+        const client = createClient({ createEventSource: null, pollIntervalMs: 5000 });
+        client.start();
+
+        expect(client.getSnapshot()).toBe('polling');
+        jest.advanceTimersByTime(5000);
+        online = false;
+        jest.advanceTimersByTime(5000);
+
+        expect(onResync).toHaveBeenCalledTimes(1);
+    });
+
+    test('stop closes the stream and cancels pending retries', () => {
+        const client = createClient();
+        client.start();
+        FakeEventSource.latest.fail();
+
+        client.stop();
+        jest.advanceTimersByTime(60000);
+
+        expect(client.getSnapshot()).toBe('idle');
+        expect(FakeEventSource.instances).toHaveLength(1);
+        expect(onResync).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,117 @@
+import { PriceInfo } from '../../types/Movie';
+import { diagnostics } from '../diagnostics';
+import { MemoryPriceHistoryStore, PriceHistory } from '../priceHistory';
+
+const VISIT_KEY = 'test-last-visit';
+
+const price = (providerId: string, value: number | null): PriceInfo => ({
+    providerId,
+    provider: providerId === 'cinemaworld' ? 'Cinemaworld' : 'Filmworld',
+    movieId: `${providerId}-001`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const matrix = (...prices: PriceInfo[]) => ({ id: 'the-matrix-1999', title: 'The Matrix', prices });
+
+const createHistory = (store = new MemoryPriceHistoryStore(), maxSnapshots = 10) =>
+    new PriceHistory({ store, maxSnapshots, visitStorageKey: VISIT_KEY, storage: window.localStorage });
+
+describe('PriceHistory', () => {
+    beforeEach(() => {
+        window.localStorage.clear();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('records one history per movie and provider', async () => {
+        const history = createHistory();
+
+        await history.record([matrix(price('cinemaworld', 15.99), price('filmworld', 14.99))], 1000);
+
+        const records = history.getMovieHistory('the-matrix-1999');
+        expect(records.map(record => record.providerId)).toEqual(['cinemaworld', 'filmworld']);
+        expect(records[0]).toMatchObject({ provider: 'Cinemaworld', snapshots: [{ price: 15.99, recordedAt: 1000 }], lastSeenAt: 1000 });
+    });
+
+    test('only appends a snapshot when the price changes', async () => {
+        const history = createHistory();
+
+        await history.record([matrix(price('cinemaworld', 15.99))], 1000);
+        await history.record([matrix(price('cinemaworld', 15.99))], 2000);
+        await history.record([matrix(price('cinemaworld', 12.99))], 3000);
+
+        const [record] = history.getMovieHistory('the-matrix-1999');
+        expect(record.snapshots).toEqual([
+            { price: 15.99, recordedAt: 1000 },
+            { price: 12.99, recordedAt: 3000 }
+        ]);
+        expect(record.lastSeenAt).toBe(3000);
+    });
+
+    test('skips providers without a usable price', async () => {
+        const history = createHistory();
+
+        await history.record([matrix(price('cinemaworld', null))], 1000);
+
+        expect(history.getMovieHistory('the-matrix-1999')).toEqual([]);
+    });
+
+    test('keeps only the most recent snapshots', async () => {
+        const history = createHistory(new MemoryPriceHistoryStore(), 2);
+
+        await history.record([matrix(price('cinemaworld', 1))], 1000);
+        await history.record([matrix(price('cinemaworld', 2))], 2000);
+        await history.record([matrix(price('cinemaworld', 3))], 3000);
+
+        expect(history.getMovieHistory('the-matrix-1999')[0].snapshots.map(snapshot => snapshot.price)).toEqual([2, 3]);
+    });
+
+    test('restores recorded history from the store', async () => {
+        const store = new MemoryPriceHistoryStore();
+        await createHistory(store).record([matrix(price('cinemaworld', 15.99))], 1000);
+
+        const reloaded = createHistory(store);
+        await reloaded.load();
+
+        expect(reloaded.getMovieHistory('the-matrix-1999')[0].snapshots).toEqual([{ price: 15.99, recordedAt: 1000 }]);
+    });
+
+    test('keeps recording in memory when the store fails', async () => {
+        jest.spyOn(diagnostics, 'reportError').mockImplementation(() => { });
+        const store = new MemoryPriceHistoryStore();
+        const failure = new Error('QuotaExceededError');
+        jest.spyOn(store, 'put').mockRejectedValue(failure);
+        const history = createHistory(store);
+
+        await history.record([matrix(price('cinemaworld', 15.99))], 1000);
+
+        expect(history.getMovieHistory('the-matrix-1999')).toHaveLength(1);
+        expect(diagnostics.reportError).toHaveBeenCalledWith(failure);
+    });
+
+    test('notifies subscribers with a new snapshot on every change', async () => {
+        const history = createHistory();
+        const listener = jest.fn();
+        history.subscribe(listener);
+        const before = history.getSnapshot();
+
+        await history.record([matrix(price('cinemaworld', 15.99))], 1000);
+
+        expect(listener).toHaveBeenCalled();
+        expect(history.getSnapshot()).not.toBe(before);
+        expect(history.getSnapshot().get('the-matrix-1999')).toHaveLength(1);
+    });
+
+    test('remembers when the app was last opened', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(5000);
+
+        expect(createHistory().previousVisitAt).toBeUndefined();
+
+        jest.spyOn(Date, 'now').mockReturnValue(9000);
+        expect(createHistory().previousVisitAt).toBe(5000);
+        expect(window.localStorage.getItem(VISIT_KEY)).toBe('9000');
+    });
+});
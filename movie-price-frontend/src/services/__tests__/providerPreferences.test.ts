@@ -0,0 +1,51 @@
+import { ProviderPreferencesStore } from '../providerPreferences';
+
+const STORAGE_KEY = 'test-provider-preferences';
+
+const createStore = () => new ProviderPreferencesStore({ storageKey: STORAGE_KEY, storage: window.localStorage });
+
+describe('ProviderPreferencesStore', () => {
+    beforeEach(() => {
+        window.localStorage.clear();
+    });
+
+    test('starts with every provider ranked normally', () => {
+        expect(createStore().getSnapshot()).toEqual({});
+    });
+
+    test('persists ranks and notifies subscribers', () => {
+        const store = createStore();
+        const listener = jest.fn();
+        store.subscribe(listener);
+
+        store.setRank('filmworld', 'hidden');
+        store.setRank('cinemaworld', 'pinned');
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(createStore().getSnapshot()).toEqual({ filmworld: 'hidden', cinemaworld: 'pinned' });
+    });
+
+    test('forgets a provider set back to normal, and everything on reset', () => {
+        const store = createStore();
+        store.setRank('filmworld', 'hidden');
+        store.setRank('cinemaworld', 'downRanked');
+
+        store.setRank('filmworld', 'normal');
+        expect(store.getSnapshot()).toEqual({ cinemaworld: 'downRanked' });
+
+        store.reset();
+        expect(createStore().getSnapshot()).toEqual({});
+    });
+
+    test('drops unknown ranks and corrupt stored values', () => {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ filmworld: 'hidden', cinemaworld: 'banned', moviemax: 'normal' }));
+        expect(createStore().getSnapshot()).toEqual({ filmworld: 'hidden' });
+
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(['filmworld']));
+        expect(createStore().getSnapshot()).toEqual({});
+
+        window.localStorage.setItem(STORAGE_KEY, '{not json');
+        expect(createStore().getSnapshot()).toEqual({});
+        expect(window.localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+});
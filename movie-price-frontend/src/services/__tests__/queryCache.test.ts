@@ -0,0 +1,145 @@
+import { QueryCache } from '../queryCache';
+
+const STORAGE_KEY = 'test-query-cache';
+
+const createCache = () => new QueryCache({
+    staleTimeMs: 1000,
+    ttlMs: 10000,
+    storageKey: STORAGE_KEY,
+    storage: window.localStorage
+});
+
+describe('QueryCache', () => {
+    let now: number;
+
+    beforeEach(() => {
+        window.localStorage.clear();
+        now = 1_000_000;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('runs the fetcher on a cache miss and stores the result', async () => {
+        const cache = createCache();
+        const fetcher = jest.fn().mockResolvedValue(['movie']);
+
+        await expect(cache.fetch('movies', fetcher)).resolves.toEqual(['movie']);
+
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(cache.getState('movies')).toEqual({ data: ['movie'], error: undefined, updatedAt: now, isFetching: false });
+    });
+
+    test('serves fresh data without refetching', async () => {
+        const cache = createCache();
+        const fetcher = jest.fn().mockResolvedValue(['movie']);
+
+        await cache.fetch('movies', fetcher);
+        now += 500;
+        await cache.fetch('movies', fetcher);
+
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    test('keeps serving stale data while revalidating', async () => {
+        const cache = createCache();
+        await cache.fetch('movies', () => Promise.resolve(['old']));
+        now += 2000;
+
+        let resolve: (value: string[]) => void = () => { };
+        const pending = cache.fetch('movies', () => new Promise<string[]>(r => { resolve = r; }));
+
+        expect(cache.isStale('movies')).toBe(true);
+        expect(cache.getState('movies')).toMatchObject({ data: ['old'], isFetching: true });
+
+        resolve(['new']);
+        await pending;
+
+        expect(cache.getState('movies').data).toEqual(['new']);
+    });
+
+    test('drops data older than the TTL', async () => {
+        const cache = createCache();
+        await cache.fetch('movies', () => Promise.resolve(['old']));
+        now += 20000;
+
+        expect(cache.getState('movies').data).toBeUndefined();
+    });
+
+    test('shares one in-flight request between concurrent callers', async () => {
+        const cache = createCache();
+        const fetcher = jest.fn().mockResolvedValue(['movie']);
+
+        const [first, second] = await Promise.all([
+            cache.fetch('movies', fetcher),
+            cache.fetch('movies', fetcher)
+        ]);
+
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(first).toBe(second);
+    });
+
+    test('refetches when forced or invalidated', async () => {
+        const cache = createCache();
+        const fetcher = jest.fn().mockResolvedValue(['movie']);
+
+        await cache.fetch('movies', fetcher);
+        await cache.fetch('movies', fetcher, { force: true });
+        cache.invalidate('movies');
+        await cache.fetch('movies', fetcher);
+
+        expect(fetcher).toHaveBeenCalledTimes(3);
+    });
+
+    test('records errors and keeps previous data', async () => {
+        const cache = createCache();
+        const error = new Error('boom');
+        await cache.fetch('movies', () => Promise.resolve(['old']));
+
+        await expect(cache.fetch('movies', () => Promise.reject(error), { force: true })).rejects.toBe(error);
+
+        expect(cache.getState('movies')).toMatchObject({ data: ['old'], error, isFetching: false });
+    });
+
+    test('notifies subscribers of the key', async () => {
+        const cache = createCache();
+        const listener = jest.fn();
+        const unsubscribe = cache.subscribe('movies', listener);
+
+        await cache.fetch('movies', () => Promise.resolve([]));
+        unsubscribe();
+        cache.setData('movies', ['changed']);
+
+        // Once when the request starts and once when it settles.
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    test('restores persisted entries in a new instance', async () => {
+        await createCache().fetch('movies/cw001', () => Promise.resolve({ title: 'The Matrix' }));
+
+        const reloaded = createCache();
+
+        expect(reloaded.getState('movies/cw001').data).toEqual({ title: 'The Matrix' });
+    });
+
+    test('ignores a corrupt persisted copy', () => {
+        window.localStorage.setItem(STORAGE_KEY, '{not json');
+
+        const cache = createCache();
+
+        expect(cache.getState('movies').data).toBeUndefined();
+        expect(window.localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    test('clear removes memory and persisted entries', async () => {
+        const cache = createCache();
+        await cache.fetch('movies', () => Promise.resolve([]));
+
+        cache.clear();
+
+        expect(cache.getState('movies').data).toBeUndefined();
+        expect(window.localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+});
@@ -0,0 +1,84 @@
+import { DEFAULT_RUNTIME_CONFIG, loadRuntimeConfig, parseRuntimeConfig, RuntimeConfigError } from '../runtimeConfig';
+
+global.fetch = jest.fn();
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const stagingConfig = {
+    apiBaseUrl: 'https://api.staging.example.com/',
+    timeouts: { requestMs: 8000, refreshMs: 60000 },
+    features: { livePrices: false, providerAdmin: true, diagnostics: true },
+    defaultLocale: 'de-DE',
+    defaultCurrency: 'EUR',
+    exchangeRates: { AUD: 1, EUR: 0.6, JPY: 98 }
+};
+
+describe('runtime config', () => {
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    test('loads config.json, revalidating any cached copy', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => stagingConfig } as Response);
+
+        const config = await loadRuntimeConfig('/config.json');
+
+        expect(mockFetch).toHaveBeenCalledWith('/config.json', { cache: 'no-cache' });
+        expect(config).toEqual({ ...stagingConfig, apiBaseUrl: 'https://api.staging.example.com' });
+    });
+
+    test('accepts a same-origin API path', () => {
+        expect(parseRuntimeConfig({ ...DEFAULT_RUNTIME_CONFIG, apiBaseUrl: '/' }).apiBaseUrl).toBe('');
+        expect(parseRuntimeConfig({ ...DEFAULT_RUNTIME_CONFIG, apiBaseUrl: '/movies-api' }).apiBaseUrl).toBe('/movies-api');
+    });
+
+    test('lists every problem in an invalid config', () => {
+        const parse = () => parseRuntimeConfig({
+            ...stagingConfig,
+            apiBaseUrl: 'api.example.com',
+            timeouts: { requestMs: 500 },
+            features: { ...stagingConfig.features, livePrices: 'yes' },
+            defaultCurrency: 'usd',
+            exchangeRates: { AUD: 2, EUR: -1 }
+        }, '/config.json');
+
+        expect(parse).toThrow('/config.json is invalid');
+        expect(parse).toThrow(expect.objectContaining({ details: expect.arrayContaining([
+            expect.stringContaining('apiBaseUrl must match pattern'),
+            'timeouts/requestMs must be >= 1000',
+            'timeouts must have required property \'refreshMs\'',
+            'features/livePrices must be boolean',
+            'defaultCurrency must match pattern "^[A-Z]{3}$"',
+            'exchangeRates/AUD must be equal to constant: 1',
+            'exchangeRates/EUR must be > 0'
+        ]) }));
+    });
+
+    test('requires the default currency to have an exchange rate', () => {
+        const parse = () => parseRuntimeConfig({ ...stagingConfig, defaultCurrency: 'USD' }, '/config.json');
+
+        expect(parse).toThrow(expect.objectContaining({
+            details: ['defaultCurrency must be one of the exchangeRates currencies: AUD, EUR, JPY']
+        }));
+    });
+
+    test.each([
+        ['a missing file', { ok: false, status: 404 }, 'Could not load /config.json', ['The server answered 404']],
+        ['a file that is not JSON', { ok: true, json: async () => { throw new SyntaxError('Unexpected token <'); } }, '/config.json is not valid JSON', []]
+    ])('rejects %s', async (_case, response, message, details) => {
+        mockFetch.mockResolvedValueOnce(response as unknown as Response);
+
+        const error = await loadRuntimeConfig('/config.json').catch(e => e);
+
+        expect(error).toBeInstanceOf(RuntimeConfigError);
+        expect(error).toMatchObject({ message, details });
+    });
+
+    test('rejects when the file cannot be fetched', async () => {
+        mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+        await expect(loadRuntimeConfig('/config.json')).rejects.toMatchObject({
+            message: 'Could not load /config.json',
+            details: ['Failed to fetch']
+        });
+    });
+});
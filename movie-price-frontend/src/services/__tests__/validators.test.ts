@@ -0,0 +1,20 @@
+import fs from 'fs';
+import { generateValidators, OUTPUT_PATHS } from '../../../scripts/compileValidators';
+import { validateRuntimeConfig } from '../validators.generated';
+
+describe('validators', () => {
+    test('are compiled from the current schemas', () => {
+        // Out of date: run `npm run validators` and commit the result.
+        const { js, dts } = generateValidators(require);
+
+        expect(fs.readFileSync(OUTPUT_PATHS.js, 'utf8')).toBe(js);
+        expect(fs.readFileSync(OUTPUT_PATHS.dts, 'utf8')).toBe(dts);
+    });
+
+    test('report errors like a runtime-compiled validator', () => {
+        expect(validateRuntimeConfig({ apiBaseUrl: 'ftp://example.com' })).toBe(false);
+        expect(validateRuntimeConfig.errors).toContainEqual(
+            expect.objectContaining({ instancePath: '', message: "must have required property 'timeouts'" })
+        );
+    });
+});
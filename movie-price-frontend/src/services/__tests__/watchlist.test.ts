@@ -0,0 +1,182 @@
+import { MovieComparison, PriceInfo } from '../../types/Movie';
+import { Watchlist, WatchlistImportError } from '../watchlist';
+
+const STORAGE_KEY = 'test-watchlist';
+
+const price = (providerId: string, value: number | null): PriceInfo => ({
+    providerId,
+    provider: providerId === 'cinemaworld' ? 'Cinemaworld' : 'Filmworld',
+    movieId: `${providerId}-001`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const matrix = (...prices: PriceInfo[]): MovieComparison => ({ id: '1', title: 'The Matrix', prices });
+
+const createWatchlist = () => new Watchlist({ storageKey: STORAGE_KEY, storage: window.localStorage });
+
+describe('Watchlist', () => {
+    beforeEach(() => {
+        window.localStorage.clear();
+    });
+
+    test('starts watching at the current best price', () => {
+        const list = createWatchlist();
+
+        list.add(matrix(price('cinemaworld', 15.99), price('filmworld', 14.99)));
+
+        expect(list.getSnapshot()).toEqual([
+            expect.objectContaining({ movieKey: '1', title: 'The Matrix', targetPrice: 14.99 })
+        ]);
+    });
+
+    test('has no target when no provider has a price', () => {
+        const list = createWatchlist();
+
+        list.add(matrix(price('cinemaworld', null)));
+
+        expect(list.getSnapshot()[0].targetPrice).toBeNull();
+    });
+
+    test('toggles a movie on and off', () => {
+        const list = createWatchlist();
+        const movie = matrix(price('cinemaworld', 15.99));
+
+        list.toggle(movie);
+        expect(list.has('1')).toBe(true);
+
+        list.toggle(movie);
+        expect(list.has('1')).toBe(false);
+    });
+
+    test('persists to storage', () => {
+        createWatchlist().add(matrix(price('cinemaworld', 15.99)));
+
+        expect(createWatchlist().getSnapshot()).toHaveLength(1);
+    });
+
+    test('ignores a corrupt stored copy', () => {
+        window.localStorage.setItem(STORAGE_KEY, '{not json');
+
+        expect(createWatchlist().getSnapshot()).toEqual([]);
+    });
+
+    test('drops stored entries that are not watchlist items and keeps the rest', () => {
+        const item = { movieKey: '1', title: 'The Matrix', targetPrice: 14.99, addedAt: '2023-01-01T00:00:00Z', alertedPrice: 12.99 };
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify([
+            item,
+            { movieKey: '2', title: 'Inception' },
+            { movieKey: '', title: 'No key', targetPrice: null, addedAt: '2023-01-01T00:00:00Z' },
+            'not an item',
+            null
+        ]));
+
+        expect(createWatchlist().getSnapshot()).toEqual([item]);
+    });
+
+    describe('check', () => {
+        test('alerts when a provider goes below the target', () => {
+            const list = createWatchlist();
+            list.add(matrix(price('cinemaworld', 15.99)));
+
+            const alerts = list.check([matrix(price('cinemaworld', 15.99), price('filmworld', 12.99))]);
+
+            expect(alerts).toEqual([{ movieKey: '1', title: 'The Matrix', provider: 'Filmworld', price: 12.99, targetPrice: 15.99 }]);
+        });
+
+        test('does not alert at or above the target', () => {
+            const list = createWatchlist();
+            list.add(matrix(price('cinemaworld', 15.99)));
+
+            expect(list.check([matrix(price('cinemaworld', 15.99))])).toEqual([]);
+        });
+
+        test('announces each drop once and again when it goes lower', () => {
+            const list = createWatchlist();
+            list.add(matrix(price('cinemaworld', 15.99)));
+
+            expect(list.check([matrix(price('cinemaworld', 12.99))])).toHaveLength(1);
+            expect(list.check([matrix(price('cinemaworld', 12.99))])).toEqual([]);
+            expect(list.check([matrix(price('cinemaworld', 10.99))])).toHaveLength(1);
+        });
+
+        test('re-arms once the price goes back above the target', () => {
+            const list = createWatchlist();
+            list.add(matrix(price('cinemaworld', 15.99)));
+
+            list.check([matrix(price('cinemaworld', 12.99))]);
+            list.check([matrix(price('cinemaworld', 16.99))]);
+
+            expect(list.check([matrix(price('cinemaworld', 12.99))])).toHaveLength(1);
+        });
+
+        test('re-arms when the target changes', () => {
+            const list = createWatchlist();
+            list.add(matrix(price('cinemaworld', 15.99)));
+            list.check([matrix(price('cinemaworld', 12.99))]);
+
+            list.setTargetPrice('1', 14);
+
+            expect(list.check([matrix(price('cinemaworld', 12.99))])).toEqual([
+                expect.objectContaining({ price: 12.99, targetPrice: 14 })
+            ]);
+        });
+
+        test('ignores zero and negative prices, like the best price shown', () => {
+            const list = createWatchlist();
+            list.add(matrix(price('cinemaworld', 15.99)));
+
+            expect(list.check([matrix(price('cinemaworld', 15.99), price('filmworld', 0))])).toEqual([]);
+            expect(list.check([matrix(price('cinemaworld', 15.99), price('filmworld', -1))])).toEqual([]);
+        });
+
+        test('ignores movies without a target', () => {
+            const list = createWatchlist();
+            list.add(matrix(price('cinemaworld', null)));
+
+            expect(list.check([matrix(price('cinemaworld', 1))])).toEqual([]);
+        });
+    });
+
+    describe('import and export', () => {
+        test('round-trips through JSON', () => {
+            const source = createWatchlist();
+            source.add(matrix(price('cinemaworld', 15.99)));
+            source.setTargetPrice('1', 9.99);
+            const json = source.toJson();
+
+            window.localStorage.clear();
+            const target = createWatchlist();
+
+            expect(target.importJson(json)).toBe(1);
+            expect(target.getSnapshot()).toEqual([
+                expect.objectContaining({ movieKey: '1', title: 'The Matrix', targetPrice: 9.99 })
+            ]);
+        });
+
+        test('lets imported entries replace existing ones', () => {
+            const list = createWatchlist();
+            list.add(matrix(price('cinemaworld', 15.99)));
+            list.add({ id: '2', title: 'Inception', prices: [] });
+
+            list.importJson(JSON.stringify({
+                version: 1,
+                items: [{ movieKey: '1', title: 'The Matrix', targetPrice: 5, addedAt: '2023-01-01T00:00:00Z' }]
+            }));
+
+            expect(list.getSnapshot().map(item => [item.movieKey, item.targetPrice])).toEqual([['2', null], ['1', 5]]);
+        });
+
+        test('rejects files that are not JSON', () => {
+            expect(() => createWatchlist().importJson('not json')).toThrow(WatchlistImportError);
+        });
+
+        test('rejects JSON that is not a watchlist export', () => {
+            const list = createWatchlist();
+
+            expect(() => list.importJson(JSON.stringify({ items: [{ title: 'The Matrix' }] })))
+                .toThrow(/not a watchlist export/);
+            expect(list.getSnapshot()).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,68 @@
+export interface AdminKeyOptions {
+  storageKey: string;
+  storage?: Storage;
+}
+
+type Listener = () => void;
+
+/**
+ * The key the API wants in X-Admin-Key before it lets the provider console
+ * change anything. Kept in sessionStorage, so it is gone once the tab closes.
+ */
+export class AdminKeyStore {
+  private readonly options: AdminKeyOptions;
+  private readonly listeners = new Set<Listener>();
+  private key: string;
+
+  constructor(options: AdminKeyOptions) {
+    this.options = options;
+    this.key = this.restore();
+  }
+
+  /** Empty until the admin enters a key. */
+  getSnapshot = (): string => this.key;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  set(key: string) {
+    this.key = key;
+    try {
+      if (key) {
+        this.storage?.setItem(this.options.storageKey, this.key);
+      } else {
+        this.storage?.removeItem(this.options.storageKey);
+      }
+    } catch {
+      // Storage disabled: the key lasts until reload.
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  clear() {
+    this.set('');
+  }
+
+  private get storage(): Storage | undefined {
+    if (this.options.storage) {
+      return this.options.storage;
+    }
+    return typeof window !== 'undefined' ? window.sessionStorage : undefined;
+  }
+
+  private restore() {
+    try {
+      return this.storage?.getItem(this.options.storageKey) ?? '';
+    } catch {
+      return '';
+    }
+  }
+}
+
+export const adminKey = new AdminKeyStore({
+  storageKey: 'movie-price-comparison:admin-key',
+});
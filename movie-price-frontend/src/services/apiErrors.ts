@@ -0,0 +1,104 @@
+import { translate } from '../i18n/translate';
+import { preferences } from './preferences';
+
+// Error hierarchy thrown by MovieApiService. Callers branch on the subclass
+// (instanceof) rather than parsing messages.
+
+export class ApiError extends Error {
+  readonly url: string;
+  readonly status?: number;
+  readonly serverMessage?: string;
+
+  constructor(message: string, url: string, status?: number, serverMessage?: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ApiError';
+    this.url = url;
+    this.status = status;
+    this.serverMessage = serverMessage;
+  }
+}
+
+/** The API answered 404; for movie detail this means no provider knows the id. */
+export class NotFoundError extends ApiError {
+  constructor(message: string, url: string, serverMessage?: string) {
+    super(message, url, 404, serverMessage);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** The API answered with any other non-success status. */
+export class ServerError extends ApiError {
+  constructor(message: string, url: string, status: number, serverMessage?: string) {
+    super(message, url, status, serverMessage);
+    this.name = 'ServerError';
+  }
+}
+
+/** The API answered successfully but the body does not match types/Movie.ts. */
+export class InvalidResponseError extends ApiError {
+  readonly details: string;
+
+  constructor(message: string, url: string, details: string) {
+    super(message, url);
+    this.name = 'InvalidResponseError';
+    this.details = details;
+  }
+}
+
+/** The request never got a response: DNS, CORS, connection refused, offline. */
+export class NetworkError extends ApiError {
+  readonly cause?: unknown;
+
+  constructor(message: string, url: string, cause?: unknown) {
+    super(message, url);
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(message: string, url: string, timeoutMs: number) {
+    super(message, url);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** The caller cancelled the request through its AbortSignal. */
+export class AbortedError extends ApiError {
+  constructor(url: string) {
+    super('Request was cancelled', url);
+    this.name = 'AbortedError';
+  }
+}
+
+export const isBackendUnreachable = (error: unknown) =>
+  error instanceof NetworkError || error instanceof TimeoutError;
+
+/** Shopper-facing message in the saved locale; server messages are passed through untranslated. */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  const { locale } = preferences.getSnapshot();
+  if (error instanceof NotFoundError) {
+    return translate(locale, 'error.notFound');
+  }
+  if (error instanceof TimeoutError) {
+    return translate(locale, 'error.timeout');
+  }
+  if (error instanceof NetworkError) {
+    return translate(locale, 'error.network');
+  }
+  if (error instanceof InvalidResponseError) {
+    return translate(locale, 'error.invalidResponse');
+  }
+  // Only the provider console's writes need the admin key.
+  if (error instanceof ServerError && (error.status === 401 || error.status === 403)) {
+    return translate(locale, 'error.adminKey');
+  }
+  if (error instanceof ServerError) {
+    return error.serverMessage ?? error.message;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
@@ -0,0 +1,97 @@
+export interface Command {
+  /** Unique across every registered command; a later registration with the same id replaces the earlier one. */
+  id: string;
+  title: string;
+  /** Heading the command is listed under in the palette and the help overlay. */
+  group: string;
+  /** Further words the palette matches, such as a currency's name. */
+  keywords?: string;
+  /**
+   * Key that runs the command: a single character (`/`, `r`, `?`), matched
+   * only outside text fields, or `mod+<key>` for Ctrl on Windows and Linux,
+   * Cmd on macOS, matched everywhere.
+   */
+  shortcut?: string;
+  run: () => void;
+}
+
+type Listener = () => void;
+
+const MOD_PREFIX = 'mod+';
+
+export const isMacPlatform = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/** `mod+k` as the user's keyboard labels it: `⌘K` on a Mac, `Ctrl+K` elsewhere. */
+export const formatShortcut = (shortcut: string) => {
+  if (!shortcut.startsWith(MOD_PREFIX)) {
+    return shortcut;
+  }
+  const key = shortcut.slice(MOD_PREFIX.length).toUpperCase();
+  return isMacPlatform() ? `⌘${key}` : `Ctrl+${key}`;
+};
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const matchesShortcut = (shortcut: string, event: KeyboardEvent) => {
+  if (shortcut.startsWith(MOD_PREFIX)) {
+    return (event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === shortcut.slice(MOD_PREFIX.length);
+  }
+  // Shift is allowed: on most layouts `?` needs it.
+  return event.key === shortcut && !event.ctrlKey && !event.metaKey && !event.altKey && !isTextField(event.target);
+};
+
+/**
+ * Every command the app can run from the palette or the keyboard. Views
+ * register theirs while mounted (see useCommands), so what is on offer always
+ * matches what is on screen.
+ */
+export class CommandRegistry {
+  private readonly listeners = new Set<Listener>();
+  private registrations: Command[][] = [];
+  private commands: Command[] = [];
+
+  /** Stable between changes, for useSyncExternalStore. */
+  getSnapshot = (): Command[] => this.commands;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Adds the commands until the returned function is called. */
+  register(commands: Command[]) {
+    this.registrations = [...this.registrations, commands];
+    this.update();
+    return () => {
+      this.registrations = this.registrations.filter(registration => registration !== commands);
+      this.update();
+    };
+  }
+
+  /** The command bound to the key pressed, if any; the most recently registered wins. */
+  commandFor(event: KeyboardEvent): Command | undefined {
+    for (let index = this.commands.length - 1; index >= 0; index--) {
+      const { shortcut } = this.commands[index];
+      if (shortcut && matchesShortcut(shortcut, event)) {
+        return this.commands[index];
+      }
+    }
+    return undefined;
+  }
+
+  private update() {
+    const byId = new Map<string, Command>();
+    this.registrations.flat().forEach(command => {
+      byId.delete(command.id);
+      byId.set(command.id, command);
+    });
+    this.commands = Array.from(byId.values());
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const commands = new CommandRegistry();
@@ -0,0 +1,35 @@
+type Listener = () => void;
+
+/**
+ * Whether the browser believes it has a network connection. `navigator.onLine`
+ * can report true on a network that goes nowhere, so a true value only means
+ * "worth trying"; false is reliable.
+ */
+export class ConnectivityStore {
+  private readonly listeners = new Set<Listener>();
+  private online: boolean;
+
+  constructor(target: Window = window) {
+    this.online = target.navigator.onLine;
+    const update = () => {
+      if (this.online !== target.navigator.onLine) {
+        this.online = target.navigator.onLine;
+        this.listeners.forEach(listener => listener());
+      }
+    };
+    target.addEventListener('online', update);
+    target.addEventListener('offline', update);
+  }
+
+  /** Stable between changes, for useSyncExternalStore. */
+  getSnapshot = (): boolean => this.online;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const connectivity = new ConnectivityStore();
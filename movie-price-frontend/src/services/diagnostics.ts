@@ -0,0 +1,176 @@
+import { ApiError, InvalidResponseError } from './apiErrors';
+import { observeWebVitals } from './webVitals';
+
+export type DiagnosticEventType = 'error' | 'api-failure' | 'web-vital';
+
+/** One entry of the report; mirrors ClientDiagnosticEvent on the API. */
+export interface DiagnosticEvent {
+  type: DiagnosticEventType;
+  /** Error class, or the Web Vital's short name. */
+  name: string;
+  message?: string;
+  stack?: string;
+  route: string;
+  /** API path of a failed call, without host or query. */
+  endpoint?: string;
+  status?: number;
+  value?: number;
+  occurredAt: string;
+}
+
+/** Body of POST /api/diagnostics. */
+export interface DiagnosticsReport {
+  appVersion: string;
+  route: string;
+  events: DiagnosticEvent[];
+}
+
+export interface DiagnosticsOptions {
+  appVersion: string;
+  /** Events per request; the API accepts at most 50. */
+  batchSize: number;
+  /** How long the first event of a batch waits for others before it is sent. */
+  flushIntervalMs: number;
+  /** Events kept while nothing can be sent; older ones are dropped. */
+  maxQueued: number;
+  send?: (endpoint: string, report: DiagnosticsReport) => Promise<unknown>;
+}
+
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_STACK_LENGTH = 4000;
+
+const truncate = (value: string | undefined, length: number) =>
+  value && value.length > length ? value.slice(0, length) : value;
+
+// Only the path: query strings can carry search text, and hashes are not ours to send.
+const currentRoute = () => window.location.pathname;
+
+const toPath = (url: string) => {
+  try {
+    return new URL(url, window.location.href).pathname;
+  } catch {
+    return undefined;
+  }
+};
+
+const sendWithFetch = (endpoint: string, report: DiagnosticsReport) =>
+  fetch(endpoint, {
+    method: 'POST',
+    // Lets the last batch out while the page unloads.
+    keepalive: true,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(report),
+  });
+
+/**
+ * Collects render errors, uncaught exceptions, failed API calls and Web Vitals
+ * and posts them to the API in batches. Nothing is sent until `install` gives
+ * it the endpoint, so tests and the mock backend stay quiet. Reports carry the
+ * app version and route, never user data: no watchlist, preferences, query
+ * strings or identifiers. Failed sends are dropped rather than retried or
+ * reported, so a dead API cannot feed a loop.
+ */
+export class DiagnosticsReporter {
+  private readonly options: Required<DiagnosticsOptions>;
+  private readonly seenErrors = new Set<string>();
+  private queue: DiagnosticEvent[] = [];
+  private endpoint?: string;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: DiagnosticsOptions) {
+    this.options = { send: sendWithFetch, ...options };
+  }
+
+  /** Starts sending to `endpoint` and listens for uncaught errors, page hide and Web Vitals. */
+  install(endpoint: string) {
+    if (this.endpoint) {
+      return;
+    }
+    this.endpoint = endpoint;
+    window.addEventListener('error', event => this.reportError(event.error ?? event.message));
+    window.addEventListener('unhandledrejection', event => this.reportError(event.reason));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flush();
+      }
+    });
+    observeWebVitals((name, value) => this.reportWebVital(name, value));
+    this.schedule();
+  }
+
+  reportError(error: unknown, componentStack?: string) {
+    const name = error instanceof Error ? error.name : 'Error';
+    const message = error instanceof Error ? error.message : String(error);
+    const route = currentRoute();
+    // A broken card throws again every time it scrolls back into view.
+    const signature = `${name}|${message}|${route}`;
+    if (this.seenErrors.has(signature)) {
+      return;
+    }
+    this.seenErrors.add(signature);
+    this.enqueue({
+      type: 'error',
+      name,
+      message: truncate(message, MAX_MESSAGE_LENGTH),
+      stack: truncate(componentStack ?? (error instanceof Error ? error.stack : undefined), MAX_STACK_LENGTH),
+      route,
+    });
+  }
+
+  reportApiFailure(error: ApiError) {
+    this.enqueue({
+      type: 'api-failure',
+      name: error.name,
+      // Schema details say which field broke; server messages can echo user input.
+      message: truncate(error instanceof InvalidResponseError ? error.details : error.message, MAX_MESSAGE_LENGTH),
+      route: currentRoute(),
+      endpoint: toPath(error.url),
+      status: error.status,
+    });
+  }
+
+  reportWebVital(name: string, value: number) {
+    this.enqueue({ type: 'web-vital', name, value: Math.round(value * 1000) / 1000, route: currentRoute() });
+  }
+
+  /** Sends everything queued now, in as many batches as it takes. */
+  async flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const endpoint = this.endpoint;
+    if (!endpoint) {
+      return;
+    }
+    while (this.queue.length > 0) {
+      const events = this.queue.slice(0, this.options.batchSize);
+      this.queue = this.queue.slice(events.length);
+      try {
+        await this.options.send(endpoint, { appVersion: this.options.appVersion, route: currentRoute(), events });
+      } catch {
+        // Diagnostics are best effort.
+      }
+    }
+  }
+
+  private enqueue(event: Omit<DiagnosticEvent, 'occurredAt'>) {
+    this.queue = [...this.queue, { ...event, occurredAt: new Date().toISOString() }].slice(-this.options.maxQueued);
+    if (this.queue.length >= this.options.batchSize) {
+      this.flush();
+    } else {
+      this.schedule();
+    }
+  }
+
+  private schedule() {
+    if (this.endpoint && this.queue.length > 0 && this.timer === undefined) {
+      this.timer = setTimeout(() => this.flush(), this.options.flushIntervalMs);
+    }
+  }
+}
+
+export const diagnostics = new DiagnosticsReporter({
+  appVersion: process.env.REACT_APP_VERSION || 'dev',
+  batchSize: 20,
+  flushIntervalMs: 10000,
+  maxQueued: 100,
+});
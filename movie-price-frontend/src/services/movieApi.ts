@@ -1,32 +1,270 @@
-import { MovieComparison, MovieDetail } from '../types/Movie';
+import { MovieDetail, MoviePage, MoviePageParams, RefreshResult } from '../types/Movie';
+import { ApiProvider, ApiProviderInput, NewApiProviderInput, ProviderStatusReport } from '../types/Provider';
+import { adminKey } from './adminKey';
+import { AbortedError, ApiError, NetworkError, NotFoundError, ServerError, TimeoutError } from './apiErrors';
+import { diagnostics } from './diagnostics';
+import {
+  parseMovieDetail,
+  parseMoviePage,
+  parseProvider,
+  parseProviderList,
+  parseProviderStatusReport,
+  parseRefreshResult,
+} from './movieValidation';
+import { DEFAULT_RUNTIME_CONFIG } from './runtimeConfig';
 
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://127.0.0.1:5091';
+export interface MovieApiConfig {
+  baseUrl: string;
+  timeoutMs: number;
+  /** Refresh waits on every provider, so it gets longer than other calls. */
+  refreshTimeoutMs: number;
+  /** Extra attempts for idempotent GETs; POSTs and PUTs are never retried. */
+  retries: number;
+  /** First backoff delay, doubled on every further attempt. */
+  retryDelayMs: number;
+  /** Told about every call that fails for a reason other than the caller cancelling it. */
+  onFailure?: (error: ApiError) => void;
+  /** Sent as X-Admin-Key with provider changes; the API refuses them without it. */
+  getAdminKey?: () => string;
+}
 
-class MovieApiService {
-  async getMovies(): Promise<MovieComparison[]> {
-    const response = await fetch(`${API_BASE_URL}/api/movies`);
-    if (!response.ok) {
-      throw new Error('Failed to fetch movies');
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT';
+
+const ADMIN_KEY_HEADER = 'X-Admin-Key';
+
+const DEFAULT_CONFIG: MovieApiConfig = {
+  baseUrl: DEFAULT_RUNTIME_CONFIG.apiBaseUrl,
+  timeoutMs: DEFAULT_RUNTIME_CONFIG.timeouts.requestMs,
+  refreshTimeoutMs: DEFAULT_RUNTIME_CONFIG.timeouts.refreshMs,
+  retries: 2,
+  retryDelayMs: 500,
+};
+
+const isRetryable = (error: unknown) =>
+  error instanceof NetworkError ||
+  error instanceof TimeoutError ||
+  (error instanceof ServerError && (error.status! >= 500 || error.status === 408 || error.status === 429));
+
+const wait = (ms: number, url: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError(url));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// The controllers return `{ error: string }` bodies on failure; request
+// validation failures arrive as ASP.NET problem details with per-field `errors`.
+const readServerMessage = async (response: Response): Promise<string | undefined> => {
+  try {
+    const body = await response.json();
+    if (typeof body?.error === 'string') {
+      return body.error;
+    }
+    if (typeof body?.errors === 'object' && body.errors !== null) {
+      return Object.values(body.errors).flat().join(' ');
     }
-    return response.json();
+    return undefined;
+  } catch {
+    return undefined;
   }
+};
 
-  async getMovieDetail(id: number): Promise<MovieDetail> {
-    const response = await fetch(`${API_BASE_URL}/api/movies/${id}`);
-    if (!response.ok) {
-      throw new Error('Failed to fetch movie detail');
+export class MovieApiService {
+  private config: MovieApiConfig;
+
+  constructor(config: Partial<MovieApiConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /** Applies the runtime config at startup; the singleton is created before it is loaded. */
+  configure(config: Partial<MovieApiConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /** One page of the movie list, with the totals for fetching the rest. */
+  async getMovies({ page, pageSize }: MoviePageParams, options: RequestOptions = {}): Promise<MoviePage> {
+    const url = this.url(`/api/movies?page=${page}&pageSize=${pageSize}`);
+    return this.call(url, 'GET', options, 'Failed to fetch movies', body => parseMoviePage(body, url));
+  }
+
+  async getMovieDetail(id: string, options: RequestOptions = {}): Promise<MovieDetail> {
+    const url = this.url(`/api/movies/${encodeURIComponent(id)}`);
+    return this.call(url, 'GET', options, 'Failed to fetch movie detail', body => parseMovieDetail(body, url));
+  }
+
+  async refreshMovieData(options: RequestOptions = {}): Promise<RefreshResult> {
+    const url = this.url('/api/movies/refresh');
+    return this.call(url, 'POST', { timeoutMs: this.config.refreshTimeoutMs, ...options }, 'Failed to refresh movie data', body => parseRefreshResult(body, url));
+  }
+
+  /** Server-Sent Events stream of price changes; see services/priceEvents. */
+  getPriceEventsUrl() {
+    return this.url('/api/movies/events');
+  }
+
+  /**
+   * A provider's poster through the API's poster proxy, which caches it and
+   * scales it down to the nearest size the server keeps at or above `width`.
+   */
+  getPosterUrl(movieId: string, providerId: string, width: number) {
+    return this.url(`/api/movies/${encodeURIComponent(movieId)}/posters/${encodeURIComponent(providerId)}?width=${width}`);
+  }
+
+  /** Where services/diagnostics posts its reports. */
+  getDiagnosticsUrl() {
+    return this.url('/api/diagnostics');
+  }
+
+  async getProviders(options: RequestOptions = {}): Promise<ApiProvider[]> {
+    const url = this.url('/api/providers');
+    return this.call(url, 'GET', options, 'Failed to fetch providers', body => parseProviderList(body, url));
+  }
+
+  async getProvider(id: string, options: RequestOptions = {}): Promise<ApiProvider> {
+    const url = this.url(`/api/providers/${encodeURIComponent(id)}`);
+    return this.call(url, 'GET', options, 'Failed to fetch provider', body => parseProvider(body, url, 'Failed to fetch provider'));
+  }
+
+  async getProviderStatus(options: RequestOptions = {}): Promise<ProviderStatusReport> {
+    const url = this.url('/api/providers/status');
+    return this.call(url, 'GET', options, 'Failed to fetch provider status', body => parseProviderStatusReport(body, url));
+  }
+
+  async createProvider(input: NewApiProviderInput, options: RequestOptions = {}): Promise<ApiProvider> {
+    const url = this.url('/api/providers');
+    return this.call(url, 'POST', options, 'Failed to create provider', body => parseProvider(body, url, 'Failed to create provider'), input, this.adminHeaders());
+  }
+
+  async updateProvider(id: string, input: ApiProviderInput, options: RequestOptions = {}): Promise<ApiProvider> {
+    const url = this.url(`/api/providers/${encodeURIComponent(id)}`);
+    return this.call(url, 'PUT', options, 'Failed to update provider', body => parseProvider(body, url, 'Failed to update provider'), input, this.adminHeaders());
+  }
+
+  private url(path: string) {
+    return `${this.config.baseUrl}${path}`;
+  }
+
+  private adminHeaders(): Record<string, string> {
+    const key = this.config.getAdminKey?.().trim();
+    return key ? { [ADMIN_KEY_HEADER]: key } : {};
+  }
+
+  // Every public call goes through here, so failures are reported in one place.
+  private async call<T>(
+    url: string,
+    method: HttpMethod,
+    options: RequestOptions,
+    failureMessage: string,
+    parse: (body: unknown) => T,
+    body?: unknown,
+    headers?: Record<string, string>
+  ): Promise<T> {
+    try {
+      const response = await this.request(url, method, options, failureMessage, body, headers);
+      return parse(await response.json());
+    } catch (error) {
+      if (error instanceof ApiError && !(error instanceof AbortedError)) {
+        this.config.onFailure?.(error);
+      }
+      throw error;
+    }
+  }
+
+  private async request(
+    url: string,
+    method: HttpMethod,
+    options: RequestOptions,
+    failureMessage: string,
+    body?: unknown,
+    headers?: Record<string, string>
+  ): Promise<Response> {
+    const maxRetries = method === 'GET' ? options.retries ?? this.config.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(url, method, options, failureMessage, body, headers);
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+        await wait(this.config.retryDelayMs * 2 ** attempt, url, options.signal);
+      }
     }
-    return response.json();
   }
 
-  async refreshMovieData(): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/api/movies/refresh`, {
-      method: 'POST',
-    });
+  private async send(
+    url: string,
+    method: HttpMethod,
+    options: RequestOptions,
+    failureMessage: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new AbortedError(url);
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const requestHeaders = { ...(body !== undefined && { 'Content-Type': 'application/json' }), ...headers };
+
+    let response: Response;
+    try {
+      response = await fetch(url, method === 'GET'
+        ? { signal: controller.signal }
+        : {
+          method,
+          signal: controller.signal,
+          ...(Object.keys(requestHeaders).length > 0 && { headers: requestHeaders }),
+          ...(body !== undefined && { body: JSON.stringify(body) }),
+        });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AbortedError(url);
+      }
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeoutMs}ms`, url, timeoutMs);
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(`${failureMessage}: ${reason}`, url, error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
     if (!response.ok) {
-      throw new Error('Failed to refresh movie data');
+      const serverMessage = await readServerMessage(response);
+      if (response.status === 404) {
+        throw new NotFoundError(failureMessage, url, serverMessage);
+      }
+      throw new ServerError(failureMessage, url, response.status, serverMessage);
     }
+
+    return response;
   }
 }
 
-export const movieApi = new MovieApiService();
+export const movieApi = new MovieApiService({
+  onFailure: error => diagnostics.reportApiFailure(error),
+  getAdminKey: adminKey.getSnapshot,
+});
@@ -0,0 +1,199 @@
+import { SchemaObject } from 'ajv';
+
+// JSON schemas mirroring PriceInfo, PosterCandidate, MovieComparison, MovieDetail, MoviePage,
+// RefreshResult and PriceChangeEvent in types/Movie.ts, and ApiProvider and ProviderStatusReport in types/Provider.ts. Optional fields
+// are nullable because the API serialises missing values as null rather than omitting them.
+
+const optionalString = { type: 'string', nullable: true };
+
+export const priceInfoSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    providerId: { type: 'string', minLength: 1 },
+    provider: { type: 'string' },
+    movieId: { type: 'string' },
+    price: { type: 'number', nullable: true, minimum: 0 },
+    lastUpdated: { type: 'string' },
+    fromCache: { type: 'boolean', nullable: true },
+  },
+  required: ['providerId', 'provider', 'movieId', 'price', 'lastUpdated'],
+};
+
+export const posterCandidateSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    providerId: { type: 'string', minLength: 1 },
+    url: { type: 'string', minLength: 1 },
+  },
+  required: ['providerId', 'url'],
+};
+
+export const movieComparisonSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    title: { type: 'string', minLength: 1 },
+    year: optionalString,
+    genre: optionalString,
+    director: optionalString,
+    actors: optionalString,
+    plot: optionalString,
+    poster: optionalString,
+    posters: { type: 'array', nullable: true, items: posterCandidateSchema },
+    rating: optionalString,
+    prices: { type: 'array', items: priceInfoSchema },
+    cheapestPrice: { ...priceInfoSchema, nullable: true },
+  },
+  required: ['id', 'title', 'prices'],
+};
+
+export const movieDetailSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    title: { type: 'string', minLength: 1 },
+    year: optionalString,
+    type: optionalString,
+    rated: optionalString,
+    released: optionalString,
+    runtime: optionalString,
+    genre: optionalString,
+    director: optionalString,
+    writer: optionalString,
+    actors: optionalString,
+    plot: optionalString,
+    language: optionalString,
+    country: optionalString,
+    awards: optionalString,
+    poster: optionalString,
+    posters: { type: 'array', nullable: true, items: posterCandidateSchema },
+    metascore: optionalString,
+    rating: optionalString,
+    votes: optionalString,
+    prices: { type: 'array', items: priceInfoSchema },
+    cheapestPrice: { ...priceInfoSchema, nullable: true },
+    updatedAt: { type: 'string' },
+  },
+  required: ['id', 'title', 'prices', 'updatedAt'],
+};
+
+// Items are validated one by one, like the unpaged list, so a malformed movie
+// only drops itself rather than the page.
+export const moviePageSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    items: { type: 'array' },
+    page: { type: 'integer', minimum: 1 },
+    pageSize: { type: 'integer', minimum: 1 },
+    totalCount: { type: 'integer', minimum: 0 },
+    totalPages: { type: 'integer', minimum: 0 },
+  },
+  required: ['items', 'page', 'pageSize', 'totalCount', 'totalPages'],
+};
+
+export const apiProviderSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string' },
+    displayName: { type: 'string' },
+    baseUrl: { type: 'string' },
+    hasApiToken: { type: 'boolean' },
+    isEnabled: { type: 'boolean' },
+    priority: { type: 'integer' },
+    timeoutSeconds: { type: 'integer', minimum: 0 },
+    endpoints: {
+      type: 'object',
+      properties: {
+        movies: { type: 'string' },
+        movieDetail: { type: 'string' },
+      },
+      required: ['movies', 'movieDetail'],
+    },
+    lastUpdated: { type: 'string' },
+  },
+  required: ['id', 'name', 'displayName', 'baseUrl', 'hasApiToken', 'isEnabled', 'priority', 'timeoutSeconds', 'endpoints', 'lastUpdated'],
+};
+
+// Unlike movies, a broken provider is not skipped: the admin console must not
+// silently hide one.
+export const apiProviderListSchema: SchemaObject = { type: 'array', items: apiProviderSchema };
+
+export const providerStatusReportSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    checkedAt: { type: 'string' },
+    staleAfterMinutes: { type: 'number', minimum: 0 },
+    providers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          providerId: { type: 'string', minLength: 1 },
+          provider: { type: 'string' },
+          isEnabled: { type: 'boolean' },
+          state: { type: 'string', enum: ['healthy', 'failing', 'disabled', 'unknown'] },
+          lastSuccessAt: optionalString,
+          lastErrorAt: optionalString,
+          lastError: optionalString,
+          latencyMs: { type: 'number', nullable: true, minimum: 0 },
+          servedFromCache: { type: 'boolean' },
+          recentLatencies: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                at: { type: 'string' },
+                latencyMs: { type: 'number', minimum: 0 },
+                succeeded: { type: 'boolean' },
+              },
+              required: ['at', 'latencyMs', 'succeeded'],
+            },
+          },
+        },
+        required: ['providerId', 'provider', 'isEnabled', 'state', 'servedFromCache', 'recentLatencies'],
+      },
+    },
+  },
+  required: ['checkedAt', 'staleAfterMinutes', 'providers'],
+};
+
+export const refreshResultSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    refreshedAt: { type: 'string' },
+    providers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          providerId: { type: 'string' },
+          provider: { type: 'string' },
+          movieCount: { type: 'integer', minimum: 0 },
+          succeeded: { type: 'boolean' },
+          error: { type: 'string' },
+        },
+        required: ['providerId', 'provider', 'movieCount', 'succeeded'],
+      },
+    },
+    movieCount: { type: 'integer', minimum: 0 },
+    pricesChanged: { type: 'integer', minimum: 0 },
+  },
+  required: ['refreshedAt', 'providers', 'movieCount', 'pricesChanged'],
+};
+
+export const priceChangeEventSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    movieId: { type: 'string', minLength: 1 },
+    providerId: { type: 'string', minLength: 1 },
+    provider: { type: 'string' },
+    providerMovieId: { type: 'string' },
+    previousPrice: { type: 'number', nullable: true, minimum: 0 },
+    price: { type: 'number', nullable: true, minimum: 0 },
+    removed: { type: 'boolean' },
+    fromCache: { type: 'boolean' },
+    lastUpdated: { type: 'string' },
+  },
+  required: ['movieId', 'providerId', 'provider', 'providerMovieId', 'previousPrice', 'price', 'removed', 'fromCache', 'lastUpdated'],
+};
@@ -0,0 +1,121 @@
+import { MovieComparison, MovieDetail, MoviePage, PosterCandidate, PriceChangeEvent, PriceInfo, RefreshResult } from '../types/Movie';
+import { ApiProvider, ProviderStatusReport } from '../types/Provider';
+import { InvalidResponseError } from './apiErrors';
+import { diagnostics } from './diagnostics';
+import { errorsText } from './validationErrors';
+import {
+  validateApiProvider,
+  validateApiProviderList,
+  validateMovieComparison,
+  validateMovieDetail,
+  validateMoviePage,
+  validatePosterCandidate,
+  validatePriceChangeEvent,
+  validatePriceInfo,
+  validateProviderStatusReport,
+  validateRefreshResult,
+} from './validators.generated';
+
+// Ajv validators take a second context argument, so wrap them for Array.filter.
+const isPriceInfo = (value: unknown): value is PriceInfo => validatePriceInfo(value);
+const isPosterCandidate = (value: unknown): value is PosterCandidate => validatePosterCandidate(value);
+const isMovieComparison = (value: unknown): value is MovieComparison => validateMovieComparison(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Optional fields arrive as null; the TypeScript contract models them as absent.
+const dropNulls = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== null)) as T;
+
+/**
+ * Keeps the movie usable when individual provider entries are broken: invalid
+ * prices and poster candidates are dropped, and a cheapest price without an
+ * amount is discarded rather than shown as the best deal.
+ */
+const sanitizeMovie = (raw: Record<string, unknown>): Record<string, unknown> => {
+  const prices = Array.isArray(raw.prices) ? raw.prices.filter(isPriceInfo) : [];
+  const cheapestPrice = isPriceInfo(raw.cheapestPrice) && raw.cheapestPrice.price !== null
+    ? raw.cheapestPrice
+    : undefined;
+  const posters = Array.isArray(raw.posters) ? raw.posters.filter(isPosterCandidate) : undefined;
+  return dropNulls({ ...raw, prices, cheapestPrice, posters });
+};
+
+export const parseMovieList = (body: unknown, url: string): MovieComparison[] => {
+  if (!Array.isArray(body)) {
+    throw new InvalidResponseError('Failed to fetch movies', url, 'Expected an array of movies');
+  }
+
+  const movies: MovieComparison[] = [];
+  for (const raw of body) {
+    const movie = isRecord(raw) ? sanitizeMovie(raw) : raw;
+    if (isMovieComparison(movie)) {
+      movies.push(movie);
+    }
+  }
+
+  // The list still loads, so this is reported rather than thrown.
+  if (movies.length !== body.length) {
+    diagnostics.reportApiFailure(
+      new InvalidResponseError('Failed to fetch movies', url, `Discarded ${body.length - movies.length} malformed movie(s)`)
+    );
+  }
+
+  return movies;
+};
+
+export const parseMoviePage = (body: unknown, url: string): MoviePage => {
+  if (!validateMoviePage(body)) {
+    throw new InvalidResponseError('Failed to fetch movies', url, errorsText(validateMoviePage.errors));
+  }
+  return { ...body, items: parseMovieList(body.items, url) };
+};
+
+export const parseMovieDetail = (body: unknown, url: string): MovieDetail => {
+  const movie = isRecord(body) ? sanitizeMovie(body) : body;
+  if (!validateMovieDetail(movie)) {
+    throw new InvalidResponseError('Failed to fetch movie detail', url, errorsText(validateMovieDetail.errors));
+  }
+  return movie;
+};
+
+export const parseRefreshResult = (body: unknown, url: string): RefreshResult => {
+  if (!validateRefreshResult(body)) {
+    throw new InvalidResponseError('Failed to refresh movie data', url, errorsText(validateRefreshResult.errors));
+  }
+  return body;
+};
+
+export const parsePriceChangeEvent = (body: unknown, url: string): PriceChangeEvent => {
+  if (!validatePriceChangeEvent(body)) {
+    throw new InvalidResponseError('Invalid price change event', url, errorsText(validatePriceChangeEvent.errors));
+  }
+  return body;
+};
+
+// Unlike movies, a broken provider is not skipped: the admin console must not
+// silently hide one.
+export const parseProviderList = (body: unknown, url: string): ApiProvider[] => {
+  if (!validateApiProviderList(body)) {
+    throw new InvalidResponseError('Failed to fetch providers', url, errorsText(validateApiProviderList.errors));
+  }
+  return body;
+};
+
+export const parseProvider = (body: unknown, url: string, failureMessage: string): ApiProvider => {
+  if (!validateApiProvider(body)) {
+    throw new InvalidResponseError(failureMessage, url, errorsText(validateApiProvider.errors));
+  }
+  return body;
+};
+
+export const parseProviderStatusReport = (body: unknown, url: string): ProviderStatusReport => {
+  if (!validateProviderStatusReport(body)) {
+    throw new InvalidResponseError('Failed to fetch provider status', url, errorsText(validateProviderStatusReport.errors));
+  }
+  return {
+    ...body,
+    providers: body.providers.map(provider => dropNulls(provider)),
+  };
+};
@@ -0,0 +1,87 @@
+import { translate } from '../i18n/translate';
+import { formatPrice } from '../utils/format';
+import { preferences } from './preferences';
+import { PriceAlert } from './watchlist';
+
+export interface Toast {
+  id: number;
+  message: string;
+}
+
+type Listener = () => void;
+
+/** In-app toast queue; the Toaster component renders whatever is in it. */
+export class ToastStore {
+  private readonly durationMs: number;
+  private readonly listeners = new Set<Listener>();
+  private toasts: Toast[] = [];
+  private nextId = 1;
+
+  constructor(durationMs: number) {
+    this.durationMs = durationMs;
+  }
+
+  /** Stable between changes, for useSyncExternalStore. */
+  getSnapshot = (): Toast[] => this.toasts;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  show(message: string) {
+    const id = this.nextId++;
+    this.update([...this.toasts, { id, message }]);
+    setTimeout(() => this.dismiss(id), this.durationMs);
+    return id;
+  }
+
+  dismiss(id: number) {
+    if (this.toasts.some(toast => toast.id === id)) {
+      this.update(this.toasts.filter(toast => toast.id !== id));
+    }
+  }
+
+  clear() {
+    this.update([]);
+  }
+
+  private update(toasts: Toast[]) {
+    this.toasts = toasts;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const toasts = new ToastStore(8000);
+
+export const browserNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> =>
+  browserNotificationsSupported() ? Notification.requestPermission() : 'denied';
+
+const showBrowserNotification = (title: string, body: string) => {
+  if (!browserNotificationsSupported() || Notification.permission !== 'granted') {
+    return;
+  }
+  try {
+    new Notification(title, { body });
+  } catch {
+    // Some browsers only allow notifications from a service worker; the toast still shows.
+  }
+};
+
+export const announcePriceAlerts = (alerts: PriceAlert[]) => {
+  const { locale } = preferences.getSnapshot();
+  alerts.forEach((alert) => {
+    const message = translate(locale, 'watchlist.alert', {
+      title: alert.title,
+      price: formatPrice(alert.price),
+      provider: alert.provider,
+      target: formatPrice(alert.targetPrice),
+    });
+    toasts.show(message);
+    showBrowserNotification(translate(locale, 'watchlist.alertTitle'), message);
+  });
+};
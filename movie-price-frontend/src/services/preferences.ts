@@ -0,0 +1,98 @@
+import { BASE_CURRENCY } from '../utils/currency';
+import { DEFAULT_LOCALE, isSupportedLocale, Locale } from '../i18n/translate';
+import { getSupportedCurrencies } from './runtimeConfig';
+
+export interface DisplayPreferences {
+  locale: Locale;
+  /** Currency prices are converted to for display; comparisons stay in BASE_CURRENCY. */
+  currency: string;
+}
+
+export const DEFAULT_PREFERENCES: DisplayPreferences = { locale: DEFAULT_LOCALE, currency: BASE_CURRENCY };
+
+export interface PreferencesOptions {
+  storageKey: string;
+  storage?: Storage;
+}
+
+type Listener = () => void;
+
+/** The shopper's language and display currency, persisted to localStorage. */
+export class PreferencesStore {
+  private readonly options: PreferencesOptions;
+  private readonly listeners = new Set<Listener>();
+  private defaults: DisplayPreferences = DEFAULT_PREFERENCES;
+  private preferences: DisplayPreferences = DEFAULT_PREFERENCES;
+
+  constructor(options: PreferencesOptions) {
+    this.options = options;
+    this.restore();
+  }
+
+  /** Stable between changes, for useSyncExternalStore. */
+  getSnapshot = (): DisplayPreferences => this.preferences;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  setLocale(locale: Locale) {
+    this.update({ ...this.preferences, locale });
+  }
+
+  setCurrency(currency: string) {
+    if (getSupportedCurrencies().includes(currency)) {
+      this.update({ ...this.preferences, currency });
+    }
+  }
+
+  reset() {
+    this.update(this.defaults);
+  }
+
+  /** The deployment's locale and currency from the runtime config; choices the shopper saved still win. */
+  setDefaults(defaults: DisplayPreferences) {
+    this.defaults = defaults;
+    this.restore();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private get storage(): Storage | undefined {
+    if (this.options.storage) {
+      return this.options.storage;
+    }
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  }
+
+  private update(preferences: DisplayPreferences) {
+    this.preferences = preferences;
+    try {
+      this.storage?.setItem(this.options.storageKey, JSON.stringify(preferences));
+    } catch {
+      // Storage full or disabled (private mode): the choice lasts until reload.
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Anything unrecognised (an old locale, a currency dropped from the rate table) falls back to the default.
+  private restore() {
+    try {
+      const raw = this.storage?.getItem(this.options.storageKey);
+      const stored: Partial<DisplayPreferences> = raw ? JSON.parse(raw) : {};
+      this.preferences = {
+        locale: isSupportedLocale(stored.locale) ? stored.locale : this.defaults.locale,
+        currency: stored.currency && getSupportedCurrencies().includes(stored.currency)
+          ? stored.currency
+          : this.defaults.currency,
+      };
+    } catch {
+      this.preferences = this.defaults;
+      this.storage?.removeItem(this.options.storageKey);
+    }
+  }
+}
+
+export const preferences = new PreferencesStore({ storageKey: 'movie-price-comparison:preferences:v1' });
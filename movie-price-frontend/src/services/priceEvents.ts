@@ -0,0 +1,153 @@
+import { PriceChangeEvent } from '../types/Movie';
+import { connectivity } from './connectivity';
+import { diagnostics } from './diagnostics';
+import { parsePriceChangeEvent } from './movieValidation';
+
+/**
+ * `live` while the event stream is open, `reconnecting` while waiting to
+ * retry it, `polling` once it has failed often enough (or the browser has no
+ * EventSource) that the list is reloaded on a timer instead.
+ */
+export type PriceEventsStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'polling';
+
+export interface PriceEventsOptions {
+  url: string;
+  onChange: (change: PriceChangeEvent) => void;
+  /**
+   * Reloads the movie list. Called on every poll, and after the stream
+   * reconnects because changes sent while it was down are not replayed.
+   */
+  onResync: () => void;
+  /** Null when the browser has no EventSource; polling is used from the start. */
+  createEventSource?: ((url: string) => EventSource) | null;
+  /** First reconnect delay, doubled after every further failure. */
+  initialRetryMs?: number;
+  maxRetryMs?: number;
+  /** Consecutive failures after which polling starts alongside the reconnect attempts. */
+  failuresBeforePolling?: number;
+  pollIntervalMs?: number;
+  isOnline?: () => boolean;
+}
+
+type Listener = () => void;
+
+const defaultCreateEventSource = typeof EventSource === 'undefined' ? null : (url: string) => new EventSource(url);
+
+/**
+ * Subscription to the API's price-change stream. The browser's own
+ * EventSource retry runs at a fixed pace and gives up on HTTP errors, so a
+ * failed stream is closed and reopened here with exponential backoff. While it
+ * keeps failing the list is polled instead; polling stops once the stream
+ * opens again.
+ */
+export class PriceEventsClient {
+  private readonly options: Required<PriceEventsOptions>;
+  private readonly listeners = new Set<Listener>();
+  private status: PriceEventsStatus = 'idle';
+  private source?: EventSource;
+  private failures = 0;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private pollTimer?: ReturnType<typeof setInterval>;
+
+  constructor(options: PriceEventsOptions) {
+    this.options = {
+      createEventSource: defaultCreateEventSource,
+      initialRetryMs: 1000,
+      maxRetryMs: 30000,
+      failuresBeforePolling: 3,
+      pollIntervalMs: 60000,
+      isOnline: connectivity.getSnapshot,
+      ...options,
+    };
+  }
+
+  start() {
+    if (this.status !== 'idle') {
+      return;
+    }
+    if (!this.options.createEventSource) {
+      this.startPolling();
+      return;
+    }
+    this.setStatus('connecting');
+    this.connect(this.options.createEventSource);
+  }
+
+  stop() {
+    this.source?.close();
+    this.source = undefined;
+    clearTimeout(this.retryTimer);
+    clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+    this.failures = 0;
+    this.setStatus('idle');
+  }
+
+  /** Stable between changes, for useSyncExternalStore. */
+  getSnapshot = (): PriceEventsStatus => this.status;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private connect(createEventSource: (url: string) => EventSource) {
+    const source = createEventSource(this.options.url);
+    this.source = source;
+
+    source.addEventListener('open', () => {
+      const recovered = this.failures > 0;
+      this.failures = 0;
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+      this.setStatus('live');
+      if (recovered) {
+        this.options.onResync();
+      }
+    });
+
+    source.addEventListener('price-changed', (event) => {
+      try {
+        this.options.onChange(parsePriceChangeEvent(JSON.parse((event as MessageEvent<string>).data), this.options.url));
+      } catch (error) {
+        // One bad event should not cost the rest of the stream.
+        diagnostics.reportError(error);
+      }
+    });
+
+    source.addEventListener('error', () => {
+      source.close();
+      this.source = undefined;
+      this.failures++;
+      if (this.failures >= this.options.failuresBeforePolling) {
+        this.startPolling();
+      } else {
+        this.setStatus('reconnecting');
+      }
+      const delay = Math.min(this.options.initialRetryMs * 2 ** (this.failures - 1), this.options.maxRetryMs);
+      this.retryTimer = setTimeout(() => this.connect(createEventSource), delay);
+    });
+  }
+
+  private startPolling() {
+    this.setStatus('polling');
+    if (this.pollTimer !== undefined) {
+      return;
+    }
+    this.pollTimer = setInterval(() => {
+      // A background tab or a dead connection would only queue up failures.
+      if (this.options.isOnline() && document.visibilityState !== 'hidden') {
+        this.options.onResync();
+      }
+    }, this.options.pollIntervalMs);
+  }
+
+  private setStatus(status: PriceEventsStatus) {
+    if (this.status !== status) {
+      this.status = status;
+      this.listeners.forEach(listener => listener());
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import { PriceInfo } from '../types/Movie';
+import { getMovieKey } from '../utils/priceChanges';
+import { diagnostics } from './diagnostics';
+
+export interface PriceSnapshot {
+  price: number;
+  recordedAt: number;
+}
+
+/** Everything we have seen for one movie at one provider. */
+export interface ProviderPriceHistory {
+  key: string;
+  movieKey: string;
+  providerId: string;
+  provider: string;
+  /** One entry per price change, oldest first. */
+  snapshots: PriceSnapshot[];
+  /** Last time the provider listed the movie, whether or not the price moved. */
+  lastSeenAt: number;
+}
+
+/** Recorded history grouped by getMovieKey. */
+export type PriceHistoryIndex = ReadonlyMap<string, ProviderPriceHistory[]>;
+
+interface PricedMovie {
+  id: string;
+  title: string;
+  prices: PriceInfo[];
+}
+
+export interface PriceHistoryStore {
+  getAll(): Promise<ProviderPriceHistory[]>;
+  put(records: ProviderPriceHistory[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'movie-price-comparison';
+const DB_VERSION = 1;
+const STORE_NAME = 'price-history';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export class IndexedDbPriceHistoryStore implements PriceHistoryStore {
+  private readonly factory: IDBFactory;
+  private db?: Promise<IDBDatabase>;
+
+  constructor(factory: IDBFactory) {
+    this.factory = factory;
+  }
+
+  async getAll(): Promise<ProviderPriceHistory[]> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll());
+  }
+
+  async put(records: ProviderPriceHistory[]) {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+  }
+
+  async clear() {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  private open() {
+    this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = this.factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+}
+
+/** Used where IndexedDB is missing (tests, some private modes); history lasts for the session. */
+export class MemoryPriceHistoryStore implements PriceHistoryStore {
+  private readonly records = new Map<string, ProviderPriceHistory>();
+
+  async getAll() {
+    return Array.from(this.records.values());
+  }
+
+  async put(records: ProviderPriceHistory[]) {
+    records.forEach(record => this.records.set(record.key, record));
+  }
+
+  async clear() {
+    this.records.clear();
+  }
+}
+
+export interface PriceHistoryOptions {
+  store: PriceHistoryStore;
+  /** Oldest snapshots are dropped beyond this many per movie and provider. */
+  maxSnapshots: number;
+  /** localStorage key remembering when the app was last opened; omit to skip visit tracking. */
+  visitStorageKey?: string;
+  storage?: Storage;
+}
+
+type Listener = () => void;
+
+const EMPTY_INDEX: PriceHistoryIndex = new Map();
+
+const historyKey = (movieKey: string, providerId: string) => `${movieKey}::${providerId}`;
+
+/**
+ * Records provider prices every time the API hands us movies, so charts and
+ * "lowest price seen" keep working offline from what was seen before. Records
+ * are held in memory and written through to the store.
+ */
+export class PriceHistory {
+  /** When the app was opened before this visit, if it ever was. */
+  readonly previousVisitAt?: number;
+  private readonly options: PriceHistoryOptions;
+  private readonly records = new Map<string, ProviderPriceHistory>();
+  private readonly listeners = new Set<Listener>();
+  private loading?: Promise<void>;
+  private index: PriceHistoryIndex = EMPTY_INDEX;
+
+  constructor(options: PriceHistoryOptions) {
+    this.options = options;
+    this.previousVisitAt = this.startVisit();
+  }
+
+  load(): Promise<void> {
+    this.loading ??= this.options.store.getAll().then(
+      (records) => {
+        records.forEach(record => this.records.set(record.key, record));
+        this.notify();
+      },
+      (error) => {
+        // Private windows and full disks have no IndexedDB; history then starts empty.
+        diagnostics.reportError(error);
+      }
+    );
+    return this.loading;
+  }
+
+  /** Appends a snapshot wherever a provider price differs from the last one recorded. */
+  async record(movies: PricedMovie[], now = Date.now()) {
+    await this.load();
+
+    const changed: ProviderPriceHistory[] = [];
+    movies.forEach((movie) => {
+      const movieKey = getMovieKey(movie);
+      movie.prices.forEach(({ providerId, provider, price }) => {
+        if (price === null) {
+          return;
+        }
+        const key = historyKey(movieKey, providerId);
+        const previous = this.records.get(key)?.snapshots ?? [];
+        const snapshots = previous[previous.length - 1]?.price === price
+          ? previous
+          : [...previous, { price, recordedAt: now }].slice(-this.options.maxSnapshots);
+        const record = { key, movieKey, providerId, provider, snapshots, lastSeenAt: now };
+        this.records.set(key, record);
+        changed.push(record);
+      });
+    });
+
+    if (changed.length === 0) {
+      return;
+    }
+    this.notify();
+    try {
+      await this.options.store.put(changed);
+    } catch (error) {
+      // The in-memory copy still serves this session.
+      diagnostics.reportError(error);
+    }
+  }
+
+  getMovieHistory(movieKey: string): ProviderPriceHistory[] {
+    return this.getSnapshot().get(movieKey) ?? [];
+  }
+
+  /** Stable between changes, for useSyncExternalStore. */
+  getSnapshot = (): PriceHistoryIndex => this.index;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  async clear() {
+    this.records.clear();
+    this.notify();
+    await this.options.store.clear();
+  }
+
+  private notify() {
+    const index = new Map<string, ProviderPriceHistory[]>();
+    this.records.forEach((record) => {
+      index.set(record.movieKey, [...(index.get(record.movieKey) ?? []), record]);
+    });
+    this.index = index;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private startVisit(): number | undefined {
+    const { visitStorageKey } = this.options;
+    const storage = this.options.storage ?? (typeof window !== 'undefined' ? window.localStorage : undefined);
+    if (!visitStorageKey || !storage) {
+      return undefined;
+    }
+    try {
+      const previous = Number(storage.getItem(visitStorageKey));
+      storage.setItem(visitStorageKey, String(Date.now()));
+      return previous > 0 ? previous : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+const createPriceHistoryStore = (): PriceHistoryStore =>
+  typeof indexedDB !== 'undefined' ? new IndexedDbPriceHistoryStore(indexedDB) : new MemoryPriceHistoryStore();
+
+export const priceHistory = new PriceHistory({
+  store: createPriceHistoryStore(),
+  maxSnapshots: 100,
+  visitStorageKey: 'movie-price-comparison:last-visit:v1',
+});
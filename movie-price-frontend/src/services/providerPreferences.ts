@@ -0,0 +1,82 @@
+import {
+  NO_PROVIDER_PREFERENCES,
+  PROVIDER_RANKS,
+  ProviderPreferences,
+  ProviderRank,
+} from '../utils/providerPreferences';
+
+export interface ProviderPreferencesOptions {
+  storageKey: string;
+  storage?: Storage;
+}
+
+type Listener = () => void;
+
+const isStoredRank = (value: unknown): value is Exclude<ProviderRank, 'normal'> =>
+  PROVIDER_RANKS.includes(value as ProviderRank) && value !== 'normal';
+
+/** Providers the user pinned, down-ranked or hid, persisted to localStorage. */
+export class ProviderPreferencesStore {
+  private readonly options: ProviderPreferencesOptions;
+  private readonly listeners = new Set<Listener>();
+  private preferences: ProviderPreferences = NO_PROVIDER_PREFERENCES;
+
+  constructor(options: ProviderPreferencesOptions) {
+    this.options = options;
+    this.restore();
+  }
+
+  /** Stable between changes, for useSyncExternalStore. */
+  getSnapshot = (): ProviderPreferences => this.preferences;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  setRank(providerId: string, rank: ProviderRank) {
+    const { [providerId]: _previous, ...others } = this.preferences;
+    this.update(rank === 'normal' ? others : { ...others, [providerId]: rank });
+  }
+
+  reset() {
+    this.update(NO_PROVIDER_PREFERENCES);
+  }
+
+  private get storage(): Storage | undefined {
+    if (this.options.storage) {
+      return this.options.storage;
+    }
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  }
+
+  private update(preferences: ProviderPreferences) {
+    this.preferences = preferences;
+    try {
+      this.storage?.setItem(this.options.storageKey, JSON.stringify(preferences));
+    } catch {
+      // Storage full or disabled (private mode): the choice lasts until reload.
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Entries with a rank this version does not know are dropped rather than guessed at.
+  private restore() {
+    try {
+      const raw = this.storage?.getItem(this.options.storageKey);
+      const stored: unknown = raw ? JSON.parse(raw) : {};
+      const entries = stored && typeof stored === 'object' && !Array.isArray(stored) ? Object.entries(stored) : [];
+      const valid = entries.filter(([providerId, rank]) => providerId !== '' && isStoredRank(rank));
+      this.preferences = valid.length > 0 ? Object.fromEntries(valid) : NO_PROVIDER_PREFERENCES;
+    } catch {
+      this.preferences = NO_PROVIDER_PREFERENCES;
+      this.storage?.removeItem(this.options.storageKey);
+    }
+  }
+}
+
+export const providerPreferences = new ProviderPreferencesStore({
+  storageKey: 'movie-price-comparison:provider-preferences:v1',
+});
@@ -0,0 +1,194 @@
+export interface QueryCacheOptions {
+  /** How long data counts as fresh; older data is served but revalidated. */
+  staleTimeMs: number;
+  /** How long data may be served at all, stale or not. */
+  ttlMs: number;
+  /** localStorage key for the persisted copy; omit to keep the cache in memory only. */
+  storageKey?: string;
+  storage?: Storage;
+}
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt?: number;
+  isFetching: boolean;
+}
+
+interface CacheEntry {
+  data?: unknown;
+  error?: unknown;
+  updatedAt?: number;
+  invalidated?: boolean;
+  promise?: Promise<unknown>;
+}
+
+type PersistedEntries = Record<string, { data: unknown; updatedAt: number }>;
+
+type Listener = () => void;
+
+/**
+ * Small stale-while-revalidate cache keyed by endpoint. Concurrent callers for
+ * the same key share one in-flight request, and successful results are
+ * mirrored to localStorage so a reload can paint before the network answers.
+ */
+export class QueryCache {
+  private readonly options: QueryCacheOptions;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly listeners = new Map<string, Set<Listener>>();
+
+  constructor(options: QueryCacheOptions) {
+    this.options = options;
+    this.restore();
+  }
+
+  getState<T>(key: string): QueryState<T> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return { isFetching: false };
+    }
+
+    const expired = entry.updatedAt !== undefined && Date.now() - entry.updatedAt > this.options.ttlMs;
+    return {
+      data: expired ? undefined : (entry.data as T | undefined),
+      error: entry.error,
+      updatedAt: expired ? undefined : entry.updatedAt,
+      isFetching: entry.promise !== undefined,
+    };
+  }
+
+  isStale(key: string) {
+    const { data, updatedAt } = this.getState(key);
+    return data === undefined ||
+      updatedAt === undefined ||
+      this.entries.get(key)?.invalidated === true ||
+      Date.now() - updatedAt > this.options.staleTimeMs;
+  }
+
+  /**
+   * Resolves from cache while the data is fresh, otherwise runs the fetcher.
+   * A request already in flight for the key is reused rather than repeated.
+   */
+  fetch<T>(key: string, fetcher: () => Promise<T>, { force = false } = {}): Promise<T> {
+    const entry = this.entries.get(key) ?? {};
+    if (entry.promise) {
+      return entry.promise as Promise<T>;
+    }
+    if (!force && !this.isStale(key)) {
+      return Promise.resolve(entry.data as T);
+    }
+
+    const promise = fetcher().then(
+      (data) => {
+        this.entries.set(key, { data, updatedAt: Date.now() });
+        this.persist();
+        this.notify(key);
+        return data;
+      },
+      (error) => {
+        this.entries.set(key, { ...this.entries.get(key), error, promise: undefined });
+        this.notify(key);
+        throw error;
+      }
+    );
+
+    this.entries.set(key, { ...entry, error: undefined, promise });
+    this.notify(key);
+    return promise;
+  }
+
+  setData<T>(key: string, data: T) {
+    this.entries.set(key, { ...this.entries.get(key), data, error: undefined, updatedAt: Date.now() });
+    this.persist();
+    this.notify(key);
+  }
+
+  /** Marks matching entries stale so their next read revalidates. */
+  invalidate(keyPrefix = '') {
+    this.entries.forEach((entry, key) => {
+      if (key.startsWith(keyPrefix)) {
+        entry.invalidated = true;
+      }
+    });
+  }
+
+  subscribe(key: string, listener: Listener) {
+    const keyListeners = this.listeners.get(key) ?? new Set<Listener>();
+    keyListeners.add(listener);
+    this.listeners.set(key, keyListeners);
+    return () => {
+      keyListeners.delete(listener);
+    };
+  }
+
+  clear() {
+    this.entries.clear();
+    if (this.options.storageKey) {
+      this.storage?.removeItem(this.options.storageKey);
+    }
+  }
+
+  private get storage(): Storage | undefined {
+    if (this.options.storage) {
+      return this.options.storage;
+    }
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  }
+
+  private notify(key: string) {
+    this.listeners.get(key)?.forEach(listener => listener());
+  }
+
+  private restore() {
+    if (!this.options.storageKey) {
+      return;
+    }
+    try {
+      const raw = this.storage?.getItem(this.options.storageKey);
+      const persisted: PersistedEntries = raw ? JSON.parse(raw) : {};
+      Object.entries(persisted).forEach(([key, { data, updatedAt }]) => {
+        this.entries.set(key, { data, updatedAt });
+      });
+    } catch {
+      // A corrupt or unreadable copy only costs us the instant first paint.
+      this.storage?.removeItem(this.options.storageKey);
+    }
+  }
+
+  private persist() {
+    if (!this.options.storageKey) {
+      return;
+    }
+    const persisted: PersistedEntries = {};
+    this.entries.forEach((entry, key) => {
+      if (entry.data !== undefined && entry.updatedAt !== undefined) {
+        persisted[key] = { data: entry.data, updatedAt: entry.updatedAt };
+      }
+    });
+    try {
+      this.storage?.setItem(this.options.storageKey, JSON.stringify(persisted));
+    } catch {
+      // Storage full or disabled (private mode): keep working from memory.
+    }
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+export const movieQueryKeys = {
+  movies: 'movies',
+  movieDetail: (id: string) => `movies/${id}`,
+  movieDetails: (ids: string[]) => `movies/compare/${ids.map(encodeURIComponent).join(',')}`,
+};
+
+export const providerQueryKeys = {
+  providers: 'providers',
+  provider: (id: string) => `providers/${id}`,
+  status: 'providers-status',
+};
+
+export const queryCache = new QueryCache({
+  staleTimeMs: MINUTE,
+  ttlMs: 24 * 60 * MINUTE,
+  storageKey: 'movie-price-comparison:query-cache:v2',
+});
@@ -0,0 +1,133 @@
+import { ErrorObject } from 'ajv';
+import { Locale } from '../i18n/translate';
+import { DEFAULT_EXCHANGE_RATES, ExchangeRates } from '../utils/currency';
+import { validateRuntimeConfig } from './validators.generated';
+
+export interface FeatureToggles {
+  /** Price-change stream from the API; off, prices only move on Refresh. */
+  livePrices: boolean;
+  /** Provider console under /admin/providers, and its link in the header. */
+  providerAdmin: boolean;
+  /** Error, failed-call and Web Vitals reports to POST /api/diagnostics. */
+  diagnostics: boolean;
+}
+
+export type Feature = keyof FeatureToggles;
+
+/**
+ * Per-deployment settings, read from /config.json before the app mounts so one
+ * build can be promoted between environments. public/config.json holds the
+ * local development values.
+ */
+export interface RuntimeConfig {
+  /** Absolute origin of the API, or a path when a proxy serves it on this origin; no trailing slash. */
+  apiBaseUrl: string;
+  timeouts: {
+    /** Every API call except refresh. */
+    requestMs: number;
+    /** POST /api/movies/refresh, which waits on every provider. */
+    refreshMs: number;
+  };
+  features: FeatureToggles;
+  /** Used until the shopper picks their own. */
+  defaultLocale: Locale;
+  /** One of the exchangeRates currencies. */
+  defaultCurrency: string;
+  /** The display currencies on offer, as units per one AUD; AUD itself must be 1. */
+  exchangeRates: ExchangeRates;
+}
+
+/** What the app runs with before config.json is loaded, and in tests. */
+export const DEFAULT_RUNTIME_CONFIG: RuntimeConfig = {
+  apiBaseUrl: 'http://127.0.0.1:5091',
+  timeouts: { requestMs: 10000, refreshMs: 30000 },
+  features: { livePrices: true, providerAdmin: true, diagnostics: true },
+  defaultLocale: 'en-AU',
+  defaultCurrency: 'AUD',
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+};
+
+export const RUNTIME_CONFIG_URL = `${process.env.PUBLIC_URL}/config.json`;
+
+/** config.json could not be fetched, parsed or validated; the app cannot start. */
+export class RuntimeConfigError extends Error {
+  readonly url: string;
+  /** One line per problem, e.g. "timeouts/requestMs must be <= 120000". */
+  readonly details: string[];
+
+  constructor(message: string, url: string, details: string[] = []) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'RuntimeConfigError';
+    this.url = url;
+    this.details = details;
+  }
+}
+
+const describeError = ({ instancePath, message, params }: ErrorObject) => {
+  const field = instancePath.slice(1);
+  const allowed = 'allowedValues' in params
+    ? `: ${(params.allowedValues as unknown[]).join(', ')}`
+    : 'allowedValue' in params ? `: ${params.allowedValue}` : '';
+  return `${field ? `${field} ` : ''}${message}${allowed}`;
+};
+
+// The schema cannot tie defaultCurrency to the keys of exchangeRates, so that is checked here.
+const checkDefaultCurrency = (body: unknown): string[] => {
+  const { defaultCurrency, exchangeRates } = (body ?? {}) as Partial<RuntimeConfig>;
+  if (typeof defaultCurrency !== 'string' || typeof exchangeRates !== 'object' || exchangeRates === null) {
+    return [];
+  }
+  const currencies = Object.keys(exchangeRates);
+  return currencies.includes(defaultCurrency)
+    ? []
+    : [`defaultCurrency must be one of the exchangeRates currencies: ${currencies.join(', ')}`];
+};
+
+/** Checks parsed config.json, stripping a trailing slash from apiBaseUrl. */
+export const parseRuntimeConfig = (body: unknown, url: string = RUNTIME_CONFIG_URL): RuntimeConfig => {
+  const valid = validateRuntimeConfig(body);
+  const details = [...(valid ? [] : (validateRuntimeConfig.errors ?? []).map(describeError)), ...checkDefaultCurrency(body)];
+  if (!valid || details.length > 0) {
+    throw new RuntimeConfigError(`${url} is invalid`, url, details);
+  }
+  return { ...body, apiBaseUrl: body.apiBaseUrl.replace(/\/+$/, '') };
+};
+
+/** Fetches and validates config.json; rejects with a RuntimeConfigError saying what is wrong. */
+export const loadRuntimeConfig = async (url: string = RUNTIME_CONFIG_URL): Promise<RuntimeConfig> => {
+  let response: Response;
+  try {
+    // Revalidated on every start: changing the file must not need a rebuild or a cache purge.
+    response = await fetch(url, { cache: 'no-cache' });
+  } catch (error) {
+    throw new RuntimeConfigError(`Could not load ${url}`, url, [error instanceof Error ? error.message : String(error)]);
+  }
+  if (!response.ok) {
+    throw new RuntimeConfigError(`Could not load ${url}`, url, [`The server answered ${response.status}`]);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new RuntimeConfigError(`${url} is not valid JSON`, url);
+  }
+  return parseRuntimeConfig(body, url);
+};
+
+let current: RuntimeConfig = DEFAULT_RUNTIME_CONFIG;
+
+export const getRuntimeConfig = (): RuntimeConfig => current;
+
+/** Called once at startup, before App mounts; nothing re-reads it afterwards. */
+export const setRuntimeConfig = (config: RuntimeConfig) => {
+  current = config;
+};
+
+export const isFeatureEnabled = (feature: Feature) => current.features[feature];
+
+export const getExchangeRates = () => current.exchangeRates;
+
+/** Display currencies the shopper can pick: every one with a rate. */
+export const getSupportedCurrencies = () => Object.keys(current.exchangeRates);
@@ -0,0 +1,39 @@
+import { SchemaObject } from 'ajv';
+import { LOCALES } from '../i18n/translate';
+import { BASE_CURRENCY } from '../utils/currency';
+
+// Mirrors RuntimeConfig in runtimeConfig.ts. Compiled by scripts/compileValidators.js.
+
+const timeoutSchema = { type: 'integer', minimum: 1000, maximum: 120000 };
+const currencySchema = { type: 'string', pattern: '^[A-Z]{3}$' };
+
+export const runtimeConfigSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    apiBaseUrl: { type: 'string', pattern: '^(https?://[^/\\s]+|/)[^\\s]*$' },
+    timeouts: {
+      type: 'object',
+      properties: { requestMs: timeoutSchema, refreshMs: timeoutSchema },
+      required: ['requestMs', 'refreshMs'],
+    },
+    features: {
+      type: 'object',
+      properties: {
+        livePrices: { type: 'boolean' },
+        providerAdmin: { type: 'boolean' },
+        diagnostics: { type: 'boolean' },
+      },
+      required: ['livePrices', 'providerAdmin', 'diagnostics'],
+    },
+    defaultLocale: { enum: [...LOCALES] },
+    defaultCurrency: currencySchema,
+    exchangeRates: {
+      type: 'object',
+      propertyNames: currencySchema,
+      properties: { [BASE_CURRENCY]: { const: 1 } },
+      additionalProperties: { type: 'number', exclusiveMinimum: 0 },
+      required: [BASE_CURRENCY],
+    },
+  },
+  required: ['apiBaseUrl', 'timeouts', 'features', 'defaultLocale', 'defaultCurrency', 'exchangeRates'],
+};
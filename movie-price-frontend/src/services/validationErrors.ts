@@ -0,0 +1,10 @@
+import { ErrorObject } from 'ajv';
+
+/**
+ * The same text as Ajv's errorsText, e.g. "data/0 must have required property 'title'",
+ * without bundling Ajv's schema compiler for it.
+ */
+export const errorsText = (errors: ErrorObject[] | null | undefined) =>
+  errors?.length
+    ? errors.map(({ instancePath, message }) => `data${instancePath} ${message}`).join(', ')
+    : 'No errors';
@@ -0,0 +1,20 @@
+// Generated by scripts/compileValidators.js from the schemas in src/services; do not edit.
+import { ValidateFunction } from 'ajv';
+import { MovieComparison, MovieDetail, MoviePage, PosterCandidate, PriceChangeEvent, PriceInfo, RefreshResult } from '../types/Movie';
+import { ApiProvider, ProviderStatusReport } from '../types/Provider';
+import { RuntimeConfig } from './runtimeConfig';
+import { WatchlistFile, WatchlistItem } from './watchlist';
+
+export declare const validatePriceInfo: ValidateFunction<PriceInfo>;
+export declare const validatePosterCandidate: ValidateFunction<PosterCandidate>;
+export declare const validateMovieComparison: ValidateFunction<MovieComparison>;
+export declare const validateMovieDetail: ValidateFunction<MovieDetail>;
+export declare const validateMoviePage: ValidateFunction<MoviePage>;
+export declare const validateRefreshResult: ValidateFunction<RefreshResult>;
+export declare const validatePriceChangeEvent: ValidateFunction<PriceChangeEvent>;
+export declare const validateApiProvider: ValidateFunction<ApiProvider>;
+export declare const validateApiProviderList: ValidateFunction<ApiProvider[]>;
+export declare const validateProviderStatusReport: ValidateFunction<ProviderStatusReport>;
+export declare const validateRuntimeConfig: ValidateFunction<RuntimeConfig>;
+export declare const validateWatchlistItem: ValidateFunction<WatchlistItem>;
+export declare const validateWatchlistFile: ValidateFunction<WatchlistFile>;
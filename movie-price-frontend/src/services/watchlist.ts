@@ -0,0 +1,215 @@
+import { MovieComparison } from '../types/Movie';
+import { getCheapestPrice, getMovieKey } from '../utils/priceChanges';
+import { errorsText } from './validationErrors';
+import { validateWatchlistFile, validateWatchlistItem } from './validators.generated';
+
+export interface WatchlistItem {
+  movieKey: string;
+  title: string;
+  /** Alert when any provider goes below this; null until a price is known or set. */
+  targetPrice: number | null;
+  addedAt: string;
+  /** Price of the last alert, so the same drop is not announced twice. */
+  alertedPrice?: number;
+}
+
+export interface PriceAlert {
+  movieKey: string;
+  title: string;
+  provider: string;
+  price: number;
+  targetPrice: number;
+}
+
+export interface WatchlistOptions {
+  storageKey: string;
+  storage?: Storage;
+}
+
+/** Thrown by importJson when the file is not a watchlist export. */
+export class WatchlistImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'WatchlistImportError';
+  }
+}
+
+type ExportedItem = Omit<WatchlistItem, 'alertedPrice'>;
+
+/** The shape of a watchlist export. */
+export interface WatchlistFile {
+  version: 1;
+  exportedAt: string;
+  items: ExportedItem[];
+}
+
+const isWatchlistItem = (value: unknown): value is WatchlistItem => validateWatchlistItem(value);
+
+type Listener = () => void;
+
+/**
+ * Movies the user is watching, persisted to localStorage. `check` is run on
+ * every movie list we receive and reports watched movies that fell below
+ * their target price.
+ */
+export class Watchlist {
+  private readonly options: WatchlistOptions;
+  private readonly listeners = new Set<Listener>();
+  private items: WatchlistItem[] = [];
+
+  constructor(options: WatchlistOptions) {
+    this.options = options;
+    this.restore();
+  }
+
+  /** Stable between changes, for useSyncExternalStore. */
+  getSnapshot = (): WatchlistItem[] => this.items;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  has(movieKey: string) {
+    return this.items.some(item => item.movieKey === movieKey);
+  }
+
+  /** Starts watching a movie, targeting anything cheaper than today's best price. */
+  add(movie: MovieComparison) {
+    if (this.has(getMovieKey(movie))) {
+      return;
+    }
+    this.update([
+      ...this.items,
+      {
+        movieKey: getMovieKey(movie),
+        title: movie.title,
+        targetPrice: getCheapestPrice(movie.prices)?.price ?? null,
+        addedAt: new Date().toISOString(),
+      },
+    ]);
+  }
+
+  remove(movieKey: string) {
+    this.update(this.items.filter(item => item.movieKey !== movieKey));
+  }
+
+  toggle(movie: MovieComparison) {
+    if (this.has(getMovieKey(movie))) {
+      this.remove(getMovieKey(movie));
+    } else {
+      this.add(movie);
+    }
+  }
+
+  setTargetPrice(movieKey: string, targetPrice: number | null) {
+    this.update(this.items.map(item =>
+      item.movieKey === movieKey ? { ...item, targetPrice, alertedPrice: undefined } : item
+    ));
+  }
+
+  /**
+   * Returns an alert for every watched movie whose cheapest listing is below
+   * target and lower than anything already announced. A price going back above
+   * target re-arms the alert.
+   */
+  check(movies: MovieComparison[]): PriceAlert[] {
+    const moviesByKey = new Map(movies.map(movie => [getMovieKey(movie), movie]));
+    const alerts: PriceAlert[] = [];
+
+    const items = this.items.map((item) => {
+      const movie = moviesByKey.get(item.movieKey);
+      const best = movie && getCheapestPrice(movie.prices);
+      if (!best || item.targetPrice === null) {
+        return item;
+      }
+      // getCheapestPrice only picks listings with a price
+      const price = best.price!;
+      if (price >= item.targetPrice) {
+        return item.alertedPrice === undefined ? item : { ...item, alertedPrice: undefined };
+      }
+      if (item.alertedPrice !== undefined && price >= item.alertedPrice) {
+        return item;
+      }
+      alerts.push({
+        movieKey: item.movieKey,
+        title: item.title,
+        provider: best.provider,
+        price,
+        targetPrice: item.targetPrice,
+      });
+      return { ...item, alertedPrice: price };
+    });
+
+    if (items.some((item, index) => item !== this.items[index])) {
+      this.update(items);
+    }
+    return alerts;
+  }
+
+  toJson(): string {
+    const file: WatchlistFile = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      items: this.items.map(({ alertedPrice, ...item }) => item),
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /** Merges an exported watchlist into this one; imported entries win. Returns how many were imported. */
+  importJson(json: string): number {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new WatchlistImportError('The file is not valid JSON.');
+    }
+    if (!validateWatchlistFile(parsed)) {
+      throw new WatchlistImportError(`The file is not a watchlist export: ${errorsText(validateWatchlistFile.errors)}`);
+    }
+
+    const imported = new Map(parsed.items.map(item => [item.movieKey, item]));
+    this.update([
+      ...this.items.filter(item => !imported.has(item.movieKey)),
+      ...Array.from(imported.values()).map(({ movieKey, title, targetPrice, addedAt }) => ({ movieKey, title, targetPrice, addedAt })),
+    ]);
+    return imported.size;
+  }
+
+  clear() {
+    this.update([]);
+  }
+
+  private get storage(): Storage | undefined {
+    if (this.options.storage) {
+      return this.options.storage;
+    }
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  }
+
+  private update(items: WatchlistItem[]) {
+    this.items = items;
+    try {
+      this.storage?.setItem(this.options.storageKey, JSON.stringify(items));
+    } catch {
+      // Storage full or disabled (private mode): keep working from memory.
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private restore() {
+    try {
+      const raw = this.storage?.getItem(this.options.storageKey);
+      const stored: unknown = raw ? JSON.parse(raw) : [];
+      // Entries that do not match WatchlistItem are dropped, so one bad entry does not lose the rest.
+      this.items = Array.isArray(stored) ? stored.filter(isWatchlistItem) : [];
+    } catch {
+      this.storage?.removeItem(this.options.storageKey);
+    }
+  }
+}
+
+export const watchlist = new Watchlist({ storageKey: 'movie-price-comparison:watchlist:v1' });
@@ -0,0 +1,24 @@
+import { SchemaObject } from 'ajv';
+
+// Mirror WatchlistItem and WatchlistFile in watchlist.ts. Compiled by scripts/compileValidators.js.
+
+export const watchlistItemSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    movieKey: { type: 'string', minLength: 1 },
+    title: { type: 'string', minLength: 1 },
+    targetPrice: { type: 'number', nullable: true, minimum: 0 },
+    addedAt: { type: 'string' },
+    alertedPrice: { type: 'number' },
+  },
+  required: ['movieKey', 'title', 'targetPrice', 'addedAt'],
+};
+
+export const watchlistFileSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    version: { const: 1 },
+    items: { type: 'array', items: watchlistItemSchema },
+  },
+  required: ['version', 'items'],
+};
@@ -0,0 +1,65 @@
+export type WebVitalName = 'TTFB' | 'FCP' | 'LCP' | 'CLS';
+
+type Report = (name: WebVitalName, value: number) => void;
+
+interface LayoutShift extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+const observe = (type: string, onEntries: (entries: PerformanceEntry[]) => void) => {
+  if (typeof PerformanceObserver === 'undefined' || !PerformanceObserver.supportedEntryTypes?.includes(type)) {
+    return;
+  }
+  new PerformanceObserver(list => onEntries(list.getEntries())).observe({ type, buffered: true });
+};
+
+/**
+ * Reports the page-load Web Vitals from the browser's own performance entries,
+ * each once: TTFB and FCP as soon as they are known, LCP and CLS when the page
+ * is first hidden, since both can still grow until then. CLS is the plain sum
+ * of unexpected shifts rather than the session-window score. Browsers without
+ * an entry type simply skip that metric.
+ */
+export const observeWebVitals = (report: Report) => {
+  const [navigation] = performance.getEntriesByType?.('navigation') ?? [];
+  if (navigation) {
+    report('TTFB', (navigation as PerformanceNavigationTiming).responseStart);
+  }
+
+  observe('paint', (entries) => {
+    const fcp = entries.find(entry => entry.name === 'first-contentful-paint');
+    if (fcp) {
+      report('FCP', fcp.startTime);
+    }
+  });
+
+  let lcp: number | undefined;
+  observe('largest-contentful-paint', (entries) => {
+    lcp = entries[entries.length - 1].startTime;
+  });
+
+  let cls: number | undefined;
+  observe('layout-shift', (entries) => {
+    (entries as LayoutShift[]).forEach((shift) => {
+      if (!shift.hadRecentInput) {
+        cls = (cls ?? 0) + shift.value;
+      }
+    });
+  });
+
+  const onHidden = () => {
+    if (document.visibilityState !== 'hidden') {
+      return;
+    }
+    document.removeEventListener('visibilitychange', onHidden, true);
+    if (lcp !== undefined) {
+      report('LCP', lcp);
+    }
+    if (cls !== undefined) {
+      report('CLS', cls);
+    }
+  };
+  // Capture phase, so the values are queued before the reporter flushes on the same event.
+  document.addEventListener('visibilitychange', onHidden, true);
+};
@@ -3,3 +3,35 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import axe from 'axe-core';
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      /** Runs axe-core over the element and fails with every WCAG violation it finds. */
+      toHaveNoAxeViolations(): Promise<R>;
+    }
+  }
+}
+
+expect.extend({
+  async toHaveNoAxeViolations(element: Element) {
+    const { violations } = await axe.run(element, {
+      runOnly: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice'],
+      rules: {
+        // jsdom does no layout or painting, so contrast cannot be measured.
+        'color-contrast': { enabled: false },
+        // Components are checked on their own, outside the app's landmarks.
+        region: { enabled: false },
+      },
+    });
+    return {
+      pass: violations.length === 0,
+      message: () => violations.length === 0
+        ? 'Expected axe to report violations'
+        : violations
+          .map(violation => `${violation.id}: ${violation.help}\n${violation.nodes.map(node => `  ${node.html}`).join('\n')}`)
+          .join('\n\n'),
+    };
+  },
+});
@@ -2,8 +2,17 @@ export interface PriceInfo {
   providerId: string;
   provider: string;
   movieId: string;
-  price: number;
+  /** Null when the provider lists the movie without a usable price. */
+  price: number | null;
   lastUpdated: string;
+  /** True when the provider was down and this is its price from an earlier refresh. */
+  fromCache?: boolean;
+}
+
+/** A provider's poster for a movie; load it through MovieApiService.getPosterUrl rather than from url directly. */
+export interface PosterCandidate {
+  providerId: string;
+  url: string;
 }
 
 export interface MovieComparison {
@@ -14,13 +23,17 @@ export interface MovieComparison {
   director?: string;
   actors?: string;
   plot?: string;
+  /** The first of posters, unchecked; kept for servers that predate the poster proxy. */
   poster?: string;
+  /** One per provider that has a poster, in the order to try them. */
+  posters?: PosterCandidate[];
   rating?: string;
   prices: PriceInfo[];
   cheapestPrice?: PriceInfo;
 }
 
 export interface MovieDetail {
+  id: string;
   title: string;
   year?: string;
   type?: string;
@@ -36,6 +49,7 @@ export interface MovieDetail {
   country?: string;
   awards?: string;
   poster?: string;
+  posters?: PosterCandidate[];
   metascore?: string;
   rating?: string;
   votes?: string;
@@ -43,3 +57,52 @@ export interface MovieDetail {
   cheapestPrice?: PriceInfo;
   updatedAt: string;
 }
+
+/** One page of GET /api/movies?page=&pageSize=. */
+export interface MoviePage {
+  items: MovieComparison[];
+  /** 1-based. */
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+export interface MoviePageParams {
+  page: number;
+  pageSize: number;
+}
+
+export interface ProviderRefresh {
+  providerId: string;
+  provider: string;
+  movieCount: number;
+  /** False when the provider could not be reached; its movies keep their earlier prices. */
+  succeeded: boolean;
+  error?: string;
+}
+
+/** Summary returned by POST /api/movies/refresh. */
+export interface RefreshResult {
+  refreshedAt: string;
+  providers: ProviderRefresh[];
+  movieCount: number;
+  /** Provider prices that changed, appeared or disappeared during the refresh. */
+  pricesChanged: number;
+}
+
+/** A "price-changed" event from GET /api/movies/events. */
+export interface PriceChangeEvent {
+  /** Canonical movie id, as in MovieComparison.id. */
+  movieId: string;
+  providerId: string;
+  provider: string;
+  /** The provider's own id for the movie, as in PriceInfo.movieId. */
+  providerMovieId: string;
+  previousPrice: number | null;
+  price: number | null;
+  /** The provider no longer lists the movie. */
+  removed: boolean;
+  fromCache: boolean;
+  lastUpdated: string;
+}
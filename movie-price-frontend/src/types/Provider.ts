@@ -0,0 +1,66 @@
+export interface ApiEndpoints {
+  movies: string;
+  /** Path template; `{id}` is replaced with the provider's movie id. */
+  movieDetail: string;
+}
+
+/** Movie provider as returned by /api/providers. The API token is never sent back. */
+export interface ApiProvider {
+  id: string;
+  name: string;
+  displayName: string;
+  baseUrl: string;
+  hasApiToken: boolean;
+  isEnabled: boolean;
+  priority: number;
+  timeoutSeconds: number;
+  endpoints: ApiEndpoints;
+  lastUpdated: string;
+}
+
+/** Body for PUT /api/providers/{id}. An empty or missing apiToken keeps the stored token. */
+export interface ApiProviderInput {
+  displayName: string;
+  baseUrl: string;
+  apiToken?: string;
+  isEnabled: boolean;
+  priority: number;
+  timeoutSeconds: number;
+  endpoints: ApiEndpoints;
+}
+
+/** Body for POST /api/providers. */
+export interface NewApiProviderInput extends ApiProviderInput {
+  id: string;
+}
+
+export type ProviderHealthState = 'healthy' | 'failing' | 'disabled' | 'unknown';
+
+export interface ProviderLatencySample {
+  at: string;
+  latencyMs: number;
+  succeeded: boolean;
+}
+
+/** One provider's entry in /api/providers/status: the outcome of the API's calls to it. */
+export interface ProviderStatus {
+  providerId: string;
+  provider: string;
+  isEnabled: boolean;
+  /** 'unknown' until the API has called the provider at least once. */
+  state: ProviderHealthState;
+  lastSuccessAt?: string;
+  lastErrorAt?: string;
+  lastError?: string;
+  latencyMs?: number;
+  /** The provider failed on the last refresh, so its prices are the previous refresh's. */
+  servedFromCache: boolean;
+  recentLatencies: ProviderLatencySample[];
+}
+
+export interface ProviderStatusReport {
+  checkedAt: string;
+  /** Prices last updated longer ago than this count as stale. */
+  staleAfterMinutes: number;
+  providers: ProviderStatus[];
+}
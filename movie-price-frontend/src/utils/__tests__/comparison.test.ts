@@ -0,0 +1,104 @@
+import { MovieComparison, PriceInfo } from '../../types/Movie';
+import {
+    buildPriceMatrix,
+    comparedKeysToSearchParams,
+    MAX_COMPARED_MOVIES,
+    parseComparedKeys
+} from '../comparison';
+
+const price = (providerId: string, provider: string, value: number | null): PriceInfo => ({
+    providerId,
+    provider,
+    movieId: `${providerId}-id`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const movie = (id: string, prices: PriceInfo[]): MovieComparison => ({
+    id,
+    title: `Movie ${id}`,
+    prices
+});
+
+describe('comparison', () => {
+    describe('buildPriceMatrix', () => {
+        const movies = [
+            movie('1', [price('filmworld', 'Filmworld', 14.99), price('cinemaworld', 'Cinemaworld', 15.99)]),
+            movie('2', [price('cinemaworld', 'Cinemaworld', 9.5), price('filmworld', 'Filmworld', 12)])
+        ];
+
+        test('lines up one row per movie and one column per provider', () => {
+            const matrix = buildPriceMatrix(movies);
+
+            expect(matrix.providers.map(provider => provider.provider)).toEqual(['Cinemaworld', 'Filmworld']);
+            expect(matrix.prices).toEqual([
+                [15.99, 14.99],
+                [9.5, 12]
+            ]);
+        });
+
+        test('flags the cheapest price in each row and column', () => {
+            const matrix = buildPriceMatrix(movies);
+
+            expect(matrix.isCheapestInRow(0, 1)).toBe(true);
+            expect(matrix.isCheapestInRow(0, 0)).toBe(false);
+            expect(matrix.isCheapestInColumn(1, 0)).toBe(true);
+            expect(matrix.isCheapestInColumn(1, 1)).toBe(true);
+            expect(matrix.isCheapestInColumn(0, 1)).toBe(false);
+        });
+
+        test('totals each provider basket and picks the cheapest', () => {
+            const matrix = buildPriceMatrix(movies);
+
+            expect(matrix.baskets.map(basket => basket.total)).toEqual([25.49, 26.99]);
+            expect(matrix.cheapestBasket?.provider).toBe('Cinemaworld');
+            expect(matrix.bestMixTotal).toBe(24.49);
+        });
+
+        test('leaves providers that miss a movie out of the basket race', () => {
+            const matrix = buildPriceMatrix([
+                movies[0],
+                movie('3', [price('cinemaworld', 'Cinemaworld', 11), price('filmworld', 'Filmworld', null)])
+            ]);
+
+            expect(matrix.prices[1]).toEqual([11, undefined]);
+            expect(matrix.isCheapestInRow(1, 1)).toBe(false);
+            expect(matrix.baskets[1]).toMatchObject({ provider: 'Filmworld', total: undefined, missing: 1 });
+            expect(matrix.cheapestBasket?.provider).toBe('Cinemaworld');
+        });
+
+        test('has no cheapest basket when no provider sells every movie', () => {
+            const matrix = buildPriceMatrix([
+                movie('1', [price('filmworld', 'Filmworld', 14.99)]),
+                movie('2', [price('cinemaworld', 'Cinemaworld', 9.5)])
+            ]);
+
+            expect(matrix.cheapestBasket).toBeUndefined();
+            expect(matrix.bestMixTotal).toBe(24.49);
+        });
+
+        test('has no best mix when a movie has no price anywhere', () => {
+            const matrix = buildPriceMatrix([movies[0], movie('4', [])]);
+
+            expect(matrix.bestMixTotal).toBeUndefined();
+        });
+    });
+
+    describe('parseComparedKeys / comparedKeysToSearchParams', () => {
+        test('round-trips keys through the query string, commas included', () => {
+            const keys = ['1', 'Crouching Tiger, Hidden Dragon'];
+
+            expect(parseComparedKeys(comparedKeysToSearchParams(keys))).toEqual(keys);
+        });
+
+        test('drops duplicates and empty values', () => {
+            expect(parseComparedKeys(new URLSearchParams('movie=1&movie=&movie=2&movie=1'))).toEqual(['1', '2']);
+        });
+
+        test('caps the number of compared movies', () => {
+            const params = new URLSearchParams(Array.from({ length: 10 }, (_, index) => ['movie', String(index)]));
+
+            expect(parseComparedKeys(params)).toHaveLength(MAX_COMPARED_MOVIES);
+        });
+    });
+});
@@ -0,0 +1,14 @@
+import { convertFromBase, convertToBase } from '../currency';
+
+describe('currency conversion', () => {
+    const rates = { AUD: 1, USD: 0.5 };
+
+    test('converts base amounts for display and back', () => {
+        expect(convertFromBase(10, 'USD', rates)).toBe(5);
+        expect(convertToBase(5, 'USD', rates)).toBe(10);
+    });
+
+    test('leaves amounts unchanged for currencies without a rate', () => {
+        expect(convertFromBase(10, 'XYZ', rates)).toBe(10);
+    });
+});
@@ -0,0 +1,75 @@
+import { PriceInfo } from '../../types/Movie';
+import { getDeal, getDealScore, getTotalSaving } from '../deals';
+
+const price = (providerId: string, value: number | null): PriceInfo => ({
+    providerId,
+    provider: providerId,
+    movieId: `${providerId}-id`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+describe('deals', () => {
+    describe('getDeal', () => {
+        test('measures the saving against the most expensive provider', () => {
+            const deal = getDeal([price('cinemaworld', 20), price('filmworld', 15), price('moviemax', 10)]);
+
+            expect(deal).toEqual({
+                cheapest: 10,
+                mostExpensive: 20,
+                saving: 10,
+                savingPercent: 50,
+                spread: 4.08,
+                score: 100,
+                providerCount: 3
+            });
+        });
+
+        test('scores by how far the cheapest price sits below the average', () => {
+            // Average 15.49, cheapest 3.2% below it.
+            expect(getDeal([price('cinemaworld', 15.99), price('filmworld', 14.99)])).toMatchObject({
+                saving: 1,
+                spread: 0.5,
+                score: 13
+            });
+            // A quarter below the average is the top score.
+            expect(getDealScore([price('cinemaworld', 12.5), price('filmworld', 7.5)])).toBe(100);
+        });
+
+        test('scores equal prices zero', () => {
+            expect(getDeal([price('cinemaworld', 9.99), price('filmworld', 9.99)])).toMatchObject({
+                saving: 0,
+                savingPercent: 0,
+                spread: 0,
+                score: 0
+            });
+        });
+
+        test('needs two providers with a price to compare', () => {
+            expect(getDeal([])).toBeUndefined();
+            expect(getDeal([price('cinemaworld', 9.99)])).toBeUndefined();
+            expect(getDeal([price('cinemaworld', 9.99), price('filmworld', null)])).toBeUndefined();
+        });
+
+        test('ignores providers without a price', () => {
+            expect(getDeal([price('cinemaworld', 12), price('filmworld', null), price('moviemax', 10)]))
+                .toMatchObject({ saving: 2, providerCount: 2 });
+        });
+
+        test('ignores zero and negative prices, as the API does for the cheapest price', () => {
+            expect(getDeal([price('cinemaworld', 0), price('filmworld', 0)])).toBeUndefined();
+            expect(getDeal([price('cinemaworld', 12), price('filmworld', 0), price('moviemax', -1), price('cineplex', 10)]))
+                .toMatchObject({ cheapest: 10, saving: 2, providerCount: 2 });
+        });
+    });
+
+    test('getTotalSaving adds up every movie without float drift', () => {
+        expect(getTotalSaving([
+            [price('cinemaworld', 15.99), price('filmworld', 14.99)],
+            [price('cinemaworld', 10.1), price('filmworld', 10)],
+            [price('cinemaworld', 10.2), price('filmworld', 10)],
+            [price('cinemaworld', 9.99)],
+            []
+        ])).toBe(1.3);
+    });
+});
@@ -0,0 +1,76 @@
+import { MovieComparison, PriceInfo } from '../../types/Movie';
+import { CSV_HEADER, downloadFile, getExportFileName, toCsv, toJson } from '../export';
+
+const price = (providerId: string, provider: string, value: number | null): PriceInfo => ({
+    providerId,
+    provider,
+    movieId: `${providerId}-id`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const matrix: MovieComparison = {
+    id: 'tt0133093',
+    title: 'The Matrix',
+    year: '1999',
+    prices: [price('cinemaworld', 'Cinemaworld', 15.99), { ...price('filmworld', 'Filmworld', 14.99), fromCache: true }],
+    cheapestPrice: price('filmworld', 'Filmworld', 14.99)
+};
+
+describe('export', () => {
+    test('writes one CSV row per movie and provider', () => {
+        const lines = toCsv([matrix]).split('\r\n');
+
+        expect(lines).toEqual([
+            CSV_HEADER.join(','),
+            'tt0133093,The Matrix,1999,cinemaworld,Cinemaworld,cinemaworld-id,15.99,2023-01-01T00:00:00Z,false,false',
+            'tt0133093,The Matrix,1999,filmworld,Filmworld,filmworld-id,14.99,2023-01-01T00:00:00Z,true,true',
+            ''
+        ]);
+    });
+
+    test('keeps movies without prices and leaves missing values empty', () => {
+        const lines = toCsv([
+            { id: '2', title: 'Unpriced', prices: [] },
+            { id: '3', title: 'Delisted', prices: [price('filmworld', 'Filmworld', null)] }
+        ]).split('\r\n');
+
+        expect(lines[1]).toBe('2,Unpriced,,,,,,,,');
+        expect(lines[2]).toBe('3,Delisted,,filmworld,Filmworld,filmworld-id,,2023-01-01T00:00:00Z,false,false');
+    });
+
+    test('quotes commas, quotes and line breaks, and defuses spreadsheet formulas', () => {
+        const lines = toCsv([
+            { id: '1', title: 'Crouching Tiger, "Hidden" Dragon', prices: [] },
+            { id: '2', title: '=HYPERLINK("http://example.com")', prices: [] }
+        ]).split('\r\n');
+
+        expect(lines[1]).toBe('1,"Crouching Tiger, ""Hidden"" Dragon",,,,,,,,');
+        expect(lines[2]).toBe('2,"\'=HYPERLINK(""http://example.com"")",,,,,,,,');
+    });
+
+    test('writes JSON that reads back as the same movies', () => {
+        expect(JSON.parse(toJson([matrix]))).toEqual([matrix]);
+    });
+
+    test('dates file names by the local calendar', () => {
+        expect(getExportFileName('movie-prices', 'csv', new Date(2026, 0, 5, 23, 30))).toBe('movie-prices-2026-01-05.csv');
+    });
+
+    test('keeps the download URL alive until the browser has started the download', () => {
+        jest.useFakeTimers();
+        URL.createObjectURL = jest.fn(() => 'blob:export');
+        URL.revokeObjectURL = jest.fn();
+        const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+        downloadFile('movies.csv', 'id', 'text/csv');
+
+        expect(click).toHaveBeenCalled();
+        expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+        jest.runAllTimers();
+        expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export');
+
+        click.mockRestore();
+        jest.useRealTimers();
+    });
+});
@@ -0,0 +1,43 @@
+import { formatDate, formatDateTime, formatPrice, formatRelativeTime } from '../format';
+
+describe('formatPrice', () => {
+    test('formats base-currency prices in the base currency', () => {
+        expect(formatPrice(15.99, { locale: 'en-AU', currency: 'AUD' })).toBe('$15.99');
+    });
+
+    test('converts to the display currency using the locale conventions', () => {
+        expect(formatPrice(14.99, { locale: 'fr-FR', currency: 'EUR' })).toBe('9,14 €');
+        expect(formatPrice(14.99, { locale: 'en-US', currency: 'USD' })).toBe('$9.89');
+    });
+
+    test('translates missing prices', () => {
+        expect(formatPrice(null, { locale: 'en-AU', currency: 'AUD' })).toBe('Price unavailable');
+        expect(formatPrice(undefined, { locale: 'de-DE', currency: 'EUR' })).toBe('Preis nicht verfügbar');
+        expect(formatPrice(NaN, { locale: 'fr-FR', currency: 'EUR' })).toBe('Prix indisponible');
+    });
+});
+
+describe('formatDateTime', () => {
+    test('formats dates in the given locale', () => {
+        expect(formatDateTime('2023-01-02T00:00:00Z', { locale: 'de-DE', currency: 'EUR' })).toContain('2023');
+        expect(formatDate(Date.UTC(2023, 0, 2, 12), { locale: 'en-GB', currency: 'GBP' })).toBe('2 Jan 2023');
+    });
+
+    test('passes unparseable values through unchanged', () => {
+        expect(formatDateTime('not a date', { locale: 'en-AU', currency: 'AUD' })).toBe('not a date');
+    });
+});
+
+describe('formatRelativeTime', () => {
+    const now = Date.UTC(2023, 0, 2, 12);
+
+    test('uses the largest whole unit in the given locale', () => {
+        expect(formatRelativeTime(now - 3 * 60 * 60 * 1000, { locale: 'en-AU', currency: 'AUD' }, now)).toBe('3 hours ago');
+        expect(formatRelativeTime(now - 2 * 24 * 60 * 60 * 1000, { locale: 'fr-FR', currency: 'EUR' }, now)).toBe('avant-hier');
+        expect(formatRelativeTime(now - 5 * 60 * 1000, { locale: 'de-DE', currency: 'EUR' }, now)).toBe('vor 5 Minuten');
+    });
+
+    test('reads anything under a minute as now', () => {
+        expect(formatRelativeTime(now - 20 * 1000, { locale: 'en-AU', currency: 'AUD' }, now)).toBe('now');
+    });
+});
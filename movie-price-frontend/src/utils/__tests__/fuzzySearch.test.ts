@@ -0,0 +1,56 @@
+import { MovieComparison } from '../../types/Movie';
+import { fuzzyScore, searchMovies } from '../fuzzySearch';
+
+const movie = (id: string, title: string, director?: string, actors?: string): MovieComparison => ({
+    id,
+    title,
+    director,
+    actors,
+    prices: []
+});
+
+const movies = [
+    movie('1', 'The Matrix', 'Wachowski Sisters', 'Keanu Reeves, Carrie-Anne Moss'),
+    movie('2', 'Inception', 'Christopher Nolan', 'Leonardo DiCaprio'),
+    movie('3', 'Amélie', 'Jean-Pierre Jeunet', 'Audrey Tautou'),
+    movie('4', 'John Wick', 'Chad Stahelski', 'Keanu Reeves')
+];
+
+describe('fuzzySearch', () => {
+    describe('fuzzyScore', () => {
+        test('matches letters in order, ignoring case, accents and spaces', () => {
+            expect(fuzzyScore('mtrx', 'The Matrix')).toBeDefined();
+            expect(fuzzyScore('AMELIE', 'Amélie')).toBeDefined();
+            expect(fuzzyScore('the matrix', 'TheMatrix')).toBeDefined();
+            expect(fuzzyScore('xm', 'The Matrix')).toBeUndefined();
+        });
+
+        test('ranks whole words and consecutive letters above scattered ones', () => {
+            const exact = fuzzyScore('matrix', 'The Matrix')!;
+            const scattered = fuzzyScore('mtrx', 'The Matrix')!;
+
+            expect(exact).toBeGreaterThan(scattered);
+            expect(fuzzyScore('mat', 'The Matrix')!).toBeGreaterThan(fuzzyScore('mat', 'Automation')!);
+        });
+    });
+
+    describe('searchMovies', () => {
+        test('finds movies by title, actor or director, best first', () => {
+            expect(searchMovies(movies, 'keanu', 10).map(match => match.movie.title)).toEqual(['John Wick', 'The Matrix']);
+            expect(searchMovies(movies, 'nolan', 10).map(match => match.movie.title)).toEqual(['Inception']);
+            expect(searchMovies(movies, 'amelie', 10).map(match => match.movie.title)).toEqual(['Amélie']);
+        });
+
+        test('prefers a title match over the same match among the cast', () => {
+            const titles = searchMovies([movie('5', 'Reeves Story'), ...movies], 'reeves', 10)
+                .map(match => match.movie.title);
+
+            expect(titles[0]).toBe('Reeves Story');
+        });
+
+        test('returns nothing for an empty query and at most limit matches', () => {
+            expect(searchMovies(movies, '  ', 10)).toEqual([]);
+            expect(searchMovies(movies, 'e', 2)).toHaveLength(2);
+        });
+    });
+});
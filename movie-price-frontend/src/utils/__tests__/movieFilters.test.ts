@@ -0,0 +1,152 @@
+import { MovieComparison, PriceInfo } from '../../types/Movie';
+import {
+    applyFilters,
+    EMPTY_FILTERS,
+    filtersToSearchParams,
+    getGenres,
+    hasActiveFilters,
+    parseFilters
+} from '../movieFilters';
+
+const price = (value: number): PriceInfo => ({
+    providerId: 'cinemaworld',
+    provider: 'Cinemaworld',
+    movieId: 'cw001',
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const movies: MovieComparison[] = [
+    {
+        id: '1',
+        title: 'The Matrix',
+        year: '1999',
+        genre: 'Action, Sci-Fi',
+        director: 'Lana Wachowski',
+        actors: 'Keanu Reeves',
+        rating: '8.7',
+        prices: [price(14.99)],
+        cheapestPrice: price(14.99)
+    },
+    {
+        id: '2',
+        title: 'Inception',
+        year: '2010',
+        genre: 'Action, Thriller',
+        director: 'Christopher Nolan',
+        actors: 'Leonardo DiCaprio',
+        rating: '8.8',
+        prices: [price(18.99)],
+        cheapestPrice: price(18.99)
+    },
+    {
+        id: '3',
+        title: 'Amelie',
+        year: '2001',
+        genre: 'Comedy, Romance',
+        rating: '8.3',
+        prices: []
+    }
+];
+
+const titles = (result: MovieComparison[]) => result.map(movie => movie.title);
+
+describe('movieFilters', () => {
+    describe('parseFilters / filtersToSearchParams', () => {
+        test('round-trips filters through the query string', () => {
+            const filters = {
+                query: 'keanu',
+                genre: 'Action',
+                yearFrom: 1990,
+                yearTo: 2005,
+                minRating: 8,
+                sort: 'price' as const
+            };
+
+            const params = filtersToSearchParams(filters);
+
+            expect(params.toString()).toBe('q=keanu&genre=Action&yearFrom=1990&yearTo=2005&minRating=8&sort=price');
+            expect(parseFilters(params)).toEqual(filters);
+        });
+
+        test('omits default values', () => {
+            expect(filtersToSearchParams(EMPTY_FILTERS).toString()).toBe('');
+        });
+
+        test('ignores invalid numbers and unknown sort keys', () => {
+            const filters = parseFilters(new URLSearchParams('yearFrom=abc&minRating=&sort=bogus'));
+
+            expect(filters.yearFrom).toBeUndefined();
+            expect(filters.minRating).toBeUndefined();
+            expect(filters.sort).toBe('');
+        });
+
+        test('sorting alone does not count as an active filter', () => {
+            expect(hasActiveFilters({ ...EMPTY_FILTERS, sort: 'title' })).toBe(false);
+            expect(hasActiveFilters({ ...EMPTY_FILTERS, genre: 'Action' })).toBe(true);
+        });
+    });
+
+    describe('applyFilters', () => {
+        test('returns every movie for empty filters', () => {
+            expect(titles(applyFilters(movies, EMPTY_FILTERS))).toEqual(['The Matrix', 'Inception', 'Amelie']);
+        });
+
+        test.each([
+            ['matrix', ['The Matrix']],
+            ['DICAPRIO', ['Inception']],
+            ['nolan', ['Inception']],
+            ['nothing', []]
+        ])('matches free text "%s" against title, actors and director', (query, expected) => {
+            expect(titles(applyFilters(movies, { ...EMPTY_FILTERS, query }))).toEqual(expected);
+        });
+
+        test('filters by genre', () => {
+            expect(titles(applyFilters(movies, { ...EMPTY_FILTERS, genre: 'action' }))).toEqual(['The Matrix', 'Inception']);
+        });
+
+        test('filters by year range', () => {
+            expect(titles(applyFilters(movies, { ...EMPTY_FILTERS, yearFrom: 2000, yearTo: 2005 }))).toEqual(['Amelie']);
+        });
+
+        test('filters by minimum rating', () => {
+            expect(titles(applyFilters(movies, { ...EMPTY_FILTERS, minRating: 8.5 }))).toEqual(['The Matrix', 'Inception']);
+        });
+
+        test.each([
+            ['title', ['Amelie', 'Inception', 'The Matrix']],
+            ['year', ['Inception', 'Amelie', 'The Matrix']],
+            ['rating', ['Inception', 'The Matrix', 'Amelie']],
+            ['price', ['The Matrix', 'Inception', 'Amelie']]
+        ] as const)('sorts by %s', (sort, expected) => {
+            expect(titles(applyFilters(movies, { ...EMPTY_FILTERS, sort }))).toEqual(expected);
+        });
+
+        test('sorts by deal score, best first, with movies that cannot be compared last', () => {
+            const priced = (id: string, title: string, values: number[]): MovieComparison => ({
+                id,
+                title,
+                prices: values.map(value => ({ ...price(value), providerId: `p${value}` }))
+            });
+            const deals = [
+                priced('1', 'Single provider', [5]),
+                priced('2', 'Small saving', [10, 9.5]),
+                priced('3', 'Big saving', [10, 6])
+            ];
+
+            expect(titles(applyFilters(deals, { ...EMPTY_FILTERS, sort: 'deal' })))
+                .toEqual(['Big saving', 'Small saving', 'Single provider']);
+        });
+
+        test('does not mutate the input array', () => {
+            const input = [...movies];
+            applyFilters(input, { ...EMPTY_FILTERS, sort: 'title' });
+
+            expect(input).toEqual(movies);
+        });
+    });
+
+    test('getGenres returns distinct sorted genres', () => {
+        expect(getGenres(movies)).toEqual(['Action', 'Comedy', 'Romance', 'Sci-Fi', 'Thriller']);
+    });
+});
@@ -0,0 +1,37 @@
+import { getPosterCrossOrigin, getPosterSources, getPosterWidth } from '../posters';
+
+describe('posters', () => {
+    test('asks for enough pixels for the screen density', () => {
+        expect(getPosterWidth(135, 1)).toBe(135);
+        expect(getPosterWidth(135, 2)).toBe(270);
+        expect(getPosterWidth(135, 1.5)).toBe(203);
+    });
+
+    test('tries every provider poster through the proxy, in order', () => {
+        const movie = {
+            id: 'tt0133093',
+            poster: 'https://cinemaworld.example.com/matrix.jpg',
+            posters: [
+                { providerId: 'cinemaworld', url: 'https://cinemaworld.example.com/matrix.jpg' },
+                { providerId: 'filmworld', url: 'https://filmworld.example.com/matrix.jpg' }
+            ]
+        };
+
+        expect(getPosterSources(movie, 400)).toEqual([
+            'http://127.0.0.1:5091/api/movies/tt0133093/posters/cinemaworld?width=400',
+            'http://127.0.0.1:5091/api/movies/tt0133093/posters/filmworld?width=400'
+        ]);
+    });
+
+    test('falls back to the bare poster URL when the server lists no candidates', () => {
+        expect(getPosterSources({ id: '1', poster: 'https://example.com/matrix.jpg' }, 400))
+            .toEqual(['https://example.com/matrix.jpg']);
+        expect(getPosterSources({ id: '1', posters: [] }, 400)).toEqual([]);
+    });
+
+    test('loads proxied posters in CORS mode and provider URLs as plain images', () => {
+        expect(getPosterCrossOrigin('http://127.0.0.1:5091/api/movies/tt0133093/posters/cinemaworld?width=400')).toBe('anonymous');
+        expect(getPosterCrossOrigin('/api/movies/1/posters/filmworld?width=200')).toBe('anonymous');
+        expect(getPosterCrossOrigin('https://cinemaworld.example.com/matrix.jpg')).toBeUndefined();
+    });
+});
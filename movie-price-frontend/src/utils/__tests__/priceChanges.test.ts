@@ -0,0 +1,133 @@
+import { MovieComparison, PriceChangeEvent, PriceInfo } from '../../types/Movie';
+import { applyPriceChange, diffCheapestPrices, getCheapestPrice, getMovieKey, getPriceFlash } from '../priceChanges';
+
+const movie = (title: string, cheapest?: number | null, id = title): MovieComparison => ({
+    id,
+    title,
+    prices: [],
+    cheapestPrice: cheapest === undefined ? undefined : {
+        providerId: 'cinemaworld',
+        provider: 'Cinemaworld',
+        movieId: 'cw001',
+        price: cheapest,
+        lastUpdated: '2023-01-01T00:00:00Z'
+    }
+});
+
+const listing = (providerId: string, movieId: string, price: number | null): PriceInfo => ({
+    providerId,
+    provider: providerId,
+    movieId,
+    price,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const change = (overrides: Partial<PriceChangeEvent> = {}): PriceChangeEvent => ({
+    movieId: 'the-matrix-1999',
+    providerId: 'filmworld',
+    provider: 'Filmworld',
+    providerMovieId: 'fw0133093',
+    previousPrice: 13.5,
+    price: 11.5,
+    removed: false,
+    fromCache: false,
+    lastUpdated: '2023-01-02T00:00:00Z',
+    ...overrides
+});
+
+describe('priceChanges', () => {
+    describe('getMovieKey', () => {
+        test('keys movies by their canonical id', () => {
+            expect(getMovieKey(movie('The Matrix', 10, 'the-matrix-1999'))).toBe('the-matrix-1999');
+        });
+    });
+
+    describe('diffCheapestPrices', () => {
+        test('reports movies whose cheapest price went down or up', () => {
+            const before = [movie('The Matrix', 14.99), movie('Inception', 18.99)];
+            const after = [movie('The Matrix', 12.99), movie('Inception', 19.99)];
+
+            expect(diffCheapestPrices(before, after)).toEqual({
+                'The Matrix': { previous: 14.99, current: 12.99, direction: 'down' },
+                Inception: { previous: 18.99, current: 19.99, direction: 'up' }
+            });
+        });
+
+        test('ignores unchanged prices', () => {
+            const movies = [movie('The Matrix', 14.99)];
+
+            expect(diffCheapestPrices(movies, [movie('The Matrix', 14.99)])).toEqual({});
+        });
+
+        test('ignores movies that appeared, disappeared or lost their price', () => {
+            const before = [movie('The Matrix', 14.99), movie('Inception', 18.99), movie('Avatar', null)];
+            const after = [movie('Inception'), movie('Avatar', 9.99), movie('Dune', 21.99)];
+
+            expect(diffCheapestPrices(before, after)).toEqual({});
+        });
+    });
+
+    describe('getCheapestPrice', () => {
+        test('picks the lowest positive price like the API', () => {
+            const prices = [listing('cinemaworld', 'cw1', 14), listing('filmworld', 'fw1', 0), listing('moviemax', 'mm1', null)];
+
+            expect(getCheapestPrice(prices)?.providerId).toBe('cinemaworld');
+            expect(getCheapestPrice([listing('filmworld', 'fw1', null)])).toBeUndefined();
+        });
+    });
+
+    describe('applyPriceChange', () => {
+        const matrix: MovieComparison = {
+            id: 'the-matrix-1999',
+            title: 'The Matrix',
+            prices: [listing('cinemaworld', 'cw0133093', 12.5), listing('filmworld', 'fw0133093', 13.5)],
+            cheapestPrice: listing('cinemaworld', 'cw0133093', 12.5)
+        };
+
+        test('replaces the provider price and recomputes the cheapest', () => {
+            const updated = applyPriceChange(matrix, change());
+
+            expect(updated.prices[1]).toEqual({ ...listing('filmworld', 'fw0133093', 11.5), provider: 'Filmworld', lastUpdated: '2023-01-02T00:00:00Z' });
+            expect(updated.cheapestPrice).toBe(updated.prices[1]);
+            expect(matrix.prices[1].price).toBe(13.5);
+        });
+
+        test('adds a newly listed price and removes a delisted one', () => {
+            const added = applyPriceChange(matrix, change({ providerId: 'moviemax', providerMovieId: 'mm1', previousPrice: null, price: 9.5, fromCache: true }));
+            const removed = applyPriceChange(matrix, change({ providerId: 'cinemaworld', providerMovieId: 'cw0133093', price: null, removed: true }));
+
+            expect(added.prices).toHaveLength(3);
+            expect(added.cheapestPrice).toMatchObject({ providerId: 'moviemax', price: 9.5, fromCache: true });
+            expect(removed.prices.map(price => price.providerId)).toEqual(['filmworld']);
+            expect(removed.cheapestPrice?.price).toBe(13.5);
+        });
+
+        test('drops the cheapest price when no provider has one left', () => {
+            const single: MovieComparison = { ...matrix, prices: [matrix.prices[0]] };
+
+            const updated = applyPriceChange(single, change({ providerId: 'cinemaworld', providerMovieId: 'cw0133093', price: null }));
+
+            expect(updated.prices[0].price).toBeNull();
+            expect(updated).not.toHaveProperty('cheapestPrice');
+        });
+
+        test('returns other movies untouched', () => {
+            const inception = { ...matrix, id: 'inception-2010' };
+
+            expect(applyPriceChange(inception, change())).toBe(inception);
+        });
+    });
+
+    describe('getPriceFlash', () => {
+        test('follows the direction of the move', () => {
+            expect(getPriceFlash(change())).toBe('down');
+            expect(getPriceFlash(change({ price: 15 }))).toBe('up');
+            expect(getPriceFlash(change({ previousPrice: null }))).toBe('new');
+        });
+
+        test('has nothing to flash when the price went away', () => {
+            expect(getPriceFlash(change({ price: null }))).toBeUndefined();
+            expect(getPriceFlash(change({ price: null, removed: true }))).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import { ProviderPriceHistory } from '../../services/priceHistory';
+import { cheapestAt, getCheapestSeries, getPriceInsights, getProviderSeries, priceAt, toPolyline } from '../priceInsights';
+
+const history = (providerId: string, snapshots: [number, number][], lastSeenAt: number): ProviderPriceHistory => ({
+    key: `The Matrix::${providerId}`,
+    movieKey: 'The Matrix',
+    providerId,
+    provider: providerId,
+    snapshots: snapshots.map(([recordedAt, price]) => ({ recordedAt, price })),
+    lastSeenAt
+});
+
+const cinemaworld = history('cinemaworld', [[1000, 15], [3000, 12]], 4000);
+const filmworld = history('filmworld', [[2000, 14]], 2000);
+
+describe('priceInsights', () => {
+    test('priceAt returns the last price recorded before the given time', () => {
+        expect(priceAt(cinemaworld, 500)).toBeUndefined();
+        expect(priceAt(cinemaworld, 2500)).toBe(15);
+        expect(priceAt(cinemaworld, 3000)).toBe(12);
+    });
+
+    test('priceAt ignores providers after they stopped listing the movie', () => {
+        expect(priceAt(filmworld, 2500)).toBeUndefined();
+    });
+
+    test('cheapestAt takes the best price across providers', () => {
+        expect(cheapestAt([cinemaworld, filmworld], 2000)).toBe(14);
+        expect(cheapestAt([cinemaworld, filmworld], 500)).toBeUndefined();
+    });
+
+    test('getProviderSeries extends the last price to the last sighting', () => {
+        expect(getProviderSeries(cinemaworld)).toEqual([
+            { time: 1000, price: 15 },
+            { time: 3000, price: 12 },
+            { time: 4000, price: 12 }
+        ]);
+        expect(getProviderSeries(filmworld)).toEqual([{ time: 2000, price: 14 }]);
+    });
+
+    test('getCheapestSeries follows the best price over time', () => {
+        expect(getCheapestSeries([cinemaworld, filmworld])).toEqual([
+            { time: 1000, price: 15 },
+            { time: 2000, price: 14 },
+            { time: 3000, price: 12 },
+            { time: 4000, price: 12 }
+        ]);
+    });
+
+    describe('getPriceInsights', () => {
+        test('flags the lowest price seen once the price has come down', () => {
+            expect(getPriceInsights([cinemaworld, filmworld], 12)).toMatchObject({ lowestSeen: 12, isLowestSeen: true });
+        });
+
+        test('does not flag a price that has never moved', () => {
+            expect(getPriceInsights([history('cinemaworld', [[1000, 15]], 5000)], 15).isLowestSeen).toBe(false);
+        });
+
+        test('flags a drop since the previous visit', () => {
+            expect(getPriceInsights([cinemaworld, filmworld], 12, 2000)).toMatchObject({
+                previousVisitPrice: 14,
+                droppedSinceVisit: true
+            });
+        });
+
+        test('does not flag a drop without a previous visit or a current price', () => {
+            expect(getPriceInsights([cinemaworld], 12).droppedSinceVisit).toBe(false);
+            expect(getPriceInsights([cinemaworld], undefined, 1000)).toMatchObject({ isLowestSeen: false, droppedSinceVisit: false });
+        });
+    });
+
+    test('toPolyline draws a step line scaled to the chart', () => {
+        const points = [{ time: 0, price: 10 }, { time: 10, price: 20 }];
+
+        expect(toPolyline(points, { minTime: 0, maxTime: 10, minPrice: 10, maxPrice: 20 }, 100, 50)).toBe('0,50 100,50 100,0');
+    });
+});
@@ -0,0 +1,86 @@
+import { ApiProvider } from '../../types/Provider';
+import {
+    EMPTY_PROVIDER_FORM,
+    fromProviderFormValues,
+    toProviderFormValues,
+    toProviderInput,
+    validateProviderForm
+} from '../providerForm';
+
+const provider: ApiProvider = {
+    id: 'cinemaworld',
+    name: 'cinemaworld',
+    displayName: 'Cinemaworld',
+    baseUrl: 'https://example.com/api/cinemaworld',
+    hasApiToken: true,
+    isEnabled: false,
+    priority: 2,
+    timeoutSeconds: 20,
+    endpoints: { movies: '/movies', movieDetail: '/movie/{id}' },
+    lastUpdated: '2023-01-01T00:00:00Z'
+};
+
+describe('providerForm', () => {
+    test('starts an edit form from the provider with a blank token', () => {
+        const values = toProviderFormValues(provider);
+
+        expect(values).toMatchObject({ displayName: 'Cinemaworld', priority: '2', timeoutSeconds: '20', isEnabled: false });
+        expect(values.apiToken).toBe('');
+    });
+
+    test('builds an update body that keeps the stored token', () => {
+        expect(toProviderInput(provider)).not.toHaveProperty('apiToken');
+        expect(toProviderInput(provider).endpoints).toEqual(provider.endpoints);
+    });
+
+    test('converts form values into a request body', () => {
+        const input = fromProviderFormValues({
+            ...EMPTY_PROVIDER_FORM,
+            id: ' moviemax ',
+            displayName: 'MovieMax',
+            baseUrl: 'https://example.com/api/moviemax',
+            priority: '3'
+        });
+
+        expect(input).toMatchObject({ id: 'moviemax', priority: 3, timeoutSeconds: 30 });
+        expect(input.apiToken).toBeUndefined();
+    });
+
+    test('accepts a complete form', () => {
+        expect(validateProviderForm({ ...toProviderFormValues(provider), apiToken: 'secret' }, false)).toEqual({});
+    });
+
+    test('reports every invalid field', () => {
+        const errors = validateProviderForm({
+            ...EMPTY_PROVIDER_FORM,
+            id: 'Movie Max',
+            baseUrl: 'ftp://example.com',
+            priority: '0',
+            timeoutSeconds: '2.5',
+            moviesEndpoint: ' ',
+            movieDetailEndpoint: '/movie'
+        }, true);
+
+        expect(Object.keys(errors).sort()).toEqual([
+            'baseUrl', 'displayName', 'id', 'movieDetailEndpoint', 'moviesEndpoint', 'priority', 'timeoutSeconds'
+        ]);
+    });
+
+    test('does not validate the id when editing', () => {
+        expect(validateProviderForm({ ...toProviderFormValues(provider), id: '' }, false).id).toBeUndefined();
+    });
+
+    test('asks for a new token when a stored token would move to a new base URL', () => {
+        const values = { ...toProviderFormValues(provider), baseUrl: 'https://attacker.example/api' };
+
+        expect(validateProviderForm(values, false, provider.baseUrl).apiToken).toBeDefined();
+        expect(validateProviderForm({ ...values, apiToken: 'new-secret' }, false, provider.baseUrl)).toEqual({});
+        expect(validateProviderForm(values, false)).toEqual({});
+    });
+
+    test('keeps the stored token when only a trailing slash changes', () => {
+        const values = { ...toProviderFormValues(provider), baseUrl: `${provider.baseUrl}/` };
+
+        expect(validateProviderForm(values, false, provider.baseUrl)).toEqual({});
+    });
+});
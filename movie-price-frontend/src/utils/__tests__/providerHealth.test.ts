@@ -0,0 +1,73 @@
+import { MovieComparison, PriceInfo } from '../../types/Movie';
+import {
+    DEFAULT_STALE_AFTER_MS,
+    formatLatency,
+    getLatencyBars,
+    getNewestPriceTime,
+    getPriceFreshness,
+    toStaleAfterMs
+} from '../providerHealth';
+
+const MINUTE = 60 * 1000;
+const now = Date.parse('2023-01-01T10:30:00Z');
+
+const price = (overrides: Partial<PriceInfo> = {}): PriceInfo => ({
+    providerId: 'cinemaworld',
+    provider: 'Cinemaworld',
+    movieId: 'cw001',
+    price: 15.99,
+    lastUpdated: '2023-01-01T10:25:00Z',
+    ...overrides
+});
+
+describe('providerHealth', () => {
+    test('getPriceFreshness marks prices older than the threshold as stale', () => {
+        expect(getPriceFreshness(price(), 10 * MINUTE, now)).toBe('fresh');
+        expect(getPriceFreshness(price({ lastUpdated: '2023-01-01T10:15:00Z' }), 10 * MINUTE, now)).toBe('stale');
+    });
+
+    test('getPriceFreshness prefers cached over stale', () => {
+        expect(getPriceFreshness(price({ fromCache: true }), 10 * MINUTE, now)).toBe('cached');
+        expect(getPriceFreshness(price({ fromCache: true, lastUpdated: '2022-12-01T00:00:00Z' }), 10 * MINUTE, now)).toBe('cached');
+    });
+
+    test('getPriceFreshness treats an unreadable timestamp as fresh', () => {
+        expect(getPriceFreshness(price({ lastUpdated: 'yesterday-ish' }), 10 * MINUTE, now)).toBe('fresh');
+    });
+
+    test('toStaleAfterMs falls back to the default until the API reports its threshold', () => {
+        expect(toStaleAfterMs(undefined)).toBe(DEFAULT_STALE_AFTER_MS);
+        expect(toStaleAfterMs(15)).toBe(15 * MINUTE);
+    });
+
+    test('getNewestPriceTime finds the latest price across movies and skips unreadable timestamps', () => {
+        const movie = (prices: PriceInfo[]): MovieComparison => ({ id: 'tt1', title: 'The Matrix', year: '1999', prices });
+
+        expect(getNewestPriceTime([
+            movie([price(), price({ lastUpdated: 'yesterday-ish' })]),
+            movie([price({ lastUpdated: '2023-01-01T10:28:00Z' })])
+        ])).toBe(Date.parse('2023-01-01T10:28:00Z'));
+        expect(getNewestPriceTime([movie([price({ lastUpdated: 'yesterday-ish' })])])).toBeUndefined();
+        expect(getNewestPriceTime([])).toBeUndefined();
+    });
+
+    test('formatLatency switches to seconds from one second', () => {
+        expect(formatLatency(120.4)).toBe('120 ms');
+        expect(formatLatency(30000)).toBe('30.0 s');
+    });
+
+    test('getLatencyBars scales bars to the slowest call', () => {
+        const bars = getLatencyBars([
+            { at: '2023-01-01T10:00:00Z', latencyMs: 50, succeeded: true },
+            { at: '2023-01-01T10:05:00Z', latencyMs: 100, succeeded: false },
+            { at: '2023-01-01T10:10:00Z', latencyMs: 0, succeeded: true }
+        ], 30, 20, 0);
+
+        expect(bars).toEqual([
+            { x: 0, y: 10, width: 10, height: 10, succeeded: true },
+            { x: 10, y: 0, width: 10, height: 20, succeeded: false },
+            { x: 20, y: 19, width: 10, height: 1, succeeded: true }
+        ]);
+        expect(getLatencyBars([], 30, 20)).toEqual([]);
+    });
+});
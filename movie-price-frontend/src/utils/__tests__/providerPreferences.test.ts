@@ -0,0 +1,69 @@
+import { MovieDetail, PriceInfo } from '../../types/Movie';
+import {
+    applyProviderPreferences,
+    getPreferredCheapestPrice,
+    NO_PROVIDER_PREFERENCES,
+    rankPrices
+} from '../providerPreferences';
+
+const price = (providerId: string, value: number | null): PriceInfo => ({
+    providerId,
+    provider: providerId,
+    movieId: `${providerId}-id`,
+    price: value,
+    lastUpdated: '2023-01-01T00:00:00Z'
+});
+
+const prices = [price('cinemaworld', 15.99), price('filmworld', 14.99), price('moviemax', 12)];
+const providerIds = (list: PriceInfo[]) => list.map(item => item.providerId);
+
+describe('providerPreferences', () => {
+    test('rankPrices drops hidden providers and puts pinned first and down-ranked last', () => {
+        expect(providerIds(rankPrices(prices, { moviemax: 'pinned', cinemaworld: 'downRanked' })))
+            .toEqual(['moviemax', 'filmworld', 'cinemaworld']);
+        expect(providerIds(rankPrices(prices, { filmworld: 'hidden' }))).toEqual(['cinemaworld', 'moviemax']);
+        expect(rankPrices(prices, NO_PROVIDER_PREFERENCES)).toEqual(prices);
+    });
+
+    describe('getPreferredCheapestPrice', () => {
+        test('is the cheapest price without preferences', () => {
+            expect(getPreferredCheapestPrice(prices, NO_PROVIDER_PREFERENCES)?.providerId).toBe('moviemax');
+        });
+
+        test('prefers a pinned provider that has a price, even a dearer one', () => {
+            expect(getPreferredCheapestPrice(prices, { cinemaworld: 'pinned' })?.providerId).toBe('cinemaworld');
+            expect(getPreferredCheapestPrice([...prices, price('stream', null)], { stream: 'pinned' })?.providerId)
+                .toBe('moviemax');
+        });
+
+        test('only falls back to down-ranked providers when nobody else has a price', () => {
+            expect(getPreferredCheapestPrice(prices, { moviemax: 'downRanked' })?.providerId).toBe('filmworld');
+            expect(getPreferredCheapestPrice([price('cinemaworld', null), price('moviemax', 12)], { moviemax: 'downRanked' })?.providerId)
+                .toBe('moviemax');
+        });
+
+        test('never picks a hidden provider', () => {
+            expect(getPreferredCheapestPrice(prices, { moviemax: 'hidden', filmworld: 'hidden', cinemaworld: 'hidden' }))
+                .toBeUndefined();
+        });
+    });
+
+    test('applyProviderPreferences recomputes the best price instead of trusting the API', () => {
+        const movie: MovieDetail = {
+            id: '1',
+            title: 'The Matrix',
+            prices,
+            cheapestPrice: prices[1],
+            updatedAt: '2023-01-02T00:00:00Z'
+        };
+
+        expect(applyProviderPreferences(movie, NO_PROVIDER_PREFERENCES).cheapestPrice).toEqual(prices[2]);
+
+        const preferred = applyProviderPreferences(movie, { moviemax: 'hidden' });
+        expect(preferred).toEqual({ ...movie, prices: [prices[0], prices[1]], cheapestPrice: prices[1] });
+
+        const nothingLeft = applyProviderPreferences(movie, { moviemax: 'hidden', filmworld: 'hidden', cinemaworld: 'hidden' });
+        expect(nothingLeft.prices).toEqual([]);
+        expect(nothingLeft).not.toHaveProperty('cheapestPrice');
+    });
+});
@@ -0,0 +1,18 @@
+import { isMovieDetailPath, isMovieListPath } from '../serviceWorkerRoutes';
+
+describe('serviceWorkerRoutes', () => {
+    test('matches the movie list', () => {
+        expect(isMovieListPath('/api/movies')).toBe(true);
+        expect(isMovieListPath('/api/movies/tt0133093')).toBe(false);
+    });
+
+    test('matches movie details', () => {
+        expect(isMovieDetailPath('/api/movies/tt0133093')).toBe(true);
+        expect(isMovieDetailPath('/api/movies')).toBe(false);
+        expect(isMovieDetailPath('/api/movies/tt0133093/posters/cinemaworld')).toBe(false);
+    });
+
+    test('leaves the live price stream to the network', () => {
+        expect(isMovieDetailPath('/api/movies/events')).toBe(false);
+    });
+});
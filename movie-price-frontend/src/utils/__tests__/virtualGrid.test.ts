@@ -0,0 +1,74 @@
+import { getNavigationTarget, getRowOffsets, getVisibleRows } from '../virtualGrid';
+
+describe('getRowOffsets', () => {
+    test('uses measured heights and the estimate for the rest', () => {
+        const offsets = getRowOffsets(4, new Map([[1, 300]]), 500);
+
+        expect(offsets).toEqual([0, 500, 800, 1300, 1800]);
+    });
+
+    test('returns only the zero total for an empty grid', () => {
+        expect(getRowOffsets(0, new Map(), 500)).toEqual([0]);
+    });
+});
+
+describe('getVisibleRows', () => {
+    const offsets = [0, 100, 200, 300, 400, 500, 600, 700, 800, 900, 1000];
+
+    test('returns the rows overlapping the viewport', () => {
+        expect(getVisibleRows(offsets, 250, 200, 0)).toEqual([2, 4]);
+    });
+
+    test('widens the range by the overscan and clamps to the grid', () => {
+        expect(getVisibleRows(offsets, 250, 200, 1)).toEqual([1, 5]);
+        expect(getVisibleRows(offsets, 0, 150, 3)).toEqual([0, 4]);
+        expect(getVisibleRows(offsets, 950, 500, 3)).toEqual([6, 9]);
+    });
+
+    test('keeps the last row when scrolled past the end', () => {
+        expect(getVisibleRows(offsets, 5000, 200, 0)).toEqual([9, 9]);
+    });
+
+    test('returns an empty range when there are no rows', () => {
+        const [first, last] = getVisibleRows([0], 0, 800, 2);
+
+        expect(first).toBeGreaterThan(last);
+    });
+});
+
+describe('getNavigationTarget', () => {
+    // Three columns, eight items: the last row holds items 6 and 7.
+    const target = (index: number, key: string, ctrlKey = false) => getNavigationTarget(index, key, 3, 8, ctrlKey);
+
+    test('moves one cell with the arrow keys', () => {
+        expect(target(4, 'ArrowLeft')).toBe(3);
+        expect(target(4, 'ArrowRight')).toBe(5);
+        expect(target(4, 'ArrowUp')).toBe(1);
+        expect(target(4, 'ArrowDown')).toBe(7);
+    });
+
+    test('wraps left and right across rows but stops at the ends', () => {
+        expect(target(3, 'ArrowLeft')).toBe(2);
+        expect(target(2, 'ArrowRight')).toBe(3);
+        expect(target(0, 'ArrowLeft')).toBeUndefined();
+        expect(target(7, 'ArrowRight')).toBeUndefined();
+        expect(target(1, 'ArrowUp')).toBeUndefined();
+        expect(target(6, 'ArrowDown')).toBeUndefined();
+    });
+
+    test('moves down into a shorter last row', () => {
+        expect(target(5, 'ArrowDown')).toBe(7);
+    });
+
+    test('goes to the ends of the row, or of the grid with Ctrl', () => {
+        expect(target(4, 'Home')).toBe(3);
+        expect(target(4, 'End')).toBe(5);
+        expect(target(6, 'End')).toBe(7);
+        expect(target(4, 'Home', true)).toBe(0);
+        expect(target(4, 'End', true)).toBe(7);
+    });
+
+    test('ignores other keys', () => {
+        expect(target(4, 'Enter')).toBeUndefined();
+    });
+});
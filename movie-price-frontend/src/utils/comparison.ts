@@ -0,0 +1,95 @@
+import { MovieComparison } from '../types/Movie';
+
+export const MIN_COMPARED_MOVIES = 2;
+export const MAX_COMPARED_MOVIES = 6;
+
+export interface ProviderColumn {
+  providerId: string;
+  provider: string;
+}
+
+export interface ProviderBasket extends ProviderColumn {
+  /** Sum over every compared movie; undefined when the provider lacks a price for some of them. */
+  total?: number;
+  missing: number;
+}
+
+export interface PriceMatrix {
+  providers: ProviderColumn[];
+  /** `prices[movieIndex][providerIndex]`; undefined where the provider has no price. */
+  prices: (number | undefined)[][];
+  /** Cheapest provider for the movie. */
+  isCheapestInRow: (movieIndex: number, providerIndex: number) => boolean;
+  /** Cheapest movie at the provider. */
+  isCheapestInColumn: (movieIndex: number, providerIndex: number) => boolean;
+  /** One per provider, in column order. */
+  baskets: ProviderBasket[];
+  /** The single provider that sells every movie for the least, if any sells them all. */
+  cheapestBasket?: ProviderBasket;
+  /** Buying each movie from whichever provider is cheapest for it. */
+  bestMixTotal?: number;
+}
+
+const minOf = (values: (number | undefined)[]) => {
+  const defined = values.filter((value): value is number => value !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+};
+
+const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+
+/** Lines up provider prices for the compared movies: one row per movie, one column per provider. */
+export const buildPriceMatrix = (movies: MovieComparison[]): PriceMatrix => {
+  const columns = new Map<string, ProviderColumn>();
+  movies.forEach(movie => movie.prices.forEach(({ providerId, provider }) => {
+    if (!columns.has(providerId)) {
+      columns.set(providerId, { providerId, provider });
+    }
+  }));
+  const providers = Array.from(columns.values()).sort((a, b) => a.provider.localeCompare(b.provider));
+
+  const prices = movies.map(movie => providers.map(({ providerId }) =>
+    movie.prices.find(price => price.providerId === providerId)?.price ?? undefined
+  ));
+  const rowMinimums = prices.map(row => minOf(row));
+  const columnMinimums = providers.map((_, providerIndex) => minOf(prices.map(row => row[providerIndex])));
+
+  const baskets = providers.map((provider, providerIndex): ProviderBasket => {
+    const listed = prices
+      .map(row => row[providerIndex])
+      .filter((price): price is number => price !== undefined);
+    const missing = movies.length - listed.length;
+    return { ...provider, missing, total: missing === 0 ? sum(listed) : undefined };
+  });
+  const cheapestBasket = baskets
+    .filter(basket => basket.total !== undefined)
+    .sort((a, b) => a.total! - b.total!)[0];
+  const bestMixTotal = movies.length > 0 && rowMinimums.every(price => price !== undefined)
+    ? sum(rowMinimums as number[])
+    : undefined;
+
+  return {
+    providers,
+    prices,
+    isCheapestInRow: (movieIndex, providerIndex) => {
+      const price = prices[movieIndex][providerIndex];
+      return price !== undefined && price === rowMinimums[movieIndex];
+    },
+    isCheapestInColumn: (movieIndex, providerIndex) => {
+      const price = prices[movieIndex][providerIndex];
+      return price !== undefined && price === columnMinimums[providerIndex];
+    },
+    baskets,
+    cheapestBasket,
+    bestMixTotal,
+  };
+};
+
+// Selected movies travel in the URL, one `movie` parameter each, so a
+// comparison can be shared. Titles may contain commas, hence no joined list.
+const COMPARE_PARAM = 'movie';
+
+export const parseComparedKeys = (params: URLSearchParams) =>
+  Array.from(new Set(params.getAll(COMPARE_PARAM).filter(Boolean))).slice(0, MAX_COMPARED_MOVIES);
+
+export const comparedKeysToSearchParams = (keys: string[]) =>
+  new URLSearchParams(keys.map(key => [COMPARE_PARAM, key]));
@@ -0,0 +1,26 @@
+/** Currency every provider quotes in; prices are compared and stored in it. */
+export const BASE_CURRENCY = 'AUD';
+
+/** Units of each currency per one unit of BASE_CURRENCY. */
+export type ExchangeRates = Record<string, number>;
+
+/**
+ * Used until config.json is loaded, and in tests. Deployments set their own
+ * table as exchangeRates in config.json; rates are only used for display, so
+ * rough ones are fine.
+ */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  AUD: 1,
+  NZD: 1.09,
+  USD: 0.66,
+  GBP: 0.52,
+  EUR: 0.61,
+};
+
+/** Converts a base-currency amount for display; unknown currencies are left unconverted. */
+export const convertFromBase = (amount: number, currency: string, rates: ExchangeRates) =>
+  amount * (rates[currency] ?? 1);
+
+/** Inverse of convertFromBase, for amounts the user types in their display currency. */
+export const convertToBase = (amount: number, currency: string, rates: ExchangeRates) =>
+  amount / (rates[currency] ?? 1);
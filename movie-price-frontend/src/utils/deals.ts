@@ -0,0 +1,60 @@
+import { PriceInfo } from '../types/Movie';
+
+export interface Deal {
+  cheapest: number;
+  mostExpensive: number;
+  /** What the cheapest provider saves over the most expensive one. */
+  saving: number;
+  /** The saving as a percentage of the most expensive price, 0-100. */
+  savingPercent: number;
+  /** Standard deviation of the provider prices: 0 when they all agree. */
+  spread: number;
+  /**
+   * 0-100: how far the cheapest price sits below the average of all of them,
+   * where a quarter below the average or more scores 100. Comparable across movies
+   * whatever their price or number of providers.
+   */
+  score: number;
+  /** Providers with a price. */
+  providerCount: number;
+}
+
+// Providers rarely undercut each other by more than a quarter, so that already counts as the best deal.
+const FULL_SCORE_DISCOUNT = 0.25;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Deal figures for one movie, or undefined when fewer than two providers price it, as there is nothing to compare.
+ * Like getCheapestPrice, a price of zero or less counts as no price.
+ */
+export const getDeal = (prices: PriceInfo[]): Deal | undefined => {
+  const values = prices
+    .map(price => price.price)
+    .filter((price): price is number => price !== null && price > 0);
+  if (values.length < 2) {
+    return undefined;
+  }
+
+  const cheapest = Math.min(...values);
+  const mostExpensive = Math.max(...values);
+  const mean = values.reduce((total, value) => total + value, 0) / values.length;
+  const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / values.length;
+  const discount = (mean - cheapest) / mean;
+
+  return {
+    cheapest,
+    mostExpensive,
+    saving: roundMoney(mostExpensive - cheapest),
+    savingPercent: ((mostExpensive - cheapest) / mostExpensive) * 100,
+    spread: roundMoney(Math.sqrt(variance)),
+    score: Math.round(Math.min(1, discount / FULL_SCORE_DISCOUNT) * 100),
+    providerCount: values.length,
+  };
+};
+
+export const getDealScore = (prices: PriceInfo[]) => getDeal(prices)?.score;
+
+/** What buying every movie from its cheapest provider saves over buying each from its most expensive. */
+export const getTotalSaving = (priceLists: PriceInfo[][]) =>
+  roundMoney(priceLists.reduce((total, prices) => total + (getDeal(prices)?.saving ?? 0), 0));
@@ -0,0 +1,79 @@
+import { MovieComparison } from '../types/Movie';
+
+type ExportedMovie = Pick<MovieComparison, 'id' | 'title' | 'year' | 'prices' | 'cheapestPrice'>;
+
+export const CSV_HEADER = [
+  'movieId',
+  'title',
+  'year',
+  'providerId',
+  'provider',
+  'providerMovieId',
+  'price',
+  'lastUpdated',
+  'fromCache',
+  'cheapest',
+];
+
+// Spreadsheets run cells starting with these as formulas, so such text is quoted as a literal.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvValue = (value: string | number | boolean | null | undefined) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per movie and provider, prices in the base currency with a `.`
+ * decimal point so spreadsheets in any locale read them as numbers. A movie no
+ * provider prices still gets a row, with the provider columns empty.
+ */
+export const toCsv = (movies: ExportedMovie[]): string => {
+  const rows = movies.flatMap(movie => {
+    const movieColumns = [movie.id, movie.title, movie.year];
+    if (movie.prices.length === 0) {
+      return [movieColumns];
+    }
+    return movie.prices.map(price => [
+      ...movieColumns,
+      price.providerId,
+      price.provider,
+      price.movieId,
+      price.price,
+      price.lastUpdated,
+      price.fromCache ?? false,
+      price.providerId === movie.cheapestPrice?.providerId,
+    ]);
+  });
+  return [CSV_HEADER, ...rows]
+    .map(row => CSV_HEADER.map((_, index) => toCsvValue(row[index])).join(','))
+    .join('\r\n') + '\r\n';
+};
+
+/** The data exactly as the API returned it, so it reads back as the types in types/Movie.ts. */
+export const toJson = (data: unknown) => JSON.stringify(data, null, 2);
+
+/** `movie-prices-2026-10-19.csv`, dated in local time so the name matches the analyst's calendar. */
+export const getExportFileName = (name: string, extension: 'csv' | 'json', date = new Date()) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${name}-${day}.${extension}`;
+};
+
+// Some browsers start the download after click() returns, so the URL must outlive it.
+const REVOKE_DELAY_MS = 10 * 1000;
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,37 @@
+import { translate } from '../i18n/translate';
+import { DisplayPreferences, preferences } from '../services/preferences';
+import { getExchangeRates } from '../services/runtimeConfig';
+import { convertFromBase } from './currency';
+
+// Prices arrive in BASE_CURRENCY and are converted only here, at display time.
+// Without explicit options the shopper's saved locale and currency are used.
+
+export const formatPrice = (price: number | null | undefined, options: DisplayPreferences = preferences.getSnapshot()) => {
+  if (typeof price !== 'number' || !isFinite(price)) {
+    return translate(options.locale, 'common.priceUnavailable');
+  }
+  return new Intl.NumberFormat(options.locale, { style: 'currency', currency: options.currency })
+    .format(convertFromBase(price, options.currency, getExchangeRates()));
+};
+
+export const formatDateTime = (value: string, { locale }: DisplayPreferences = preferences.getSnapshot()) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(date);
+};
+
+export const formatDate = (time: number, { locale }: DisplayPreferences = preferences.getSnapshot()) =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(new Date(time));
+
+const RELATIVE_TIME_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+];
+
+/** "3 hours ago"; anything under a minute reads as "now". */
+export const formatRelativeTime = (time: number, { locale }: DisplayPreferences = preferences.getSnapshot(), now = Date.now()) => {
+  const elapsed = time - now;
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  const unit = RELATIVE_TIME_UNITS.find(([, ms]) => Math.abs(elapsed) >= ms);
+  return unit ? formatter.format(Math.round(elapsed / unit[1]), unit[0]) : formatter.format(0, 'second');
+};
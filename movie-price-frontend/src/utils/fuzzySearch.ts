@@ -0,0 +1,72 @@
+import { MovieComparison } from '../types/Movie';
+
+export interface MovieMatch {
+  movie: MovieComparison;
+  score: number;
+}
+
+// Accents and case never matter: "amelie" finds "Amélie".
+const normalise = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const isWordStart = (text: string, index: number) => index === 0 || !/[a-z0-9]/.test(text[index - 1]);
+
+/**
+ * How well `query` matches `text` when its letters appear in order, not
+ * necessarily together: "mtrx" matches "The Matrix". Letters that start a
+ * word or follow the previous match score higher, and the whole query
+ * appearing as is scores highest. Undefined when it does not match at all;
+ * spaces in the query are ignored.
+ */
+export const fuzzyScore = (query: string, text: string): number | undefined => {
+  const needle = normalise(query).replace(/\s+/g, '');
+  const haystack = normalise(text);
+  if (needle === '') {
+    return 0;
+  }
+
+  let score = 0;
+  let previous = -2;
+  let position = 0;
+  for (const character of needle) {
+    const index = haystack.indexOf(character, position);
+    if (index === -1) {
+      return undefined;
+    }
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (isWordStart(haystack, index)) score += 5;
+    previous = index;
+    position = index + 1;
+  }
+
+  const exact = haystack.indexOf(normalise(query).trim());
+  if (exact !== -1) {
+    score += isWordStart(haystack, exact) ? 20 : 10;
+  }
+  return score;
+};
+
+// A title match outranks the same match among the actors or the director.
+const TITLE_WEIGHT = 2;
+
+/** Movies whose title, actors or director match the query, best first, at most `limit` of them. */
+export const searchMovies = (movies: MovieComparison[], query: string, limit: number): MovieMatch[] => {
+  if (query.trim() === '') {
+    return [];
+  }
+  const matches: MovieMatch[] = [];
+  movies.forEach(movie => {
+    const scores = [
+      (fuzzyScore(query, movie.title) ?? -1) * TITLE_WEIGHT,
+      fuzzyScore(query, movie.actors ?? '') ?? -1,
+      fuzzyScore(query, movie.director ?? '') ?? -1,
+    ];
+    const score = Math.max(...scores);
+    if (score >= 0) {
+      matches.push({ movie, score });
+    }
+  });
+  return matches
+    .sort((a, b) => b.score - a.score || a.movie.title.localeCompare(b.movie.title))
+    .slice(0, limit);
+};
@@ -0,0 +1,127 @@
+import { MessageKey } from '../i18n/translate';
+import { MovieComparison } from '../types/Movie';
+import { getDealScore } from './deals';
+
+export type MovieSortKey = '' | 'title' | 'year' | 'rating' | 'price' | 'deal';
+
+export interface MovieFilters {
+  query: string;
+  genre: string;
+  yearFrom?: number;
+  yearTo?: number;
+  minRating?: number;
+  sort: MovieSortKey;
+}
+
+export const SORT_OPTIONS: { value: MovieSortKey; label: MessageKey }[] = [
+  { value: '', label: 'sort.default' },
+  { value: 'title', label: 'sort.title' },
+  { value: 'year', label: 'sort.year' },
+  { value: 'rating', label: 'sort.rating' },
+  { value: 'price', label: 'sort.price' },
+  { value: 'deal', label: 'sort.deal' },
+];
+
+export const EMPTY_FILTERS: MovieFilters = { query: '', genre: '', sort: '' };
+
+const SORT_KEYS = SORT_OPTIONS.map(option => option.value);
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const parseFilters = (params: URLSearchParams): MovieFilters => {
+  const sort = params.get('sort') ?? '';
+  return {
+    query: params.get('q') ?? '',
+    genre: params.get('genre') ?? '',
+    yearFrom: parseNumber(params.get('yearFrom')),
+    yearTo: parseNumber(params.get('yearTo')),
+    minRating: parseNumber(params.get('minRating')),
+    sort: SORT_KEYS.includes(sort as MovieSortKey) ? (sort as MovieSortKey) : '',
+  };
+};
+
+// Only non-default values are written so shared links stay short.
+export const filtersToSearchParams = (filters: MovieFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  if (filters.genre) params.set('genre', filters.genre);
+  if (filters.yearFrom !== undefined) params.set('yearFrom', String(filters.yearFrom));
+  if (filters.yearTo !== undefined) params.set('yearTo', String(filters.yearTo));
+  if (filters.minRating !== undefined) params.set('minRating', String(filters.minRating));
+  if (filters.sort) params.set('sort', filters.sort);
+  return params;
+};
+
+export const hasActiveFilters = (filters: MovieFilters) =>
+  filtersToSearchParams({ ...filters, sort: '' }).toString() !== '';
+
+const splitList = (value?: string) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const parseYear = (movie: MovieComparison) => {
+  const year = parseInt(movie.year ?? '', 10);
+  return isNaN(year) ? undefined : year;
+};
+
+const parseRating = (movie: MovieComparison) => {
+  const rating = parseFloat(movie.rating ?? '');
+  return isNaN(rating) ? undefined : rating;
+};
+
+export const getGenres = (movies: MovieComparison[]) =>
+  Array.from(new Set(movies.flatMap(movie => splitList(movie.genre)))).sort();
+
+const matchesFilters = (movie: MovieComparison, filters: MovieFilters) => {
+  const query = filters.query.trim().toLowerCase();
+  if (query) {
+    const haystack = [movie.title, movie.actors, movie.director].join(' ').toLowerCase();
+    if (!haystack.includes(query)) {
+      return false;
+    }
+  }
+
+  if (filters.genre && !splitList(movie.genre).some(genre => genre.toLowerCase() === filters.genre.toLowerCase())) {
+    return false;
+  }
+
+  if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+    const year = parseYear(movie);
+    if (year === undefined) return false;
+    if (filters.yearFrom !== undefined && year < filters.yearFrom) return false;
+    if (filters.yearTo !== undefined && year > filters.yearTo) return false;
+  }
+
+  if (filters.minRating !== undefined) {
+    const rating = parseRating(movie);
+    if (rating === undefined || rating < filters.minRating) return false;
+  }
+
+  return true;
+};
+
+// Movies missing the sort value always go to the end, whatever the direction.
+const compareOptional = (a: number | null | undefined, b: number | null | undefined, direction: 1 | -1) => {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1;
+  if (b == null) return -1;
+  return (a - b) * direction;
+};
+
+const comparators: Record<Exclude<MovieSortKey, ''>, (a: MovieComparison, b: MovieComparison) => number> = {
+  title: (a, b) => a.title.localeCompare(b.title),
+  year: (a, b) => compareOptional(parseYear(a), parseYear(b), -1),
+  rating: (a, b) => compareOptional(parseRating(a), parseRating(b), -1),
+  price: (a, b) => compareOptional(a.cheapestPrice?.price, b.cheapestPrice?.price, 1),
+  deal: (a, b) => compareOptional(getDealScore(a.prices), getDealScore(b.prices), -1),
+};
+
+export const applyFilters = (movies: MovieComparison[], filters: MovieFilters): MovieComparison[] => {
+  const filtered = movies.filter(movie => matchesFilters(movie, filters));
+  return filters.sort ? filtered.sort(comparators[filters.sort]) : filtered;
+};
@@ -0,0 +1,36 @@
+import { movieApi } from '../services/movieApi';
+import { MovieComparison } from '../types/Movie';
+
+// The path movieApi.getPosterUrl builds; the service worker matches the same one.
+const POSTER_PROXY_PATH = /\/api\/movies\/[^/]+\/posters\/[^/]+$/;
+
+/**
+ * The API sends CORS headers with proxied posters, so they load in CORS mode and
+ * a failed one keeps its real status instead of turning into an opaque response.
+ * Provider URLs linked directly may not, so they load as plain images.
+ */
+export const getPosterCrossOrigin = (src: string): 'anonymous' | undefined => {
+  try {
+    return POSTER_PROXY_PATH.test(new URL(src, window.location.href).pathname) ? 'anonymous' : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** The proxy rounds widths up to a size it keeps, so the rendered width at the screen's density is enough. */
+export const getPosterWidth = (cssWidth: number, pixelRatio = window.devicePixelRatio || 1) =>
+  Math.ceil(cssWidth * pixelRatio);
+
+/**
+ * Poster URLs to try in order: each provider's poster through the API's proxy,
+ * or the bare poster URL from servers (and mock fixtures) that list no candidates.
+ */
+export const getPosterSources = (
+  movie: Pick<MovieComparison, 'id' | 'poster' | 'posters'>,
+  width: number
+): string[] => {
+  if (movie.posters?.length) {
+    return movie.posters.map(candidate => movieApi.getPosterUrl(movie.id, candidate.providerId, width));
+  }
+  return movie.poster ? [movie.poster] : [];
+};
@@ -0,0 +1,96 @@
+import { MovieComparison, PriceChangeEvent, PriceInfo } from '../types/Movie';
+
+export interface PriceChange {
+  previous: number;
+  current: number;
+  direction: 'up' | 'down';
+}
+
+/** Cheapest-price moves from a refresh, keyed by getMovieKey. */
+export type PriceChanges = Record<string, PriceChange>;
+
+/** How a provider's price moved in a live update; `new` when it had no price before. */
+export type PriceFlash = 'up' | 'down' | 'new';
+
+/** Provider prices that just changed live, by getMovieKey and then providerId. */
+export type PriceFlashes = Record<string, Record<string, PriceFlash>>;
+
+// The canonical id is the same in the list and detail responses, so history,
+// the watchlist and comparisons all key on it.
+export const getMovieKey = (movie: { id: string }) => movie.id;
+
+const cheapestPrice = (movie: MovieComparison) => movie.cheapestPrice?.price ?? undefined;
+
+/**
+ * Compares the cheapest price of every movie present before and after a
+ * refresh. Movies that appeared, disappeared or lost their price are ignored:
+ * there is no move to show for them.
+ */
+export const diffCheapestPrices = (before: MovieComparison[], after: MovieComparison[]): PriceChanges => {
+  const previousPrices = new Map(before.map(movie => [getMovieKey(movie), cheapestPrice(movie)]));
+  const changes: PriceChanges = {};
+
+  after.forEach(movie => {
+    const key = getMovieKey(movie);
+    const previous = previousPrices.get(key);
+    const current = cheapestPrice(movie);
+    if (previous !== undefined && current !== undefined && previous !== current) {
+      changes[key] = { previous, current, direction: current > previous ? 'up' : 'down' };
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * The lowest positive price, absent when no provider has one. Stricter than
+ * the API, whose `MinBy(x => x.Price)` also picks zero or negative prices.
+ */
+export const getCheapestPrice = (prices: PriceInfo[]): PriceInfo | undefined =>
+  prices
+    .filter(price => price.price !== null && price.price > 0)
+    .reduce<PriceInfo | undefined>((cheapest, price) => (!cheapest || price.price! < cheapest.price! ? price : cheapest), undefined);
+
+/**
+ * Applies a live price change to one movie: the provider's price is replaced,
+ * added or removed, and `cheapestPrice` recomputed. Returns the movie itself
+ * when the change is for another movie.
+ */
+export const applyPriceChange = <T extends Pick<MovieComparison, 'id' | 'prices' | 'cheapestPrice'>>(
+  movie: T,
+  change: PriceChangeEvent
+): T => {
+  if (getMovieKey(movie) !== change.movieId) {
+    return movie;
+  }
+
+  const isChanged = (price: PriceInfo) => price.providerId === change.providerId && price.movieId === change.providerMovieId;
+  const updated: PriceInfo = {
+    providerId: change.providerId,
+    provider: change.provider,
+    movieId: change.providerMovieId,
+    price: change.price,
+    lastUpdated: change.lastUpdated,
+    ...(change.fromCache && { fromCache: true }),
+  };
+  const prices = change.removed
+    ? movie.prices.filter(price => !isChanged(price))
+    : movie.prices.some(isChanged)
+      ? movie.prices.map(price => (isChanged(price) ? updated : price))
+      : [...movie.prices, updated];
+
+  const { cheapestPrice: _previous, ...rest } = movie;
+  const cheapestPrice = getCheapestPrice(prices);
+  return { ...rest, prices, ...(cheapestPrice && { cheapestPrice }) } as T;
+};
+
+/** The flash for a change, or undefined when there is no price left to animate. */
+export const getPriceFlash = (change: PriceChangeEvent): PriceFlash | undefined => {
+  if (change.removed || change.price === null) {
+    return undefined;
+  }
+  if (change.previousPrice === null) {
+    return 'new';
+  }
+  return change.price > change.previousPrice ? 'up' : 'down';
+};
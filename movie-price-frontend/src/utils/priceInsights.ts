@@ -0,0 +1,120 @@
+import { ProviderPriceHistory } from '../services/priceHistory';
+
+export interface PricePoint {
+  time: number;
+  price: number;
+}
+
+export interface PriceInsights {
+  lowestSeen?: number;
+  /** The current price matches the lowest recorded and is below something seen earlier. */
+  isLowestSeen: boolean;
+  /** Cheapest price at the time of the previous visit, when one was recorded. */
+  previousVisitPrice?: number;
+  droppedSinceVisit: boolean;
+}
+
+/** The provider's price at `time`, or undefined before it was first seen or after it stopped listing the movie. */
+export const priceAt = (history: ProviderPriceHistory, time: number) => {
+  if (time > history.lastSeenAt) {
+    return undefined;
+  }
+  let price: number | undefined;
+  for (const snapshot of history.snapshots) {
+    if (snapshot.recordedAt > time) break;
+    price = snapshot.price;
+  }
+  return price;
+};
+
+export const cheapestAt = (histories: ProviderPriceHistory[], time: number) => {
+  const prices = histories
+    .map(history => priceAt(history, time))
+    .filter((price): price is number => price !== undefined);
+  return prices.length > 0 ? Math.min(...prices) : undefined;
+};
+
+/** One point per recorded change, plus the last sighting so flat stretches are drawn. */
+export const getProviderSeries = (history: ProviderPriceHistory): PricePoint[] => {
+  const points = history.snapshots.map(({ price, recordedAt }) => ({ time: recordedAt, price }));
+  const last = points[points.length - 1];
+  return last && history.lastSeenAt > last.time ? [...points, { time: history.lastSeenAt, price: last.price }] : points;
+};
+
+/** The best price across providers at every moment any of them changed. */
+export const getCheapestSeries = (histories: ProviderPriceHistory[]): PricePoint[] => {
+  const times = new Set<number>();
+  histories.forEach((history) => {
+    history.snapshots.forEach(snapshot => times.add(snapshot.recordedAt));
+    times.add(history.lastSeenAt);
+  });
+
+  const points: PricePoint[] = [];
+  Array.from(times).sort((a, b) => a - b).forEach((time) => {
+    const price = cheapestAt(histories, time);
+    if (price !== undefined) {
+      points.push({ time, price });
+    }
+  });
+  return points;
+};
+
+export const getPriceInsights = (
+  histories: ProviderPriceHistory[],
+  currentPrice: number | null | undefined,
+  previousVisitAt?: number
+): PriceInsights => {
+  const recorded = histories.flatMap(history => history.snapshots.map(snapshot => snapshot.price));
+  const lowestSeen = recorded.length > 0 ? Math.min(...recorded) : undefined;
+  const previousVisitPrice = previousVisitAt !== undefined ? cheapestAt(histories, previousVisitAt) : undefined;
+  const hasPrice = typeof currentPrice === 'number';
+
+  return {
+    lowestSeen,
+    isLowestSeen: hasPrice && lowestSeen !== undefined && currentPrice <= lowestSeen && Math.max(...recorded) > currentPrice,
+    previousVisitPrice,
+    droppedSinceVisit: hasPrice && previousVisitPrice !== undefined && currentPrice < previousVisitPrice,
+  };
+};
+
+export interface ChartBounds {
+  minTime: number;
+  maxTime: number;
+  minPrice: number;
+  maxPrice: number;
+}
+
+export const getChartBounds = (series: PricePoint[][]): ChartBounds | undefined => {
+  const points = series.flat();
+  if (points.length === 0) {
+    return undefined;
+  }
+  const times = points.map(point => point.time);
+  const prices = points.map(point => point.price);
+  return {
+    minTime: Math.min(...times),
+    maxTime: Math.max(...times),
+    minPrice: Math.min(...prices),
+    maxPrice: Math.max(...prices),
+  };
+};
+
+/**
+ * SVG polyline `points` for a step chart: prices hold until the next change.
+ * Flat ranges are drawn through the vertical middle.
+ */
+export const toPolyline = (points: PricePoint[], bounds: ChartBounds, width: number, height: number) => {
+  const timeSpan = bounds.maxTime - bounds.minTime;
+  const priceSpan = bounds.maxPrice - bounds.minPrice;
+  const x = (time: number) => (timeSpan > 0 ? ((time - bounds.minTime) / timeSpan) * width : width / 2);
+  const y = (price: number) => (priceSpan > 0 ? height - ((price - bounds.minPrice) / priceSpan) * height : height / 2);
+
+  const coordinates: string[] = [];
+  points.forEach((point, index) => {
+    if (index > 0) {
+      coordinates.push(`${x(point.time)},${y(points[index - 1].price)}`);
+    }
+    coordinates.push(`${x(point.time)},${y(point.price)}`);
+  });
+  return coordinates.join(' ');
+};
@@ -0,0 +1,124 @@
+import { MessageKey } from '../i18n/translate';
+import { ApiProvider, ApiProviderInput, NewApiProviderInput } from '../types/Provider';
+
+/** Raw field values of the provider form; numbers stay strings until submitted. */
+export interface ProviderFormValues {
+  id: string;
+  displayName: string;
+  baseUrl: string;
+  apiToken: string;
+  isEnabled: boolean;
+  priority: string;
+  timeoutSeconds: string;
+  moviesEndpoint: string;
+  movieDetailEndpoint: string;
+}
+
+/** Message keys, so the form shows each error in the shopper's language. */
+export type ProviderFormErrors = Partial<Record<keyof ProviderFormValues, MessageKey>>;
+
+export const EMPTY_PROVIDER_FORM: ProviderFormValues = {
+  id: '',
+  displayName: '',
+  baseUrl: '',
+  apiToken: '',
+  isEnabled: true,
+  priority: '1',
+  timeoutSeconds: '30',
+  moviesEndpoint: '/movies',
+  movieDetailEndpoint: '/movie/{id}',
+};
+
+// The token is write-only, so an edit form always starts with it blank.
+export const toProviderFormValues = (provider: ApiProvider): ProviderFormValues => ({
+  id: provider.id,
+  displayName: provider.displayName,
+  baseUrl: provider.baseUrl,
+  apiToken: '',
+  isEnabled: provider.isEnabled,
+  priority: String(provider.priority),
+  timeoutSeconds: String(provider.timeoutSeconds),
+  moviesEndpoint: provider.endpoints.movies,
+  movieDetailEndpoint: provider.endpoints.movieDetail,
+});
+
+/** Update body that leaves everything, including the stored token, as it is. */
+export const toProviderInput = (provider: ApiProvider): ApiProviderInput => ({
+  displayName: provider.displayName,
+  baseUrl: provider.baseUrl,
+  isEnabled: provider.isEnabled,
+  priority: provider.priority,
+  timeoutSeconds: provider.timeoutSeconds,
+  endpoints: { ...provider.endpoints },
+});
+
+export const fromProviderFormValues = (values: ProviderFormValues): NewApiProviderInput => ({
+  id: values.id.trim(),
+  displayName: values.displayName.trim(),
+  baseUrl: values.baseUrl.trim(),
+  apiToken: values.apiToken.trim() || undefined,
+  isEnabled: values.isEnabled,
+  priority: Number(values.priority),
+  timeoutSeconds: Number(values.timeoutSeconds),
+  endpoints: {
+    movies: values.moviesEndpoint.trim(),
+    movieDetail: values.movieDetailEndpoint.trim(),
+  },
+});
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const isIntegerBetween = (value: string, min: number, max: number) => {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isInteger(number) && number >= min && number <= max;
+};
+
+const normaliseBaseUrl = (value: string) => value.trim().replace(/\/+$/, '');
+
+/**
+ * Mirrors the backend request validation so most mistakes never leave the form.
+ * `storedTokenBaseUrl` is the saved base URL when a token is stored: the API
+ * refuses to send that token to a new host, so moving it needs a new token.
+ */
+export const validateProviderForm = (
+  values: ProviderFormValues,
+  isNew: boolean,
+  storedTokenBaseUrl?: string,
+): ProviderFormErrors => {
+  const errors: ProviderFormErrors = {};
+  if (isNew && !/^[a-z0-9-]+$/.test(values.id.trim())) {
+    errors.id = 'providerForm.invalidId';
+  }
+  if (!values.displayName.trim()) {
+    errors.displayName = 'providerForm.missingDisplayName';
+  }
+  if (!isHttpUrl(values.baseUrl.trim())) {
+    errors.baseUrl = 'providerForm.invalidBaseUrl';
+  } else if (
+    storedTokenBaseUrl !== undefined
+    && normaliseBaseUrl(values.baseUrl) !== normaliseBaseUrl(storedTokenBaseUrl)
+    && !values.apiToken.trim()
+  ) {
+    errors.apiToken = 'providerForm.newTokenNeeded';
+  }
+  if (!isIntegerBetween(values.priority, 1, 100)) {
+    errors.priority = 'providerForm.invalidPriority';
+  }
+  if (!isIntegerBetween(values.timeoutSeconds, 1, 300)) {
+    errors.timeoutSeconds = 'providerForm.invalidTimeout';
+  }
+  if (!values.moviesEndpoint.trim()) {
+    errors.moviesEndpoint = 'providerForm.missingMoviesEndpoint';
+  }
+  if (!values.movieDetailEndpoint.includes('{id}')) {
+    errors.movieDetailEndpoint = 'providerForm.invalidMovieDetailEndpoint';
+  }
+  return errors;
+};
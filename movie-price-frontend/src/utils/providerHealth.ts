@@ -0,0 +1,77 @@
+import { MessageKey } from '../i18n/translate';
+import { MovieComparison, PriceInfo } from '../types/Movie';
+import { ProviderHealthState, ProviderLatencySample } from '../types/Provider';
+
+const MINUTE = 60 * 1000;
+
+/** Used until /api/providers/status answers; mirrors the API's default MaxAgeMinutes. */
+export const DEFAULT_STALE_AFTER_MS = 10 * MINUTE;
+
+export const toStaleAfterMs = (staleAfterMinutes: number | undefined) =>
+  staleAfterMinutes === undefined ? DEFAULT_STALE_AFTER_MS : staleAfterMinutes * MINUTE;
+
+export type PriceFreshness = 'fresh' | 'stale' | 'cached';
+
+export const PRICE_FRESHNESS_LABELS: Record<Exclude<PriceFreshness, 'fresh'>, MessageKey> = {
+  stale: 'freshness.stale',
+  cached: 'freshness.cached',
+};
+
+/**
+ * A cached price is also old by definition, so 'cached' wins over 'stale':
+ * it says why the price is old, not just that it is.
+ */
+export const getPriceFreshness = (price: PriceInfo, staleAfterMs: number, now = Date.now()): PriceFreshness => {
+  if (price.fromCache) {
+    return 'cached';
+  }
+  const updatedAt = Date.parse(price.lastUpdated);
+  return !isNaN(updatedAt) && now - updatedAt > staleAfterMs ? 'stale' : 'fresh';
+};
+
+/** When the most recently updated price in the list was fetched, or undefined when none has a usable date. */
+export const getNewestPriceTime = (movies: MovieComparison[]): number | undefined => {
+  // Reduced rather than spread into Math.max: large catalogues hold tens of thousands of prices.
+  return movies
+    .flatMap(movie => movie.prices.map(price => Date.parse(price.lastUpdated)))
+    .reduce<number | undefined>((newest, time) => (isNaN(time) || (newest !== undefined && newest >= time) ? newest : time), undefined);
+};
+
+export const HEALTH_STATE_LABELS: Record<ProviderHealthState, MessageKey> = {
+  healthy: 'providerStatus.healthy',
+  failing: 'providerStatus.failing',
+  disabled: 'providerStatus.disabled',
+  unknown: 'providerStatus.unknown',
+};
+
+export const formatLatency = (latencyMs: number) => {
+  return latencyMs < 1000 ? `${Math.round(latencyMs)} ms` : `${(latencyMs / 1000).toFixed(1)} s`;
+};
+
+export interface LatencyBar {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  succeeded: boolean;
+}
+
+/** Lays samples out oldest first, scaled to the slowest one; failed calls keep their bar. */
+export const getLatencyBars = (samples: ProviderLatencySample[], width: number, height: number, gap = 2): LatencyBar[] => {
+  if (samples.length === 0) {
+    return [];
+  }
+  const maxLatency = Math.max(...samples.map(sample => sample.latencyMs), 1);
+  const slot = width / samples.length;
+  return samples.map((sample, index) => {
+    // Keep a sliver visible for near-zero latencies so every call shows up.
+    const barHeight = Math.max((sample.latencyMs / maxLatency) * height, 1);
+    return {
+      x: index * slot + gap / 2,
+      y: height - barHeight,
+      width: Math.max(slot - gap, 1),
+      height: barHeight,
+      succeeded: sample.succeeded,
+    };
+  });
+};
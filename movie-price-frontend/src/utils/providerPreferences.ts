@@ -0,0 +1,57 @@
+import { MovieComparison, PriceInfo } from '../types/Movie';
+import { getCheapestPrice } from './priceChanges';
+
+/** How much the user wants a provider's price, by PriceInfo.providerId. */
+export type ProviderRank = 'pinned' | 'normal' | 'downRanked' | 'hidden';
+
+/** Providers the user ranked; any other provider is 'normal'. */
+export type ProviderPreferences = Readonly<Record<string, Exclude<ProviderRank, 'normal'>>>;
+
+export const PROVIDER_RANKS: ProviderRank[] = ['pinned', 'normal', 'downRanked', 'hidden'];
+
+export const NO_PROVIDER_PREFERENCES: ProviderPreferences = {};
+
+const TIERS: Record<ProviderRank, number> = { pinned: 0, normal: 1, downRanked: 2, hidden: 3 };
+
+export const getProviderRank = (preferences: ProviderPreferences, providerId: string): ProviderRank =>
+  preferences[providerId] ?? 'normal';
+
+export const isProviderHidden = (preferences: ProviderPreferences, providerId: string) =>
+  preferences[providerId] === 'hidden';
+
+/** The prices the user can buy from, pinned providers first and down-ranked ones last, otherwise in API order. */
+export const rankPrices = (prices: PriceInfo[], preferences: ProviderPreferences): PriceInfo[] =>
+  prices
+    .filter(price => !isProviderHidden(preferences, price.providerId))
+    .map((price, index) => ({ price, index, tier: TIERS[getProviderRank(preferences, price.providerId)] }))
+    .sort((a, b) => a.tier - b.tier || a.index - b.index)
+    .map(({ price }) => price);
+
+/**
+ * The best price by the user's ranking: the cheapest pinned price if any
+ * pinned provider has one, else the cheapest normal price, and a down-ranked
+ * provider's only when nobody else has a price. Hidden providers never count.
+ */
+export const getPreferredCheapestPrice = (prices: PriceInfo[], preferences: ProviderPreferences) => {
+  for (const rank of ['pinned', 'normal', 'downRanked'] as const) {
+    const cheapest = getCheapestPrice(prices.filter(price => getProviderRank(preferences, price.providerId) === rank));
+    if (cheapest) {
+      return cheapest;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * The movie as this user sees it: hidden providers dropped, prices ranked and
+ * `cheapestPrice` recomputed from what is left rather than taken from the API.
+ */
+export const applyProviderPreferences = <T extends Pick<MovieComparison, 'prices' | 'cheapestPrice'>>(
+  movie: T,
+  preferences: ProviderPreferences
+): T => {
+  const prices = rankPrices(movie.prices, preferences);
+  const { cheapestPrice: _previous, ...rest } = movie;
+  const cheapestPrice = getPreferredCheapestPrice(prices, preferences);
+  return { ...rest, prices, ...(cheapestPrice && { cheapestPrice }) } as T;
+};
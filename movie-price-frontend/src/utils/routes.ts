@@ -0,0 +1,18 @@
+import { MovieComparison } from '../types/Movie';
+
+export const HOME_PATH = '/';
+export const MOVIE_DETAIL_PATH = '/movies/:id';
+export const WATCHLIST_PATH = '/watchlist';
+export const COMPARE_PATH = '/compare';
+/** Printable prices for the compared movies in the URL, or else for the list filters in it. */
+export const REPORT_PATH = '/report';
+export const PROVIDER_PREFERENCES_PATH = '/preferences/providers';
+export const PROVIDERS_PATH = '/admin/providers';
+export const NEW_PROVIDER_PATH = '/admin/providers/new';
+export const PROVIDER_EDIT_PATH = '/admin/providers/:id/edit';
+export const PROVIDER_STATUS_PATH = '/admin/providers/status';
+
+export const getMovieDetailPath = (movie: MovieComparison) => `/movies/${encodeURIComponent(movie.id)}`;
+
+export const getProviderEditPath = (providerId: string) =>
+  `${PROVIDERS_PATH}/${encodeURIComponent(providerId)}/edit`;
@@ -0,0 +1,11 @@
+// Path matchers for the service worker's runtime caches, kept free of app
+// imports so the worker bundle stays small.
+
+const MOVIE_DETAIL_PATH = /^\/api\/movies\/[^/]+$/;
+/** The live price stream shares the detail path's shape but never ends, so it must not be cached. */
+const MOVIE_EVENTS_PATH = '/api/movies/events';
+
+export const isMovieListPath = (pathname: string) => pathname === '/api/movies';
+
+export const isMovieDetailPath = (pathname: string) =>
+  MOVIE_DETAIL_PATH.test(pathname) && pathname !== MOVIE_EVENTS_PATH;
@@ -0,0 +1,73 @@
+/**
+ * Top of every row plus, at index `rowCount`, the total height. Rows without a
+ * measurement use the estimate.
+ */
+export const getRowOffsets = (rowCount: number, measured: Map<number, number>, estimatedRowHeight: number): number[] => {
+  const offsets = [0];
+  for (let row = 0; row < rowCount; row++) {
+    offsets.push(offsets[row] + (measured.get(row) ?? estimatedRowHeight));
+  }
+  return offsets;
+};
+
+/**
+ * First and last row (inclusive) overlapping the viewport, widened by
+ * `overscan` rows each way. Returns an empty range (first > last) when there
+ * are no rows.
+ */
+export const getVisibleRows = (
+  offsets: number[],
+  viewportTop: number,
+  viewportHeight: number,
+  overscan: number
+): [first: number, last: number] => {
+  const rowCount = offsets.length - 1;
+  if (rowCount === 0) {
+    return [0, -1];
+  }
+
+  let first = 0;
+  while (first < rowCount - 1 && offsets[first + 1] <= viewportTop) {
+    first++;
+  }
+  let last = first;
+  while (last < rowCount - 1 && offsets[last + 1] < viewportTop + viewportHeight) {
+    last++;
+  }
+
+  return [Math.max(0, first - overscan), Math.min(rowCount - 1, last + overscan)];
+};
+
+/**
+ * Index of the item a navigation key moves to from `index` in a grid of
+ * `count` items laid out `columns` to a row, or undefined for other keys and
+ * at the edges. Arrows move by one cell, Home and End go to the ends of the
+ * row, and with Ctrl to the ends of the whole grid. Down from a row above a
+ * shorter last row lands on its last item.
+ */
+export const getNavigationTarget = (
+  index: number,
+  key: string,
+  columns: number,
+  count: number,
+  ctrlKey = false
+): number | undefined => {
+  const rowStart = index - (index % columns);
+  const lastRowStart = (count - 1) - ((count - 1) % columns);
+  switch (key) {
+    case 'ArrowLeft':
+      return index > 0 ? index - 1 : undefined;
+    case 'ArrowRight':
+      return index < count - 1 ? index + 1 : undefined;
+    case 'ArrowUp':
+      return index >= columns ? index - columns : undefined;
+    case 'ArrowDown':
+      return rowStart < lastRowStart ? Math.min(index + columns, count - 1) : undefined;
+    case 'Home':
+      return ctrlKey ? 0 : rowStart;
+    case 'End':
+      return ctrlKey ? count - 1 : Math.min(rowStart + columns, count) - 1;
+    default:
+      return undefined;
+  }
+};